@@ -1,17 +1,28 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
 import { FishingGameEngineV8 } from '../lib/FishingGameEngineV8';
+import { Replay, decodeReplay } from '../lib/ReplayRecorder';
 
 export default function FishFiGameV8() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameRef = useRef<FishingGameEngineV8 | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [session, setSession] = useState(0);
   
   useEffect(() => {
     if (!canvasRef.current) return;
     
+    // ?table=ws://localhost:8787 joins a shared table (npm run table-server)
+    const params = new URLSearchParams(window.location.search);
+    const tableUrl = params.get('table');
+    
     // Initialize PIXI v8 game engine
-    const game = new FishingGameEngineV8(canvasRef.current);
+    const game = new FishingGameEngineV8(canvasRef.current, {
+      multiplayer: tableUrl ? { url: tableUrl, name: params.get('name') ?? undefined } : undefined,
+      replay: replay ?? undefined
+    });
     gameRef.current = game;
     
     // Start the game
@@ -19,7 +30,8 @@ export default function FishFiGameV8() {
     
     // Handle resize
     const handleResize = () => {
-      if (canvasRef.current) {
+      // Shared tables and replays keep their size; CSS stretches them
+      if (canvasRef.current && !tableUrl && !replay) {
         canvasRef.current.width = window.innerWidth;
         canvasRef.current.height = window.innerHeight;
       }
@@ -34,12 +46,39 @@ export default function FishFiGameV8() {
         gameRef.current.destroy();
       }
     };
-  }, []);
+  }, [replay, session]);
+  
+  // Downloads the session so far for a bug report
+  const saveReplay = () => {
+    const json = gameRef.current?.exportReplay();
+    if (!json) return;
+    
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    link.download = `fishfi-replay-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+  
+  const loadReplay = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    file.text()
+      .then(text => {
+        setReplay(decodeReplay(text));
+        setSession(current => current + 1);
+      })
+      .catch((error: Error) => window.alert(`Could not load replay: ${error.message}`));
+  };
   
   return (
     <div className="relative w-full h-screen overflow-hidden bg-black">
       {/* Game canvas */}
+      {/* Keyed so a new engine gets a fresh canvas (destroy removes the old one) */}
       <canvas 
+        key={session}
         ref={canvasRef}
         className="absolute inset-0 w-full h-full"
       />
@@ -52,6 +91,7 @@ export default function FishFiGameV8() {
           <div>🌊 Dynamic water effects</div>
           <div>🖱️ Move mouse to aim</div>
           <div>👆 Click to shoot</div>
+          <div>🎯 T lock-on / auto-fire, Y priority, [ ] fire rate</div>
           <div>💰 Hit fish for coins</div>
           <div>⬆️ Upgrade your cannon</div>
         </div>
@@ -65,6 +105,35 @@ export default function FishFiGameV8() {
           <div className="text-pink-400">🩷 Mythic - 1000 💰</div>
         </div>
       </div>
+      
+      {/* Replay controls: save this session for a bug report, or watch one */}
+      <div className="absolute bottom-16 right-4 flex gap-2 text-xs">
+        {replay ? (
+          <button
+            className="bg-black/80 border border-cyan-500/30 rounded-lg px-3 py-2 text-cyan-400 hover:bg-cyan-900/60"
+            onClick={() => {
+              setReplay(null);
+              setSession(current => current + 1);
+            }}
+          >
+            ⏹ Exit replay
+          </button>
+        ) : (
+          <button
+            className="bg-black/80 border border-cyan-500/30 rounded-lg px-3 py-2 text-cyan-400 hover:bg-cyan-900/60"
+            onClick={saveReplay}
+          >
+            💾 Save replay
+          </button>
+        )}
+        <button
+          className="bg-black/80 border border-cyan-500/30 rounded-lg px-3 py-2 text-cyan-400 hover:bg-cyan-900/60"
+          onClick={() => fileRef.current?.click()}
+        >
+          📂 Load replay
+        </button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={loadReplay} />
+      </div>
     </div>
   );
 }
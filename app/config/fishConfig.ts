@@ -101,9 +101,58 @@ export const PATTERNS = {
     description: 'Mystical symbols',
     complexity: 4,
     renderFunction: 'drawMysticPattern'
+  },
+  chevron: {
+    name: 'Chevron',
+    description: 'V-shaped bands along the body',
+    complexity: 2,
+    renderFunction: 'drawChevronPattern'
+  },
+  hexagonal: {
+    name: 'Hexagonal',
+    description: 'Honeycomb plate grid',
+    complexity: 3,
+    renderFunction: 'drawHexagonalPattern'
+  },
+  digital: {
+    name: 'Digital',
+    description: 'Pixel blocks and scanlines',
+    complexity: 3,
+    renderFunction: 'drawDigitalPattern'
+  },
+  glitch: {
+    name: 'Glitch',
+    description: 'Displaced, corrupted slices',
+    complexity: 4,
+    renderFunction: 'drawGlitchPattern'
   }
 } as const;
 
+/**
+ * Body shapes understood by the fish renderer
+ */
+export const BODY_SHAPES = [
+  'round',
+  'streamlined',
+  'diamond',
+  'massive',
+  'serpentine',
+  'flat',
+  'elongated',
+  'triangular',
+  'crescent',
+  'oval',
+  'compressed',
+  'cylindrical',
+  'asymmetrical',
+  'bulbous',
+  'spade',
+  'architectural',  // New artistic shapes
+  'deconstructed',
+  'tessellated',
+  'calligraphic'
+] as const;
+
 /**
  * Mutation definitions with visual effects
  */
@@ -197,6 +246,30 @@ export const MUTATIONS = {
     description: 'Plasma energy',
     effect: 'Plasma effects and glow',
     rarity: 'cosmic'
+  },
+  'nano-enhanced': {
+    name: 'Nano-enhanced',
+    description: 'Microscopic machinery',
+    effect: 'Circuit traces and sparks',
+    rarity: 'mythic'
+  },
+  photonic: {
+    name: 'Photonic',
+    description: 'Made partly of light',
+    effect: 'Light beams and lens flares',
+    rarity: 'legendary'
+  },
+  'dark-matter': {
+    name: 'Dark Matter',
+    description: 'Bends light around itself',
+    effect: 'Gravitational lensing',
+    rarity: 'cosmic'
+  },
+  antimatter: {
+    name: 'Antimatter',
+    description: 'Inverted particle charge',
+    effect: 'Negative colors and annihilation sparks',
+    rarity: 'cosmic'
   }
 } as const;
 
@@ -339,53 +412,506 @@ export const ANIMATIONS = {
 } as const;
 
 /**
- * Rarity weights and value multipliers
+ * Valid gene ranges [min, max]
+ */
+export const GENE_RANGES = {
+  size: [0.1, 5],
+  speed: [0, 5],
+  aggression: [0, 1],
+  intelligence: [0, 1]
+} as const;
+
+/**
+ * Rarity tiers, lowest to highest
+ * Single source for weights, values, visuals and game balance;
+ * read it through RarityRegistry rather than indexing directly
  */
 export const RARITY_CONFIG = {
   common: {
     weight: 5000,  // 50%
     valueMultiplier: 1,
     particleCount: 0,
-    glowIntensity: 0
+    glowIntensity: 0,
+    // Gallery presentation
+    designation: 'Series C',
+    color: 0xffffff,
+    glow: 0xcccccc,
+    value: 10,
+    // Arcade balance (FishingGameEngineV8 / FishV8)
+    reward: 10,
+    health: 10,
+    size: 0.8,
+    tint: 0xffffff,
+    glowStrength: 0,
+    // Breeding: chance per offspring of a spontaneous new mutation
+    mutationRate: 0.02
   },
   uncommon: {
     weight: 3000,  // 30%
     valueMultiplier: 5,
     particleCount: 0,
-    glowIntensity: 0.2
+    glowIntensity: 0.2,
+    // Gallery presentation
+    designation: 'Series U',
+    color: 0x00ff00,
+    glow: 0x00ff00,
+    value: 50,
+    // Arcade balance (FishingGameEngineV8 / FishV8)
+    reward: 25,
+    health: 15,
+    size: 0.9,
+    tint: 0x80ff80,
+    glowStrength: 3,
+    // Breeding: chance per offspring of a spontaneous new mutation
+    mutationRate: 0.04
   },
   rare: {
     weight: 1300,  // 13%
     valueMultiplier: 20,
     particleCount: 5,
-    glowIntensity: 0.4
+    glowIntensity: 0.4,
+    // Gallery presentation
+    designation: 'Series R',
+    color: 0x0099ff,
+    glow: 0x0099ff,
+    value: 200,
+    // Arcade balance (FishingGameEngineV8 / FishV8)
+    reward: 50,
+    health: 25,
+    size: 1,
+    tint: 0x4da6ff,
+    glowStrength: 5,
+    // Breeding: chance per offspring of a spontaneous new mutation
+    mutationRate: 0.06
   },
   epic: {
     weight: 500,   // 5%
     valueMultiplier: 50,
     particleCount: 10,
-    glowIntensity: 0.6
+    glowIntensity: 0.6,
+    // Gallery presentation
+    designation: 'Series E',
+    color: 0xcc00ff,
+    glow: 0xcc00ff,
+    value: 500,
+    // Arcade balance (FishingGameEngineV8 / FishV8)
+    reward: 200,
+    health: 50,
+    size: 1.2,
+    tint: 0xcc66ff,
+    glowStrength: 8,
+    // Breeding: chance per offspring of a spontaneous new mutation
+    mutationRate: 0.1
   },
   legendary: {
     weight: 150,   // 1.5%
     valueMultiplier: 200,
     particleCount: 15,
-    glowIntensity: 0.8
+    glowIntensity: 0.8,
+    // Gallery presentation
+    designation: 'Series L',
+    color: 0xffaa00,
+    glow: 0xffaa00,
+    value: 2000,
+    // Arcade balance (FishingGameEngineV8 / FishV8)
+    reward: 500,
+    health: 100,
+    size: 1.5,
+    tint: 0xffcc00,
+    glowStrength: 12,
+    // Breeding: chance per offspring of a spontaneous new mutation
+    mutationRate: 0.15
   },
   mythic: {
     weight: 40,    // 0.4%
     valueMultiplier: 1000,
     particleCount: 20,
-    glowIntensity: 1.0
+    glowIntensity: 1.0,
+    // Gallery presentation
+    designation: 'Series M',
+    color: 0xff00aa,
+    glow: 0xff00aa,
+    value: 10000,
+    // Arcade balance (FishingGameEngineV8 / FishV8)
+    reward: 1000,
+    health: 200,
+    size: 2,
+    tint: 0xff66ff,
+    glowStrength: 15,
+    // Breeding: chance per offspring of a spontaneous new mutation
+    mutationRate: 0.2
   },
   cosmic: {
     weight: 10,    // 0.1%
     valueMultiplier: 10000,
     particleCount: 30,
-    glowIntensity: 1.2
+    glowIntensity: 1.2,
+    // Gallery presentation
+    designation: 'Series Ω',
+    color: 0xffffff,
+    glow: 0xffffff,
+    value: 100000,
+    // Arcade balance (FishingGameEngineV8 / FishV8)
+    reward: 5000,
+    health: 400,
+    size: 2.5,
+    tint: 0xffffff,
+    glowStrength: 20,
+    // Breeding: chance per offspring of a spontaneous new mutation
+    mutationRate: 0.3
+  }
+} as const;
+
+/**
+ * Arcade weapons, in selection order
+ * damage is per cannon power level; speed is px per frame at 60 fps;
+ * falloff fractions are lost per 100px travelled, per fish hit and per bounce,
+ * never dropping below `min`. Read through WeaponRegistry.
+ */
+export const WEAPON_CONFIG = {
+  cannon: {
+    name: 'Cannon',
+    icon: '🔵',
+    description: 'Single straight shot',
+    behavior: 'straight',
+    cost: 1,
+    fireRate: 4,  // Shots per second
+    damage: 10,
+    speed: 10,
+    radius: 5,  // Grows by one per power level
+    color: 0x00ccff
+  },
+  spread: {
+    name: 'Spread Shot',
+    icon: '🔱',
+    description: 'Fan of pellets that weaken with range',
+    behavior: 'spread',
+    cost: 3,
+    fireRate: 2.5,
+    damage: 7,
+    speed: 9,
+    radius: 5,
+    color: 0x66ffcc,
+    projectiles: 5,
+    spreadAngle: 0.5,  // Radians across the whole fan
+    falloff: { distance: 0.08, min: 0.4 }
+  },
+  laser: {
+    name: 'Piercing Laser',
+    icon: '⚡',
+    description: 'Fast beam through every fish in its path',
+    behavior: 'beam',
+    cost: 5,
+    fireRate: 1.5,
+    damage: 12,
+    speed: 24,
+    radius: 4,
+    color: 0xff33ff,
+    pierce: 99,
+    falloff: { hit: 0.15, min: 0.3 }
+  },
+  torpedo: {
+    name: 'Homing Torpedo',
+    icon: '🚀',
+    description: 'Steers to the nearest fish and explodes',
+    behavior: 'homing',
+    cost: 8,
+    fireRate: 1,
+    damage: 30,
+    speed: 6,
+    radius: 8,
+    color: 0xff8800,
+    turnRate: 0.08,  // Radians per frame
+    blastRadius: 70
+  },
+  net: {
+    name: 'Net Launcher',
+    icon: '🕸️',
+    description: 'Opens on the first fish and catches everything inside',
+    behavior: 'net',
+    cost: 20,
+    fireRate: 0.5,
+    damage: 0,
+    speed: 8,
+    radius: 10,
+    color: 0xdddddd,
+    blastRadius: 90
+  },
+  ricochet: {
+    name: 'Ricochet',
+    icon: '🔶',
+    description: 'Bounces off the screen edges',
+    behavior: 'ricochet',
+    cost: 2,
+    fireRate: 3,
+    damage: 9,
+    speed: 11,
+    radius: 6,
+    color: 0xffcc00,
+    bounces: 3,
+    falloff: { bounce: 0.2, min: 0.4 }
+  }
+} as const;
+
+/**
+ * Cannon power tiers (the upgrade axis shared by every weapon), lowest first
+ */
+export const POWER_TIERS = [
+  { level: 1, color: 0x00ccff },
+  { level: 3, color: 0x00ff00 },
+  { level: 5, color: 0xffff00 },
+  { level: 7, color: 0xff0000 }
+] as const;
+
+/**
+ * Arcade game balance shared by FishingGameEngineV8 and EconomySimulator
+ * Read through GameRules
+ */
+export const GAME_RULES = {
+  startingCoins: 1000,
+  upgradeCostPerLevel: 100,  // Upgrading from power N costs N * this
+  // Relative weights of a random wave's rarity
+  spawnRarityWeights: { common: 3, uncommon: 1, rare: 1 },
+  waveGapMs: [2000, 5000],   // Pause between waves at difficulty 1
+  bonusWaveChance: 0.1,      // Per wave started
+  challengeWaveChance: 0.01, // Per update once difficulty passes 2
+  difficultyPerMs: 1 / 30000 // One difficulty point every 30 seconds
+} as const;
+
+/**
+ * Probabilistic catch mode: each hit catches with chance rtp * bet / reward,
+ * so the expected payout of a hit is rtp * bet. Read through CatchEconomy.
+ */
+export const CATCH_ECONOMY = {
+  rtp: 0.96,        // Target long-run return to player
+  maxChance: 0.9,   // Cap per hit; capped hits pay more than the reward to keep the RTP
+  tolerance: 4      // Standard errors the simulated RTP may drift from the expectation
+} as const;
+
+/**
+ * Shared-table multiplayer: seats, server rates and the fixed table size
+ * every client renders at
+ */
+export const TABLE_CONFIG = {
+  maxPlayers: 4,
+  // Cannon spots as fractions of the table (bottom, top, left, right edge)
+  seats: [
+    { x: 0.5, y: 1 },
+    { x: 0.5, y: 0 },
+    { x: 0, y: 0.5 },
+    { x: 1, y: 0.5 }
+  ],
+  cannonInset: 80,           // Distance from the edge to a cannon's pivot
+  width: 1280,
+  height: 720,
+  port: 8787,
+  tickRate: 30,              // Server simulation steps per second
+  snapshotRate: 15,          // Snapshots broadcast per second
+  interpolationDelayMs: 150  // Clients render this far behind the newest snapshot
+} as const;
+
+/**
+ * Boss fights: one boss at a time swims in on a schedule and takes damage in
+ * either catch mode. Each phase starts when health drops to its threshold
+ * (fraction of max health) and brings its own movement path and minions.
+ * Weak points are circles at fractions of the body's half length / height,
+ * head toward +x. speed is px per second. Read through BossRegistry.
+ */
+export const BOSS_CONFIG = {
+  firstSpawnMs: 120000,
+  spawnIntervalMs: 240000,  // From one boss leaving to the next arriving
+  netDamage: 150,           // Nets cannot hold a boss; per cannon power level
+  bosses: {
+    krakenLord: {
+      name: 'Kraken Lord',
+      rarity: 'mythic',
+      bodyShape: 'massive',
+      bodyRatio: { w: 2, h: 1 },
+      size: 240,            // Body length in px
+      color: 0xcc2222,
+      accentColor: 0xffaa00,
+      health: 4000,
+      jackpot: 5000,
+      enrageMs: 60000,      // Speeds up and summons faster after this long
+      escapeMs: 90000,      // Swims off with the jackpot after this long
+      enrage: { speed: 1.6, minionRate: 2 },
+      weakPoints: [
+        { id: 'eye', x: 0.6, y: -0.2, radius: 16, multiplier: 3 },
+        { id: 'gills', x: 0.15, y: 0.35, radius: 20, multiplier: 2 }
+      ],
+      phases: [
+        { threshold: 1, movement: 'patrol', speed: 90 },
+        {
+          threshold: 0.6,
+          movement: 'circular',
+          speed: 120,
+          minions: { formation: 'v_shape', count: 5, species: 'neonTetra', rarity: 'uncommon', size: 'small', everyMs: 12000 }
+        },
+        {
+          threshold: 0.25,
+          movement: 'bezier',
+          speed: 160,
+          minions: { formation: 'circular', count: 6, species: 'goldfish', rarity: 'rare', size: 'small', everyMs: 9000 }
+        }
+      ]
+    },
+    abyssalLeviathan: {
+      name: 'Abyssal Leviathan',
+      rarity: 'cosmic',
+      bodyShape: 'serpentine',
+      bodyRatio: { w: 3, h: 1 },
+      size: 300,
+      color: 0x3322aa,
+      accentColor: 0x00ffcc,
+      health: 6000,
+      jackpot: 8000,
+      enrageMs: 75000,
+      escapeMs: 110000,
+      enrage: { speed: 1.5, minionRate: 2.5 },
+      weakPoints: [
+        { id: 'eye', x: 0.7, y: -0.15, radius: 14, multiplier: 3 },
+        { id: 'heart', x: -0.1, y: 0, radius: 18, multiplier: 2 },
+        { id: 'tail', x: -0.8, y: 0, radius: 14, multiplier: 1.5 }
+      ],
+      phases: [
+        { threshold: 1, movement: 'bezier', speed: 100 },
+        {
+          threshold: 0.75,
+          movement: 'patrol',
+          speed: 130,
+          minions: { formation: 'snake', count: 6, species: 'neonTetra', rarity: 'common', size: 'tiny', everyMs: 10000 }
+        },
+        {
+          threshold: 0.5,
+          movement: 'complex',
+          speed: 150,
+          minions: { formation: 'diamond', count: 4, species: 'goldfish', rarity: 'rare', size: 'small', everyMs: 10000 }
+        },
+        {
+          threshold: 0.2,
+          movement: 'circular',
+          speed: 190,
+          minions: { formation: 'grid', count: 9, species: 'neonTetra', rarity: 'uncommon', size: 'tiny', everyMs: 8000 }
+        }
+      ]
+    }
   }
 } as const;
 
+/**
+ * Arcade scoring, separate from coins: a catch still pays its plain reward,
+ * but scores reward x rarity multiplier x the running combo's tier, less a
+ * penalty for damage wasted past the fish's remaining health. Catching every
+ * member of a formation adds a bonus. Scores are tallied per round and
+ * broken down when it ends. Read through ScoreKeeper.
+ */
+export const SCORING_CONFIG = {
+  roundMs: 180000,
+  combo: {
+    windowMs: 2500,  // A catch within this long of the previous one extends the streak
+    // The highest tier the streak has reached applies
+    tiers: [
+      { combo: 3, multiplier: 1.2, label: 'Combo' },
+      { combo: 6, multiplier: 1.5, label: 'Great' },
+      { combo: 10, multiplier: 2, label: 'Frenzy' },
+      { combo: 20, multiplier: 3, label: 'Unstoppable' }
+    ]
+  },
+  rarityMultipliers: {
+    common: 1,
+    uncommon: 1.2,
+    rare: 1.5,
+    epic: 2,
+    legendary: 3,
+    mythic: 4,
+    cosmic: 5
+  },
+  formation: {
+    minSize: 3,        // Single fish and pairs earn no bonus
+    rewardShare: 0.5   // Bonus as a share of the formation's summed rewards
+  },
+  overkill: {
+    freeShare: 1,          // Wasted damage up to this many times max health is free
+    penaltyPerShare: 0.1,  // Share of the score lost per further max health wasted
+    maxPenalty: 0.5
+  }
+} as const;
+
+/**
+ * Achievements and rotating quests, shared by the arcade and the gallery
+ * A goal counts one kind of event (catch, bossDefeated, upgrade, generate,
+ * categoryComplete), optionally filtered by species, rarity, minRarity, boss
+ * or category. Daily and weekly quests are drawn from their pools by the
+ * period's date, so every player gets the same ones. Rewards are coins,
+ * paid into the arcade wallet when claimed. Read through AchievementTracker.
+ */
+export const ACHIEVEMENT_CONFIG = {
+  storageKey: 'fishfi/achievements',
+  achievements: [
+    { id: 'firstCatch', name: 'First Catch', description: 'Catch a fish', goal: { event: 'catch', count: 1 }, reward: 100 },
+    { id: 'angler', name: 'Angler', description: 'Catch 500 fish', goal: { event: 'catch', count: 500 }, reward: 1000 },
+    { id: 'rareHunter', name: 'Rare Hunter', description: 'Catch 25 rare or better fish', goal: { event: 'catch', minRarity: 'rare', count: 25 }, reward: 750 },
+    { id: 'legendSlayer', name: 'Legend Slayer', description: 'Catch 5 legendary or better fish', goal: { event: 'catch', minRarity: 'legendary', count: 5 }, reward: 2000 },
+    { id: 'goldRush', name: 'Gold Rush', description: 'Catch 100 goldfish', goal: { event: 'catch', species: 'goldfish', count: 100 }, reward: 500 },
+    { id: 'bossSlayer', name: 'Boss Slayer', description: 'Help defeat a boss', goal: { event: 'bossDefeated', count: 1 }, reward: 2500 },
+    { id: 'krakenBane', name: 'Kraken Bane', description: 'Help defeat the Kraken Lord 5 times', goal: { event: 'bossDefeated', boss: 'krakenLord', count: 5 }, reward: 5000 },
+    { id: 'gunsmith', name: 'Gunsmith', description: 'Buy 10 cannon upgrades', goal: { event: 'upgrade', count: 10 }, reward: 500 },
+    { id: 'artist', name: 'Artist', description: 'Generate 50 gallery fish', goal: { event: 'generate', count: 50 }, reward: 500 },
+    { id: 'masterpiece', name: 'Masterpiece', description: 'Generate a mythic or better fish', goal: { event: 'generate', minRarity: 'mythic', count: 1 }, reward: 1500 },
+    { id: 'artCollector', name: 'Art Collector', description: 'Collect every artistic species', goal: { event: 'categoryComplete', category: 'artistic', count: 1 }, reward: 2000 },
+    { id: 'curator', name: 'Curator', description: 'Complete 5 catalog categories', goal: { event: 'categoryComplete', count: 5 }, reward: 5000 }
+  ],
+  quests: {
+    daily: {
+      slots: 3,
+      pool: [
+        { id: 'dailyCatch', name: 'Daily Haul', description: 'Catch 50 fish', goal: { event: 'catch', count: 50 }, reward: 300 },
+        { id: 'dailyRare', name: 'Rare Sighting', description: 'Catch 5 rare or better fish', goal: { event: 'catch', minRarity: 'rare', count: 5 }, reward: 400 },
+        { id: 'dailyGoldfish', name: 'Goldfish Run', description: 'Catch 20 goldfish', goal: { event: 'catch', species: 'goldfish', count: 20 }, reward: 250 },
+        { id: 'dailyTetra', name: 'Neon Nights', description: 'Catch 20 neon tetras', goal: { event: 'catch', species: 'neonTetra', count: 20 }, reward: 250 },
+        { id: 'dailyUpgrade', name: 'Tune Up', description: 'Buy 3 cannon upgrades', goal: { event: 'upgrade', count: 3 }, reward: 200 },
+        { id: 'dailyGenerate', name: 'Sketchbook', description: 'Generate 10 gallery fish', goal: { event: 'generate', count: 10 }, reward: 200 }
+      ]
+    },
+    weekly: {
+      slots: 2,
+      pool: [
+        { id: 'weeklyCatch', name: 'Fleet Week', description: 'Catch 1000 fish', goal: { event: 'catch', count: 1000 }, reward: 3000 },
+        { id: 'weeklyBoss', name: 'Monster Hunt', description: 'Help defeat 3 bosses', goal: { event: 'bossDefeated', count: 3 }, reward: 5000 },
+        { id: 'weeklyEpic', name: 'Epic Tales', description: 'Catch 20 epic or better fish', goal: { event: 'catch', minRarity: 'epic', count: 20 }, reward: 2500 },
+        { id: 'weeklyGenerate', name: 'Exhibition', description: 'Generate 100 gallery fish', goal: { event: 'generate', count: 100 }, reward: 2000 },
+        { id: 'weeklyLegendary', name: 'Legendary Canvas', description: 'Generate 3 legendary or better fish', goal: { event: 'generate', minRarity: 'legendary', count: 3 }, reward: 3000 }
+      ]
+    }
+  }
+} as const;
+
+/**
+ * Player profile persistence
+ * The wallet, cannon level, lifetime stats and settings are saved to local
+ * storage a short delay after they change, so a burst of shots is one
+ * write. Read through PlayerProfile.
+ */
+export const PROFILE_CONFIG = {
+  storageKey: 'fishfi/profile',
+  saveDelayMs: 1000,
+  defaultName: 'Player'
+} as const;
+
+/**
+ * Auto-aim for the arcade cannon
+ * Lock-on keeps firing at a clicked fish until it is caught or leaves; auto
+ * picks targets itself by priority. Both fire at the chosen rate, still capped
+ * by the weapon's own fireRate. Read through Targeting.
+ */
+export const TARGETING_CONFIG = {
+  fireRates: [1, 2, 4, 8],   // Shots per second to choose from
+  defaultFireRate: 2,
+  pickRadiusPerSize: 40,     // Click radius per unit of fish scale (half the body length)
+  pickPadding: 12,           // Extra px so small fish are easy to click
+  edgeMargin: 20             // Targets must be this far inside the play area
+} as const;
+
 /**
  * Export all configuration as a single object
  */
@@ -395,7 +921,18 @@ export const FISH_CONFIG = {
   traits: SPECIAL_TRAITS,
   palettes: COLOR_PALETTES,
   animations: ANIMATIONS,
-  rarity: RARITY_CONFIG
+  genes: GENE_RANGES,
+  rarity: RARITY_CONFIG,
+  weapons: WEAPON_CONFIG,
+  powerTiers: POWER_TIERS,
+  gameRules: GAME_RULES,
+  catchEconomy: CATCH_ECONOMY,
+  table: TABLE_CONFIG,
+  bosses: BOSS_CONFIG,
+  scoring: SCORING_CONFIG,
+  achievements: ACHIEVEMENT_CONFIG,
+  profile: PROFILE_CONFIG,
+  targeting: TARGETING_CONFIG
 } as const;
 
 /**
@@ -406,3 +943,6 @@ export type MutationType = keyof typeof MUTATIONS;
 export type TraitType = keyof typeof SPECIAL_TRAITS;
 export type PaletteType = keyof typeof COLOR_PALETTES;
 export type RarityType = keyof typeof RARITY_CONFIG;
+export type GeneType = keyof typeof GENE_RANGES;
+export type WeaponType = keyof typeof WEAPON_CONFIG;
+export type BossType = keyof typeof BOSS_CONFIG.bosses;
@@ -0,0 +1,444 @@
+/**
+ * AchievementTracker.ts
+ *
+ * Achievements and daily / weekly quests across the arcade and the gallery
+ * Both engines report what the player did (catches, boss kills, upgrades,
+ * generated fish, completed catalog categories) with record(); every
+ * ACHIEVEMENT_CONFIG goal that matches moves forward, and finishing one
+ * emits unlock or questComplete for a toast. Claimed rewards go into a
+ * coin bank that the arcade pays into its wallet, so rewards won in the
+ * gallery are not lost. Quests are drawn per UTC day / ISO week from a seed
+ * of the period's date. Progress persists in localStorage (memory where it
+ * is unavailable); two tabs open at once will overwrite each other.
+ *
+ * @version 1.0.0
+ * @path app/lib/AchievementTracker.ts
+ */
+
+import { ACHIEVEMENT_CONFIG, RarityType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { FISH_SPECIES_CATALOG, getFishByCategory } from './FishSpeciesCatalog';
+import { SeededRandom } from './SeededRandom';
+import { TypedEmitter } from './TypedEmitter';
+
+export const ACHIEVEMENT_FORMAT = 'fishfi/achievements';
+export const ACHIEVEMENT_VERSION = 1;
+
+/**
+ * Something the player did that goals can count
+ */
+export type AchievementEvent =
+  | { type: 'catch'; species: string; rarity: RarityType }
+  | { type: 'bossDefeated'; boss: string }
+  | { type: 'upgrade' }
+  | { type: 'generate'; species: string; rarity: RarityType }
+  | { type: 'categoryComplete'; category: string };
+
+export interface AchievementGoal {
+  event: AchievementEvent['type'];
+  count: number;
+  species?: string;
+  rarity?: RarityType;
+  minRarity?: RarityType;
+  boss?: string;
+  category?: string;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  goal: AchievementGoal;
+  reward: number;  // Coins
+}
+
+export type QuestPeriod = 'daily' | 'weekly';
+
+export interface AchievementStatus {
+  definition: AchievementDefinition;
+  progress: number;
+  unlocked: boolean;
+  claimed: boolean;
+  unlockedAt?: number;  // ms since epoch
+}
+
+export interface QuestStatus {
+  definition: AchievementDefinition;
+  period: QuestPeriod;
+  progress: number;
+  completed: boolean;
+  claimed: boolean;
+  endsAt: number;  // ms since epoch
+}
+
+export interface AchievementTrackerEvents {
+  unlock: [achievement: AchievementStatus];
+  questComplete: [quest: QuestStatus];
+  claim: [id: string, reward: number];
+  change: [];
+}
+
+/**
+ * Key-value storage behind a tracker
+ */
+export interface AchievementStorage {
+  load(): string | null;
+  save(data: string): void;
+}
+
+/**
+ * Non-persistent storage
+ */
+export class MemoryAchievementStorage implements AchievementStorage {
+  private data: string | null = null;
+
+  public load(): string | null {
+    return this.data;
+  }
+
+  public save(data: string): void {
+    this.data = data;
+  }
+}
+
+export class LocalAchievementStorage implements AchievementStorage {
+  constructor(private key: string = ACHIEVEMENT_CONFIG.storageKey) {}
+
+  public static isSupported(): boolean {
+    try {
+      return typeof localStorage !== 'undefined';
+    } catch (error) {
+      // Access throws when storage is blocked
+      return false;
+    }
+  }
+
+  public load(): string | null {
+    return localStorage.getItem(this.key);
+  }
+
+  public save(data: string): void {
+    try {
+      localStorage.setItem(this.key, data);
+    } catch (error) {
+      console.warn('Failed to save achievements:', error);
+    }
+  }
+}
+
+/**
+ * Stored form; progress is kept by definition id so config changes carry over
+ */
+interface AchievementSave {
+  format: typeof ACHIEVEMENT_FORMAT;
+  version: number;
+  achievements: Record<string, { progress: number; claimed: boolean; unlockedAt?: number }>;
+  quests: Partial<Record<QuestPeriod, { key: string; entries: Record<string, { progress: number; claimed: boolean }> }>>;
+  categories: string[];
+  bank: number;
+}
+
+const ACHIEVEMENTS: readonly AchievementDefinition[] = ACHIEVEMENT_CONFIG.achievements;
+const QUEST_POOLS: Record<QuestPeriod, { slots: number; pool: readonly AchievementDefinition[] }> = ACHIEVEMENT_CONFIG.quests;
+const PERIODS: QuestPeriod[] = ['daily', 'weekly'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AchievementTracker extends TypedEmitter<AchievementTrackerEvents> {
+  private storage: AchievementStorage;
+  private now: () => number;
+  private save!: AchievementSave;
+
+  /**
+   * @param now Clock for quest periods and unlock times
+   */
+  constructor(storage?: AchievementStorage, now: () => number = Date.now) {
+    super();
+    this.storage = storage ?? (LocalAchievementStorage.isSupported()
+      ? new LocalAchievementStorage()
+      : new MemoryAchievementStorage());
+    this.now = now;
+    this.load();
+  }
+
+  /**
+   * Coins claimed but not yet paid into a wallet
+   */
+  public get bank(): number {
+    return this.save.bank;
+  }
+
+  /**
+   * Moves every achievement and current quest the event matches forward
+   */
+  public record(event: AchievementEvent): void {
+    this.refreshQuests();
+    let changed = false;
+
+    ACHIEVEMENTS.forEach(definition => {
+      const entry = this.achievementEntry(definition.id);
+      if (entry.unlockedAt !== undefined || !matchesGoal(definition.goal, event)) return;
+
+      entry.progress++;
+      changed = true;
+      if (entry.progress >= definition.goal.count) {
+        entry.unlockedAt = this.now();
+        this.emit('unlock', this.describeAchievement(definition));
+      }
+    });
+
+    PERIODS.forEach(period => {
+      this.getQuestDefinitions(period).forEach(definition => {
+        const entry = this.questEntry(period, definition.id);
+        if (entry.progress >= definition.goal.count || !matchesGoal(definition.goal, event)) return;
+
+        entry.progress++;
+        changed = true;
+        if (entry.progress >= definition.goal.count) {
+          this.emit('questComplete', this.describeQuest(period, definition));
+        }
+      });
+    });
+
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Records categoryComplete for every catalog category the species now
+   * cover that was not complete before
+   * @param species Species names the player owns (e.g. the gallery collection)
+   */
+  public checkCategories(species: Iterable<string>): void {
+    const owned = new Set(species);
+    const categories = new Set(Object.values(FISH_SPECIES_CATALOG).map(definition => definition.category));
+
+    const completed = [...categories].filter(category =>
+      !this.save.categories.includes(category) &&
+      getFishByCategory(category).every(definition => owned.has(definition.name))
+    );
+    if (completed.length === 0) return;
+
+    // Kept even when no goal counts the category, so it is only reported once
+    this.save.categories.push(...completed);
+    this.persist();
+    completed.forEach(category => this.record({ type: 'categoryComplete', category }));
+  }
+
+  public getAchievements(): AchievementStatus[] {
+    return ACHIEVEMENTS.map(definition => this.describeAchievement(definition));
+  }
+
+  /**
+   * This period's quests, drawing new ones once a period has ended
+   */
+  public getQuests(): QuestStatus[] {
+    this.refreshQuests();
+    return PERIODS.flatMap(period =>
+      this.getQuestDefinitions(period).map(definition => this.describeQuest(period, definition))
+    );
+  }
+
+  /**
+   * Banks the reward of an unlocked achievement or a completed quest
+   * @returns The coins banked; 0 if it is not claimable
+   */
+  public claim(id: string): number {
+    this.refreshQuests();
+    const reward = this.claimAchievement(id) ?? this.claimQuest(id) ?? 0;
+    if (reward > 0) {
+      this.save.bank += reward;
+      this.persist();
+      this.emit('claim', id, reward);
+    }
+    return reward;
+  }
+
+  /**
+   * Empties the bank into a wallet
+   * @returns The coins withdrawn
+   */
+  public withdraw(): number {
+    const amount = this.save.bank;
+    if (amount > 0) {
+      this.save.bank = 0;
+      this.persist();
+    }
+    return amount;
+  }
+
+  /**
+   * Forgets all progress, claims and banked coins
+   */
+  public reset(): void {
+    this.save = createSave();
+    this.persist();
+  }
+
+  private claimAchievement(id: string): number | undefined {
+    const definition = ACHIEVEMENTS.find(achievement => achievement.id === id);
+    const entry = this.save.achievements[id];
+    if (!definition || !entry || entry.unlockedAt === undefined || entry.claimed) return undefined;
+
+    entry.claimed = true;
+    return definition.reward;
+  }
+
+  private claimQuest(id: string): number | undefined {
+    for (const period of PERIODS) {
+      const definition = this.getQuestDefinitions(period).find(quest => quest.id === id);
+      if (!definition) continue;
+
+      const entry = this.questEntry(period, id);
+      if (entry.claimed || entry.progress < definition.goal.count) return undefined;
+
+      entry.claimed = true;
+      return definition.reward;
+    }
+    return undefined;
+  }
+
+  /**
+   * Starts fresh quest progress for any period whose key has moved on
+   */
+  private refreshQuests(): void {
+    let changed = false;
+    PERIODS.forEach(period => {
+      const key = getPeriodKey(period, this.now());
+      if (this.save.quests[period]?.key !== key) {
+        this.save.quests[period] = { key, entries: {} };
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  /**
+   * The period's quests: the same draw from its pool for everyone
+   */
+  private getQuestDefinitions(period: QuestPeriod): AchievementDefinition[] {
+    const { slots, pool } = QUEST_POOLS[period];
+    const key = getPeriodKey(period, this.now());
+    return new SeededRandom(`${period}:${key}`).shuffle([...pool]).slice(0, slots);
+  }
+
+  private questEntry(period: QuestPeriod, id: string): { progress: number; claimed: boolean } {
+    const { entries } = this.save.quests[period]!;
+    if (!entries[id]) {
+      entries[id] = { progress: 0, claimed: false };
+    }
+    return entries[id];
+  }
+
+  private achievementEntry(id: string): AchievementSave['achievements'][string] {
+    const { achievements } = this.save;
+    if (!achievements[id]) {
+      achievements[id] = { progress: 0, claimed: false };
+    }
+    return achievements[id];
+  }
+
+  private describeAchievement(definition: AchievementDefinition): AchievementStatus {
+    const entry = this.save.achievements[definition.id];
+    return {
+      definition,
+      progress: Math.min(entry?.progress ?? 0, definition.goal.count),
+      unlocked: entry?.unlockedAt !== undefined,
+      claimed: entry?.claimed ?? false,
+      unlockedAt: entry?.unlockedAt
+    };
+  }
+
+  private describeQuest(period: QuestPeriod, definition: AchievementDefinition): QuestStatus {
+    const entry = this.questEntry(period, definition.id);
+    return {
+      definition,
+      period,
+      progress: Math.min(entry.progress, definition.goal.count),
+      completed: entry.progress >= definition.goal.count,
+      claimed: entry.claimed,
+      endsAt: getPeriodEnd(period, this.now())
+    };
+  }
+
+  private load(): void {
+    this.save = createSave();
+
+    const data = this.storage.load();
+    if (!data) return;
+
+    try {
+      const stored = JSON.parse(data) as Partial<AchievementSave>;
+      if (stored.format !== ACHIEVEMENT_FORMAT || typeof stored.version !== 'number' || stored.version > ACHIEVEMENT_VERSION) {
+        throw new Error('not an achievements save this version can read');
+      }
+      this.save = {
+        ...this.save,
+        achievements: stored.achievements ?? {},
+        quests: stored.quests ?? {},
+        categories: Array.isArray(stored.categories) ? stored.categories.filter(category => typeof category === 'string') : [],
+        bank: typeof stored.bank === 'number' && stored.bank > 0 ? stored.bank : 0
+      };
+    } catch (error) {
+      console.warn('Ignoring unreadable achievement progress:', error);
+    }
+  }
+
+  private persist(): void {
+    this.storage.save(JSON.stringify(this.save));
+    this.emit('change');
+  }
+}
+
+function createSave(): AchievementSave {
+  return {
+    format: ACHIEVEMENT_FORMAT,
+    version: ACHIEVEMENT_VERSION,
+    achievements: {},
+    quests: {},
+    categories: [],
+    bank: 0
+  };
+}
+
+function matchesGoal(goal: AchievementGoal, event: AchievementEvent): boolean {
+  if (goal.event !== event.type) return false;
+
+  switch (event.type) {
+    case 'catch':
+    case 'generate':
+      if (goal.species && goal.species !== event.species) return false;
+      if (goal.rarity && goal.rarity !== event.rarity) return false;
+      if (goal.minRarity && !RarityRegistry.isAtLeast(event.rarity, goal.minRarity)) return false;
+      return true;
+    case 'bossDefeated':
+      return !goal.boss || goal.boss === event.boss;
+    case 'categoryComplete':
+      return !goal.category || goal.category === event.category;
+    case 'upgrade':
+      return true;
+  }
+}
+
+/**
+ * Start of the UTC day, or of the ISO week (Monday) for weekly quests
+ */
+function getPeriodStart(period: QuestPeriod, time: number): number {
+  const dayStart = Math.floor(time / DAY_MS) * DAY_MS;
+  if (period === 'daily') return dayStart;
+
+  const weekday = (new Date(dayStart).getUTCDay() + 6) % 7;  // Monday = 0
+  return dayStart - weekday * DAY_MS;
+}
+
+function getPeriodEnd(period: QuestPeriod, time: number): number {
+  return getPeriodStart(period, time) + (period === 'daily' ? DAY_MS : 7 * DAY_MS);
+}
+
+function getPeriodKey(period: QuestPeriod, time: number): string {
+  return new Date(getPeriodStart(period, time)).toISOString().slice(0, 10);
+}
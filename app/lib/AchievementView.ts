@@ -0,0 +1,322 @@
+/**
+ * AchievementView.ts
+ *
+ * PIXI views for the AchievementTracker, shared by the arcade and the gallery
+ * AchievementToasts stacks unlock and quest-complete notices in the top-right
+ * corner of a uiLayer; clicking one claims its reward. QuestPanel lists this
+ * period's daily and weekly quests and any unclaimed achievements with
+ * progress and Claim buttons, redrawing whenever the tracker changes.
+ *
+ * @version 1.0.0
+ * @path app/lib/AchievementView.ts
+ */
+
+import * as PIXI from 'pixi.js';
+import { AchievementTracker, AchievementDefinition } from './AchievementTracker';
+
+const TOAST_WIDTH = 300;
+const TOAST_HEIGHT = 64;
+const TOAST_GAP = 8;
+const TOAST_HOLD_MS = 4000;
+const TOAST_FADE_MS = 600;
+const MAX_TOASTS = 4;
+
+interface Toast {
+  view: PIXI.Container;
+  shownMS: number;
+}
+
+export class AchievementToasts extends PIXI.Container {
+  private toasts: Toast[] = [];
+  private onClaim: (id: string) => void;
+
+  /**
+   * @param onClaim Called with the achievement or quest id when a toast is clicked
+   */
+  constructor(screenWidth: number, onClaim: (id: string) => void) {
+    super();
+    this.onClaim = onClaim;
+    this.position.set(screenWidth - TOAST_WIDTH - 20, 20);
+  }
+
+  /**
+   * @param heading e.g. "Achievement unlocked"
+   */
+  public show(heading: string, definition: AchievementDefinition): void {
+    const view = new PIXI.Container();
+
+    const background = new PIXI.Graphics()
+      .roundRect(0, 0, TOAST_WIDTH, TOAST_HEIGHT, 10)
+      .fill({ color: 0x000000, alpha: 0.85 })
+      .stroke({ color: 0xffd700, width: 2 });
+
+    const title = new PIXI.Text({
+      text: `🏆 ${heading}`,
+      style: { fontFamily: 'Arial', fontSize: 13, fill: 0xffd700 }
+    });
+    title.position.set(12, 8);
+
+    const name = new PIXI.Text({
+      text: `${definition.name}  +${definition.reward}💰`,
+      style: { fontFamily: 'Arial', fontSize: 18, fontWeight: 'bold', fill: 0xffffff }
+    });
+    name.position.set(12, 26);
+
+    const hint = new PIXI.Text({
+      text: 'Click to claim',
+      style: { fontFamily: 'Arial', fontSize: 11, fill: 0xaaaaaa }
+    });
+    hint.anchor.set(1, 1);
+    hint.position.set(TOAST_WIDTH - 10, TOAST_HEIGHT - 6);
+
+    view.addChild(background);
+    view.addChild(title);
+    view.addChild(name);
+    view.addChild(hint);
+
+    view.eventMode = 'static';
+    view.cursor = 'pointer';
+    view.on('pointerdown', (event: PIXI.FederatedPointerEvent) => {
+      // Don't fire through the toast
+      event.stopPropagation();
+      this.onClaim(definition.id);
+      this.dismiss(view);
+    });
+
+    // Oldest toasts make room for new ones
+    while (this.toasts.length >= MAX_TOASTS) {
+      this.dismiss(this.toasts[0].view);
+    }
+
+    this.toasts.push({ view, shownMS: 0 });
+    this.addChild(view);
+    this.layout();
+  }
+
+  /**
+   * Holds each toast, then fades it out (deltaMS in ms)
+   */
+  public tick(deltaMS: number): void {
+    [...this.toasts].forEach(toast => {
+      toast.shownMS += deltaMS;
+      if (toast.shownMS > TOAST_HOLD_MS) {
+        toast.view.alpha = 1 - (toast.shownMS - TOAST_HOLD_MS) / TOAST_FADE_MS;
+        if (toast.view.alpha <= 0) {
+          this.dismiss(toast.view);
+        }
+      }
+    });
+  }
+
+  private dismiss(view: PIXI.Container): void {
+    this.toasts = this.toasts.filter(toast => toast.view !== view);
+    view.destroy({ children: true });
+    this.layout();
+  }
+
+  private layout(): void {
+    this.toasts.forEach((toast, i) => {
+      toast.view.y = i * (TOAST_HEIGHT + TOAST_GAP);
+    });
+  }
+}
+
+const PANEL_WIDTH = 460;
+const PANEL_PADDING = 20;
+const ROW_HEIGHT = 52;
+
+/**
+ * A line in the panel: a quest or an unclaimed achievement
+ */
+interface PanelRow {
+  definition: AchievementDefinition;
+  progress: number;
+  claimable: boolean;
+  claimed: boolean;
+}
+
+export class QuestPanel extends PIXI.Container {
+  private tracker: AchievementTracker;
+  private background: PIXI.Graphics = new PIXI.Graphics();
+  private content: PIXI.Container = new PIXI.Container();
+
+  constructor(screenWidth: number, screenHeight: number, tracker: AchievementTracker) {
+    super();
+    this.tracker = tracker;
+    this.visible = false;
+    this.position.set((screenWidth - PANEL_WIDTH) / 2, Math.max(20, screenHeight / 8));
+
+    this.addChild(this.background);
+    this.addChild(this.content);
+
+    // Keep clicks on the panel from reaching the stage
+    this.eventMode = 'static';
+    this.on('pointerdown', (event: PIXI.FederatedPointerEvent) => event.stopPropagation());
+
+    tracker.on('change', this.onTrackerChange, this);
+  }
+
+  public toggle(): void {
+    this.visible = !this.visible;
+    if (this.visible) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * Rebuilds the rows from the tracker
+   */
+  public refresh(): void {
+    this.content.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    let y = PANEL_PADDING;
+    const achievements = this.tracker.getAchievements();
+    const unlocked = achievements.filter(achievement => achievement.unlocked).length;
+
+    const title = this.createText(`Quests & Achievements  ·  ${unlocked}/${achievements.length}`, 22, 0xffd700, true);
+    title.position.set(PANEL_PADDING, y);
+    this.content.addChild(title);
+
+    const close = this.createText('✕', 22, 0xffffff, true);
+    close.anchor.set(1, 0);
+    close.position.set(PANEL_WIDTH - PANEL_PADDING, y);
+    close.eventMode = 'static';
+    close.cursor = 'pointer';
+    close.on('pointertap', () => { this.visible = false; });
+    this.content.addChild(close);
+    y += 40;
+
+    const quests = this.tracker.getQuests();
+    (['daily', 'weekly'] as const).forEach(period => {
+      const current = quests.filter(quest => quest.period === period);
+      if (current.length === 0) return;
+
+      const heading = this.createText(
+        `${period === 'daily' ? 'Daily' : 'Weekly'} quests · resets in ${formatDuration(current[0].endsAt - Date.now())}`,
+        15,
+        0xaaddff
+      );
+      heading.position.set(PANEL_PADDING, y);
+      this.content.addChild(heading);
+      y += 24;
+
+      current.forEach(quest => {
+        y = this.addRow(y, {
+          definition: quest.definition,
+          progress: quest.progress,
+          claimable: quest.completed && !quest.claimed,
+          claimed: quest.claimed
+        });
+      });
+      y += 8;
+    });
+
+    const unclaimed = achievements.filter(achievement => achievement.unlocked && !achievement.claimed);
+    if (unclaimed.length > 0) {
+      const heading = this.createText('Unlocked achievements', 15, 0xaaddff);
+      heading.position.set(PANEL_PADDING, y);
+      this.content.addChild(heading);
+      y += 24;
+
+      unclaimed.forEach(achievement => {
+        y = this.addRow(y, {
+          definition: achievement.definition,
+          progress: achievement.progress,
+          claimable: true,
+          claimed: false
+        });
+      });
+    }
+
+    this.background
+      .clear()
+      .roundRect(0, 0, PANEL_WIDTH, y + PANEL_PADDING, 15)
+      .fill({ color: 0x000000, alpha: 0.9 })
+      .stroke({ color: 0xffd700, width: 2 });
+  }
+
+  public destroy(options?: PIXI.DestroyOptions): void {
+    this.tracker.off('change', this.onTrackerChange, this);
+    super.destroy(options);
+  }
+
+  private onTrackerChange(): void {
+    if (this.visible) {
+      this.refresh();
+    }
+  }
+
+  /**
+   * @returns The y below the row
+   */
+  private addRow(y: number, row: PanelRow): number {
+    const { definition } = row;
+
+    const name = this.createText(`${definition.name}  +${definition.reward}💰`, 16, row.claimed ? 0x888888 : 0xffffff, true);
+    name.position.set(PANEL_PADDING, y);
+    const description = this.createText(
+      `${definition.description} (${row.progress}/${definition.goal.count})`,
+      13,
+      0xaaaaaa
+    );
+    description.position.set(PANEL_PADDING, y + 22);
+    this.content.addChild(name);
+    this.content.addChild(description);
+
+    if (row.claimable) {
+      this.content.addChild(this.createClaimButton(definition.id, y));
+    } else if (row.claimed) {
+      const done = this.createText('✓ Claimed', 14, 0x00ff88);
+      done.anchor.set(1, 0);
+      done.position.set(PANEL_WIDTH - PANEL_PADDING, y + 10);
+      this.content.addChild(done);
+    }
+
+    return y + ROW_HEIGHT;
+  }
+
+  private createClaimButton(id: string, y: number): PIXI.Container {
+    const button = new PIXI.Container();
+
+    const bg = new PIXI.Graphics()
+      .roundRect(0, 0, 80, 32, 16)
+      .fill({ color: 0x00cc00 })
+      .stroke({ color: 0x00ff00, width: 2 });
+    const text = this.createText('Claim', 15, 0xffffff, true);
+    text.anchor.set(0.5);
+    text.position.set(40, 16);
+
+    button.addChild(bg);
+    button.addChild(text);
+    button.position.set(PANEL_WIDTH - PANEL_PADDING - 80, y + 4);
+
+    button.eventMode = 'static';
+    button.cursor = 'pointer';
+    // The tracker's change event redraws the panel
+    button.on('pointertap', () => this.tracker.claim(id));
+    button.on('pointerover', () => { bg.tint = 0xcccccc; });
+    button.on('pointerout', () => { bg.tint = 0xffffff; });
+
+    return button;
+  }
+
+  private createText(text: string, fontSize: number, fill: number, bold: boolean = false): PIXI.Text {
+    return new PIXI.Text({
+      text,
+      style: {
+        fontFamily: 'Arial',
+        fontSize,
+        fontWeight: bold ? 'bold' : 'normal',
+        fill
+      }
+    });
+  }
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.ceil(ms / 60000));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  return `${hours}h ${minutes % 60}m`;
+}
@@ -11,6 +11,12 @@
 
 import * as PIXI from 'pixi.js';
 import { GeometryCache } from './GeometryCache';
+import { BODY_SHAPES, RarityType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { SpeciesRegistry } from './SpeciesRegistry';
+import { BodyShapeRenderer } from './BodyShapeRenderer';
+import { PatternRenderer } from './PatternRenderer';
+import { drawHexagon } from './pixiUtils';
 
 /**
  * Enhanced Fish DNA structure with new artistic properties
@@ -28,7 +34,7 @@ export interface FishDNA {
     glow?: string;
     shimmer?: string;
   };
-  rarity: 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary' | 'mythic' | 'cosmic';
+  rarity: RarityType;
   traits: string[];
   mutations: string[];
   genes: {
@@ -40,6 +46,18 @@ export interface FishDNA {
   // New artistic properties
   artStyle?: 'minimalist' | 'baroque' | 'abstract' | 'organic';
   dynamicColor?: boolean;
+  // Seed the DNA was generated from; regenerating with it yields identical DNA
+  // (bred fish also need their lineage parents)
+  seed?: string;
+  lineage?: FishLineage;
+}
+
+/**
+ * Ancestry of a bred fish
+ */
+export interface FishLineage {
+  parents: [string, string];  // Parent DNA ids
+  generation: number;         // Generated fish count as 0; offspring are max(parents) + 1
 }
 
 /**
@@ -66,27 +84,11 @@ export interface FishTemplate {
   };
 }
 
-// Extended body shapes for more variety
-export type BodyShapeType = 
-  | 'round'          
-  | 'streamlined'    
-  | 'diamond'        
-  | 'massive'        
-  | 'serpentine'     
-  | 'flat'           
-  | 'elongated'      
-  | 'triangular'     
-  | 'crescent'       
-  | 'oval'           
-  | 'compressed'     
-  | 'cylindrical'    
-  | 'asymmetrical'   
-  | 'bulbous'        
-  | 'spade'
-  | 'architectural'  // New artistic shapes
-  | 'deconstructed'
-  | 'tessellated'
-  | 'calligraphic';
+// Extended body shapes for more variety (list lives in fishConfig)
+export type BodyShapeType = typeof BODY_SHAPES[number];
+
+// The parts of a PIXI.Application a fish renders against (headless export passes just these)
+export type FishRenderHost = Pick<PIXI.Application, 'renderer' | 'screen'>;
 
 /**
  * Premium artistic fish class with enhanced performance
@@ -118,12 +120,12 @@ export class ArtisticFishPixi extends PIXI.Container {
   private isCached: boolean = false;
   
   // Reference to app for renderer access
-  private app: PIXI.Application;
+  private app: FishRenderHost;
   
   // Store particles separately for v8 ParticleContainer
   private particles: PIXI.Sprite[] = [];
   
-  constructor(dna: FishDNA, app: PIXI.Application) {
+  constructor(dna: FishDNA, app: FishRenderHost) {
     super();
     
     this.dna = dna;
@@ -155,7 +157,7 @@ export class ArtisticFishPixi extends PIXI.Container {
   /**
    * Creates the main fish artwork using advanced rendering with caching
    */
-  private createFish(app: PIXI.Application): void {
+  private createFish(app: FishRenderHost): void {
     // Generate high-quality fish texture with caching
     const fishTexture = this.generateFishArtwork(app.renderer);
     
@@ -181,7 +183,7 @@ export class ArtisticFishPixi extends PIXI.Container {
     this.applyColorMutations();
     
     // Enable caching for static complex fish
-    if (this.dna.rarity === 'legendary' || this.dna.rarity === 'mythic' || this.dna.rarity === 'cosmic') {
+    if (RarityRegistry.isAtLeast(this.dna.rarity, 'legendary')) {
       // Apply after initial render
       setTimeout(() => {
         if (this.isStatic) {
@@ -219,7 +221,8 @@ export class ArtisticFishPixi extends PIXI.Container {
    */
   private generateFishArtwork(renderer: PIXI.Renderer): PIXI.Texture {
     // Create cache key
-    const cacheKey = `fish-body-${this.dna.species}-${this.dna.bodyShape}-${this.dna.colors.primary}`;
+    const { primary, secondary, accent } = this.dna.colors;
+    const cacheKey = `fish-body-${this.dna.species}-${this.dna.bodyShape}-${primary}-${secondary}-${accent}`;
     
     if (this.useCache) {
       return GeometryCache.getBakedTexture(renderer, cacheKey, (graphics) => {
@@ -248,317 +251,18 @@ export class ArtisticFishPixi extends PIXI.Container {
   }
 
   /**
-   * Draws the fish body based on shape
+   * Draws the fish body, tail, fins and eye for the DNA's shape and species features
    */
   private drawFishBody(graphics: PIXI.Graphics): void {
-    const size = this.baseSize;
-    const primaryColor = PIXI.Color.shared.setValue(this.dna.colors.primary).toNumber();
-    const secondaryColor = PIXI.Color.shared.setValue(this.dna.colors.secondary).toNumber();
-    const accentColor = PIXI.Color.shared.setValue(this.dna.colors.accent).toNumber();
-    
-    // Draw based on body shape
-    switch (this.dna.bodyShape) {
-      case 'round':
-        this.drawRoundFish(graphics, size, primaryColor, secondaryColor);
-        break;
-      case 'streamlined':
-        this.drawStreamlinedFish(graphics, size, primaryColor, secondaryColor);
-        break;
-      case 'diamond':
-        this.drawDiamondFish(graphics, size, primaryColor, secondaryColor);
-        break;
-      case 'massive':
-        this.drawMassiveFish(graphics, size, primaryColor, secondaryColor);
-        break;
-      case 'serpentine':
-        this.drawSerpentineFish(graphics, size, primaryColor, secondaryColor);
-        break;
-      case 'architectural':
-        this.drawArchitecturalFish(graphics, size, primaryColor, secondaryColor);
-        break;
-      case 'deconstructed':
-        this.drawDeconstructedFish(graphics, size, primaryColor, secondaryColor);
-        break;
-      case 'tessellated':
-        this.drawTessellatedFish(graphics, size, primaryColor, secondaryColor);
-        break;
-      case 'calligraphic':
-        this.drawCalligraphicFish(graphics, size, primaryColor, secondaryColor);
-        break;
-      default:
-        this.drawRoundFish(graphics, size, primaryColor, secondaryColor);
-    }
-    
-    // Add fins with accent color
-    this.drawFins(graphics, size, accentColor);
-    
-    // Add details
-    this.drawDetails(graphics, size);
-  }
-
-  /**
-   * New artistic fish shapes
-   */
-  private drawArchitecturalFish(graphics: PIXI.Graphics, size: number, primary: number, secondary: number): void {
-    // Zaha Hadid inspired flowing curves
-    graphics.moveTo(size * 0.5, 0);
-    graphics.bezierCurveTo(
-      size * 0.4, -size * 0.4,
-      -size * 0.2, -size * 0.3,
-      -size * 0.5, -size * 0.1
-    );
-    graphics.bezierCurveTo(
-      -size * 0.6, 0,
-      -size * 0.6, size * 0.1,
-      -size * 0.5, size * 0.2
-    );
-    graphics.bezierCurveTo(
-      -size * 0.2, size * 0.3,
-      size * 0.4, size * 0.4,
-      size * 0.5, 0
-    );
-    graphics.fill({ color: primary });
-    
-    // Inner structure
-    graphics.moveTo(size * 0.3, 0);
-    graphics.bezierCurveTo(
-      size * 0.2, -size * 0.2,
-      -size * 0.1, -size * 0.15,
-      -size * 0.3, 0
-    );
-    graphics.bezierCurveTo(
-      -size * 0.1, size * 0.15,
-      size * 0.2, size * 0.2,
-      size * 0.3, 0
-    );
-    graphics.fill({ color: secondary, alpha: 0.6 });
-  }
-
-  private drawDeconstructedFish(graphics: PIXI.Graphics, size: number, primary: number, secondary: number): void {
-    // Floating geometric fragments
-    const fragments = [
-      { x: 0, y: 0, w: size * 0.4, h: size * 0.3, rot: 0 },
-      { x: size * 0.3, y: -size * 0.1, w: size * 0.3, h: size * 0.2, rot: 0.2 },
-      { x: -size * 0.3, y: size * 0.1, w: size * 0.3, h: size * 0.2, rot: -0.2 },
-      { x: -size * 0.5, y: 0, w: size * 0.2, h: size * 0.15, rot: 0.3 }
-    ];
-    
-    fragments.forEach((frag, i) => {
-      graphics.save();
-      graphics.translateTransform(frag.x, frag.y);
-      
-      // Use transform() with rotation matrix instead of rotateTransform()
-      const cos = Math.cos(frag.rot);
-      const sin = Math.sin(frag.rot);
-      graphics.transform(cos, sin, -sin, cos, 0, 0);
-      
-      graphics.rect(-frag.w/2, -frag.h/2, frag.w, frag.h);
-      graphics.fill({ color: i % 2 === 0 ? primary : secondary });
-      graphics.restore();
+    BodyShapeRenderer.draw(graphics, this.dna.bodyShape, {
+      size: this.baseSize,
+      primary: PIXI.Color.shared.setValue(this.dna.colors.primary).toNumber(),
+      secondary: PIXI.Color.shared.setValue(this.dna.colors.secondary).toNumber(),
+      accent: PIXI.Color.shared.setValue(this.dna.colors.accent).toNumber(),
+      features: SpeciesRegistry.resolve(this.dna.species).features
     });
   }
 
-  private drawTessellatedFish(graphics: PIXI.Graphics, size: number, primary: number, secondary: number): void {
-    // Hexagonal tessellation
-    const hexSize = size * 0.08;
-    const rows = 8;
-    const cols = 10;
-    
-    for (let row = 0; row < rows; row++) {
-      for (let col = 0; col < cols; col++) {
-        const x = -size * 0.4 + col * hexSize * 1.5;
-        const y = -size * 0.3 + row * hexSize * 1.73 + (col % 2) * hexSize * 0.87;
-        
-        // Check if within fish bounds
-        const dist = Math.sqrt(x * x + (y * y * 1.5));
-        if (dist < size * 0.5) {
-          this.drawHexagon(graphics, x, y, hexSize * 0.5);
-          graphics.fill({ 
-            color: (row + col) % 2 === 0 ? primary : secondary,
-            alpha: 1 - dist / (size * 0.5) * 0.3
-          });
-        }
-      }
-    }
-  }
-
-  private drawCalligraphicFish(graphics: PIXI.Graphics, size: number, primary: number, secondary: number): void {
-    // Single brushstroke style
-    graphics.moveTo(size * 0.5, 0);
-    graphics.bezierCurveTo(
-      size * 0.3, -size * 0.1,
-      size * 0.1, -size * 0.15,
-      -size * 0.1, -size * 0.1
-    );
-    graphics.bezierCurveTo(
-      -size * 0.3, -size * 0.05,
-      -size * 0.5, 0,
-      -size * 0.6, size * 0.05
-    );
-    graphics.bezierCurveTo(
-      -size * 0.5, size * 0.1,
-      -size * 0.3, size * 0.15,
-      -size * 0.1, size * 0.1
-    );
-    graphics.bezierCurveTo(
-      size * 0.1, size * 0.05,
-      size * 0.3, 0,
-      size * 0.5, 0
-    );
-    graphics.stroke({ color: primary, width: size * 0.15, cap: 'round', join: 'round' });
-    graphics.fill({ color: primary, alpha: 0.8 });
-  }
-
-  /**
-   * Existing fish shapes (keeping them for compatibility)
-   */
-  private drawRoundFish(graphics: PIXI.Graphics, size: number, primary: number, secondary: number): void {
-    // Main body with gradient effect
-    graphics.ellipse(0, 0, size * 0.6, size * 0.4);
-    graphics.fill({ color: primary, alpha: 1 });
-    
-    // Secondary color belly
-    graphics.ellipse(0, size * 0.15, size * 0.5, size * 0.25);
-    graphics.fill({ color: secondary, alpha: 0.7 });
-    
-    // Tail
-    graphics.moveTo(-size * 0.5, 0);
-    graphics.bezierCurveTo(
-      -size * 0.8, -size * 0.3,
-      -size * 0.9, -size * 0.2,
-      -size * 0.85, 0
-    );
-    graphics.bezierCurveTo(
-      -size * 0.9, size * 0.2,
-      -size * 0.8, size * 0.3,
-      -size * 0.5, 0
-    );
-    graphics.fill({ color: primary });
-  }
-
-  private drawStreamlinedFish(graphics: PIXI.Graphics, size: number, primary: number, secondary: number): void {
-    // Sleek body
-    graphics.moveTo(size * 0.5, 0);
-    graphics.bezierCurveTo(
-      size * 0.3, -size * 0.2,
-      -size * 0.3, -size * 0.15,
-      -size * 0.6, 0
-    );
-    graphics.bezierCurveTo(
-      -size * 0.3, size * 0.15,
-      size * 0.3, size * 0.2,
-      size * 0.5, 0
-    );
-    graphics.fill({ color: primary });
-    
-    // Streamlined tail
-    graphics.moveTo(-size * 0.5, 0);
-    graphics.lineTo(-size * 0.8, -size * 0.2);
-    graphics.lineTo(-size * 0.75, 0);
-    graphics.lineTo(-size * 0.8, size * 0.2);
-    graphics.closePath();
-    graphics.fill({ color: secondary });
-  }
-
-  private drawDiamondFish(graphics: PIXI.Graphics, size: number, primary: number, secondary: number): void {
-    // Diamond body
-    graphics.moveTo(size * 0.4, 0);
-    graphics.lineTo(0, -size * 0.35);
-    graphics.lineTo(-size * 0.4, 0);
-    graphics.lineTo(0, size * 0.35);
-    graphics.closePath();
-    graphics.fill({ color: primary });
-    
-    // Inner diamond
-    graphics.moveTo(size * 0.25, 0);
-    graphics.lineTo(0, -size * 0.2);
-    graphics.lineTo(-size * 0.25, 0);
-    graphics.lineTo(0, size * 0.2);
-    graphics.closePath();
-    graphics.fill({ color: secondary, alpha: 0.6 });
-  }
-
-  private drawMassiveFish(graphics: PIXI.Graphics, size: number, primary: number, secondary: number): void {
-    // Bulky body
-    graphics.ellipse(0, 0, size * 0.7, size * 0.5);
-    graphics.fill({ color: primary });
-    
-    // Head bulge
-    graphics.circle(size * 0.4, -size * 0.1, size * 0.3);
-    graphics.fill({ color: primary });
-    
-    // Belly
-    graphics.ellipse(0, size * 0.2, size * 0.6, size * 0.3);
-    graphics.fill({ color: secondary, alpha: 0.5 });
-  }
-
-  private drawSerpentineFish(graphics: PIXI.Graphics, size: number, primary: number, secondary: number): void {
-    // Wavy body
-    const segments = 5;
-    const segmentLength = size * 1.5 / segments;
-    
-    for (let i = 0; i < segments; i++) {
-      const x = -size * 0.75 + i * segmentLength;
-      const y = Math.sin(i * 0.8) * size * 0.2;
-      const radius = size * 0.2 * (1 - i / segments * 0.5);
-      
-      graphics.circle(x, y, radius);
-      graphics.fill({ color: i % 2 === 0 ? primary : secondary });
-    }
-  }
-
-  /**
-   * Draws fins with sophisticated shapes
-   */
-  private drawFins(graphics: PIXI.Graphics, size: number, color: number): void {
-    // Top dorsal fin
-    graphics.moveTo(0, -size * 0.4);
-    graphics.bezierCurveTo(
-      -size * 0.1, -size * 0.6,
-      size * 0.1, -size * 0.6,
-      size * 0.2, -size * 0.4
-    );
-    graphics.fill({ color, alpha: 0.8 });
-    
-    // Bottom fins
-    graphics.moveTo(-size * 0.1, size * 0.3);
-    graphics.bezierCurveTo(
-      -size * 0.15, size * 0.5,
-      0, size * 0.5,
-      size * 0.05, size * 0.3
-    );
-    graphics.fill({ color, alpha: 0.8 });
-    
-    // Side fins
-    graphics.ellipse(size * 0.1, 0, size * 0.15, size * 0.08);
-    graphics.fill({ color, alpha: 0.6 });
-  }
-
-  /**
-   * Draws detailed features
-   */
-  private drawDetails(graphics: PIXI.Graphics, size: number): void {
-    // Eye socket
-    graphics.circle(size * 0.25, -size * 0.05, size * 0.08);
-    graphics.fill({ color: 0xffffff });
-    
-    // Pupil
-    graphics.circle(size * 0.27, -size * 0.05, size * 0.04);
-    graphics.fill({ color: 0x000000 });
-    
-    // Eye highlight
-    graphics.circle(size * 0.26, -size * 0.06, size * 0.02);
-    graphics.fill({ color: 0xffffff });
-    
-    // Gills
-    for (let i = 0; i < 3; i++) {
-      const x = size * 0.1 - i * size * 0.05;
-      graphics.moveTo(x, -size * 0.1);
-      graphics.lineTo(x - size * 0.02, size * 0.1);
-      graphics.stroke({ color: 0x000000, alpha: 0.3, width: 2 });
-    }
-  }
-
   /**
    * Adds pattern overlay with advanced blending and caching
    */
@@ -566,7 +270,7 @@ export class ArtisticFishPixi extends PIXI.Container {
     const patternKey = `pattern-${this.dna.pattern}-${this.dna.species}`;
     
     const patternTexture = GeometryCache.getBakedTexture(renderer, patternKey, (graphics) => {
-      this.drawPattern(graphics, this.dna.pattern);
+      PatternRenderer.draw(graphics, this.dna.pattern, { size: this.baseSize, seed: patternKey });
     });
     
     this.patternSprite = new PIXI.Sprite(patternTexture);
@@ -577,312 +281,10 @@ export class ArtisticFishPixi extends PIXI.Container {
     this.fishContainer.addChild(this.patternSprite);
   }
 
-  /**
-   * Unified pattern drawing method
-   */
-  private drawPattern(graphics: PIXI.Graphics, pattern: string): void {
-    const size = this.baseSize;
-    
-    switch (pattern) {
-      case 'stripes':
-        this.drawStripesPattern(graphics, size);
-        break;
-      case 'dots':
-        this.drawDotsPattern(graphics, size);
-        break;
-      case 'scales':
-        this.drawScalesPattern(graphics, size);
-        break;
-      case 'waves':
-        this.drawWavesPattern(graphics, size);
-        break;
-      case 'fractals':
-        this.drawFractalPattern(graphics, size);
-        break;
-      case 'circuits':
-        this.drawCircuitPattern(graphics, size);
-        break;
-      case 'organic':
-        this.drawOrganicPattern(graphics, size);
-        break;
-      case 'geometric':
-        this.drawGeometricPattern(graphics, size);
-        break;
-      case 'mystic':
-        this.drawMysticPattern(graphics, size);
-        break;
-    }
-  }
-
-  /**
-   * Pattern drawing methods
-   */
-  private drawStripesPattern(graphics: PIXI.Graphics, size: number): void {
-    const stripeCount = 8;
-    const stripeWidth = size * 2 / stripeCount;
-    
-    for (let i = 0; i < stripeCount; i++) {
-      if (i % 2 === 0) {
-        graphics.rect(
-          -size + i * stripeWidth,
-          -size,
-          stripeWidth,
-          size * 2
-        );
-        graphics.fill({ color: 0x000000, alpha: 0.3 });
-      }
-    }
-  }
-
-  private drawDotsPattern(graphics: PIXI.Graphics, size: number): void {
-    const dotSize = size * 0.05;
-    const spacing = size * 0.15;
-    
-    for (let x = -size; x < size; x += spacing) {
-      for (let y = -size; y < size; y += spacing) {
-        const offset = (Math.floor(y / spacing) % 2) * spacing * 0.5;
-        graphics.circle(x + offset, y, dotSize);
-        graphics.fill({ color: 0x000000, alpha: 0.2 });
-      }
-    }
-  }
-
-  private drawScalesPattern(graphics: PIXI.Graphics, size: number): void {
-    const scaleSize = size * 0.1;
-    const rows = Math.floor(size * 2 / scaleSize);
-    
-    for (let row = 0; row < rows; row++) {
-      const y = -size + row * scaleSize;
-      const offset = (row % 2) * scaleSize * 0.5;
-      
-      for (let x = -size; x < size; x += scaleSize) {
-        graphics.moveTo(x + offset, y);
-        graphics.arc(x + offset, y, scaleSize * 0.5, 0, Math.PI);
-        graphics.stroke({ color: 0x000000, alpha: 0.2, width: 1 });
-      }
-    }
-  }
-
-  private drawWavesPattern(graphics: PIXI.Graphics, size: number): void {
-    const waveCount = 6;
-    
-    for (let i = 0; i < waveCount; i++) {
-      const y = -size + (i / waveCount) * size * 2;
-      graphics.moveTo(-size, y);
-      
-      for (let x = -size; x <= size; x += 5) {
-        const waveY = y + Math.sin(x * 0.05) * size * 0.05;
-        graphics.lineTo(x, waveY);
-      }
-      
-      graphics.stroke({ color: 0x000000, alpha: 0.2, width: 2 });
-    }
-  }
-
-  private drawFractalPattern(graphics: PIXI.Graphics, size: number): void {
-    // Simplified fractal-like pattern
-    const drawBranch = (x: number, y: number, length: number, angle: number, depth: number) => {
-      if (depth <= 0 || length < 2) return;
-      
-      const endX = x + Math.cos(angle) * length;
-      const endY = y + Math.sin(angle) * length;
-      
-      graphics.moveTo(x, y);
-      graphics.lineTo(endX, endY);
-      graphics.stroke({ color: 0x000000, alpha: 0.1 * depth, width: 1 });
-      
-      // Recursive branches
-      drawBranch(endX, endY, length * 0.7, angle - 0.5, depth - 1);
-      drawBranch(endX, endY, length * 0.7, angle + 0.5, depth - 1);
-    };
-    
-    // Draw fractal branches
-    for (let i = 0; i < 8; i++) {
-      const angle = (i / 8) * Math.PI * 2;
-      drawBranch(0, 0, size * 0.3, angle, 4);
-    }
-  }
-
-  private drawCircuitPattern(graphics: PIXI.Graphics, size: number): void {
-    const gridSize = size * 0.1;
-    
-    // Circuit paths
-    for (let i = 0; i < 10; i++) {
-      const startX = -size + Math.random() * size * 2;
-      const startY = -size + Math.random() * size * 2;
-      
-      graphics.moveTo(startX, startY);
-      
-      // Random circuit path
-      let x = startX;
-      let y = startY;
-      
-      for (let j = 0; j < 5; j++) {
-        const direction = Math.floor(Math.random() * 4);
-        switch (direction) {
-          case 0: x += gridSize; break;
-          case 1: x -= gridSize; break;
-          case 2: y += gridSize; break;
-          case 3: y -= gridSize; break;
-        }
-        
-        graphics.lineTo(x, y);
-        
-        // Add node
-        if (Math.random() > 0.7) {
-          graphics.circle(x, y, gridSize * 0.1);
-          graphics.fill({ color: 0x000000, alpha: 0.3 });
-        }
-      }
-      
-      graphics.stroke({ color: 0x000000, alpha: 0.2, width: 1 });
-    }
-  }
-
-  private drawOrganicPattern(graphics: PIXI.Graphics, size: number): void {
-    // Organic flowing lines
-    for (let i = 0; i < 5; i++) {
-      const startX = -size + Math.random() * size * 2;
-      const startY = -size + Math.random() * size * 2;
-      
-      graphics.moveTo(startX, startY);
-      
-      // Create flowing path
-      for (let j = 0; j < 10; j++) {
-        const t = j / 10;
-        const x = startX + Math.sin(t * Math.PI * 2 + i) * size * 0.3;
-        const y = startY + Math.cos(t * Math.PI * 2 + i) * size * 0.3;
-        
-        if (j === 0) {
-          graphics.lineTo(x, y);
-        } else {
-          const prevT = (j - 1) / 10;
-          const prevX = startX + Math.sin(prevT * Math.PI * 2 + i) * size * 0.3;
-          const prevY = startY + Math.cos(prevT * Math.PI * 2 + i) * size * 0.3;
-          const cpX = (prevX + x) / 2 + (Math.random() - 0.5) * size * 0.1;
-          const cpY = (prevY + y) / 2 + (Math.random() - 0.5) * size * 0.1;
-          graphics.quadraticCurveTo(cpX, cpY, x, y);
-        }
-      }
-      
-      graphics.stroke({ color: 0x000000, alpha: 0.15, width: 3 });
-    }
-  }
-
-  private drawGeometricPattern(graphics: PIXI.Graphics, size: number): void {
-    // Geometric shapes grid
-    const shapes = ['triangle', 'square', 'hexagon'];
-    const shapeSize = size * 0.1;
-    
-    for (let i = 0; i < 20; i++) {
-      const x = -size + Math.random() * size * 2;
-      const y = -size + Math.random() * size * 2;
-      const shape = shapes[Math.floor(Math.random() * shapes.length)];
-      
-      switch (shape) {
-        case 'triangle':
-          graphics.moveTo(x, y - shapeSize/2);
-          graphics.lineTo(x - shapeSize/2, y + shapeSize/2);
-          graphics.lineTo(x + shapeSize/2, y + shapeSize/2);
-          graphics.closePath();
-          break;
-        case 'square':
-          graphics.rect(x - shapeSize/2, y - shapeSize/2, shapeSize, shapeSize);
-          break;
-        case 'hexagon':
-          this.drawHexagon(graphics, x, y, shapeSize/2);
-          break;
-      }
-      
-      graphics.fill({ color: 0x000000, alpha: 0.1 });
-      graphics.stroke({ color: 0x000000, alpha: 0.2, width: 1 });
-    }
-  }
-
-  private drawMysticPattern(graphics: PIXI.Graphics, size: number): void {
-    // Mystical symbols
-    const symbols = [
-      // Circle with cross
-      () => {
-        graphics.circle(0, 0, size * 0.2);
-        graphics.stroke({ color: 0x000000, alpha: 0.3, width: 2 });
-        graphics.moveTo(-size * 0.2, 0);
-        graphics.lineTo(size * 0.2, 0);
-        graphics.moveTo(0, -size * 0.2);
-        graphics.lineTo(0, size * 0.2);
-        graphics.stroke({ color: 0x000000, alpha: 0.3, width: 1 });
-      },
-      // Star
-      () => {
-        for (let i = 0; i < 5; i++) {
-          const angle = (i / 5) * Math.PI * 2 - Math.PI / 2;
-          const x = Math.cos(angle) * size * 0.15;
-          const y = Math.sin(angle) * size * 0.15;
-          graphics.moveTo(0, 0);
-          graphics.lineTo(x, y);
-        }
-        graphics.stroke({ color: 0x000000, alpha: 0.3, width: 2 });
-      },
-      // Spiral
-      () => {
-        graphics.moveTo(0, 0);
-        for (let i = 0; i < 50; i++) {
-          const angle = i * 0.2;
-          const radius = i * 2;
-          const x = Math.cos(angle) * radius;
-          const y = Math.sin(angle) * radius;
-          if (radius < size * 0.3) {
-            graphics.lineTo(x, y);
-          }
-        }
-        graphics.stroke({ color: 0x000000, alpha: 0.2, width: 1 });
-      }
-    ];
-    
-    // Draw random symbols
-    for (let i = 0; i < 3; i++) {
-      graphics.save();
-      graphics.translateTransform(
-        -size * 0.5 + Math.random() * size,
-        -size * 0.5 + Math.random() * size
-      );
-      
-      // Use transform() with rotation matrix instead of rotateTransform()
-      const rotation = Math.random() * Math.PI * 2;
-      const cos = Math.cos(rotation);
-      const sin = Math.sin(rotation);
-      graphics.transform(cos, sin, -sin, cos, 0, 0);
-      
-      symbols[Math.floor(Math.random() * symbols.length)]();
-      graphics.restore();
-    }
-  }
-
-
-  /**
-   * Helper method to draw hexagon
-   */
-  private drawHexagon(graphics: PIXI.Graphics, x: number, y: number, size: number): void {
-    const points: PIXI.Point[] = [];
-    for (let i = 0; i < 6; i++) {
-      const angle = (i / 6) * Math.PI * 2 - Math.PI / 2;
-      points.push(new PIXI.Point(
-        x + Math.cos(angle) * size,
-        y + Math.sin(angle) * size
-      ));
-    }
-    
-    graphics.moveTo(points[0].x, points[0].y);
-    for (let i = 1; i < points.length; i++) {
-      graphics.lineTo(points[i].x, points[i].y);
-    }
-    graphics.closePath();
-  }
-
   /**
    * Applies surface treatments for artistic enhancement
    */
-  private applySurfaceTreatment(app: PIXI.Application): void {
+  private applySurfaceTreatment(app: FishRenderHost): void {
     switch (this.dna.surfaceType) {
       case 'matte':
         // Simple matte finish - no additional effects needed
@@ -902,7 +304,7 @@ export class ArtisticFishPixi extends PIXI.Container {
     }
   }
 
-  private applyProceduralNoise(app: PIXI.Application): void {
+  private applyProceduralNoise(app: FishRenderHost): void {
     // Create a custom noise filter
     const noiseFilter = new PIXI.NoiseFilter({
       noise: 0.1,
@@ -946,7 +348,7 @@ export class ArtisticFishPixi extends PIXI.Container {
   /**
    * Adds special features based on DNA traits
    */
-  private addSpecialFeatures(app: PIXI.Application): void {
+  private addSpecialFeatures(app: FishRenderHost): void {
     // Add crown for legendary+ fish
     if (this.dna.traits.includes('crown')) {
       this.addCrown();
@@ -1217,7 +619,7 @@ export class ArtisticFishPixi extends PIXI.Container {
         
         // Check if within fish bounds (rough approximation)
         if (Math.abs(x) < this.baseSize * 0.4 && Math.abs(y) < this.baseSize * 0.3) {
-          this.drawHexagon(armor, x, y, plateSize * 0.4);
+          drawHexagon(armor, x, y, plateSize * 0.4);
           armor.stroke({ color: 0x888888, width: 1 });
           armor.fill({ color: 0xaaaaaa, alpha: 0.2 });
         }
@@ -1404,19 +806,19 @@ export class ArtisticFishPixi extends PIXI.Container {
   /**
    * Applies rarity-based visual effects with optimizations
    */
-  private applyRarityEffects(app: PIXI.Application): void {
+  private applyRarityEffects(app: FishRenderHost): void {
     // Glow effect for rare+ fish
-    if (['rare', 'epic', 'legendary', 'mythic', 'cosmic'].includes(this.dna.rarity)) {
+    if (RarityRegistry.isAtLeast(this.dna.rarity, 'rare')) {
       this.createGlowEffect();
     }
     
     // Particle effects for epic+ fish - using ParticleContainer
-    if (['epic', 'legendary', 'mythic', 'cosmic'].includes(this.dna.rarity)) {
+    if (RarityRegistry.isAtLeast(this.dna.rarity, 'epic')) {
       this.createParticleEffects();
     }
     
     // Advanced shader effects for legendary+ fish
-    if (['legendary', 'mythic', 'cosmic'].includes(this.dna.rarity)) {
+    if (RarityRegistry.isAtLeast(this.dna.rarity, 'legendary')) {
       this.addAdvancedEffects(app);
     }
     
@@ -1465,10 +867,7 @@ export class ArtisticFishPixi extends PIXI.Container {
    * Creates particle effects using ParticleContainer for performance
    */
   private createParticleEffects(): void {
-    const particleCount = 
-      this.dna.rarity === 'cosmic' ? 30 :
-      this.dna.rarity === 'mythic' ? 20 :
-      this.dna.rarity === 'legendary' ? 15 : 10;
+    const particleCount = RarityRegistry.get(this.dna.rarity).particleCount;
     
     // Create particle texture
     const particleTexture = this.createParticleTexture();
@@ -1540,14 +939,14 @@ export class ArtisticFishPixi extends PIXI.Container {
   /**
    * Adds advanced visual effects
    */
-  private addAdvancedEffects(app: PIXI.Application): void {
+  private addAdvancedEffects(app: FishRenderHost): void {
     // Displacement effect for water-like distortion
     if (this.dna.mutations.includes('quantum') || this.dna.rarity === 'cosmic') {
       this.createDisplacementEffect(app);
     }
     
     // Chromatic aberration for mythic/cosmic
-    if (['mythic', 'cosmic'].includes(this.dna.rarity)) {
+    if (RarityRegistry.isAtLeast(this.dna.rarity, 'mythic')) {
       this.addChromaticAberration();
     }
     
@@ -1560,7 +959,7 @@ export class ArtisticFishPixi extends PIXI.Container {
   /**
    * Creates displacement effect
    */
-  private createDisplacementEffect(app: PIXI.Application): void {
+  private createDisplacementEffect(app: FishRenderHost): void {
     // Create displacement sprite
     const displacementSprite = PIXI.Sprite.from(
       this.createDisplacementTexture(app.renderer)
@@ -1829,7 +1228,7 @@ export class ArtisticFishPixi extends PIXI.Container {
     }
     
     // Re-enable caching for performance
-    if (this.isStatic && ['legendary', 'mythic', 'cosmic'].includes(this.dna.rarity)) {
+    if (this.isStatic && RarityRegistry.isAtLeast(this.dna.rarity, 'legendary')) {
       setTimeout(() => {
         this.enableCaching();
       }, 100);
@@ -1842,7 +1241,7 @@ export class ArtisticFishPixi extends PIXI.Container {
   public setStatic(isStatic: boolean): void {
     this.isStatic = isStatic;
     
-    if (isStatic && ['legendary', 'mythic', 'cosmic'].includes(this.dna.rarity)) {
+    if (isStatic && RarityRegistry.isAtLeast(this.dna.rarity, 'legendary')) {
       // Cache complex fish as texture for performance
       this.enableCaching();
     } else {
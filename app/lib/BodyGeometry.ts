@@ -0,0 +1,51 @@
+/**
+ * BodyGeometry.ts
+ *
+ * Fish body proportions without any drawing
+ * BodyShapeRenderer draws with these extents and CollisionSystem builds hit
+ * shapes from them, so rendering and the simulation core agree on body size.
+ *
+ * @version 1.0.0
+ * @path app/lib/BodyGeometry.ts
+ */
+
+import type { FishTemplate } from './ArtisticFishPixi';
+
+export type BodyRatio = FishTemplate['features']['bodyRatio'];
+
+/**
+ * Body extents in local space (head points to +x)
+ * halfLength/halfHeight are derived from bodyRatio
+ */
+export interface BodyGeometry {
+  halfLength: number;
+  halfHeight: number;
+  noseX: number;    // Front-most point of the body
+  tailX: number;    // Where the tail attaches
+  topY: number;     // Where the dorsal fin sits
+  bottomY: number;  // Where the ventral fin sits
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Converts bodyRatio into half extents, keeping the overall area roughly constant
+ */
+export function measureBody(size: number, bodyRatio: BodyRatio): BodyGeometry {
+  const { w, h } = bodyRatio;
+  const aspect = Math.sqrt(Math.max(0.1, w) / Math.max(0.1, h));
+
+  const halfLength = clamp(size * 0.5 * aspect, size * 0.3, size * 0.95);
+  const halfHeight = clamp(size * 0.5 / aspect, size * 0.15, size * 0.7);
+
+  return {
+    halfLength,
+    halfHeight,
+    noseX: halfLength,
+    tailX: -halfLength,
+    topY: -halfHeight,
+    bottomY: halfHeight
+  };
+}
@@ -0,0 +1,657 @@
+/**
+ * BodyShapeRenderer.ts
+ *
+ * Shape-rendering subsystem for fish bodies
+ * Every BodyShapeType has a registered drawer; all drawers share the same
+ * proportions (bodyRatio), head profiles (headCurve), tails (tailType) and fins (finStyle)
+ *
+ * @version 1.0.0
+ * @path app/lib/BodyShapeRenderer.ts
+ */
+
+import * as PIXI from 'pixi.js';
+import { BodyShapeType, FishTemplate } from './ArtisticFishPixi';
+import { drawHexagon } from './pixiUtils';
+import { BodyGeometry, clamp, measureBody } from './BodyGeometry';
+
+export type { BodyGeometry } from './BodyGeometry';
+
+export type FishFeatures = FishTemplate['features'];
+
+/**
+ * Inputs shared by every shape drawer
+ */
+export interface BodyShapeContext {
+  size: number;
+  primary: number;
+  secondary: number;
+  accent: number;
+  features: FishFeatures;
+}
+
+/**
+ * Draws the body outline and fills; returns where tail, fins and eye attach
+ */
+export type BodyShapeDrawer = (graphics: PIXI.Graphics, ctx: BodyShapeContext, dims: BodyGeometry) => BodyGeometry;
+
+type HeadProfile = 'round' | 'pointed' | 'blunt' | 'angular';
+type TailFamily = 'fan' | 'forked' | 'whip' | 'small' | 'tentacles' | 'none';
+type FinFamily = 'standard' | 'flowing' | 'minimal' | 'spiky' | 'wing' | 'none';
+
+// Catalog feature names are descriptive; group them into the families we can draw
+const HEAD_PROFILES: Record<string, HeadProfile> = {
+  pointed: 'pointed', sharp: 'pointed', torpedo: 'pointed', crystalline: 'pointed', brushstroke: 'pointed',
+  blunt: 'blunt', boxy: 'blunt', flat: 'blunt', massive_jaw: 'blunt',
+  angular: 'angular', parametric: 'angular', fragmented: 'angular'
+};
+
+const TAIL_FAMILIES: Record<string, TailFamily> = {
+  fan: 'fan', double_fan: 'fan', round: 'fan', rounded: 'fan', coin: 'fan', flowing: 'fan',
+  trailing: 'fan', phoenix_plume: 'fan', legendary: 'fan',
+  forked: 'forked', crescent: 'forked', cosmic_fluke: 'forked', powerful: 'forked',
+  geometric: 'forked', propeller: 'forked', fractal: 'forked',
+  whip: 'whip', prehensile: 'whip', ink_trail: 'whip', dispersed: 'whip',
+  small: 'small', tiny: 'small',
+  tentacles: 'tentacles'
+};
+
+const FIN_FAMILIES: Record<string, FinFamily> = {
+  standard: 'standard', ornate: 'standard', ancient: 'standard', frilled: 'standard',
+  flowing: 'flowing', flowing_ink: 'flowing', delicate: 'flowing', ethereal: 'flowing',
+  elongated: 'flowing', flame: 'flowing',
+  minimal: 'minimal', stubby: 'minimal', tiny: 'minimal', dorsal_only: 'minimal',
+  blade: 'spiky', venomous_spines: 'spiky', icy: 'spiky', mechanical: 'spiky',
+  tessellated: 'spiky', corner: 'spiky',
+  wing: 'wing', shadow: 'wing', floating: 'wing',
+  none: 'none'
+};
+
+/**
+ * Built-in shape drawers; every BodyShapeType must have one
+ */
+const BODY_SHAPE_DRAWERS: Record<BodyShapeType, BodyShapeDrawer> = {
+  round: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    graphics.ellipse(0, 0, l, h);
+    graphics.fill({ color: primary });
+
+    // Secondary color belly
+    graphics.ellipse(0, h * 0.375, l * 0.83, h * 0.62);
+    graphics.fill({ color: secondary, alpha: 0.7 });
+    return dims;
+  },
+
+  oval: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    graphics.ellipse(0, 0, l, h * 0.85);
+    graphics.fill({ color: primary });
+
+    // Lateral band
+    graphics.ellipse(-l * 0.05, 0, l * 0.8, h * 0.2);
+    graphics.fill({ color: secondary, alpha: 0.6 });
+    return { ...dims, topY: -h * 0.85, bottomY: h * 0.85 };
+  },
+
+  streamlined: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    graphics.moveTo(l, 0);
+    graphics.bezierCurveTo(l * 0.6, -h, -l * 0.6, -h * 0.75, -l, 0);
+    graphics.bezierCurveTo(-l * 0.6, h * 0.75, l * 0.6, h, l, 0);
+    graphics.fill({ color: primary });
+
+    // Pale underside
+    graphics.moveTo(l * 0.8, h * 0.1);
+    graphics.bezierCurveTo(l * 0.4, h * 0.7, -l * 0.5, h * 0.5, -l * 0.8, h * 0.05);
+    graphics.fill({ color: secondary, alpha: 0.5 });
+    return { ...dims, topY: -h * 0.75, bottomY: h * 0.7 };
+  },
+
+  elongated: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Long capsule tapering toward the tail
+    graphics.moveTo(l, 0);
+    graphics.bezierCurveTo(l, -h * 0.8, l * 0.6, -h * 0.7, 0, -h * 0.65);
+    graphics.lineTo(-l * 0.9, -h * 0.3);
+    graphics.quadraticCurveTo(-l, 0, -l * 0.9, h * 0.3);
+    graphics.lineTo(0, h * 0.65);
+    graphics.bezierCurveTo(l * 0.6, h * 0.7, l, h * 0.8, l, 0);
+    graphics.fill({ color: primary });
+
+    graphics.moveTo(l * 0.8, 0);
+    graphics.lineTo(-l * 0.85, 0);
+    graphics.stroke({ color: secondary, width: Math.max(2, h * 0.12), alpha: 0.6 });
+    return { ...dims, topY: -h * 0.6, bottomY: h * 0.6 };
+  },
+
+  cylindrical: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    const radius = h * 0.7;
+    graphics.roundRect(-l, -radius, l * 2, radius * 2, radius);
+    graphics.fill({ color: primary });
+
+    // Segment rings
+    for (let i = 1; i < 5; i++) {
+      const x = -l + (l * 2 * i) / 5;
+      graphics.moveTo(x, -radius * 0.9);
+      graphics.lineTo(x, radius * 0.9);
+      graphics.stroke({ color: secondary, width: 2, alpha: 0.5 });
+    }
+    return { ...dims, topY: -radius, bottomY: radius };
+  },
+
+  diamond: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    graphics.moveTo(l, 0);
+    graphics.lineTo(0, -h);
+    graphics.lineTo(-l, 0);
+    graphics.lineTo(0, h);
+    graphics.closePath();
+    graphics.fill({ color: primary });
+
+    // Inner diamond
+    graphics.moveTo(l * 0.62, 0);
+    graphics.lineTo(0, -h * 0.57);
+    graphics.lineTo(-l * 0.62, 0);
+    graphics.lineTo(0, h * 0.57);
+    graphics.closePath();
+    graphics.fill({ color: secondary, alpha: 0.6 });
+    return dims;
+  },
+
+  triangular: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Wedge: narrow snout, tall flat rear
+    graphics.moveTo(l, 0);
+    graphics.lineTo(-l * 0.8, -h);
+    graphics.quadraticCurveTo(-l, 0, -l * 0.8, h);
+    graphics.closePath();
+    graphics.fill({ color: primary });
+
+    graphics.moveTo(l * 0.5, h * 0.05);
+    graphics.lineTo(-l * 0.6, h * 0.7);
+    graphics.lineTo(-l * 0.6, h * 0.1);
+    graphics.closePath();
+    graphics.fill({ color: secondary, alpha: 0.5 });
+    return { ...dims, tailX: -l * 0.85, topY: -h * 0.6, bottomY: h * 0.6 };
+  },
+
+  compressed: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Tall, laterally compressed disc with a peaked back
+    graphics.moveTo(l, 0);
+    graphics.bezierCurveTo(l * 0.7, -h * 0.9, -l * 0.2, -h * 1.1, -l * 0.8, -h * 0.3);
+    graphics.quadraticCurveTo(-l, 0, -l * 0.8, h * 0.3);
+    graphics.bezierCurveTo(-l * 0.2, h * 1.1, l * 0.7, h * 0.9, l, 0);
+    graphics.fill({ color: primary });
+
+    graphics.ellipse(-l * 0.1, 0, l * 0.55, h * 0.55);
+    graphics.fill({ color: secondary, alpha: 0.35 });
+    return { ...dims, topY: -h * 0.95, bottomY: h * 0.95 };
+  },
+
+  massive: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    graphics.ellipse(0, 0, l, h);
+    graphics.fill({ color: primary });
+
+    // Head bulge
+    graphics.circle(l * 0.57, -h * 0.2, h * 0.6);
+    graphics.fill({ color: primary });
+
+    // Belly
+    graphics.ellipse(0, h * 0.4, l * 0.86, h * 0.6);
+    graphics.fill({ color: secondary, alpha: 0.5 });
+    return { ...dims, noseX: Math.max(l, l * 0.57 + h * 0.6) };
+  },
+
+  bulbous: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Large front bulb tapering into a narrow rear
+    const bulbX = l * 0.3;
+    const bulbR = Math.min(h, l * 0.7);
+    graphics.moveTo(bulbX, -bulbR);
+    graphics.quadraticCurveTo(-l * 0.4, -bulbR * 0.5, -l, -h * 0.15);
+    graphics.lineTo(-l, h * 0.15);
+    graphics.quadraticCurveTo(-l * 0.4, bulbR * 0.5, bulbX, bulbR);
+    graphics.fill({ color: primary });
+    graphics.circle(bulbX, 0, bulbR);
+    graphics.fill({ color: primary });
+
+    graphics.circle(bulbX + bulbR * 0.2, bulbR * 0.2, bulbR * 0.55);
+    graphics.fill({ color: secondary, alpha: 0.4 });
+    return { ...dims, noseX: bulbX + bulbR, topY: -bulbR, bottomY: bulbR };
+  },
+
+  flat: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Low, wide disc with a soft fringe
+    const flatH = h * 0.6;
+    graphics.ellipse(0, 0, l, flatH);
+    graphics.fill({ color: primary });
+
+    graphics.ellipse(0, 0, l * 1.05, flatH * 1.15);
+    graphics.stroke({ color: secondary, width: Math.max(2, flatH * 0.12), alpha: 0.5 });
+
+    // Top-side speckles
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI * 2 * i) / 6;
+      graphics.circle(Math.cos(angle) * l * 0.5, Math.sin(angle) * flatH * 0.45, flatH * 0.08);
+      graphics.fill({ color: secondary, alpha: 0.6 });
+    }
+    return { ...dims, topY: -flatH, bottomY: flatH };
+  },
+
+  crescent: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Moon-shaped arc, belly curving down
+    graphics.moveTo(l, -h * 0.2);
+    graphics.bezierCurveTo(l * 0.4, -h * 1.1, -l * 0.6, -h * 0.9, -l, -h * 0.1);
+    graphics.bezierCurveTo(-l * 0.5, -h * 0.3, l * 0.3, -h * 0.1, l * 0.9, h * 0.5);
+    graphics.bezierCurveTo(l * 1.05, h * 0.3, l * 1.05, 0, l, -h * 0.2);
+    graphics.fill({ color: primary });
+
+    graphics.moveTo(l * 0.7, -h * 0.35);
+    graphics.bezierCurveTo(l * 0.3, -h * 0.75, -l * 0.4, -h * 0.65, -l * 0.75, -h * 0.15);
+    graphics.stroke({ color: secondary, width: Math.max(2, h * 0.1), alpha: 0.6 });
+    return { ...dims, noseX: l, tailX: -l * 0.95, topY: -h * 0.85, bottomY: h * 0.1 };
+  },
+
+  asymmetrical: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Humped back, flatter belly, head tilted down
+    graphics.moveTo(l, h * 0.15);
+    graphics.bezierCurveTo(l * 0.8, -h * 1.2, -l * 0.4, -h * 0.9, -l, -h * 0.1);
+    graphics.bezierCurveTo(-l * 0.6, h * 0.5, l * 0.4, h * 0.7, l, h * 0.15);
+    graphics.fill({ color: primary });
+
+    graphics.ellipse(l * 0.1, h * 0.3, l * 0.5, h * 0.25);
+    graphics.fill({ color: secondary, alpha: 0.5 });
+    return { ...dims, topY: -h * 0.9, bottomY: h * 0.5 };
+  },
+
+  spade: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Pointed nose, two rounded lobes at the rear
+    graphics.moveTo(l, 0);
+    graphics.bezierCurveTo(l * 0.3, -h * 0.4, -l * 0.2, -h * 1.1, -l * 0.7, -h * 0.7);
+    graphics.quadraticCurveTo(-l * 1.05, -h * 0.35, -l * 0.7, 0);
+    graphics.quadraticCurveTo(-l * 1.05, h * 0.35, -l * 0.7, h * 0.7);
+    graphics.bezierCurveTo(-l * 0.2, h * 1.1, l * 0.3, h * 0.4, l, 0);
+    graphics.fill({ color: primary });
+
+    graphics.moveTo(l * 0.6, 0);
+    graphics.lineTo(-l * 0.4, -h * 0.35);
+    graphics.lineTo(-l * 0.4, h * 0.35);
+    graphics.closePath();
+    graphics.fill({ color: secondary, alpha: 0.45 });
+    return { ...dims, tailX: -l * 0.75, topY: -h * 0.8, bottomY: h * 0.8 };
+  },
+
+  serpentine: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Overlapping segments along a sine curve; more segments for longer bodies
+    const segments = clamp(Math.round(l / (h * 0.5)), 5, 12);
+    const step = (l * 2) / segments;
+
+    for (let i = 0; i < segments; i++) {
+      const x = -l + i * step + step / 2;
+      const y = Math.sin(i * 0.8) * h * 0.5;
+      const radius = Math.max(step * 0.6, h * 0.5) * (0.5 + (i / segments) * 0.5);
+      graphics.circle(x, y, radius);
+      graphics.fill({ color: i % 2 === 0 ? primary : secondary });
+    }
+
+    const headY = Math.sin((segments - 1) * 0.8) * h * 0.5;
+    return { ...dims, topY: headY - h * 0.5, bottomY: headY + h * 0.5 };
+  },
+
+  // Artistic shapes
+  architectural: (graphics, { size, primary, secondary }, dims) => {
+    // Zaha Hadid inspired flowing curves
+    const sx = dims.halfLength / (size * 0.5);
+    const sy = dims.halfHeight / (size * 0.35);
+    graphics.moveTo(size * 0.5 * sx, 0);
+    graphics.bezierCurveTo(
+      size * 0.4 * sx, -size * 0.4 * sy,
+      -size * 0.2 * sx, -size * 0.3 * sy,
+      -size * 0.5 * sx, -size * 0.1 * sy
+    );
+    graphics.bezierCurveTo(
+      -size * 0.6 * sx, 0,
+      -size * 0.6 * sx, size * 0.1 * sy,
+      -size * 0.5 * sx, size * 0.2 * sy
+    );
+    graphics.bezierCurveTo(
+      -size * 0.2 * sx, size * 0.3 * sy,
+      size * 0.4 * sx, size * 0.4 * sy,
+      size * 0.5 * sx, 0
+    );
+    graphics.fill({ color: primary });
+
+    // Inner structure
+    graphics.moveTo(size * 0.3 * sx, 0);
+    graphics.bezierCurveTo(
+      size * 0.2 * sx, -size * 0.2 * sy,
+      -size * 0.1 * sx, -size * 0.15 * sy,
+      -size * 0.3 * sx, 0
+    );
+    graphics.bezierCurveTo(
+      -size * 0.1 * sx, size * 0.15 * sy,
+      size * 0.2 * sx, size * 0.2 * sy,
+      size * 0.3 * sx, 0
+    );
+    graphics.fill({ color: secondary, alpha: 0.6 });
+    return { ...dims, noseX: size * 0.5 * sx, tailX: -size * 0.55 * sx, topY: -size * 0.28 * sy, bottomY: size * 0.28 * sy };
+  },
+
+  deconstructed: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Floating geometric fragments
+    const fragments = [
+      { x: 0, y: 0, w: l * 0.8, h: h * 0.85, rot: 0 },
+      { x: l * 0.6, y: -h * 0.3, w: l * 0.6, h: h * 0.55, rot: 0.2 },
+      { x: -l * 0.6, y: h * 0.3, w: l * 0.6, h: h * 0.55, rot: -0.2 },
+      { x: -l, y: 0, w: l * 0.4, h: h * 0.45, rot: 0.3 }
+    ];
+
+    fragments.forEach((frag, i) => {
+      graphics.save();
+      graphics.translateTransform(frag.x, frag.y);
+
+      // Use transform() with rotation matrix instead of rotateTransform()
+      const cos = Math.cos(frag.rot);
+      const sin = Math.sin(frag.rot);
+      graphics.transform(cos, sin, -sin, cos, 0, 0);
+
+      graphics.rect(-frag.w / 2, -frag.h / 2, frag.w, frag.h);
+      graphics.fill({ color: i % 2 === 0 ? primary : secondary });
+      graphics.restore();
+    });
+    return { ...dims, noseX: l * 0.9, tailX: -l * 1.1, topY: -h * 0.55, bottomY: h * 0.55 };
+  },
+
+  tessellated: (graphics, { primary, secondary }, dims) => {
+    const { halfLength: l, halfHeight: h } = dims;
+    // Hexagonal tessellation clipped to an elliptical body
+    const hexSize = Math.min(l, h) * 0.18;
+    const cols = Math.ceil((l * 2) / (hexSize * 1.5)) + 1;
+    const rows = Math.ceil((h * 2) / (hexSize * 1.73)) + 1;
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const x = -l + col * hexSize * 1.5;
+        const y = -h + row * hexSize * 1.73 + (col % 2) * hexSize * 0.87;
+
+        const dist = Math.sqrt((x * x) / (l * l) + (y * y) / (h * h));
+        if (dist < 1) {
+          drawHexagon(graphics, x, y, hexSize * 0.5);
+          graphics.fill({
+            color: (row + col) % 2 === 0 ? primary : secondary,
+            alpha: 1 - dist * 0.3
+          });
+        }
+      }
+    }
+    return dims;
+  },
+
+  calligraphic: (graphics, { size, primary }, dims) => {
+    // Single brushstroke style
+    const sx = dims.halfLength / (size * 0.55);
+    const sy = dims.halfHeight / (size * 0.15);
+    graphics.moveTo(size * 0.5 * sx, 0);
+    graphics.bezierCurveTo(
+      size * 0.3 * sx, -size * 0.1 * sy,
+      size * 0.1 * sx, -size * 0.15 * sy,
+      -size * 0.1 * sx, -size * 0.1 * sy
+    );
+    graphics.bezierCurveTo(
+      -size * 0.3 * sx, -size * 0.05 * sy,
+      -size * 0.5 * sx, 0,
+      -size * 0.6 * sx, size * 0.05 * sy
+    );
+    graphics.bezierCurveTo(
+      -size * 0.5 * sx, size * 0.1 * sy,
+      -size * 0.3 * sx, size * 0.15 * sy,
+      -size * 0.1 * sx, size * 0.1 * sy
+    );
+    graphics.bezierCurveTo(
+      size * 0.1 * sx, size * 0.05 * sy,
+      size * 0.3 * sx, 0,
+      size * 0.5 * sx, 0
+    );
+    graphics.stroke({ color: primary, width: size * 0.15, cap: 'round', join: 'round' });
+    graphics.fill({ color: primary, alpha: 0.8 });
+    return { ...dims, noseX: size * 0.5 * sx, tailX: -size * 0.6 * sx, topY: -size * 0.14 * sy, bottomY: size * 0.14 * sy };
+  }
+};
+
+export class BodyShapeRenderer {
+  private static shapes: Map<string, BodyShapeDrawer> = new Map(Object.entries(BODY_SHAPE_DRAWERS));
+
+  /**
+   * Registers (or replaces) the drawer for a body shape
+   */
+  public static register(shape: BodyShapeType, drawer: BodyShapeDrawer): void {
+    this.shapes.set(shape, drawer);
+  }
+
+  public static has(shape: string): boolean {
+    return this.shapes.has(shape);
+  }
+
+  /**
+   * Draws a complete fish: body, head profile, tail, fins, eye and gills
+   * Unknown shapes fall back to 'round'
+   */
+  public static draw(graphics: PIXI.Graphics, shape: string, ctx: BodyShapeContext): BodyGeometry {
+    const drawer = this.shapes.get(shape) || this.shapes.get('round')!;
+    const dims = this.measure(ctx.size, ctx.features.bodyRatio);
+
+    const geometry = drawer(graphics, ctx, dims);
+    this.drawTail(graphics, ctx, geometry);
+    this.drawHead(graphics, ctx, geometry);
+    this.drawFins(graphics, ctx, geometry);
+    this.drawEye(graphics, ctx, geometry);
+
+    return geometry;
+  }
+
+  /**
+   * Converts bodyRatio into half extents, keeping the overall area roughly constant
+   */
+  public static measure(size: number, bodyRatio: FishFeatures['bodyRatio']): BodyGeometry {
+    return measureBody(size, bodyRatio);
+  }
+
+  /**
+   * Reshapes the front of the body according to headCurve
+   */
+  private static drawHead(graphics: PIXI.Graphics, ctx: BodyShapeContext, geo: BodyGeometry): void {
+    const profile = HEAD_PROFILES[ctx.features.headCurve] || 'round';
+    const { noseX, halfHeight } = geo;
+
+    switch (profile) {
+      case 'pointed':
+        // Snout extending past the nose
+        graphics.moveTo(noseX - halfHeight * 0.3, -halfHeight * 0.35);
+        graphics.quadraticCurveTo(noseX + halfHeight * 0.15, -halfHeight * 0.1, noseX + halfHeight * 0.45, 0);
+        graphics.quadraticCurveTo(noseX + halfHeight * 0.15, halfHeight * 0.1, noseX - halfHeight * 0.3, halfHeight * 0.35);
+        graphics.closePath();
+        graphics.fill({ color: ctx.primary });
+        break;
+      case 'blunt':
+        // Squared-off forehead
+        graphics.roundRect(noseX - halfHeight * 0.6, -halfHeight * 0.55, halfHeight * 0.7, halfHeight * 1.1, halfHeight * 0.15);
+        graphics.fill({ color: ctx.primary });
+        break;
+      case 'angular':
+        graphics.moveTo(noseX - halfHeight * 0.4, -halfHeight * 0.5);
+        graphics.lineTo(noseX + halfHeight * 0.25, -halfHeight * 0.15);
+        graphics.lineTo(noseX + halfHeight * 0.1, halfHeight * 0.25);
+        graphics.lineTo(noseX - halfHeight * 0.4, halfHeight * 0.45);
+        graphics.closePath();
+        graphics.fill({ color: ctx.primary });
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Draws the tail at the body's rear according to tailType
+   */
+  private static drawTail(graphics: PIXI.Graphics, ctx: BodyShapeContext, geo: BodyGeometry): void {
+    const family = TAIL_FAMILIES[ctx.features.tailType] || 'fan';
+    const { size } = ctx;
+    const x = geo.tailX + geo.halfLength * 0.02;
+    const spread = Math.max(geo.halfHeight * 0.8, size * 0.18);
+    const reach = size * 0.3;
+
+    switch (family) {
+      case 'fan':
+        graphics.moveTo(x, 0);
+        graphics.bezierCurveTo(x - reach, -spread * 1.1, x - reach * 1.3, -spread * 0.7, x - reach * 1.15, 0);
+        graphics.bezierCurveTo(x - reach * 1.3, spread * 0.7, x - reach, spread * 1.1, x, 0);
+        graphics.fill({ color: ctx.primary });
+        break;
+      case 'forked':
+        graphics.moveTo(x, 0);
+        graphics.lineTo(x - reach, -spread);
+        graphics.lineTo(x - reach * 0.75, 0);
+        graphics.lineTo(x - reach, spread);
+        graphics.closePath();
+        graphics.fill({ color: ctx.secondary });
+        break;
+      case 'whip':
+        graphics.moveTo(x, 0);
+        graphics.bezierCurveTo(x - reach, -spread * 0.4, x - reach * 1.5, spread * 0.4, x - reach * 2.2, 0);
+        graphics.stroke({ color: ctx.primary, width: Math.max(2, geo.halfHeight * 0.15), cap: 'round' });
+        break;
+      case 'small':
+        graphics.moveTo(x, 0);
+        graphics.lineTo(x - reach * 0.45, -spread * 0.45);
+        graphics.lineTo(x - reach * 0.45, spread * 0.45);
+        graphics.closePath();
+        graphics.fill({ color: ctx.primary });
+        break;
+      case 'tentacles':
+        for (let i = 0; i < 5; i++) {
+          const y = (i - 2) * spread * 0.3;
+          graphics.moveTo(x, y);
+          graphics.bezierCurveTo(x - reach * 0.6, y - spread * 0.3, x - reach * 1.2, y + spread * 0.3, x - reach * 1.8, y);
+          graphics.stroke({ color: ctx.secondary, width: 2, alpha: 0.8, cap: 'round' });
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Draws dorsal, ventral and pectoral fins according to finStyle
+   */
+  private static drawFins(graphics: PIXI.Graphics, ctx: BodyShapeContext, geo: BodyGeometry): void {
+    const family = FIN_FAMILIES[ctx.features.finStyle] || 'standard';
+    const { halfLength, halfHeight, topY, bottomY } = geo;
+    const color = ctx.accent;
+
+    switch (family) {
+      case 'standard':
+      case 'flowing': {
+        const trail = family === 'flowing' ? 1.8 : 1;
+        // Dorsal
+        graphics.moveTo(halfLength * 0.25, topY);
+        graphics.bezierCurveTo(
+          0, topY - halfHeight * 0.5 * trail,
+          -halfLength * 0.3 * trail, topY - halfHeight * 0.4 * trail,
+          -halfLength * 0.35, topY + halfHeight * 0.1
+        );
+        graphics.fill({ color, alpha: 0.8 });
+        // Ventral
+        graphics.moveTo(0, bottomY);
+        graphics.bezierCurveTo(
+          -halfLength * 0.1, bottomY + halfHeight * 0.45 * trail,
+          -halfLength * 0.25 * trail, bottomY + halfHeight * 0.35 * trail,
+          -halfLength * 0.3, bottomY - halfHeight * 0.1
+        );
+        graphics.fill({ color, alpha: 0.8 });
+        // Pectoral
+        graphics.ellipse(halfLength * 0.15, halfHeight * 0.2, halfLength * 0.2 * trail, halfHeight * 0.15);
+        graphics.fill({ color, alpha: 0.6 });
+        break;
+      }
+      case 'minimal':
+        graphics.moveTo(halfLength * 0.05, topY + halfHeight * 0.05);
+        graphics.lineTo(-halfLength * 0.1, topY - halfHeight * 0.25);
+        graphics.lineTo(-halfLength * 0.2, topY + halfHeight * 0.1);
+        graphics.closePath();
+        graphics.fill({ color, alpha: 0.8 });
+        graphics.ellipse(halfLength * 0.15, halfHeight * 0.2, halfLength * 0.1, halfHeight * 0.08);
+        graphics.fill({ color, alpha: 0.6 });
+        break;
+      case 'spiky': {
+        const spikes = 5;
+        for (let i = 0; i < spikes; i++) {
+          const x = halfLength * 0.3 - i * halfLength * 0.15;
+          const y = topY + Math.abs(x / halfLength) * halfHeight * 0.3;
+          graphics.moveTo(x + halfLength * 0.05, y);
+          graphics.lineTo(x - halfLength * 0.02, y - halfHeight * (0.45 - i * 0.05));
+          graphics.lineTo(x - halfLength * 0.08, y);
+          graphics.closePath();
+          graphics.fill({ color, alpha: 0.85 });
+        }
+        graphics.moveTo(halfLength * 0.2, halfHeight * 0.15);
+        graphics.lineTo(-halfLength * 0.05, halfHeight * 0.55);
+        graphics.lineTo(-halfLength * 0.05, halfHeight * 0.2);
+        graphics.closePath();
+        graphics.fill({ color, alpha: 0.7 });
+        break;
+      }
+      case 'wing':
+        // Broad pectoral wings spanning above and below the body
+        graphics.moveTo(halfLength * 0.4, 0);
+        graphics.quadraticCurveTo(0, topY - halfHeight * 0.9, -halfLength * 0.4, topY * 0.2);
+        graphics.closePath();
+        graphics.fill({ color, alpha: 0.55 });
+        graphics.moveTo(halfLength * 0.4, 0);
+        graphics.quadraticCurveTo(0, bottomY + halfHeight * 0.9, -halfLength * 0.4, bottomY * 0.2);
+        graphics.closePath();
+        graphics.fill({ color, alpha: 0.55 });
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Eye and gill lines, placed relative to the nose
+   */
+  private static drawEye(graphics: PIXI.Graphics, ctx: BodyShapeContext, geo: BodyGeometry): void {
+    const { size } = ctx;
+    const profile = HEAD_PROFILES[ctx.features.headCurve] || 'round';
+    const radius = clamp(geo.halfHeight * 0.2, size * 0.04, size * 0.09);
+    const x = geo.noseX - Math.max(geo.halfLength * 0.25, radius * 2.5);
+    const y = profile === 'blunt' ? -geo.halfHeight * 0.3 : -geo.halfHeight * 0.15;
+
+    // Eye socket
+    graphics.circle(x, y, radius);
+    graphics.fill({ color: 0xffffff });
+
+    // Pupil
+    graphics.circle(x + radius * 0.25, y, radius * 0.5);
+    graphics.fill({ color: 0x000000 });
+
+    // Eye highlight
+    graphics.circle(x + radius * 0.1, y - radius * 0.15, radius * 0.25);
+    graphics.fill({ color: 0xffffff });
+
+    // Gills
+    for (let i = 0; i < 3; i++) {
+      const gx = x - radius * 2 - i * size * 0.05;
+      graphics.moveTo(gx, -geo.halfHeight * 0.3);
+      graphics.lineTo(gx - size * 0.02, geo.halfHeight * 0.3);
+      graphics.stroke({ color: 0x000000, alpha: 0.3, width: 2 });
+    }
+  }
+}
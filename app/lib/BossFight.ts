@@ -0,0 +1,439 @@
+/**
+ * BossFight.ts
+ *
+ * One boss encounter in the rendering-free game core
+ * Swims the boss in, moves it along the current phase's SwimPaths path,
+ * applies hits (weak points multiply damage), advances phases as health
+ * crosses their thresholds, enrages and finally flees on timers, and tracks
+ * how much damage each player dealt so the jackpot can be split. Minions are
+ * only requested through the `summon` event; GameSimulation spawns them.
+ *
+ * @version 1.0.0
+ * @path app/lib/BossFight.ts
+ */
+
+import { BossType, RarityType } from '../config/fishConfig';
+import { BossDefinition, BossMinions, BossPhase } from './BossRegistry';
+import { HitShape, Vec2, createHitShape } from './CollisionSystem';
+import { measureBody } from './BodyGeometry';
+import { PathType, SwimPath, getPathPosition, getFormationOffsets } from './SwimPaths';
+import { SeededRandom } from './SeededRandom';
+import { TypedEmitter } from './TypedEmitter';
+import { lerpAngle } from './FishSchool';
+
+/**
+ * Size of the play area; pass a live object (e.g. app.screen) to follow resizes
+ */
+export interface BossArea {
+  width: number;
+  height: number;
+}
+
+export interface BossWeakPointSnapshot {
+  id: string;
+  x: number;  // World position
+  y: number;
+  radius: number;
+  multiplier: number;
+}
+
+/**
+ * Everything a view needs to draw the boss and its health bar
+ */
+export interface BossSnapshot {
+  id: string;
+  bossId: BossType;
+  name: string;
+  rarity: RarityType;
+  x: number;
+  y: number;
+  heading: number;
+  size: number;  // Body length in px
+  health: number;
+  maxHealth: number;
+  phase: number;
+  phaseCount: number;
+  enraged: boolean;
+  enrageInMS: number;   // 0 once enraged
+  escapeInMS: number;   // 0 once fleeing
+  fleeing: boolean;
+  weakPoints: BossWeakPointSnapshot[];
+  contributions: Record<string, number>;  // Damage dealt per player
+}
+
+export interface BossHitResult {
+  damage: number;  // After the weak point multiplier, capped at remaining health
+  weakPoint: string | null;
+}
+
+export interface BossFightEvents {
+  phase: [phase: number];
+  enrage: [];
+  summon: [minions: BossMinions, origin: Vec2, offsets: Vec2[]];
+  flee: [];
+}
+
+// Bosses enter and leave this far outside the play area
+const OFFSCREEN_MARGIN = 250;
+
+// Spacing between summoned minions
+const MINION_SPACING = 40;
+
+// Samples used to measure a path, so speed can be given in px per second
+const LENGTH_SAMPLES = 32;
+
+export class BossFight extends TypedEmitter<BossFightEvents> {
+  public readonly id: string;
+  public readonly definition: BossDefinition;
+  public readonly hitShape: HitShape;
+  public x: number;
+  public y: number;
+  public heading: number;
+  private area: BossArea;
+  private random: SeededRandom;
+  private health: number;
+  private halfLength: number;
+  private halfHeight: number;
+  private phaseIndex: number = 0;
+  private timeMS: number = 0;
+  private enraged: boolean = false;
+  private fleeing: boolean = false;
+  private left: boolean = false;
+  private path!: SwimPath;
+  private pathLength: number = 1;
+  private progress: number = 0;
+  private leg: SwimPath | null = null;  // Transit to the next path's start
+  private legLength: number = 1;
+  private minionTimerMS: number = 0;
+  private contributions: Map<string, number> = new Map();
+
+  constructor(definition: BossDefinition, area: BossArea, random: SeededRandom) {
+    super();
+    this.definition = definition;
+    this.area = area;
+    this.random = random;
+    this.id = `boss-${random.seed}`;
+    this.health = definition.health;
+
+    const body = measureBody(definition.size, definition.bodyRatio);
+    this.halfLength = body.halfLength;
+    this.halfHeight = body.halfHeight;
+    this.hitShape = createHitShape(definition.bodyShape, definition.bodyRatio, definition.size);
+
+    // Enter from a side edge at mid height
+    const fromLeft = random.chance(0.5);
+    this.x = fromLeft ? -OFFSCREEN_MARGIN : area.width + OFFSCREEN_MARGIN;
+    this.y = area.height * random.range(0.35, 0.65);
+    this.heading = fromLeft ? 0 : Math.PI;
+
+    this.startPhase();
+  }
+
+  public get phase(): BossPhase {
+    return this.definition.phases[this.phaseIndex];
+  }
+
+  public get defeated(): boolean {
+    return this.health <= 0;
+  }
+
+  /**
+   * Fled off screen; the fight is over without a payout
+   */
+  public get gone(): boolean {
+    return this.left;
+  }
+
+  /**
+   * Moves the boss and runs its timers (deltaMS in ms)
+   */
+  public update(deltaMS: number): void {
+    if (this.defeated || this.left) return;
+
+    this.timeMS += deltaMS;
+    const { enrageMs, escapeMs } = this.definition;
+
+    if (!this.enraged && this.timeMS >= enrageMs) {
+      this.enraged = true;
+      this.emit('enrage');
+    }
+    if (!this.fleeing && this.timeMS >= escapeMs) {
+      this.flee();
+    }
+
+    this.move(deltaMS);
+    this.updateMinions(deltaMS);
+  }
+
+  /**
+   * Applies a hit from a player; shots that pass through a weak point along
+   * `heading` deal its multiplier (null heading: blasts and nets hit the body)
+   */
+  public hit(playerId: string, damage: number, point: Vec2, heading: number | null): BossHitResult {
+    if (this.defeated) return { damage: 0, weakPoint: null };
+
+    const weakPoint = heading === null ? null : this.findWeakPoint(point, heading);
+    const dealt = Math.min(this.health, Math.round(damage * (weakPoint?.multiplier ?? 1)));
+
+    this.health -= dealt;
+    this.contributions.set(playerId, (this.contributions.get(playerId) ?? 0) + dealt);
+
+    // A big hit can skip straight through several phases
+    const { phases, health: maxHealth } = this.definition;
+    while (!this.defeated && this.phaseIndex < phases.length - 1 &&
+      this.health / maxHealth <= phases[this.phaseIndex + 1].threshold) {
+      this.phaseIndex++;
+      this.startPhase();
+      this.emit('phase', this.phaseIndex);
+    }
+
+    return { damage: dealt, weakPoint: weakPoint?.id ?? null };
+  }
+
+  /**
+   * Damage dealt per player so far
+   */
+  public getContributions(): Record<string, number> {
+    return Object.fromEntries(this.contributions);
+  }
+
+  public snapshot(): BossSnapshot {
+    const { definition } = this;
+    return {
+      id: this.id,
+      bossId: definition.id,
+      name: definition.name,
+      rarity: definition.rarity,
+      x: this.x,
+      y: this.y,
+      heading: this.heading,
+      size: definition.size,
+      health: this.health,
+      maxHealth: definition.health,
+      phase: this.phaseIndex,
+      phaseCount: definition.phases.length,
+      enraged: this.enraged,
+      enrageInMS: Math.max(0, definition.enrageMs - this.timeMS),
+      escapeInMS: Math.max(0, definition.escapeMs - this.timeMS),
+      fleeing: this.fleeing,
+      weakPoints: this.getWeakPoints(),
+      contributions: this.getContributions()
+    };
+  }
+
+  /**
+   * Weak points in world space
+   * The body is drawn mirrored while swimming left (so it stays upright), and
+   * the weak points mirror with it
+   */
+  private getWeakPoints(): BossWeakPointSnapshot[] {
+    const cos = Math.cos(this.heading);
+    const sin = Math.sin(this.heading);
+    const flip = cos < 0 ? -1 : 1;
+
+    return this.definition.weakPoints.map(point => {
+      const lx = point.x * this.halfLength;
+      const ly = point.y * this.halfHeight * flip;
+      return {
+        id: point.id,
+        x: this.x + lx * cos - ly * sin,
+        y: this.y + lx * sin + ly * cos,
+        radius: point.radius,
+        multiplier: point.multiplier
+      };
+    });
+  }
+
+  /**
+   * First weak point the shot's line crosses after the contact point, within
+   * half the length of the body (about as deep as the shot would reach)
+   */
+  private findWeakPoint(point: Vec2, heading: number): BossWeakPointSnapshot | null {
+    const dx = Math.cos(heading);
+    const dy = Math.sin(heading);
+    const reach = this.halfLength;
+    let best: BossWeakPointSnapshot | null = null;
+    let bestAlong = Infinity;
+
+    for (const weakPoint of this.getWeakPoints()) {
+      const ox = weakPoint.x - point.x;
+      const oy = weakPoint.y - point.y;
+      const along = Math.max(0, Math.min(reach, ox * dx + oy * dy));
+      const distance = Math.hypot(ox - dx * along, oy - dy * along);
+      if (distance <= weakPoint.radius && along < bestAlong) {
+        best = weakPoint;
+        bestAlong = along;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Builds the phase's path and swims over to its start
+   */
+  private startPhase(): void {
+    this.path = this.createPath(this.phase.movement);
+    this.pathLength = measurePath(this.path);
+    this.progress = 0;
+    this.setLeg(sampleLoop(this.path, 0));
+    // Minions arrive as soon as the boss reaches its new path
+    this.minionTimerMS = 0;
+  }
+
+  private flee(): void {
+    this.fleeing = true;
+    const exitX = this.x < this.area.width / 2 ? -OFFSCREEN_MARGIN : this.area.width + OFFSCREEN_MARGIN;
+    this.setLeg({ x: exitX, y: this.y });
+    this.emit('flee');
+  }
+
+  private setLeg(target: Vec2): void {
+    this.leg = { type: PathType.LINEAR, points: [{ x: this.x, y: this.y }, target] };
+    this.legLength = Math.max(1, Math.hypot(target.x - this.x, target.y - this.y));
+    this.progress = 0;
+  }
+
+  private move(deltaMS: number): void {
+    const speed = this.phase.speed * (this.enraged ? this.definition.enrage.speed : 1);
+    const distance = speed * deltaMS / 1000;
+    let position: Vec2;
+
+    if (this.leg) {
+      this.progress = Math.min(1, this.progress + distance / this.legLength);
+      position = getPathPosition(this.leg, this.progress)!;
+      if (this.progress >= 1) {
+        this.leg = null;
+        this.progress = 0;
+        if (this.fleeing) {
+          this.left = true;
+        }
+      }
+    } else {
+      this.progress += distance / this.pathLength;
+      position = sampleLoop(this.path, this.progress);
+    }
+
+    const dx = position.x - this.x;
+    const dy = position.y - this.y;
+    if (dx !== 0 || dy !== 0) {
+      this.heading = lerpAngle(this.heading, Math.atan2(dy, dx), 0.1);
+    }
+    this.x = position.x;
+    this.y = position.y;
+  }
+
+  private updateMinions(deltaMS: number): void {
+    const { minions } = this.phase;
+    // No summons while in transit or running away
+    if (!minions || this.leg || this.fleeing) return;
+
+    this.minionTimerMS -= deltaMS * (this.enraged ? this.definition.enrage.minionRate : 1);
+    if (this.minionTimerMS > 0) return;
+
+    this.minionTimerMS += minions.everyMs;
+    const offsets = getFormationOffsets(minions.formation, minions.count, MINION_SPACING);
+    this.emit('summon', minions, { x: this.x, y: this.y }, offsets);
+  }
+
+  /**
+   * Phase path inside the middle of the play area, away from the cannons
+   */
+  private createPath(type: PathType): SwimPath {
+    const { width: w, height: h } = this.area;
+    const random = this.random;
+    const point = (x: number, y: number): Vec2 => ({ x: w * x, y: h * y });
+
+    switch (type) {
+      case PathType.CIRCULAR:
+        return {
+          type,
+          points: [point(0.5, 0.5), { x: Math.min(w, h) * random.range(0.2, 0.28), y: 0 }]
+        };
+
+      case PathType.BEZIER: {
+        // Sweep corner to corner, flipped at random
+        const flip = random.chance(0.5);
+        const top = flip ? 0.7 : 0.3;
+        const bottom = flip ? 0.3 : 0.7;
+        return {
+          type,
+          points: [point(0.15, top), point(0.85, bottom)],
+          controlPoints: [point(0.4, bottom + (bottom - top) * 0.5), point(0.6, top - (bottom - top) * 0.5)]
+        };
+      }
+
+      case PathType.COMPLEX: {
+        // Closed loop through random waypoints
+        const waypoints = Array.from({ length: 5 }, () => point(random.range(0.2, 0.8), random.range(0.25, 0.75)));
+        return { type, points: [...waypoints, { ...waypoints[0] }] };
+      }
+
+      case PathType.LINEAR:
+        return {
+          type,
+          points: [point(0.2, random.range(0.3, 0.7)), point(0.8, random.range(0.3, 0.7))]
+        };
+
+      case PathType.PATROL:
+      default: {
+        const y = random.range(0.35, 0.6);
+        return { type: PathType.PATROL, points: [point(0.15, y), point(0.85, y)] };
+      }
+    }
+  }
+}
+
+/**
+ * Position on a path that never ends: circles and patrols already repeat,
+ * closed loops wrap and open curves ping-pong
+ */
+function sampleLoop(path: SwimPath, progress: number): Vec2 {
+  switch (path.type) {
+    case PathType.CIRCULAR:
+    case PathType.PATROL:
+      return getPathPosition(path, progress)!;
+    case PathType.COMPLEX:
+      return getPathPosition(path, progress % 1)!;
+    default: {
+      const pingPong = progress % 2;
+      return getPathPosition(path, pingPong < 1 ? pingPong : 2 - pingPong)!;
+    }
+  }
+}
+
+/**
+ * Approximate length of one pass (progress 0 to 1)
+ */
+function measurePath(path: SwimPath): number {
+  let length = 0;
+  let previous = sampleLoop(path, 0);
+  // Stops just short of 1, where closed loops wrap back to their start
+  for (let i = 1; i <= LENGTH_SAMPLES; i++) {
+    const next = sampleLoop(path, i / LENGTH_SAMPLES * 0.999);
+    length += Math.hypot(next.x - previous.x, next.y - previous.y);
+    previous = next;
+  }
+  return Math.max(1, length);
+}
+
+/**
+ * Splits a jackpot in proportion to damage dealt; rounding leftovers go to
+ * the top contributor so the whole jackpot is paid
+ */
+export function splitJackpot(jackpot: number, contributions: Record<string, number>): Record<string, number> {
+  const entries = Object.entries(contributions).filter(([, damage]) => damage > 0);
+  const total = entries.reduce((sum, [, damage]) => sum + damage, 0);
+  if (total === 0) return {};
+
+  const payouts: Record<string, number> = {};
+  let paid = 0;
+  entries.forEach(([playerId, damage]) => {
+    payouts[playerId] = Math.floor(jackpot * damage / total);
+    paid += payouts[playerId];
+  });
+
+  const [top] = entries.reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  payouts[top] += jackpot - paid;
+  return payouts;
+}
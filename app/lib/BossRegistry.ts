@@ -0,0 +1,144 @@
+/**
+ * BossRegistry.ts
+ *
+ * Typed access to the bosses defined in fishConfig
+ * Turns the config's movement and formation strings into the SwimPaths enums
+ * and fills in optional fields so BossFight never has to.
+ *
+ * @version 1.0.0
+ * @path app/lib/BossRegistry.ts
+ */
+
+import { BOSS_CONFIG, BossType, RarityType } from '../config/fishConfig';
+import { BodyRatio } from './BodyGeometry';
+import { PathType, FormationType } from './SwimPaths';
+import { WaveSize } from './GameRules';
+
+/**
+ * Weak point in body space: x/y are fractions of the half length / height
+ */
+export interface BossWeakPoint {
+  id: string;
+  x: number;
+  y: number;
+  radius: number;
+  multiplier: number;  // Damage multiplier for shots that land on it
+}
+
+/**
+ * Fish a phase summons around the boss every `everyMs`
+ */
+export interface BossMinions {
+  formation: FormationType;
+  count: number;
+  species: string;
+  rarity: RarityType;
+  size: WaveSize;
+  everyMs: number;
+}
+
+export interface BossPhase {
+  threshold: number;  // Starts once health / maxHealth drops to this
+  movement: PathType;
+  speed: number;      // px per second
+  minions: BossMinions | null;
+}
+
+/**
+ * Resolved boss with every optional field defaulted
+ */
+export interface BossDefinition {
+  id: BossType;
+  name: string;
+  rarity: RarityType;
+  bodyShape: string;
+  bodyRatio: BodyRatio;
+  size: number;
+  color: number;
+  accentColor: number;
+  health: number;
+  jackpot: number;
+  enrageMs: number;
+  escapeMs: number;
+  enrage: { speed: number; minionRate: number };
+  weakPoints: BossWeakPoint[];
+  phases: BossPhase[];
+}
+
+// Superset of every boss entry's fields as written in the config
+interface BossConfigEntry {
+  name: string;
+  rarity: RarityType;
+  bodyShape: string;
+  bodyRatio: BodyRatio;
+  size: number;
+  color: number;
+  accentColor: number;
+  health: number;
+  jackpot: number;
+  enrageMs: number;
+  escapeMs: number;
+  enrage?: { speed?: number; minionRate?: number };
+  weakPoints?: readonly BossWeakPoint[];
+  phases: readonly {
+    threshold: number;
+    movement: string;
+    speed: number;
+    minions?: Omit<BossMinions, 'formation'> & { formation: string };
+  }[];
+}
+
+export class BossRegistry {
+  private static readonly order = Object.keys(BOSS_CONFIG.bosses) as BossType[];
+  private static readonly definitions: Map<BossType, BossDefinition> = new Map(
+    BossRegistry.order.map((id): [BossType, BossDefinition] => {
+      const config: BossConfigEntry = BOSS_CONFIG.bosses[id];
+      return [id, {
+        id,
+        name: config.name,
+        rarity: config.rarity,
+        bodyShape: config.bodyShape,
+        bodyRatio: { ...config.bodyRatio },
+        size: config.size,
+        color: config.color,
+        accentColor: config.accentColor,
+        health: config.health,
+        jackpot: config.jackpot,
+        enrageMs: config.enrageMs,
+        escapeMs: config.escapeMs,
+        enrage: { speed: config.enrage?.speed ?? 1, minionRate: config.enrage?.minionRate ?? 1 },
+        weakPoints: (config.weakPoints ?? []).map(point => ({ ...point })),
+        // Highest threshold first, so phases run in order as health drops
+        phases: config.phases
+          .map(phase => ({
+            threshold: phase.threshold,
+            movement: phase.movement as PathType,
+            speed: phase.speed,
+            minions: phase.minions
+              ? { ...phase.minions, formation: phase.minions.formation as FormationType }
+              : null
+          }))
+          .sort((a, b) => b.threshold - a.threshold)
+      }];
+    })
+  );
+
+  public static get(id: BossType): BossDefinition {
+    return this.definitions.get(id)!;
+  }
+
+  /**
+   * Type guard for untrusted boss strings
+   */
+  public static has(id: string): id is BossType {
+    return this.definitions.has(id as BossType);
+  }
+
+  public static ids(): BossType[] {
+    return [...this.order];
+  }
+
+  public static all(): BossDefinition[] {
+    return this.order.map(id => this.get(id));
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * BossView.ts
+ *
+ * PIXI views for boss fights, drawn from BossSnapshots
+ * BossView is the boss body (procedural, like FishSwimmingSystem's boss
+ * texture, in the boss's colors) with pulsing weak-point markers and a red
+ * tint while enraged. BossHealthBar sits at the top of the screen with the
+ * boss name, phase pips, health and the enrage / escape countdown.
+ *
+ * @version 1.0.0
+ * @path app/lib/BossView.ts
+ */
+
+import * as PIXI from 'pixi.js';
+import { BossRegistry } from './BossRegistry';
+import { BossSnapshot } from './BossFight';
+import { measureBody } from './BodyGeometry';
+
+const ENRAGE_TINT = 0xff6666;
+const HIT_FLASH_MS = 80;
+
+export class BossView extends PIXI.Container {
+  public readonly bossId: string;
+  private body: PIXI.Graphics = new PIXI.Graphics();
+  private markers: PIXI.Graphics[] = [];
+  private flashMS: number = 0;
+  private timeMS: number = 0;
+
+  constructor(boss: BossSnapshot) {
+    super();
+    this.bossId = boss.id;
+
+    const definition = BossRegistry.get(boss.bossId);
+    const { halfLength: l, halfHeight: h } = measureBody(definition.size, definition.bodyRatio);
+    this.drawBody(l, h, definition.color, definition.accentColor);
+    this.addChild(this.body);
+
+    boss.weakPoints.forEach(point => {
+      const marker = new PIXI.Graphics()
+        .circle(0, 0, point.radius)
+        .stroke({ color: 0xffff00, width: 3, alpha: 0.9 })
+        .circle(0, 0, point.radius * 0.35)
+        .fill({ color: 0xffff00, alpha: 0.7 });
+      this.markers.push(marker);
+      this.addChild(marker);
+    });
+
+    this.sync(boss);
+  }
+
+  /**
+   * Moves the view to the snapshot; weak points are given in world space
+   */
+  public sync(boss: BossSnapshot): void {
+    this.position.set(boss.x, boss.y);
+    this.body.rotation = boss.heading;
+    // Mirrored while swimming left so it stays upright, like the simulation
+    this.body.scale.y = Math.cos(boss.heading) < 0 ? -1 : 1;
+
+    boss.weakPoints.forEach((point, i) => {
+      this.markers[i]?.position.set(point.x - boss.x, point.y - boss.y);
+    });
+
+    const pulse = 0.5 + Math.sin(this.timeMS * 0.008) * 0.5;
+    this.body.tint = boss.enraged ? lerpColor(0xffffff, ENRAGE_TINT, pulse) : 0xffffff;
+    this.body.alpha = this.flashMS > 0 ? 0.6 : 1;
+    this.alpha = boss.fleeing ? 0.7 : 1;
+  }
+
+  /**
+   * Advances the marker pulse and hit flash (deltaMS in ms)
+   */
+  public tick(deltaMS: number): void {
+    this.timeMS += deltaMS;
+    this.flashMS = Math.max(0, this.flashMS - deltaMS);
+    const scale = 1 + Math.sin(this.timeMS * 0.006) * 0.15;
+    this.markers.forEach(marker => marker.scale.set(scale));
+  }
+
+  public flashHit(): void {
+    this.flashMS = HIT_FLASH_MS;
+  }
+
+  private drawBody(l: number, h: number, color: number, accent: number): void {
+    const g = this.body;
+
+    // Tail fin
+    g.moveTo(-l * 0.75, 0)
+      .lineTo(-l * 1.25, -h * 0.75)
+      .lineTo(-l * 1.1, 0)
+      .lineTo(-l * 1.25, h * 0.75)
+      .closePath()
+      .fill({ color: darken(color) });
+
+    // Large body
+    g.ellipse(0, 0, l, h).fill({ color });
+
+    // Spikes along the back
+    for (let i = -3; i <= 3; i++) {
+      const x = i * l * 0.25;
+      g.moveTo(x, -h * 0.95)
+        .lineTo(x - l * 0.06, -h * 1.25)
+        .lineTo(x + l * 0.06, -h * 1.25)
+        .closePath()
+        .fill({ color: accent });
+    }
+
+    // Eye
+    g.circle(l * 0.6, -h * 0.2, h * 0.15).fill({ color: 0xffffff });
+    g.circle(l * 0.62, -h * 0.2, h * 0.09).fill({ color: accent });
+  }
+}
+
+const BAR_WIDTH = 480;
+const BAR_HEIGHT = 16;
+
+export class BossHealthBar extends PIXI.Container {
+  private nameText: PIXI.Text;
+  private timerText: PIXI.Text;
+  private track: PIXI.Graphics = new PIXI.Graphics();
+  private fill: PIXI.Graphics = new PIXI.Graphics();
+  private pips: PIXI.Graphics = new PIXI.Graphics();
+
+  constructor(screenWidth: number) {
+    super();
+    this.position.set((screenWidth - BAR_WIDTH) / 2, 24);
+
+    this.nameText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 20,
+        fontWeight: 'bold',
+        fill: 0xffffff,
+        stroke: { color: 0x000000, width: 4 }
+      }
+    });
+
+    this.timerText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 14,
+        fontWeight: 'bold',
+        fill: 0xffcc00,
+        stroke: { color: 0x000000, width: 3 }
+      }
+    });
+    this.timerText.anchor.set(1, 0);
+    this.timerText.position.set(BAR_WIDTH, 4);
+
+    this.track
+      .roundRect(0, 28, BAR_WIDTH, BAR_HEIGHT, BAR_HEIGHT / 2)
+      .fill({ color: 0x000000, alpha: 0.7 })
+      .stroke({ color: 0xff3333, width: 2 });
+
+    this.addChild(this.track);
+    this.addChild(this.fill);
+    this.addChild(this.pips);
+    this.addChild(this.nameText);
+    this.addChild(this.timerText);
+    this.visible = false;
+  }
+
+  /**
+   * Shows the bar for a boss, or hides it with null
+   */
+  public update(boss: BossSnapshot | null): void {
+    this.visible = boss !== null;
+    if (!boss) return;
+
+    const ratio = Math.max(0, boss.health / boss.maxHealth);
+    this.nameText.text = `${boss.name}  ${boss.health}/${boss.maxHealth}`;
+
+    this.fill
+      .clear()
+      .roundRect(0, 28, Math.max(BAR_HEIGHT, BAR_WIDTH * ratio), BAR_HEIGHT, BAR_HEIGHT / 2)
+      .fill({ color: boss.enraged ? ENRAGE_TINT : 0xff3333 });
+
+    // One pip per phase; passed phases are filled
+    this.pips.clear();
+    for (let i = 0; i < boss.phaseCount; i++) {
+      this.pips
+        .circle(i * 16 + 6, 52, 5)
+        .fill({ color: i <= boss.phase ? 0xffcc00 : 0x333333 })
+        .stroke({ color: 0x000000, width: 1 });
+    }
+
+    if (boss.fleeing) {
+      this.timerText.text = 'Escaping!';
+    } else if (boss.enraged) {
+      this.timerText.text = `ENRAGED · escapes in ${formatSeconds(boss.escapeInMS)}`;
+    } else {
+      this.timerText.text = `Enrage in ${formatSeconds(boss.enrageInMS)}`;
+    }
+  }
+}
+
+function formatSeconds(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function darken(color: number): number {
+  const r = ((color >> 16) & 0xff) * 0.7;
+  const g = ((color >> 8) & 0xff) * 0.7;
+  const b = (color & 0xff) * 0.7;
+  return (r << 16) | (g << 8) | b;
+}
+
+function lerpColor(from: number, to: number, alpha: number): number {
+  const channel = (shift: number) => {
+    const a = (from >> shift) & 0xff;
+    const b = (to >> shift) & 0xff;
+    return Math.round(a + (b - a) * alpha) << shift;
+  };
+  return channel(16) | channel(8) | channel(0);
+}
@@ -0,0 +1,249 @@
+/**
+ * CatchEconomy.ts
+ *
+ * Probabilistic catch model for the arcade game
+ * Instead of wearing down HP, every hit rolls a capture chance from the bet it
+ * carries, the fish's reward and a return-to-player (RTP) target. Rolls are
+ * derived from a seed and a sequence number so a server can replay and
+ * validate them, or resolve them itself through a CatchResolver.
+ *
+ * @version 1.0.0
+ * @path app/lib/CatchEconomy.ts
+ */
+
+import { CATCH_ECONOMY } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { SeededRandom, createSeed } from './SeededRandom';
+
+export type CatchMode = 'health' | 'probability';
+
+export interface CatchRequest {
+  fishId: string;
+  bet: number;     // Coins wagered on this hit
+  reward: number;  // Payout if the fish is caught
+}
+
+/**
+ * Outcome of one hit; sequence + seed reproduce the roll
+ */
+export interface CatchResult extends CatchRequest {
+  sequence: number;
+  chance: number;
+  roll: number;
+  caught: boolean;
+  payout: number;
+}
+
+/**
+ * Server-authoritative hook: receives the request (with the sequence number the
+ * local roll would use) and returns the result the game should apply
+ */
+export type CatchResolver = (request: CatchRequest & { sequence: number }) => CatchResult | Promise<CatchResult>;
+
+export interface CatchEconomyOptions {
+  seed?: string;
+  rtp?: number;
+  maxChance?: number;
+  resolver?: CatchResolver;
+}
+
+export interface CatchStats {
+  hits: number;
+  catches: number;
+  wagered: number;
+  paid: number;
+  rtp: number;           // paid / wagered (0 before the first hit)
+  expectedPaid: number;  // Sum of chance * payout over the hits
+  variance: number;      // Of paid, for checking it against expectedPaid
+}
+
+export class CatchEconomy {
+  public readonly seed: string;
+  public readonly rtp: number;
+  public readonly maxChance: number;
+  private resolver: CatchResolver | null;
+  private sequence: number = 0;
+  private totals = { hits: 0, catches: 0, wagered: 0, paid: 0, expectedPaid: 0, variance: 0 };
+
+  constructor(options: CatchEconomyOptions = {}) {
+    this.seed = options.seed ?? createSeed();
+    this.rtp = options.rtp ?? CATCH_ECONOMY.rtp;
+    this.maxChance = options.maxChance ?? CATCH_ECONOMY.maxChance;
+    this.resolver = options.resolver ?? null;
+  }
+
+  public get stats(): CatchStats {
+    const { hits, catches, wagered, paid, expectedPaid, variance } = this.totals;
+    return { hits, catches, wagered, paid, rtp: wagered > 0 ? paid / wagered : 0, expectedPaid, variance };
+  }
+
+  /**
+   * Whether hits are resolved by a server rather than rolled locally
+   */
+  public get remote(): boolean {
+    return this.resolver !== null;
+  }
+
+  /**
+   * Routes future hits through a server (null goes back to local rolls)
+   */
+  public setResolver(resolver: CatchResolver | null): void {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Capture chance for a hit: rtp * bet / reward, capped at maxChance
+   * (payout() makes up for the cap so every hit still returns rtp * bet)
+   */
+  public chance(bet: number, reward: number): number {
+    if (reward <= 0 || bet <= 0) return 0;
+    return Math.min(this.maxChance, (this.rtp * bet) / reward);
+  }
+
+  /**
+   * Payout if the hit catches: the fish's reward, raised for capped hits so
+   * chance * payout stays at rtp * bet
+   */
+  public payout(bet: number, reward: number): number {
+    const chance = this.chance(bet, reward);
+    return chance > 0 ? Math.max(reward, (this.rtp * bet) / chance) : 0;
+  }
+
+  /**
+   * Rolls a hit locally and records it
+   */
+  public roll(request: CatchRequest): CatchResult {
+    const result = this.rollAt(request, this.sequence++);
+    this.record(result);
+    return result;
+  }
+
+  /**
+   * Resolves a hit through the resolver if one is set, otherwise locally
+   */
+  public async resolve(request: CatchRequest): Promise<CatchResult> {
+    if (!this.resolver) {
+      return this.roll(request);
+    }
+
+    const result = await this.resolver({ ...request, sequence: this.sequence++ });
+    this.record(result);
+    return result;
+  }
+
+  /**
+   * Re-derives a result from this economy's seed and settings; a server (or a
+   * client checking its server) uses this to validate a reported catch
+   */
+  public verify(result: CatchResult): boolean {
+    const expected = this.rollAt(result, result.sequence);
+    return expected.caught === result.caught &&
+      expected.payout === result.payout &&
+      Math.abs(expected.roll - result.roll) < 1e-12;
+  }
+
+  public resetStats(): void {
+    this.totals = { hits: 0, catches: 0, wagered: 0, paid: 0, expectedPaid: 0, variance: 0 };
+  }
+
+  private rollAt(request: CatchRequest, sequence: number): CatchResult {
+    const chance = this.chance(request.bet, request.reward);
+    const roll = new SeededRandom(this.seed).fork(sequence).next();
+    const caught = roll < chance;
+
+    return {
+      fishId: request.fishId,
+      bet: request.bet,
+      reward: request.reward,
+      sequence,
+      chance,
+      roll,
+      caught,
+      payout: caught ? this.payout(request.bet, request.reward) : 0
+    };
+  }
+
+  private record(result: CatchResult): void {
+    const payout = this.payout(result.bet, result.reward);
+    this.totals.hits++;
+    this.totals.wagered += result.bet;
+    this.totals.expectedPaid += result.chance * payout;
+    this.totals.variance += result.chance * (1 - result.chance) * payout * payout;
+    if (result.caught) {
+      this.totals.catches++;
+      this.totals.paid += result.payout;
+    }
+  }
+}
+
+export interface CatchSimulationOptions {
+  hits?: number;
+  seed?: string;
+  rtp?: number;
+  maxChance?: number;
+  bets?: number[];                            // Picked uniformly per hit
+  fish?: { reward: number; weight: number }[];  // Defaults to the rarity tiers
+  tolerance?: number;                         // Allowed drift in standard errors
+}
+
+export interface CatchSimulationReport {
+  hits: number;
+  catches: number;
+  wagered: number;
+  paid: number;
+  targetRTP: number;
+  expectedRTP: number;
+  observedRTP: number;
+  standardError: number;  // Of observedRTP
+  zScore: number;
+  cappedHits: number;
+  withinTolerance: boolean;
+}
+
+/**
+ * Monte Carlo check of the catch rolls alone: plays `hits` random hits
+ * straight through CatchEconomy.roll and checks the observed RTP against the
+ * analytic expectation, which must itself be the target
+ */
+export function simulateCatchRTP(options: CatchSimulationOptions = {}): CatchSimulationReport {
+  const hits = options.hits ?? 1000000;
+  const seed = options.seed ?? createSeed();
+  const bets = options.bets ?? [1, 2, 3, 5, 8, 10, 20];
+  const fish = options.fish ?? RarityRegistry.all().map(tier => ({ reward: tier.reward, weight: tier.weight }));
+  const tolerance = options.tolerance ?? CATCH_ECONOMY.tolerance;
+
+  const economy = new CatchEconomy({ seed, rtp: options.rtp, maxChance: options.maxChance });
+  const random = new SeededRandom(seed).fork('simulation');
+  const totalWeight = fish.reduce((sum, entry) => sum + entry.weight, 0);
+  let cappedHits = 0;
+
+  for (let i = 0; i < hits; i++) {
+    const bet = random.pick(bets);
+    let remaining = random.next() * totalWeight;
+    const target = fish.find(entry => (remaining -= entry.weight) < 0) ?? fish[fish.length - 1];
+
+    if (economy.roll({ fishId: `sim-${i}`, bet, reward: target.reward }).chance >= economy.maxChance) {
+      cappedHits++;
+    }
+  }
+
+  const { catches, wagered, paid, expectedPaid, variance } = economy.stats;
+  const deviation = Math.sqrt(variance);
+  const expectedRTP = wagered > 0 ? expectedPaid / wagered : 0;
+  const zScore = deviation > 0 ? (paid - expectedPaid) / deviation : 0;
+
+  return {
+    hits,
+    catches,
+    wagered,
+    paid,
+    targetRTP: economy.rtp,
+    expectedRTP,
+    observedRTP: wagered > 0 ? paid / wagered : 0,
+    standardError: wagered > 0 ? deviation / wagered : 0,
+    zScore,
+    cappedHits,
+    // Capped hits pay more, so every hit should still expect exactly the target
+    withinTolerance: Math.abs(zScore) <= tolerance && Math.abs(expectedRTP - economy.rtp) < 1e-9
+  };
+}
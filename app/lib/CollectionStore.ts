@@ -0,0 +1,429 @@
+/**
+ * CollectionStore.ts
+ *
+ * Persistent fish collection for the gallery
+ * Entries (DNA plus name, favorite flag and tags) live in an in-memory index
+ * for querying and are written through to a backend: IndexedDB in the
+ * browser, or memory where IndexedDB is unavailable (SSR, tests)
+ *
+ * @version 1.0.0
+ * @path app/lib/CollectionStore.ts
+ */
+
+import { FishDNA } from './ArtisticFishPixi';
+import { FishDNAEnvelope, decodeFishDNA, encodeFishDNA } from './FishDNACodec';
+import { RarityType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { SpeciesRegistry } from './SpeciesRegistry';
+
+export const COLLECTION_FORMAT = 'fishfi/collection';
+export const COLLECTION_VERSION = 1;
+
+/**
+ * A fish in the collection with its user-facing metadata
+ */
+export interface CollectionEntry {
+  dna: FishDNA;
+  name?: string;
+  favorite: boolean;
+  tags: string[];
+  addedAt: number;  // ms since epoch
+}
+
+/**
+ * Stored form of an entry; DNA is kept as a versioned envelope so it can be migrated on load
+ */
+export interface CollectionRecord extends Omit<CollectionEntry, 'dna'> {
+  id: string;
+  dna: FishDNAEnvelope;
+}
+
+export type CollectionSortKey = 'addedAt' | 'rarity' | 'species' | 'name';
+
+export interface CollectionQuery {
+  rarity?: RarityType;
+  minRarity?: RarityType;
+  species?: string;
+  favorite?: boolean;
+  tag?: string;
+  sortBy?: CollectionSortKey;
+  order?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface CollectionPage {
+  entries: CollectionEntry[];
+  total: number;   // Matches before pagination
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Bulk export file written by exportJSON
+ */
+export interface CollectionExport {
+  format: typeof COLLECTION_FORMAT;
+  version: number;
+  exportedAt: string;
+  entries: CollectionRecord[];
+}
+
+export interface CollectionImportResult {
+  imported: number;
+  skipped: number;   // Already in the collection (when not overwriting) or repeated in the file
+  errors: { index: number; message: string }[];
+}
+
+/**
+ * Storage behind a CollectionStore
+ */
+export interface CollectionBackend {
+  loadAll(): Promise<CollectionRecord[]>;
+  put(record: CollectionRecord): Promise<void>;
+  putMany(records: CollectionRecord[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Non-persistent backend
+ */
+export class MemoryCollectionBackend implements CollectionBackend {
+  private records: Map<string, CollectionRecord> = new Map();
+
+  public async loadAll(): Promise<CollectionRecord[]> {
+    return [...this.records.values()];
+  }
+
+  public async put(record: CollectionRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  public async putMany(records: CollectionRecord[]): Promise<void> {
+    records.forEach(record => this.records.set(record.id, record));
+  }
+
+  public async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  public async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+/**
+ * IndexedDB backend, one object store keyed by DNA id
+ */
+export class IndexedDBCollectionBackend implements CollectionBackend {
+  private static readonly STORE = 'collection';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName: string = 'fishfi') {}
+
+  public static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  public async loadAll(): Promise<CollectionRecord[]> {
+    return this.request('readonly', store => store.getAll());
+  }
+
+  public async put(record: CollectionRecord): Promise<void> {
+    await this.request('readwrite', store => store.put(record));
+  }
+
+  public async putMany(records: CollectionRecord[]): Promise<void> {
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(IndexedDBCollectionBackend.STORE, 'readwrite');
+      const store = tx.objectStore(IndexedDBCollectionBackend.STORE);
+      records.forEach(record => store.put(record));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  public async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, COLLECTION_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(IndexedDBCollectionBackend.STORE)) {
+            request.result.createObjectStore(IndexedDBCollectionBackend.STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(IndexedDBCollectionBackend.STORE, mode).objectStore(IndexedDBCollectionBackend.STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export class CollectionStore {
+  private entries: Map<string, CollectionEntry> = new Map();
+
+  private constructor(private backend: CollectionBackend) {}
+
+  /**
+   * Opens a store and loads its contents
+   * Uses IndexedDB when available, memory otherwise
+   */
+  public static async open(backend?: CollectionBackend): Promise<CollectionStore> {
+    const store = new CollectionStore(
+      backend ?? (IndexedDBCollectionBackend.isSupported()
+        ? new IndexedDBCollectionBackend()
+        : new MemoryCollectionBackend())
+    );
+    await store.load();
+    return store;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(id: string): CollectionEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  public has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Adds a fish (or refreshes it, keeping name/favorite/tags) as the newest entry
+   */
+  public async add(dna: FishDNA, meta: Partial<Omit<CollectionEntry, 'dna' | 'addedAt'>> = {}): Promise<CollectionEntry> {
+    const existing = this.entries.get(dna.id);
+    const entry: CollectionEntry = {
+      dna,
+      name: meta.name ?? existing?.name,
+      favorite: meta.favorite ?? existing?.favorite ?? false,
+      tags: meta.tags ?? existing?.tags ?? [],
+      addedAt: Date.now()
+    };
+
+    // Re-insert so the entry moves to the end of the insertion order
+    this.entries.delete(dna.id);
+    this.entries.set(dna.id, entry);
+    await this.backend.put(toRecord(entry));
+    return entry;
+  }
+
+  public async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+    await this.backend.delete(id);
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+    await this.backend.clear();
+  }
+
+  /**
+   * Updates name, favorite flag or tags of an entry
+   */
+  public async update(id: string, patch: Partial<Pick<CollectionEntry, 'name' | 'favorite' | 'tags'>>): Promise<CollectionEntry | undefined> {
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+
+    const updated: CollectionEntry = { ...entry, ...patch };
+    if (patch.tags) {
+      updated.tags = [...new Set(patch.tags.map(tag => tag.trim()).filter(Boolean))];
+    }
+
+    this.entries.set(id, updated);
+    await this.backend.put(toRecord(updated));
+    return updated;
+  }
+
+  public async setName(id: string, name: string): Promise<CollectionEntry | undefined> {
+    return this.update(id, { name: name.trim() || undefined });
+  }
+
+  public async toggleFavorite(id: string): Promise<CollectionEntry | undefined> {
+    const entry = this.entries.get(id);
+    return entry ? this.update(id, { favorite: !entry.favorite }) : undefined;
+  }
+
+  public async addTag(id: string, tag: string): Promise<CollectionEntry | undefined> {
+    const entry = this.entries.get(id);
+    return entry ? this.update(id, { tags: [...entry.tags, tag] }) : undefined;
+  }
+
+  public async removeTag(id: string, tag: string): Promise<CollectionEntry | undefined> {
+    const entry = this.entries.get(id);
+    return entry ? this.update(id, { tags: entry.tags.filter(existing => existing !== tag) }) : undefined;
+  }
+
+  /**
+   * All tags in use, alphabetically
+   */
+  public tags(): string[] {
+    const tags = new Set<string>();
+    this.entries.forEach(entry => entry.tags.forEach(tag => tags.add(tag)));
+    return [...tags].sort();
+  }
+
+  /**
+   * Filters, sorts and paginates the collection (newest first by default)
+   */
+  public query(query: CollectionQuery = {}): CollectionPage {
+    const sortBy = query.sortBy ?? 'addedAt';
+    const direction = (query.order ?? (sortBy === 'addedAt' || sortBy === 'rarity' ? 'desc' : 'asc')) === 'asc' ? 1 : -1;
+
+    // Newest insertion first, so ties (and same-millisecond adds) stay newest first
+    const matches = [...this.entries.values()]
+      .reverse()
+      .filter(entry => matchesQuery(entry, query))
+      .sort((a, b) => compareEntries(a, b, sortBy) * direction);
+
+    const offset = Math.max(0, query.offset ?? 0);
+    const limit = query.limit ?? matches.length;
+
+    return {
+      entries: matches.slice(offset, offset + limit),
+      total: matches.length,
+      offset,
+      limit
+    };
+  }
+
+  /**
+   * Serializes the whole collection (or the query's matches) for backup or transfer
+   */
+  public exportJSON(query: Omit<CollectionQuery, 'offset' | 'limit'> = {}): string {
+    const file: CollectionExport = {
+      format: COLLECTION_FORMAT,
+      version: COLLECTION_VERSION,
+      exportedAt: new Date().toISOString(),
+      entries: this.query(query).entries.map(toRecord)
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Imports an export file; each DNA is migrated and validated, invalid entries are reported and skipped
+   * An id repeated within the file is imported once, from its first entry
+   */
+  public async importJSON(json: string, options: { overwrite?: boolean } = {}): Promise<CollectionImportResult> {
+    const result: CollectionImportResult = { imported: 0, skipped: 0, errors: [] };
+
+    let file: Partial<CollectionExport>;
+    try {
+      file = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Collection import is not valid JSON: ${(error as Error).message}`);
+    }
+    if (file.format !== COLLECTION_FORMAT || !Array.isArray(file.entries)) {
+      throw new Error('Not a collection export file');
+    }
+    if (typeof file.version !== 'number' || file.version > COLLECTION_VERSION) {
+      throw new Error(`Unsupported collection version: ${file.version}`);
+    }
+
+    const imported: Map<string, CollectionEntry> = new Map();
+    file.entries.forEach((record, index) => {
+      try {
+        const entry = fromRecord(record);
+        if (imported.has(entry.dna.id) || (this.entries.has(entry.dna.id) && !options.overwrite)) {
+          result.skipped++;
+          return;
+        }
+        imported.set(entry.dna.id, entry);
+      } catch (error) {
+        result.errors.push({ index, message: (error as Error).message });
+      }
+    });
+
+    imported.forEach((entry, id) => this.entries.set(id, entry));
+    await this.backend.putMany([...imported.values()].map(toRecord));
+    result.imported = imported.size;
+
+    return result;
+  }
+
+  private async load(): Promise<void> {
+    const records = await this.backend.loadAll();
+
+    records.forEach(record => {
+      try {
+        const entry = fromRecord(record);
+        this.entries.set(entry.dna.id, entry);
+      } catch (error) {
+        console.warn(`Skipping unreadable collection entry ${record.id}:`, error);
+      }
+    });
+  }
+}
+
+function toRecord(entry: CollectionEntry): CollectionRecord {
+  const record: CollectionRecord = {
+    id: entry.dna.id,
+    dna: JSON.parse(encodeFishDNA(entry.dna)),
+    favorite: entry.favorite,
+    tags: [...entry.tags],
+    addedAt: entry.addedAt
+  };
+  if (entry.name) {
+    record.name = entry.name;
+  }
+  return record;
+}
+
+function fromRecord(record: CollectionRecord): CollectionEntry {
+  if (typeof record !== 'object' || record === null) {
+    throw new Error('Expected a collection entry object');
+  }
+
+  return {
+    dna: decodeFishDNA(record.dna),
+    name: typeof record.name === 'string' ? record.name : undefined,
+    favorite: record.favorite === true,
+    tags: Array.isArray(record.tags) ? record.tags.filter(tag => typeof tag === 'string') : [],
+    addedAt: typeof record.addedAt === 'number' ? record.addedAt : Date.now()
+  };
+}
+
+function matchesQuery(entry: CollectionEntry, query: CollectionQuery): boolean {
+  if (query.rarity && entry.dna.rarity !== query.rarity) return false;
+  if (query.minRarity && !RarityRegistry.isAtLeast(entry.dna.rarity, query.minRarity)) return false;
+  if (query.species && entry.dna.species !== query.species) return false;
+  if (query.favorite !== undefined && entry.favorite !== query.favorite) return false;
+  if (query.tag && !entry.tags.includes(query.tag)) return false;
+  return true;
+}
+
+function compareEntries(a: CollectionEntry, b: CollectionEntry, sortBy: CollectionSortKey): number {
+  switch (sortBy) {
+    case 'rarity':
+      return RarityRegistry.compare(a.dna.rarity, b.dna.rarity);
+    case 'species':
+      return SpeciesRegistry.resolve(a.dna.species).displayName.localeCompare(SpeciesRegistry.resolve(b.dna.species).displayName);
+    case 'name':
+      return (a.name ?? a.dna.id).localeCompare(b.name ?? b.dna.id);
+    case 'addedAt':
+      return a.addedAt - b.addedAt;
+  }
+}
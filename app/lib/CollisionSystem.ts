@@ -0,0 +1,379 @@
+/**
+ * CollisionSystem.ts
+ *
+ * Projectile vs fish collision detection
+ * Bodies are bucketed into a uniform grid each frame (broadphase), then tested
+ * against their hit shape (narrowphase). Shots are swept along their frame
+ * movement, can pierce several fish and can explode on their final hit.
+ * Hits and explosions are emitted as events for other systems to react to.
+ * Part of the rendering-free simulation core: no PIXI or DOM imports.
+ *
+ * @version 1.0.0
+ * @path app/lib/CollisionSystem.ts
+ */
+
+import type { BodyShapeType } from './ArtisticFishPixi';
+import { BodyRatio, measureBody } from './BodyGeometry';
+import { TypedEmitter } from './TypedEmitter';
+
+/**
+ * Plain 2D point, structurally compatible with PIXI.PointData
+ */
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+/**
+ * Hit shape in the body's local space (head points to +x)
+ * Polygon points are flat [x0, y0, x1, y1, ...] like PIXI's
+ */
+export type HitShape =
+  | { type: 'circle'; radius: number }
+  | { type: 'ellipse'; rx: number; ry: number }
+  | { type: 'polygon'; points: number[] };
+
+/**
+ * Something that can be hit, positioned for the current frame
+ */
+export interface CollisionBody<T = unknown> {
+  id: string;
+  owner: T;
+  shape: HitShape;
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+/**
+ * A shot being tested; prevX/prevY is where it was at the start of the frame
+ */
+export interface Projectile {
+  id: string;
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  radius: number;
+  damage: number;
+  pierce: number;        // Extra bodies it passes through (0 = stops at the first)
+  blastRadius?: number;  // Explodes on its final hit
+  hits: Set<string>;     // Bodies already hit, so a piercing shot never hits one twice
+}
+
+export interface CollisionHitEvent<T> {
+  projectile: Projectile;
+  body: CollisionBody<T>;
+  point: Vec2;
+}
+
+export interface CollisionExplosionEvent<T> {
+  projectile: Projectile;
+  point: Vec2;
+  radius: number;
+  bodies: CollisionBody<T>[];  // Caught in the blast (excluding bodies the shot hit directly)
+}
+
+export interface CollisionEvents<T> {
+  hit: [event: CollisionHitEvent<T>];
+  explosion: [event: CollisionExplosionEvent<T>];
+}
+
+type ShapeBuilder = (l: number, h: number) => HitShape;
+
+const ellipse = (rx: number, ry: number): HitShape => ({ type: 'ellipse', rx, ry });
+const polygon = (...points: number[]): HitShape => ({ type: 'polygon', points });
+
+/**
+ * Hit outline per body shape, from the half extents BodyShapeRenderer draws with
+ * Curved bodies use an ellipse, angular ones a polygon
+ */
+const HIT_SHAPES: Record<BodyShapeType, ShapeBuilder> = {
+  round: (l, h) => ellipse(l, h),
+  oval: (l, h) => ellipse(l, h * 0.85),
+  streamlined: (l, h) => ellipse(l, h * 0.8),
+  elongated: (l, h) => ellipse(l, h * 0.65),
+  cylindrical: (l, h) => ellipse(l, h),
+  massive: (l, h) => ellipse(l, h),
+  bulbous: (l, h) => ellipse(l, h),
+  flat: (l, h) => ellipse(l, h * 0.5),
+  compressed: (l, h) => ellipse(l, h * 0.95),
+  serpentine: (l, h) => ellipse(l, h * 0.5),
+  tessellated: (l, h) => ellipse(l, h),
+  deconstructed: (l, h) => ellipse(l, h * 0.55),
+  calligraphic: (l, h) => ellipse(l, h * 0.3),
+  diamond: (l, h) => polygon(l, 0, 0, -h, -l, 0, 0, h),
+  triangular: (l, h) => polygon(l, 0, -l * 0.8, -h, -l * 0.8, h),
+  spade: (l, h) => polygon(l, 0, 0, -h * 0.8, -l * 0.75, -h * 0.4, -l * 0.75, h * 0.4, 0, h * 0.8),
+  crescent: (l, h) => polygon(l, -h * 0.2, 0, -h * 0.85, -l * 0.95, -h * 0.3, -l * 0.95, h * 0.1, 0, h * 0.1),
+  asymmetrical: (l, h) => polygon(l, h * 0.15, l * 0.2, -h * 0.9, -l, -h * 0.3, -l, h * 0.3, 0, h * 0.5),
+  architectural: (l, h) => polygon(l, 0, 0, -h * 0.6, -l, -h * 0.4, -l, h * 0.4, 0, h * 0.6)
+};
+
+/**
+ * Builds the hit shape for a body shape at the given size (body length in px)
+ * Unknown shapes fall back to an ellipse
+ */
+export function createHitShape(bodyShape: string, bodyRatio: BodyRatio, size: number): HitShape {
+  const { halfLength, halfHeight } = measureBody(size, bodyRatio);
+  const builder = Object.prototype.hasOwnProperty.call(HIT_SHAPES, bodyShape)
+    ? HIT_SHAPES[bodyShape as BodyShapeType]
+    : HIT_SHAPES.round;
+  return builder(halfLength, halfHeight);
+}
+
+/**
+ * Distance from the body's origin to the farthest point of its shape
+ */
+export function getBoundingRadius(shape: HitShape): number {
+  switch (shape.type) {
+    case 'circle':
+      return shape.radius;
+    case 'ellipse':
+      return Math.max(shape.rx, shape.ry);
+    case 'polygon': {
+      let max = 0;
+      for (let i = 0; i < shape.points.length; i += 2) {
+        max = Math.max(max, Math.hypot(shape.points[i], shape.points[i + 1]));
+      }
+      return max;
+    }
+  }
+}
+
+/**
+ * Whether a circle at world (x, y) overlaps the body
+ */
+export function overlapsCircle(body: CollisionBody<unknown>, x: number, y: number, radius: number): boolean {
+  // Into the body's local space
+  const cos = Math.cos(-body.rotation);
+  const sin = Math.sin(-body.rotation);
+  const dx = x - body.x;
+  const dy = y - body.y;
+  const lx = dx * cos - dy * sin;
+  const ly = dx * sin + dy * cos;
+  const shape = body.shape;
+
+  switch (shape.type) {
+    case 'circle':
+      return lx * lx + ly * ly <= (shape.radius + radius) ** 2;
+    case 'ellipse': {
+      // Ellipse grown by the circle's radius (close enough for shots much smaller than fish)
+      const ex = lx / (shape.rx + radius);
+      const ey = ly / (shape.ry + radius);
+      return ex * ex + ey * ey <= 1;
+    }
+    case 'polygon':
+      return pointInPolygon(lx, ly, shape.points) || distanceToPolygon(lx, ly, shape.points) <= radius;
+  }
+}
+
+function pointInPolygon(x: number, y: number, points: number[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 2; i < points.length; j = i, i += 2) {
+    const xi = points[i], yi = points[i + 1];
+    const xj = points[j], yj = points[j + 1];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function distanceToPolygon(x: number, y: number, points: number[]): number {
+  let min = Infinity;
+  for (let i = 0, j = points.length - 2; i < points.length; j = i, i += 2) {
+    min = Math.min(min, distanceToSegment(x, y, points[j], points[j + 1], points[i], points[i + 1]));
+  }
+  return min;
+}
+
+function distanceToSegment(x: number, y: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSq));
+  return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+}
+
+interface GridEntry<T> {
+  body: CollisionBody<T>;
+  cells: string[];
+}
+
+export class CollisionSystem<T = unknown> extends TypedEmitter<CollisionEvents<T>> {
+  private cellSize: number;
+  private cells: Map<string, GridEntry<T>[]> = new Map();
+  private entries: Map<string, GridEntry<T>> = new Map();
+
+  /**
+   * @param cellSize Grid cell size in px; around the size of a typical fish works best
+   */
+  constructor(cellSize: number = 128) {
+    super();
+    this.cellSize = cellSize;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Replaces every body with this frame's positions
+   */
+  public rebuild(bodies: Iterable<CollisionBody<T>>): void {
+    this.cells.clear();
+    this.entries.clear();
+
+    for (const body of bodies) {
+      const radius = getBoundingRadius(body.shape);
+      const entry: GridEntry<T> = { body, cells: [] };
+
+      this.forEachCell(body.x - radius, body.y - radius, body.x + radius, body.y + radius, key => {
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = [];
+          this.cells.set(key, cell);
+        }
+        cell.push(entry);
+        entry.cells.push(key);
+      });
+
+      this.entries.set(body.id, entry);
+    }
+  }
+
+  /**
+   * Drops a body mid-frame (e.g. a fish that was just caught)
+   */
+  public remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    entry.cells.forEach(key => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      const remaining = cell.filter(other => other !== entry);
+      if (remaining.length > 0) {
+        this.cells.set(key, remaining);
+      } else {
+        this.cells.delete(key);
+      }
+    });
+    this.entries.delete(id);
+  }
+
+  public clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  /**
+   * Bodies overlapping a circle
+   */
+  public queryCircle(x: number, y: number, radius: number): CollisionBody<T>[] {
+    return this.candidates(x - radius, y - radius, x + radius, y + radius)
+      .filter(body => overlapsCircle(body, x, y, radius));
+  }
+
+  public queryPoint(x: number, y: number): CollisionBody<T>[] {
+    return this.queryCircle(x, y, 0);
+  }
+
+  /**
+   * Body whose center is closest to a point, within maxDistance
+   */
+  public nearest(x: number, y: number, maxDistance: number = Infinity): CollisionBody<T> | null {
+    let best: CollisionBody<T> | null = null;
+    let bestDistance = maxDistance;
+
+    this.entries.forEach(({ body }) => {
+      const distance = Math.hypot(body.x - x, body.y - y);
+      if (distance < bestDistance) {
+        best = body;
+        bestDistance = distance;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Tests a shot's movement this frame, emitting 'hit' for every body it
+   * touches (nearest first, up to 1 + pierce) and 'explosion' if it blows up
+   * @returns true when the shot is spent and should be removed
+   */
+  public resolveProjectile(projectile: Projectile): boolean {
+    const { prevX, prevY, x, y, radius } = projectile;
+    const dx = x - prevX;
+    const dy = y - prevY;
+    const distance = Math.hypot(dx, dy);
+
+    // Sample the path at most one radius apart so fast shots can't skip a fish
+    const steps = Math.max(1, Math.ceil(distance / Math.max(1, radius)));
+    const bodies = this.candidates(
+      Math.min(prevX, x) - radius, Math.min(prevY, y) - radius,
+      Math.max(prevX, x) + radius, Math.max(prevY, y) + radius
+    ).filter(body => !projectile.hits.has(body.id));
+
+    const contacts: { body: CollisionBody<T>; t: number }[] = [];
+    bodies.forEach(body => {
+      for (let step = 0; step <= steps; step++) {
+        const t = step / steps;
+        if (overlapsCircle(body, prevX + dx * t, prevY + dy * t, radius)) {
+          contacts.push({ body, t });
+          break;
+        }
+      }
+    });
+    contacts.sort((a, b) => a.t - b.t);
+
+    for (const { body, t } of contacts) {
+      // An earlier listener may have removed the body (e.g. an explosion caught it)
+      if (!this.entries.has(body.id)) continue;
+
+      const point = { x: prevX + dx * t, y: prevY + dy * t };
+      projectile.hits.add(body.id);
+      this.emit('hit', { projectile, body, point });
+
+      if (projectile.hits.size > projectile.pierce) {
+        if (projectile.blastRadius) {
+          this.explode(projectile, point, projectile.blastRadius);
+        }
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Emits 'explosion' with every body in range that the shot hasn't already hit
+   */
+  public explode(projectile: Projectile, point: Vec2, radius: number): void {
+    const bodies = this.queryCircle(point.x, point.y, radius)
+      .filter(body => !projectile.hits.has(body.id));
+    this.emit('explosion', { projectile, point, radius, bodies });
+  }
+
+  private candidates(minX: number, minY: number, maxX: number, maxY: number): CollisionBody<T>[] {
+    const found: Set<GridEntry<T>> = new Set();
+    this.forEachCell(minX, minY, maxX, maxY, key => {
+      this.cells.get(key)?.forEach(entry => found.add(entry));
+    });
+    return Array.from(found, entry => entry.body);
+  }
+
+  private forEachCell(minX: number, minY: number, maxX: number, maxY: number, callback: (key: string) => void): void {
+    const startX = Math.floor(minX / this.cellSize);
+    const startY = Math.floor(minY / this.cellSize);
+    const endX = Math.floor(maxX / this.cellSize);
+    const endY = Math.floor(maxY / this.cellSize);
+
+    for (let cx = startX; cx <= endX; cx++) {
+      for (let cy = startY; cy <= endY; cy++) {
+        callback(`${cx},${cy}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * DebugOverlay.ts
+ *
+ * Performance readout for the arcade view, toggled with the backquote key.
+ * Shows frame rate, what is on screen and every object pool's counters; a
+ * pool whose `created` keeps climbing during play is not being reused.
+ * The text is only rebuilt a few times a second while visible.
+ *
+ * @version 1.0.0
+ * @path app/lib/DebugOverlay.ts
+ */
+
+import * as PIXI from 'pixi.js';
+import { PoolStats } from './ObjectPool';
+
+export interface DebugInfo {
+  fps: number;
+  fish: number;
+  shots: number;
+  boss: string | null;
+  pools: PoolStats[];
+}
+
+const REFRESH_MS = 250;
+const PADDING = 10;
+
+export class DebugOverlay extends PIXI.Container {
+  private background: PIXI.Graphics = new PIXI.Graphics();
+  private text: PIXI.Text;
+  private sinceRefreshMS: number = REFRESH_MS;
+
+  constructor(screenWidth: number) {
+    super();
+    this.visible = false;
+
+    this.text = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: 'monospace',
+        fontSize: 13,
+        fill: 0x00ff99,
+        lineHeight: 16
+      }
+    });
+    this.text.position.set(PADDING, PADDING);
+
+    this.addChild(this.background);
+    this.addChild(this.text);
+    this.position.set(screenWidth - 280, 20);
+  }
+
+  public toggle(): void {
+    this.visible = !this.visible;
+    // Show fresh numbers straight away
+    this.sinceRefreshMS = REFRESH_MS;
+  }
+
+  /**
+   * @param read Only called when the readout is due, so gathering stays off
+   * the hot path
+   */
+  public update(deltaMS: number, read: () => DebugInfo): void {
+    if (!this.visible) return;
+
+    this.sinceRefreshMS += deltaMS;
+    if (this.sinceRefreshMS < REFRESH_MS) return;
+    this.sinceRefreshMS = 0;
+
+    const info = read();
+    const lines = [
+      `FPS ${info.fps.toFixed(0).padStart(4)}`,
+      `fish ${info.fish}  shots ${info.shots}`,
+      `boss ${info.boss ?? '-'}`,
+      '',
+      'pool          free  used  made',
+      ...info.pools.map(pool =>
+        `${pool.name.padEnd(12).slice(0, 12)} ${pad(pool.free)} ${pad(pool.inUse)} ${pad(pool.created)}`
+      )
+    ];
+    this.text.text = lines.join('\n');
+
+    this.background
+      .clear()
+      .roundRect(0, 0, this.text.width + PADDING * 2, this.text.height + PADDING * 2, 8)
+      .fill({ color: 0x000000, alpha: 0.75 });
+  }
+}
+
+function pad(value: number): string {
+  return String(value).padStart(5);
+}
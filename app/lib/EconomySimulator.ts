@@ -0,0 +1,348 @@
+/**
+ * EconomySimulator.ts
+ *
+ * Headless Monte Carlo runs of the arcade economy
+ * Plays the GameRules wave schedule, wallet and upgrade rules with a scripted
+ * aiming strategy instead of a player, so balance changes can be checked over
+ * millions of shots: coin flow, expected value per shot, time to each power
+ * tier and how often players go broke. Results export as JSON or CSV.
+ *
+ * Shots are abstracted: each projectile hits the chosen target with
+ * probability `accuracy`, and travel, pierce, blasts and falloff are not
+ * modelled, so weapons that rely on them read slightly pessimistic.
+ *
+ * @version 1.0.0
+ * @path app/lib/EconomySimulator.ts
+ */
+
+import { POWER_TIERS, RarityType, WeaponType } from '../config/fishConfig';
+import { WeaponRegistry, WeaponDefinition } from './WeaponRegistry';
+import { CatchEconomy, CatchMode } from './CatchEconomy';
+import { SeededRandom, createSeed } from './SeededRandom';
+import {
+  GameState,
+  WaveScheduler,
+  SPAWN_SIZE_MULTIPLIERS,
+  createGameState,
+  getFishStats,
+  getWaveSpeed,
+  getShotCost,
+  getHitBet,
+  getUpgradeCost,
+  payForShot,
+  upgradeCannon,
+  creditCatch
+} from './GameRules';
+
+/**
+ * How the scripted player picks a target among the fish on screen
+ */
+export type AimStrategy = 'random' | 'highestReward' | 'weakest' | 'bestValue';
+
+export interface EconomySimulationOptions {
+  runs?: number;
+  shotsPerRun?: number;
+  seed?: string;
+  strategy?: AimStrategy;
+  accuracy?: number;             // Chance each projectile hits its target
+  weapon?: WeaponType;
+  catchMode?: CatchMode;
+  upgradeReserve?: number | null; // Upgrade while coins stay above this after paying; null never upgrades
+  maxPower?: number;
+  sampleEvery?: number;          // Shots between coin-flow samples
+  fieldWidth?: number;           // Distance a fish swims before leaving (px)
+  rtp?: number;                  // Probability mode only
+}
+
+type ResolvedSimulationOptions = Required<Omit<EconomySimulationOptions, 'rtp'>> & { rtp?: number };
+
+/**
+ * Coin-flow sample taken every `sampleEvery` shots
+ */
+export interface EconomySample {
+  shot: number;
+  timeMS: number;
+  coins: number;
+  power: number;
+}
+
+export interface EconomyRunResult {
+  run: number;
+  shots: number;
+  timeMS: number;
+  finalCoins: number;
+  finalPower: number;
+  spent: number;         // On shots
+  earned: number;        // From catches
+  upgradeSpend: number;
+  catches: number;
+  evPerShot: number;     // (earned - spent) / shots
+  bankrupt: boolean;
+  bankruptAtShot: number | null;
+  tierTimesMS: Record<number, number | null>;  // Game time each power tier was reached
+  samples: EconomySample[];
+}
+
+export interface EconomyTierSummary {
+  level: number;
+  reachRate: number;
+  meanTimeMS: number | null;  // Over the runs that reached it
+}
+
+export interface EconomySummary {
+  runs: number;
+  shots: number;
+  bankruptcyRate: number;
+  meanEVPerShot: number;
+  meanFinalCoins: number;
+  rtp: number;  // earned / spent over every run
+  tiers: EconomyTierSummary[];
+}
+
+export interface EconomyReport {
+  options: ResolvedSimulationOptions;
+  summary: EconomySummary;
+  results: EconomyRunResult[];
+}
+
+/**
+ * A fish as the simulator sees it: no position, just stats and when it leaves
+ */
+interface SimulatedFish {
+  id: string;
+  rarity: RarityType;
+  health: number;
+  reward: number;
+  leavesAt: number;
+}
+
+/**
+ * Plays `runs` independent sessions and summarises them
+ */
+export function simulateEconomy(options: EconomySimulationOptions = {}): EconomyReport {
+  const resolved: ResolvedSimulationOptions = {
+    runs: options.runs ?? 100,
+    shotsPerRun: options.shotsPerRun ?? 10000,
+    seed: options.seed ?? createSeed(),
+    strategy: options.strategy ?? 'random',
+    accuracy: options.accuracy ?? 0.7,
+    weapon: options.weapon ?? 'cannon',
+    catchMode: options.catchMode ?? 'health',
+    upgradeReserve: options.upgradeReserve === undefined ? 500 : options.upgradeReserve,
+    maxPower: options.maxPower ?? 10,
+    sampleEvery: options.sampleEvery ?? 100,
+    fieldWidth: options.fieldWidth ?? 1280,
+    rtp: options.rtp
+  };
+
+  const results: EconomyRunResult[] = [];
+  for (let run = 0; run < resolved.runs; run++) {
+    results.push(simulateRun(resolved, run));
+  }
+
+  return { options: resolved, summary: summarize(results), results };
+}
+
+function simulateRun(options: ResolvedSimulationOptions, run: number): EconomyRunResult {
+  const random = new SeededRandom(options.seed).fork(run);
+  const scheduler = new WaveScheduler(random.fork('waves'));
+  const aim = random.fork('aim');
+  const economy = new CatchEconomy({ seed: `${options.seed}:${run}`, rtp: options.rtp });
+  const weapon = WeaponRegistry.get(options.weapon);
+  const shotInterval = 1000 / weapon.fireRate;
+  const state = createGameState({ catchMode: options.catchMode });
+
+  const tierTimesMS: Record<number, number | null> = {};
+  POWER_TIERS.forEach(tier => {
+    tierTimesMS[tier.level] = tier.level <= state.cannonPower ? 0 : null;
+  });
+
+  const result: EconomyRunResult = {
+    run,
+    shots: 0,
+    timeMS: 0,
+    finalCoins: state.coins,
+    finalPower: state.cannonPower,
+    spent: 0,
+    earned: 0,
+    upgradeSpend: 0,
+    catches: 0,
+    evPerShot: 0,
+    bankrupt: false,
+    bankruptAtShot: null,
+    tierTimesMS,
+    samples: [sample(state, 0, 0)]
+  };
+
+  let fish: SimulatedFish[] = [];
+  let fishCount = 0;
+
+  while (result.shots < options.shotsPerRun) {
+    // Spawn whatever the schedule brings during one shot's cooldown
+    result.timeMS += shotInterval;
+    scheduler.update(shotInterval).forEach(({ wave }) => {
+      const stats = getFishStats(wave.rarity, SPAWN_SIZE_MULTIPLIERS[wave.size]);
+      fish.push({
+        id: `sim-${run}-${fishCount++}`,
+        rarity: wave.rarity,
+        health: stats.health,
+        reward: stats.reward,
+        leavesAt: result.timeMS + options.fieldWidth / (getWaveSpeed(wave) * 0.1)
+      });
+    });
+    fish = fish.filter(entry => entry.leavesAt > result.timeMS);
+
+    // Upgrades are bought between shots, keeping the reserve in hand
+    while (
+      options.upgradeReserve !== null &&
+      state.cannonPower < options.maxPower &&
+      state.coins - getUpgradeCost(state) >= options.upgradeReserve
+    ) {
+      result.upgradeSpend += getUpgradeCost(state);
+      upgradeCannon(state);
+      if (tierTimesMS[state.cannonPower] === null) {
+        tierTimesMS[state.cannonPower] = result.timeMS;
+      }
+    }
+
+    if (state.coins < getShotCost(state, weapon)) {
+      result.bankrupt = true;
+      result.bankruptAtShot = result.shots;
+      break;
+    }
+
+    // Nothing to shoot at: wait for the next wave
+    if (fish.length === 0) continue;
+
+    const target = pickTarget(fish, options.strategy, aim, state, weapon);
+    result.spent += getShotCost(state, weapon);
+    payForShot(state, weapon);
+    result.shots++;
+
+    for (let i = 0; i < weapon.projectiles && target.health > 0; i++) {
+      if (!aim.chance(options.accuracy)) continue;
+
+      const payout = resolveHit(target, state, weapon, economy);
+      if (payout > 0) {
+        creditCatch(state, payout);
+        result.earned += payout;
+        result.catches++;
+        fish = fish.filter(entry => entry !== target);
+      }
+    }
+
+    if (result.shots % options.sampleEvery === 0) {
+      result.samples.push(sample(state, result.shots, result.timeMS));
+    }
+  }
+
+  if (result.samples[result.samples.length - 1].shot !== result.shots) {
+    result.samples.push(sample(state, result.shots, result.timeMS));
+  }
+
+  result.finalCoins = state.coins;
+  result.finalPower = state.cannonPower;
+  result.evPerShot = result.shots > 0 ? (result.earned - result.spent) / result.shots : 0;
+  return result;
+}
+
+/**
+ * Applies one projectile hit; returns the payout if it caught the fish
+ */
+function resolveHit(target: SimulatedFish, state: GameState, weapon: WeaponDefinition, economy: CatchEconomy): number {
+  if (state.catchMode === 'probability') {
+    const bet = getHitBet(weapon, state.cannonPower, 1 / weapon.projectiles);
+    const result = economy.roll({ fishId: target.id, bet, reward: target.reward });
+    if (!result.caught) return 0;
+
+    target.health = 0;
+    return result.payout;
+  }
+
+  // Nets catch whatever they land on; everything else wears health down
+  target.health = weapon.behavior === 'net' ? 0 : target.health - weapon.damage * state.cannonPower;
+  return target.health <= 0 ? target.reward : 0;
+}
+
+function pickTarget(
+  fish: SimulatedFish[],
+  strategy: AimStrategy,
+  random: SeededRandom,
+  state: GameState,
+  weapon: WeaponDefinition
+): SimulatedFish {
+  const damage = Math.max(1, weapon.damage * state.cannonPower);
+  const score = (entry: SimulatedFish): number => {
+    switch (strategy) {
+      case 'highestReward':
+        return entry.reward;
+      case 'weakest':
+        return -entry.health;
+      case 'bestValue':
+        // Reward per shot needed; every hit has the same value in probability mode,
+        // so fall back to the richest fish there
+        return state.catchMode === 'probability'
+          ? entry.reward
+          : entry.reward / Math.ceil(entry.health / damage);
+      default:
+        return 0;
+    }
+  };
+
+  if (strategy === 'random') {
+    return random.pick(fish);
+  }
+
+  return fish.reduce((best, entry) => (score(entry) > score(best) ? entry : best));
+}
+
+function sample(state: GameState, shot: number, timeMS: number): EconomySample {
+  return { shot, timeMS, coins: state.coins, power: state.cannonPower };
+}
+
+function summarize(results: EconomyRunResult[]): EconomySummary {
+  const runs = results.length;
+  const mean = (values: number[]): number =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  const spent = results.reduce((sum, result) => sum + result.spent, 0);
+  const earned = results.reduce((sum, result) => sum + result.earned, 0);
+
+  return {
+    runs,
+    shots: results.reduce((sum, result) => sum + result.shots, 0),
+    bankruptcyRate: runs > 0 ? results.filter(result => result.bankrupt).length / runs : 0,
+    meanEVPerShot: mean(results.map(result => result.evPerShot)),
+    meanFinalCoins: mean(results.map(result => result.finalCoins)),
+    rtp: spent > 0 ? earned / spent : 0,
+    tiers: POWER_TIERS.map(tier => {
+      const times = results
+        .map(result => result.tierTimesMS[tier.level])
+        .filter((time): time is number => time !== null);
+      return {
+        level: tier.level,
+        reachRate: runs > 0 ? times.length / runs : 0,
+        meanTimeMS: times.length > 0 ? mean(times) : null
+      };
+    })
+  };
+}
+
+/**
+ * Coin flow of every run as CSV, one row per sample
+ */
+export function economyReportToCSV(report: EconomyReport): string {
+  const rows = ['run,shot,timeMS,coins,power,bankrupt'];
+  report.results.forEach(result => {
+    result.samples.forEach(entry => {
+      rows.push([
+        result.run,
+        entry.shot,
+        Math.round(entry.timeMS),
+        entry.coins,
+        entry.power,
+        result.bankrupt
+      ].join(','));
+    });
+  });
+  return rows.join('\n');
+}
@@ -0,0 +1,184 @@
+/**
+ * FishBreeding.ts
+ *
+ * Genetic crossover for FishDNA
+ * Produces an offspring from two parents: weighted gene inheritance, HSL color
+ * blending, probabilistic pattern/trait inheritance and rarity-driven mutations
+ *
+ * @version 1.0.0
+ * @path app/lib/FishBreeding.ts
+ */
+
+import { FishDNA } from './ArtisticFishPixi';
+import { GENE_RANGES, MUTATIONS, PATTERNS, MutationType, PatternType, RarityType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { SeededRandom, createSeed } from './SeededRandom';
+import { blendHsl } from './colorUtils';
+
+export type GeneKey = keyof FishDNA['genes'];
+
+const GENE_KEYS = Object.keys(GENE_RANGES) as GeneKey[];
+
+export interface BreedingOptions {
+  // Seed for the crossover; the same parents and seed always give the same offspring
+  seed?: string;
+  // Weight of parent A per gene, 0..1 (0.5 = codominant)
+  dominance?: Partial<Record<GeneKey, number>>;
+  // Random drift applied to each inherited gene, as a fraction of its value
+  geneVariance?: number;
+  // Chance a trait carried by only one parent is passed on
+  traitInheritance?: number;
+  // Chance a mutation carried by only one parent is passed on
+  mutationInheritance?: number;
+  // Scales the rarity registry's spontaneous mutation rate
+  mutationRateMultiplier?: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<BreedingOptions, 'seed' | 'dominance'>> = {
+  geneVariance: 0.05,
+  traitInheritance: 0.5,
+  mutationInheritance: 0.5,
+  mutationRateMultiplier: 1
+};
+
+/**
+ * Breeds two fish into a new offspring DNA
+ */
+export function breedFish(parentA: FishDNA, parentB: FishDNA, options: BreedingOptions = {}): FishDNA {
+  const seed = options.seed ?? createSeed();
+  const rng = new SeededRandom(seed);
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+
+  // Body plan comes from a single parent so shape and species stay consistent
+  const bodyParent = rng.chance(0.5) ? parentA : parentB;
+  const rarity = inheritRarity(parentA.rarity, parentB.rarity, rng, settings.mutationRateMultiplier);
+
+  return {
+    id: `BRED-${seed}`,
+    species: bodyParent.species,
+    bodyShape: bodyParent.bodyShape,
+    pattern: inheritPattern(parentA, parentB, rarity, rng, settings.mutationRateMultiplier),
+    surfaceType: rng.pick([parentA.surfaceType, parentB.surfaceType]) ?? bodyParent.surfaceType,
+    colors: blendColors(parentA, parentB, rng),
+    rarity,
+    traits: inheritList(parentA.traits, parentB.traits, settings.traitInheritance, rng),
+    mutations: inheritMutations(parentA, parentB, rarity, rng, settings),
+    genes: inheritGenes(parentA, parentB, options.dominance || {}, settings.geneVariance, rng),
+    artStyle: rng.pick([parentA.artStyle, parentB.artStyle]) ?? bodyParent.artStyle,
+    dynamicColor: Boolean(parentA.dynamicColor || parentB.dynamicColor) && rng.chance(0.5),
+    seed,
+    lineage: {
+      parents: [parentA.id, parentB.id],
+      generation: Math.max(parentA.lineage?.generation ?? 0, parentB.lineage?.generation ?? 0) + 1
+    }
+  };
+}
+
+/**
+ * Offspring takes either parent's tier, with a chance to climb one tier
+ */
+function inheritRarity(a: RarityType, b: RarityType, rng: SeededRandom, rateMultiplier: number): RarityType {
+  const inherited = rng.pick([a, b]);
+  const tiers = RarityRegistry.ids();
+  const rank = RarityRegistry.rank(inherited);
+
+  if (rank < tiers.length - 1 && rng.chance(RarityRegistry.get(inherited).mutationRate * rateMultiplier)) {
+    return tiers[rank + 1];
+  }
+
+  return inherited;
+}
+
+function inheritPattern(
+  a: FishDNA,
+  b: FishDNA,
+  rarity: RarityType,
+  rng: SeededRandom,
+  rateMultiplier: number
+): string {
+  // A spontaneous pattern mutation replaces the inherited pattern
+  if (rng.chance(RarityRegistry.get(rarity).mutationRate * rateMultiplier)) {
+    return rng.pick(Object.keys(PATTERNS) as PatternType[]);
+  }
+  return rng.pick([a.pattern, b.pattern]);
+}
+
+function blendColors(a: FishDNA, b: FishDNA, rng: SeededRandom): FishDNA['colors'] {
+  const mix = (colorA: string | undefined, colorB: string | undefined): string | undefined => {
+    if (colorA && colorB) {
+      return blendHsl(colorA, colorB, rng.range(0.25, 0.75));
+    }
+    return colorA || colorB;
+  };
+
+  const colors: FishDNA['colors'] = {
+    primary: mix(a.colors.primary, b.colors.primary)!,
+    secondary: mix(a.colors.secondary, b.colors.secondary)!,
+    accent: mix(a.colors.accent, b.colors.accent)!
+  };
+
+  const glow = mix(a.colors.glow, b.colors.glow);
+  if (glow) colors.glow = glow;
+
+  const shimmer = mix(a.colors.shimmer, b.colors.shimmer);
+  if (shimmer) colors.shimmer = shimmer;
+
+  return colors;
+}
+
+function inheritGenes(
+  a: FishDNA,
+  b: FishDNA,
+  dominance: Partial<Record<GeneKey, number>>,
+  variance: number,
+  rng: SeededRandom
+): FishDNA['genes'] {
+  const genes = { ...a.genes };
+
+  GENE_KEYS.forEach(key => {
+    const weight = Math.min(1, Math.max(0, dominance[key] ?? 0.5));
+    const blended = a.genes[key] * weight + b.genes[key] * (1 - weight);
+    const drifted = blended * (1 + rng.range(-variance, variance));
+    const [min, max] = GENE_RANGES[key];
+    genes[key] = Math.min(max, Math.max(min, drifted));
+  });
+
+  return genes;
+}
+
+/**
+ * Entries both parents carry are always passed on; the rest by chance
+ */
+function inheritList(a: string[], b: string[], chance: number, rng: SeededRandom): string[] {
+  const result: string[] = [];
+
+  [...new Set([...a, ...b])].forEach(entry => {
+    if ((a.includes(entry) && b.includes(entry)) || rng.chance(chance)) {
+      result.push(entry);
+    }
+  });
+
+  return result;
+}
+
+function inheritMutations(
+  a: FishDNA,
+  b: FishDNA,
+  rarity: RarityType,
+  rng: SeededRandom,
+  settings: typeof DEFAULT_OPTIONS
+): string[] {
+  const mutations = inheritList(a.mutations, b.mutations, settings.mutationInheritance, rng);
+
+  // Spontaneous mutation, limited to mutations at or below the offspring's tier
+  if (rng.chance(RarityRegistry.get(rarity).mutationRate * settings.mutationRateMultiplier)) {
+    const candidates = (Object.keys(MUTATIONS) as MutationType[]).filter(mutation =>
+      !mutations.includes(mutation) && RarityRegistry.isAtLeast(rarity, MUTATIONS[mutation].rarity)
+    );
+    if (candidates.length > 0) {
+      mutations.push(rng.pick(candidates));
+    }
+  }
+
+  return mutations;
+}
@@ -0,0 +1,456 @@
+/**
+ * FishDNACodec.ts
+ *
+ * Canonical FishDNA serialization format
+ * Versioned JSON envelope plus a compact base64url string, with schema
+ * validation against fishConfig and migration hooks for older versions
+ *
+ * @version 1.0.0
+ * @path app/lib/FishDNACodec.ts
+ */
+
+import { FishDNA } from './ArtisticFishPixi';
+import { BODY_SHAPES, GENE_RANGES, PATTERNS, MUTATIONS, SPECIAL_TRAITS, GeneType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { SpeciesRegistry } from './SpeciesRegistry';
+
+/**
+ * Current DNA schema version
+ * Bump this and register a migration whenever FishDNA changes shape
+ */
+export const FISH_DNA_VERSION = 1;
+
+export const FISH_DNA_FORMAT = 'fishfi/dna';
+
+// Compact strings look like `FDNA1.<base64url json>`
+const COMPACT_PREFIX = 'FDNA';
+
+const SURFACE_TYPES = ['matte', 'procedural_noise', 'glitch_sort', 'liquid_metal'] as const;
+const ART_STYLES = ['minimalist', 'baroque', 'abstract', 'organic'] as const;
+
+const KNOWN_FIELDS = [
+  'id', 'species', 'bodyShape', 'pattern', 'surfaceType', 'colors', 'rarity',
+  'traits', 'mutations', 'genes', 'artStyle', 'dynamicColor', 'seed', 'lineage'
+];
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Versioned wrapper written by encodeFishDNA
+ */
+export interface FishDNAEnvelope {
+  format: typeof FISH_DNA_FORMAT;
+  version: number;
+  dna: FishDNA;
+}
+
+export type DNAIssueSeverity = 'error' | 'warning';
+
+export type DNAIssueCode =
+  | 'malformed_input'
+  | 'unsupported_version'
+  | 'missing_field'
+  | 'invalid_type'
+  | 'unknown_value'
+  | 'unknown_field'
+  | 'out_of_range'
+  | 'duplicate_value';
+
+/**
+ * A single validation finding, addressed by a dotted path into the DNA
+ */
+export interface DNAValidationIssue {
+  path: string;
+  code: DNAIssueCode;
+  severity: DNAIssueSeverity;
+  message: string;
+}
+
+export interface DNAValidationResult {
+  valid: boolean;
+  issues: DNAValidationIssue[];
+}
+
+export interface DNACodecOptions {
+  // Treat warnings (unknown traits, extra fields) as errors
+  strict?: boolean;
+}
+
+/**
+ * Thrown when DNA cannot be encoded or decoded
+ */
+export class DNAValidationError extends Error {
+  public readonly issues: DNAValidationIssue[];
+
+  constructor(issues: DNAValidationIssue[]) {
+    const summary = issues
+      .filter(issue => issue.severity === 'error')
+      .map(issue => `${issue.path || '<root>'}: ${issue.message}`)
+      .join('; ');
+    super(`Invalid FishDNA: ${summary}`);
+    this.name = 'DNAValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Upgrades a raw DNA object from `version` to `version + 1`
+ */
+export type DNAMigration = (dna: Record<string, unknown>) => Record<string, unknown>;
+
+const migrations = new Map<number, DNAMigration>();
+
+// Pattern names used by older generators before they matched PATTERNS
+const LEGACY_PATTERN_ALIASES: Record<string, string> = {
+  spiral: 'spirals',
+  crystal: 'crystals',
+  star: 'stars'
+};
+
+/**
+ * Registers a migration hook that upgrades DNA from `fromVersion` to `fromVersion + 1`
+ * Returns the hook it replaced, if any
+ */
+export function registerDNAMigration(fromVersion: number, migration: DNAMigration): DNAMigration | undefined {
+  const previous = migrations.get(fromVersion);
+  migrations.set(fromVersion, migration);
+  return previous;
+}
+
+// v0: bare FishDNA objects saved before the envelope existed
+registerDNAMigration(0, (dna) => {
+  const pattern = dna.pattern;
+  const migrated: Record<string, unknown> = {
+    ...dna,
+    pattern: typeof pattern === 'string' ? (LEGACY_PATTERN_ALIASES[pattern] || pattern) : pattern,
+    traits: Array.isArray(dna.traits) ? [...new Set(dna.traits)] : [],
+    mutations: Array.isArray(dna.mutations) ? [...new Set(dna.mutations)] : []
+  };
+
+  // Drop keys the old generator wrote as explicit undefined/null
+  Object.keys(migrated).forEach(key => {
+    if (migrated[key] === undefined || migrated[key] === null) {
+      delete migrated[key];
+    }
+  });
+
+  return migrated;
+});
+
+/**
+ * Runs registered migrations until the DNA reaches the current version
+ */
+export function migrateFishDNA(dna: Record<string, unknown>, fromVersion: number): Record<string, unknown> {
+  if (fromVersion > FISH_DNA_VERSION) {
+    throw new DNAValidationError([issue(
+      'version',
+      'unsupported_version',
+      `Version ${fromVersion} is newer than supported version ${FISH_DNA_VERSION}`
+    )]);
+  }
+
+  let current = dna;
+  for (let version = fromVersion; version < FISH_DNA_VERSION; version++) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new DNAValidationError([issue(
+        'version',
+        'unsupported_version',
+        `No migration registered from version ${version}`
+      )]);
+    }
+    current = migration(current);
+  }
+
+  return current;
+}
+
+/**
+ * Validates an unknown value against the FishDNA schema and fishConfig tables
+ */
+export function validateFishDNA(value: unknown, options: DNACodecOptions = {}): DNAValidationResult {
+  const issues: DNAValidationIssue[] = [];
+
+  if (!isRecord(value)) {
+    issues.push(issue('', 'invalid_type', 'DNA must be an object'));
+    return { valid: false, issues };
+  }
+
+  checkString(value, 'id', issues);
+  checkString(value, 'species', issues);
+  if (typeof value.species === 'string' && value.species && !SpeciesRegistry.has(value.species)) {
+    issues.push(issue('species', 'unknown_value', `Species "${value.species}" is not in the catalog`, 'warning'));
+  }
+  checkEnum(value, 'bodyShape', BODY_SHAPES, issues);
+  checkEnum(value, 'pattern', Object.keys(PATTERNS), issues);
+  checkEnum(value, 'rarity', RarityRegistry.ids(), issues);
+  checkEnum(value, 'surfaceType', SURFACE_TYPES, issues, true);
+  checkEnum(value, 'artStyle', ART_STYLES, issues, true);
+
+  if (value.dynamicColor !== undefined && typeof value.dynamicColor !== 'boolean') {
+    issues.push(issue('dynamicColor', 'invalid_type', 'Expected a boolean'));
+  }
+  if (value.seed !== undefined) {
+    checkString(value, 'seed', issues);
+  }
+
+  // Colors
+  if (!isRecord(value.colors)) {
+    issues.push(issue('colors', value.colors === undefined ? 'missing_field' : 'invalid_type', 'Expected a colors object'));
+  } else {
+    const colors = value.colors;
+    (['primary', 'secondary', 'accent', 'glow', 'shimmer'] as const).forEach(key => {
+      const optional = key === 'glow' || key === 'shimmer';
+      const color = colors[key];
+      if (color === undefined) {
+        if (!optional) {
+          issues.push(issue(`colors.${key}`, 'missing_field', 'Color is required'));
+        }
+      } else if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+        issues.push(issue(`colors.${key}`, 'invalid_type', `Expected #rrggbb, got ${JSON.stringify(color)}`));
+      }
+    });
+  }
+
+  // Traits are open-ended (species specials), so unknown ones only warn
+  checkList(value, 'traits', Object.keys(SPECIAL_TRAITS), 'warning', issues);
+  checkList(value, 'mutations', Object.keys(MUTATIONS), 'error', issues);
+
+  // Genes
+  if (!isRecord(value.genes)) {
+    issues.push(issue('genes', value.genes === undefined ? 'missing_field' : 'invalid_type', 'Expected a genes object'));
+  } else {
+    const genes = value.genes;
+    (Object.keys(GENE_RANGES) as GeneType[]).forEach(key => {
+      const gene = genes[key];
+      const [min, max] = GENE_RANGES[key];
+      if (gene === undefined) {
+        issues.push(issue(`genes.${key}`, 'missing_field', 'Gene is required'));
+      } else if (typeof gene !== 'number' || !isFinite(gene)) {
+        issues.push(issue(`genes.${key}`, 'invalid_type', 'Expected a finite number'));
+      } else if (gene < min || gene > max) {
+        issues.push(issue(`genes.${key}`, 'out_of_range', `Expected ${min}..${max}, got ${gene}`));
+      }
+    });
+  }
+
+  // Lineage (bred fish only)
+  if (value.lineage !== undefined) {
+    const lineage = value.lineage;
+    if (!isRecord(lineage)) {
+      issues.push(issue('lineage', 'invalid_type', 'Expected a lineage object'));
+    } else {
+      const parents = lineage.parents;
+      if (!Array.isArray(parents) || parents.length !== 2 ||
+          parents.some(parent => typeof parent !== 'string' || parent.length === 0)) {
+        issues.push(issue('lineage.parents', 'invalid_type', 'Expected two parent ids'));
+      }
+      const generation = lineage.generation;
+      if (typeof generation !== 'number' || !Number.isInteger(generation)) {
+        issues.push(issue('lineage.generation', 'invalid_type', 'Expected an integer'));
+      } else if (generation < 1) {
+        issues.push(issue('lineage.generation', 'out_of_range', `Expected >= 1, got ${generation}`));
+      }
+    }
+  }
+
+  Object.keys(value).forEach(key => {
+    if (!KNOWN_FIELDS.includes(key)) {
+      issues.push(issue(key, 'unknown_field', 'Field is not part of the schema', 'warning'));
+    }
+  });
+
+  if (options.strict) {
+    issues.forEach(entry => { entry.severity = 'error'; });
+  }
+
+  return {
+    valid: !issues.some(entry => entry.severity === 'error'),
+    issues
+  };
+}
+
+/**
+ * Validates DNA and throws a DNAValidationError if it has errors
+ */
+export function assertValidFishDNA(value: unknown, options: DNACodecOptions = {}): FishDNA {
+  const result = validateFishDNA(value, options);
+  if (!result.valid) {
+    throw new DNAValidationError(result.issues);
+  }
+  return value as FishDNA;
+}
+
+/**
+ * Serializes DNA as a versioned JSON envelope
+ */
+export function encodeFishDNA(dna: FishDNA, options: DNACodecOptions = {}): string {
+  const envelope: FishDNAEnvelope = {
+    format: FISH_DNA_FORMAT,
+    version: FISH_DNA_VERSION,
+    dna: assertValidFishDNA(dna, options)
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Serializes DNA as a compact, URL-safe string
+ */
+export function encodeCompactDNA(dna: FishDNA, options: DNACodecOptions = {}): string {
+  const json = JSON.stringify(assertValidFishDNA(dna, options));
+  return `${COMPACT_PREFIX}${FISH_DNA_VERSION}.${toBase64Url(json)}`;
+}
+
+/**
+ * Decodes DNA from a JSON envelope, a compact string, or a legacy bare object
+ * Older versions are migrated before validation
+ */
+export function decodeFishDNA(input: string | object, options: DNACodecOptions = {}): FishDNA {
+  const { version, dna } = unwrap(input);
+  const migrated = migrateFishDNA(dna, version);
+  return assertValidFishDNA(migrated, options);
+}
+
+/**
+ * Splits any supported input into a raw DNA object and its schema version
+ */
+function unwrap(input: string | object): { version: number; dna: Record<string, unknown> } {
+  if (typeof input === 'string') {
+    const trimmed = input.trim();
+    const compact = trimmed.match(/^FDNA(\d+)\.([A-Za-z0-9_-]+)$/);
+
+    if (compact) {
+      return { version: Number(compact[1]), dna: parseObject(fromBase64Url(compact[2])) };
+    }
+
+    return unwrap(parseObject(trimmed));
+  }
+
+  if (!isRecord(input)) {
+    throw new DNAValidationError([issue('', 'malformed_input', 'Expected a DNA object or encoded string')]);
+  }
+
+  if (input.format === FISH_DNA_FORMAT) {
+    if (typeof input.version !== 'number' || !isRecord(input.dna)) {
+      throw new DNAValidationError([issue('', 'malformed_input', 'Envelope is missing version or dna')]);
+    }
+    return { version: input.version, dna: input.dna };
+  }
+
+  // Bare objects predate the envelope
+  return { version: 0, dna: input };
+}
+
+function parseObject(json: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new DNAValidationError([issue('', 'malformed_input', `Not valid JSON: ${(error as Error).message}`)]);
+  }
+  if (!isRecord(parsed)) {
+    throw new DNAValidationError([issue('', 'malformed_input', 'Expected a JSON object')]);
+  }
+  return parsed;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+
+  let binary: string;
+  try {
+    binary = atob(padded);
+  } catch {
+    throw new DNAValidationError([issue('', 'malformed_input', 'Compact DNA is not valid base64url')]);
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+function issue(
+  path: string,
+  code: DNAIssueCode,
+  message: string,
+  severity: DNAIssueSeverity = 'error'
+): DNAValidationIssue {
+  return { path, code, message, severity };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkString(dna: Record<string, unknown>, key: string, issues: DNAValidationIssue[]): void {
+  const field = dna[key];
+  if (field === undefined) {
+    issues.push(issue(key, 'missing_field', 'Field is required'));
+  } else if (typeof field !== 'string' || field.length === 0) {
+    issues.push(issue(key, 'invalid_type', 'Expected a non-empty string'));
+  }
+}
+
+function checkEnum(
+  dna: Record<string, unknown>,
+  key: string,
+  allowed: readonly string[],
+  issues: DNAValidationIssue[],
+  optional: boolean = false
+): void {
+  const field = dna[key];
+  if (field === undefined) {
+    if (!optional) {
+      issues.push(issue(key, 'missing_field', 'Field is required'));
+    }
+  } else if (typeof field !== 'string') {
+    issues.push(issue(key, 'invalid_type', 'Expected a string'));
+  } else if (!allowed.includes(field)) {
+    issues.push(issue(key, 'unknown_value', `Unknown ${key} "${field}"`));
+  }
+}
+
+function checkList(
+  dna: Record<string, unknown>,
+  key: string,
+  known: readonly string[],
+  unknownSeverity: DNAIssueSeverity,
+  issues: DNAValidationIssue[]
+): void {
+  const list = dna[key];
+  if (list === undefined) {
+    issues.push(issue(key, 'missing_field', 'Field is required'));
+    return;
+  }
+  if (!Array.isArray(list)) {
+    issues.push(issue(key, 'invalid_type', 'Expected an array of strings'));
+    return;
+  }
+
+  const seen = new Set<string>();
+  list.forEach((entry, index) => {
+    const path = `${key}[${index}]`;
+    if (typeof entry !== 'string') {
+      issues.push(issue(path, 'invalid_type', 'Expected a string'));
+    } else if (seen.has(entry)) {
+      issues.push(issue(path, 'duplicate_value', `Duplicate "${entry}"`, 'warning'));
+    } else {
+      seen.add(entry);
+      if (!known.includes(entry)) {
+        issues.push(issue(path, 'unknown_value', `Unknown ${key.replace(/s$/, '')} "${entry}"`, unknownSeverity));
+      }
+    }
+  });
+}
@@ -0,0 +1,267 @@
+/**
+ * FishRenderService.ts
+ *
+ * Renders FishDNA to PNG/WebP artwork for NFT export
+ * Works against the gallery's renderer in the browser, or headless from Node
+ * through a canvas stand-in plugged into PIXI's DOMAdapter (see scripts/render-assets.ts)
+ *
+ * @version 1.0.0
+ * @path app/lib/FishRenderService.ts
+ */
+
+import * as PIXI from 'pixi.js';
+import { ArtisticFishPixi, FishDNA } from './ArtisticFishPixi';
+import { SeededRandom } from './SeededRandom';
+
+export type FishImageFormat = 'png' | 'webp';
+export type FishImageBackground = 'transparent' | 'ocean';
+
+export interface FishRenderOptions {
+  width?: number;
+  height?: number;
+  format?: FishImageFormat;
+  quality?: number;              // 0-1, WebP only
+  background?: FishImageBackground;
+  padding?: number;              // Fraction of the canvas kept clear around the fish
+}
+
+export interface FishRenderResult {
+  id: string;
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Minimal canvas implementation needed to render without a DOM
+ * node-canvas satisfies this directly: `{ createCanvas, Image, CanvasRenderingContext2D }`
+ */
+export interface HeadlessCanvasProvider {
+  createCanvas: (width: number, height: number) => PIXI.ICanvas;
+  CanvasRenderingContext2D: { prototype: PIXI.ICanvasRenderingContext2D };
+  Image?: new () => PIXI.ImageLike;
+  WebGLRenderingContext?: typeof WebGLRenderingContext;  // e.g. from headless-gl; canvas renderer without it
+}
+
+const DEFAULT_OPTIONS: Required<FishRenderOptions> = {
+  width: 1024,
+  height: 1024,
+  format: 'png',
+  quality: 0.92,
+  background: 'transparent',
+  padding: 0.1
+};
+
+const MIME_TYPES: Record<FishImageFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+export class FishRenderService {
+  private renderer: PIXI.Renderer;
+
+  constructor(renderer: PIXI.Renderer) {
+    this.renderer = renderer;
+  }
+
+  /**
+   * Creates a service with its own renderer, for scripts running outside the browser
+   * Falls back to PIXI's canvas renderer when no WebGL context is available
+   * With a provider, PIXI loads its web worker extensions instead of the
+   * browser ones (DOM, events, accessibility), which need a document
+   */
+  public static async createHeadless(provider?: HeadlessCanvasProvider): Promise<FishRenderService> {
+    if (provider) {
+      PIXI.DOMAdapter.set(this.createHeadlessAdapter(provider));
+      await PIXI.webworkerExt.load();
+    }
+
+    const renderer = await PIXI.autoDetectRenderer({
+      preference: ['webgl', 'canvas'],
+      width: DEFAULT_OPTIONS.width,
+      height: DEFAULT_OPTIONS.height,
+      backgroundAlpha: 0,
+      antialias: true,
+      skipExtensionImports: provider !== undefined
+    });
+
+    return new FishRenderService(renderer);
+  }
+
+  /**
+   * Builds a PIXI Adapter around a canvas stand-in
+   */
+  public static createHeadlessAdapter(provider: HeadlessCanvasProvider): PIXI.Adapter {
+    return {
+      createCanvas: (width = 1, height = 1) => provider.createCanvas(width, height),
+      createImage: () => {
+        if (!provider.Image) {
+          throw new Error('Headless canvas provider does not support images');
+        }
+        return new provider.Image();
+      },
+      getCanvasRenderingContext2D: () => provider.CanvasRenderingContext2D,
+      getWebGLRenderingContext: () => provider.WebGLRenderingContext ?? globalThis.WebGLRenderingContext,
+      getNavigator: () => ({ userAgent: 'node', gpu: null }),
+      getBaseUrl: () => 'file:///',
+      getFontFaceSet: () => null,
+      fetch: (url, options) => fetch(url, options),
+      parseXML: () => {
+        throw new Error('XML parsing is not available in headless rendering');
+      }
+    };
+  }
+
+  /**
+   * Renders a fish to an encoded image
+   */
+  public async render(dna: FishDNA, options: FishRenderOptions = {}): Promise<FishRenderResult> {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const { width, height } = settings;
+    const stage = new PIXI.Container();
+
+    if (settings.background === 'ocean') {
+      stage.addChild(this.createOceanBackground(width, height, dna.seed ?? dna.id));
+    }
+
+    const fish = new ArtisticFishPixi(dna, {
+      renderer: this.renderer,
+      screen: new PIXI.Rectangle(0, 0, width, height)
+    });
+    this.fitToFrame(fish, width, height, settings.padding);
+    stage.addChild(fish);
+
+    try {
+      const dataUrl = await this.renderer.extract.base64({
+        target: stage,
+        format: settings.format,
+        quality: settings.quality,
+        frame: new PIXI.Rectangle(0, 0, width, height),
+        resolution: 1,
+        clearColor: [0, 0, 0, 0]
+      });
+
+      return {
+        id: dna.id,
+        dataUrl,
+        mimeType: MIME_TYPES[settings.format],
+        width,
+        height
+      };
+    } finally {
+      stage.destroy({ children: true });
+    }
+  }
+
+  /**
+   * Renders fish one after another (renderer state is shared, so never in parallel)
+   */
+  public async renderBatch(
+    dnas: FishDNA[],
+    options: FishRenderOptions = {},
+    onProgress?: (result: FishRenderResult, index: number, total: number) => void
+  ): Promise<FishRenderResult[]> {
+    const results: FishRenderResult[] = [];
+
+    for (let i = 0; i < dnas.length; i++) {
+      const result = await this.render(dnas[i], options);
+      results.push(result);
+      onProgress?.(result, i, dnas.length);
+    }
+
+    return results;
+  }
+
+  /**
+   * Renders a fish and triggers a browser download
+   */
+  public async download(dna: FishDNA, options: FishRenderOptions = {}, filename?: string): Promise<void> {
+    const result = await this.render(dna, options);
+    const extension = options.format ?? DEFAULT_OPTIONS.format;
+
+    const link = document.createElement('a');
+    link.href = result.dataUrl;
+    link.download = filename ?? `${dna.id}.${extension}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+
+  /**
+   * Scales and centres the fish so its bounds fill the frame minus padding
+   */
+  private fitToFrame(fish: ArtisticFishPixi, width: number, height: number, padding: number): void {
+    fish.scale.set(1);
+    const bounds = fish.getLocalBounds();
+    const scale = Math.min(
+      (width * (1 - padding * 2)) / Math.max(bounds.width, 1),
+      (height * (1 - padding * 2)) / Math.max(bounds.height, 1)
+    );
+
+    fish.scale.set(scale);
+    fish.position.set(
+      width / 2 - (bounds.x + bounds.width / 2) * scale,
+      height / 2 - (bounds.y + bounds.height / 2) * scale
+    );
+  }
+
+  /**
+   * Deep-water gradient with light rays and bubbles, seeded per fish
+   */
+  private createOceanBackground(width: number, height: number, seed: string): PIXI.Container {
+    const rng = new SeededRandom(`${seed}:background`);
+    const background = new PIXI.Container();
+
+    // Local texture space: 0-1 across the filled rect, top to bottom
+    const gradient = new PIXI.FillGradient({
+      start: { x: 0, y: 0 },
+      end: { x: 0, y: 1 },
+      colorStops: [
+        { offset: 0, color: 0x003366 },
+        { offset: 0.5, color: 0x001a33 },
+        { offset: 1, color: 0x000814 }
+      ]
+    });
+
+    const water = new PIXI.Graphics();
+    water.rect(0, 0, width, height);
+    water.fill(gradient);
+    background.addChild(water);
+
+    // Light rays from the surface
+    const rays = new PIXI.Graphics();
+    for (let i = 0; i < 5; i++) {
+      const x = rng.range(0, width);
+      const spread = rng.range(width * 0.05, width * 0.15);
+      rays.poly([x - spread * 0.3, 0, x + spread * 0.3, 0, x + spread, height, x - spread, height]);
+      rays.fill({ color: 0x66ccff, alpha: rng.range(0.03, 0.08) });
+    }
+    background.addChild(rays);
+
+    // Bubbles
+    const bubbles = new PIXI.Graphics();
+    for (let i = 0; i < 30; i++) {
+      bubbles.circle(rng.range(0, width), rng.range(0, height), rng.range(width * 0.002, width * 0.01));
+      bubbles.stroke({ color: 0xaaddff, alpha: rng.range(0.2, 0.5), width: 1 });
+    }
+    background.addChild(bubbles);
+
+    return background;
+  }
+}
+
+/**
+ * Decodes a data URL (as returned in FishRenderResult) to raw bytes for writing to disk
+ */
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
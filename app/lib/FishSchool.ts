@@ -0,0 +1,502 @@
+/**
+ * FishSchool.ts
+ *
+ * Rendering-free fish spawning and movement
+ * Turns WaveScheduler spawns into positioned fish records, steers them along
+ * their movement pattern toward the opposite edge and drops them once they
+ * swim off. GameSimulation owns one per game, and views draw its fish from
+ * the simulation's snapshots.
+ *
+ * @version 1.0.0
+ * @path app/lib/FishSchool.ts
+ */
+
+import type { FishDNA } from './ArtisticFishPixi';
+import { SeededRandom, createSeed } from './SeededRandom';
+import { RarityRegistry } from './RarityRegistry';
+import { SpeciesRegistry } from './SpeciesRegistry';
+import { Vec2 } from './CollisionSystem';
+import {
+  SpawnWave,
+  SpawnPattern,
+  MovementPattern,
+  WaveScheduler,
+  WaveSize,
+  SPAWN_SIZE_MULTIPLIERS,
+  getWaveSpeed
+} from './GameRules';
+
+/**
+ * Size of the play area; pass a live object (e.g. app.screen) to follow resizes
+ */
+export interface SchoolArea {
+  width: number;
+  height: number;
+}
+
+/**
+ * A fish in the school, positioned in area space
+ */
+export interface SchoolFish {
+  id: string;
+  dna: FishDNA;
+  wave: SpawnWave;
+  x: number;
+  y: number;
+  heading: number;
+  movementPattern: MovementPattern;
+  baseSpeed: number;
+  target: Vec2;
+  pathProgress: number;
+  formation: string;       // Shared by every member of one spawned formation
+  formationIndex: number;
+}
+
+/**
+ * What changed during one update
+ */
+export interface SchoolUpdate {
+  spawned: SchoolFish[];
+  despawned: SchoolFish[];  // Swam off screen
+}
+
+// Fish spawn this far outside the area and are dropped this much further out
+const SPAWN_MARGIN = 200;
+const DESPAWN_MARGIN = 300;
+
+const EDGES = ['left', 'right', 'top', 'bottom'] as const;
+
+// Exit points are off screen, so a fish this close to its exit has left
+const ARRIVAL_DISTANCE = 5;
+
+export class FishSchool {
+  private area: SchoolArea;
+  private fish: Map<string, SchoolFish> = new Map();
+
+  // Deterministic randomness so spawn sequences can be replayed from a seed
+  private random!: SeededRandom;
+  private spawnCount: number = 0;
+  private formationCount: number = 0;
+  private formation: string = '';
+  private scheduler!: WaveScheduler;
+
+  constructor(area: SchoolArea, seed: string = createSeed()) {
+    this.area = area;
+    this.reset(seed);
+  }
+
+  /**
+   * Drops every fish and restarts the wave sequence from a seed
+   */
+  public reset(seed: string = createSeed()): void {
+    this.fish.clear();
+    this.random = new SeededRandom(seed);
+    this.spawnCount = 0;
+    this.formationCount = 0;
+    this.scheduler = new WaveScheduler(this.random);
+  }
+
+  public get seed(): string {
+    return this.random.seed;
+  }
+
+  public get difficulty(): number {
+    return this.scheduler.difficulty;
+  }
+
+  public get size(): number {
+    return this.fish.size;
+  }
+
+  public addWave(wave: SpawnWave): void {
+    this.scheduler.addWave(wave);
+  }
+
+  /**
+   * Spawns due fish, moves every fish and drops the ones that left (deltaMS in ms)
+   */
+  public update(deltaMS: number): SchoolUpdate {
+    // Spawn every formation member that is due (also ramps difficulty)
+    const spawned = this.scheduler.update(deltaMS).map(({ wave, index }) => this.spawn(wave, index));
+
+    this.fish.forEach(fish => this.move(fish, deltaMS));
+
+    const despawned: SchoolFish[] = [];
+    this.fish.forEach((fish, id) => {
+      if (this.isOutside(fish, DESPAWN_MARGIN) || this.hasArrived(fish)) {
+        this.fish.delete(id);
+        despawned.push(fish);
+      }
+    });
+
+    return { spawned, despawned };
+  }
+
+  public get(id: string): SchoolFish | undefined {
+    return this.fish.get(id);
+  }
+
+  /**
+   * Fish in spawn order
+   */
+  public all(): SchoolFish[] {
+    return [...this.fish.values()];
+  }
+
+  /**
+   * Removes one fish (e.g. when it is caught)
+   */
+  public remove(id: string): SchoolFish | undefined {
+    const fish = this.fish.get(id);
+    this.fish.delete(id);
+    return fish;
+  }
+
+  public clear(): SchoolFish[] {
+    const removed = this.all();
+    this.fish.clear();
+    return removed;
+  }
+
+  private get bounds() {
+    return {
+      left: -SPAWN_MARGIN,
+      right: this.area.width + SPAWN_MARGIN,
+      top: -SPAWN_MARGIN,
+      bottom: this.area.height + SPAWN_MARGIN
+    };
+  }
+
+  /**
+   * Spawns a whole formation at once around origin (e.g. minions a boss
+   * summons); offsets face +x and are turned toward the exit the group
+   * swims out through together
+   */
+  public summon(wave: SpawnWave, origin: Vec2, offsets: Vec2[]): SchoolFish[] {
+    this.startFormation();
+    const edge = this.random.pick(EDGES);
+    const exit = this.getEdgePoint(edge, this.random.range(0.2, 0.8));
+    const angle = Math.atan2(exit.y - origin.y, exit.x - origin.x);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return offsets.map((offset, index) => {
+      const dx = offset.x * cos - offset.y * sin;
+      const dy = offset.x * sin + offset.y * cos;
+      return this.place(wave, index, { x: origin.x + dx, y: origin.y + dy }, { x: exit.x + dx, y: exit.y + dy });
+    });
+  }
+
+  /**
+   * Places member `index` of a formation and starts it toward the far edge
+   */
+  private spawn(wave: SpawnWave, index: number): SchoolFish {
+    if (index === 0) {
+      this.startFormation();
+    }
+    const spawnPoint = this.calculateSpawnPoint(wave.pattern, index, wave.fishCount);
+    return this.place(wave, index, spawnPoint, this.calculateTargetPoint(spawnPoint));
+  }
+
+  private startFormation(): void {
+    this.formation = `formation-${this.formationCount++}`;
+  }
+
+  private place(wave: SpawnWave, index: number, spawnPoint: Vec2, target: Vec2): SchoolFish {
+    const dna = this.generateFishDNA(wave.fishType, wave.rarity, wave.size);
+
+    const fish: SchoolFish = {
+      id: dna.id,
+      dna,
+      wave,
+      x: spawnPoint.x,
+      y: spawnPoint.y,
+      // Start facing the target
+      heading: Math.atan2(target.y - spawnPoint.y, target.x - spawnPoint.x),
+      movementPattern: wave.movementPattern,
+      baseSpeed: getWaveSpeed(wave),
+      target,
+      pathProgress: 0,
+      formation: this.formation,
+      formationIndex: index
+    };
+
+    this.fish.set(fish.id, fish);
+    return fish;
+  }
+
+  /**
+   * Calculates spawn point based on formation pattern
+   */
+  private calculateSpawnPoint(pattern: SpawnPattern, index: number, total: number): Vec2 {
+    const edge = this.random.pick(EDGES);
+    const basePoint = this.getEdgePoint(edge, 0.5);
+
+    switch (pattern) {
+      case SpawnPattern.LINE:
+        // Straight line perpendicular to edge
+        if (edge === 'left' || edge === 'right') {
+          basePoint.y = this.area.height * (0.2 + (index / total) * 0.6);
+        } else {
+          basePoint.x = this.area.width * (0.2 + (index / total) * 0.6);
+        }
+        break;
+
+      case SpawnPattern.V_FORMATION:
+        // V shape
+        const vAngle = (index - total / 2) * 0.2;
+        if (edge === 'left' || edge === 'right') {
+          basePoint.y += Math.abs(vAngle) * 50;
+          basePoint.x += vAngle * 30;
+        } else {
+          basePoint.x += Math.abs(vAngle) * 50;
+          basePoint.y += vAngle * 30;
+        }
+        break;
+
+      case SpawnPattern.CIRCLE:
+        // Circular formation
+        const circleAngle = (index / total) * Math.PI * 2;
+        const radius = 100;
+        basePoint.x += Math.cos(circleAngle) * radius;
+        basePoint.y += Math.sin(circleAngle) * radius;
+        break;
+
+      case SpawnPattern.SPIRAL:
+        // Spiral formation
+        const spiralAngle = (index / total) * Math.PI * 4;
+        const spiralRadius = 20 + index * 10;
+        basePoint.x += Math.cos(spiralAngle) * spiralRadius;
+        basePoint.y += Math.sin(spiralAngle) * spiralRadius;
+        break;
+
+      case SpawnPattern.WAVE:
+        // Sine wave formation
+        const waveT = index / total;
+        if (edge === 'left' || edge === 'right') {
+          basePoint.y = this.area.height * (0.5 + Math.sin(waveT * Math.PI * 2) * 0.3);
+        } else {
+          basePoint.x = this.area.width * (0.5 + Math.sin(waveT * Math.PI * 2) * 0.3);
+        }
+        break;
+    }
+
+    return basePoint;
+  }
+
+  /**
+   * Gets a point on the edge of the spawn bounds
+   */
+  private getEdgePoint(edge: 'top' | 'bottom' | 'left' | 'right', ratio: number): Vec2 {
+    const bounds = this.bounds;
+    switch (edge) {
+      case 'left':
+        return { x: bounds.left, y: this.area.height * ratio };
+      case 'right':
+        return { x: bounds.right, y: this.area.height * ratio };
+      case 'top':
+        return { x: this.area.width * ratio, y: bounds.top };
+      case 'bottom':
+        return { x: this.area.width * ratio, y: bounds.bottom };
+    }
+  }
+
+  /**
+   * Calculates target point for fish movement
+   */
+  private calculateTargetPoint(spawnPoint: Vec2): Vec2 {
+    const bounds = this.bounds;
+
+    // Determine opposite edge
+    let targetX = spawnPoint.x;
+    let targetY = spawnPoint.y;
+
+    if (spawnPoint.x <= bounds.left) {
+      targetX = bounds.right;
+    } else if (spawnPoint.x >= bounds.right) {
+      targetX = bounds.left;
+    }
+
+    if (spawnPoint.y <= bounds.top) {
+      targetY = bounds.bottom;
+    } else if (spawnPoint.y >= bounds.bottom) {
+      targetY = bounds.top;
+    }
+
+    // Add some randomness to exit point
+    if (targetX !== spawnPoint.x) {
+      targetY = this.area.height * this.random.range(0.2, 0.8);
+    } else {
+      targetX = this.area.width * this.random.range(0.2, 0.8);
+    }
+
+    return { x: targetX, y: targetY };
+  }
+
+  /**
+   * Moves one fish along its pattern and turns it toward its movement
+   */
+  private move(fish: SchoolFish, deltaMS: number): void {
+    const movement = this.calculateMovement(fish, deltaMS);
+
+    fish.x += movement.x;
+    fish.y += movement.y;
+
+    if (movement.x !== 0 || movement.y !== 0) {
+      const targetRotation = Math.atan2(movement.y, movement.x);
+      fish.heading = lerpAngle(fish.heading, targetRotation, 0.1);
+    }
+
+    fish.pathProgress += deltaMS * 0.001;
+  }
+
+  /**
+   * Calculates movement vector based on pattern
+   */
+  private calculateMovement(fish: SchoolFish, deltaMS: number): Vec2 {
+    const { baseSpeed, target, pathProgress: progress } = fish;
+    const speed = baseSpeed * deltaMS * 0.1;
+    const dx = target.x - fish.x;
+    const dy = target.y - fish.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    // Base direction
+    let moveX = (dx / distance) * speed;
+    let moveY = (dy / distance) * speed;
+
+    // Apply pattern modifications
+    switch (fish.movementPattern) {
+      case MovementPattern.SINE_WAVE:
+        const waveOffset = Math.sin(progress * 5) * 50;
+        moveX += -moveY * waveOffset * 0.001;
+        moveY += moveX * waveOffset * 0.001;
+        break;
+
+      case MovementPattern.ZIGZAG:
+        const zigzag = Math.sign(Math.sin(progress * 10)) * 30;
+        moveX += -moveY * zigzag * 0.001;
+        moveY += moveX * zigzag * 0.001;
+        break;
+
+      case MovementPattern.CIRCULAR:
+        const circleAngle = progress * 3;
+        moveX += Math.cos(circleAngle) * speed * 0.3;
+        moveY += Math.sin(circleAngle) * speed * 0.3;
+        break;
+
+      case MovementPattern.FIGURE_EIGHT:
+        const figure8 = progress * 2;
+        moveX += Math.cos(figure8) * Math.cos(figure8 * 2) * speed * 0.5;
+        moveY += Math.sin(figure8) * speed * 0.5;
+        break;
+
+      case MovementPattern.RANDOM_WANDER:
+        moveX += (this.random.next() - 0.5) * speed * 0.5;
+        moveY += (this.random.next() - 0.5) * speed * 0.5;
+        break;
+    }
+
+    return { x: moveX, y: moveY };
+  }
+
+  /**
+   * Whether a fish reached its exit point (it would otherwise hover there)
+   */
+  private hasArrived(fish: SchoolFish): boolean {
+    return Math.hypot(fish.target.x - fish.x, fish.target.y - fish.y) <= ARRIVAL_DISTANCE;
+  }
+
+  private isOutside(fish: SchoolFish, margin: number): boolean {
+    const bounds = this.bounds;
+    return fish.x < bounds.left - margin ||
+      fish.x > bounds.right + margin ||
+      fish.y < bounds.top - margin ||
+      fish.y > bounds.bottom + margin;
+  }
+
+  /**
+   * Generates fish DNA for spawning
+   */
+  private generateFishDNA(species: string, rarity: FishDNA['rarity'], size: WaveSize): FishDNA {
+    // Each fish gets its own stream so its DNA can be regenerated from the seed alone
+    const rng = this.random.fork(this.spawnCount++);
+    const definition = SpeciesRegistry.resolve(species);
+
+    return {
+      id: `fish-${rng.seed}`,
+      species: definition.name,
+      bodyShape: definition.bodyShape,
+      pattern: this.getRandomPattern(rng),
+      colors: { ...definition.baseColors },
+      rarity,
+      traits: [...new Set([...(definition.features.special || []), ...this.getTraitsForRarity(rarity)])],
+      mutations: this.getMutationsForRarity(rarity, rng),
+      genes: {
+        size: SPAWN_SIZE_MULTIPLIERS[size],
+        speed: rng.range(0.8, 1.2),
+        aggression: rng.next(),
+        intelligence: rng.next()
+      },
+      seed: rng.seed
+    };
+  }
+
+  /**
+   * Helper methods for fish generation
+   */
+  private getRandomPattern(rng: SeededRandom): string {
+    const patterns = ['stripes', 'dots', 'scales', 'waves', 'gradient'];
+    return rng.pick(patterns);
+  }
+
+  private getTraitsForRarity(rarity: FishDNA['rarity']): string[] {
+    const traits: string[] = [];
+
+    if (RarityRegistry.isAtLeast(rarity, 'epic')) {
+      traits.push('glowing_eyes');
+    }
+
+    if (RarityRegistry.isAtLeast(rarity, 'legendary')) {
+      traits.push('particle_trail');
+    }
+
+    if (rarity === 'cosmic') {
+      traits.push('universe_inside');
+    }
+
+    return traits;
+  }
+
+  private getMutationsForRarity(rarity: FishDNA['rarity'], rng: SeededRandom): string[] {
+    const mutations: string[] = [];
+    const possibleMutations = ['iridescent', 'metallic', 'translucent', 'holographic'];
+
+    const mutationCount =
+      rarity === 'cosmic' ? 2 :
+      rarity === 'mythic' ? 1 :
+      rarity === 'legendary' ? 1 :
+      0;
+
+    for (let i = 0; i < mutationCount; i++) {
+      const mutation = rng.pick(possibleMutations);
+      if (!mutations.includes(mutation)) {
+        mutations.push(mutation);
+      }
+    }
+
+    return mutations;
+  }
+}
+
+/**
+ * Eases an angle toward a target along the shorter way round
+ */
+export function lerpAngle(current: number, target: number, alpha: number): number {
+  let diff = target - current;
+
+  // Normalize the difference to [-PI, PI]
+  while (diff > Math.PI) diff -= Math.PI * 2;
+  while (diff < -Math.PI) diff += Math.PI * 2;
+
+  return current + diff * alpha;
+}
@@ -8,17 +8,40 @@
  */
 
 import { FishTemplate } from './ArtisticFishPixi';
+import { RarityType } from '../config/fishConfig';
+
+export type SpeciesCategory =
+  | 'tropical'
+  | 'predator'
+  | 'deepSea'
+  | 'exotic'
+  | 'flat'
+  | 'unique'
+  | 'legendary'
+  | 'special'
+  | 'artistic';
+
+/**
+ * Catalog entry: a fish template plus its place in the collection
+ */
+export interface SpeciesDefinition extends FishTemplate {
+  category: SpeciesCategory;
+  rarity: RarityType;  // Native tier of the species
+}
 
 /**
  * Complete fish species catalog organized by category
+ * Adding a species here makes it available to the gallery and the spawner
  */
-export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
+export const FISH_SPECIES_CATALOG: Record<string, SpeciesDefinition> = {
   // === TROPICAL FISH ===
   goldfish: {
     name: 'goldfish',
     displayName: 'Golden Koi',
     description: 'Elegant flowing fins with shimmer',
     bodyShape: 'round',
+    category: 'tropical',
+    rarity: 'common',
     baseColors: {
       primary: '#FFD700',
       secondary: '#FFA500',
@@ -38,6 +61,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Neon Spirit',
     description: 'Electric blue stripe glowing',
     bodyShape: 'streamlined',
+    category: 'tropical',
+    rarity: 'common',
     baseColors: {
       primary: '#00CED1',
       secondary: '#FF1493',
@@ -57,6 +82,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Royal Angel',
     description: 'Majestic triangular beauty',
     bodyShape: 'diamond',
+    category: 'tropical',
+    rarity: 'uncommon',
     baseColors: {
       primary: '#FFE4B5',
       secondary: '#FF8C00',
@@ -76,6 +103,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Coral Jester',
     description: 'Playful orange with white bands',
     bodyShape: 'oval',
+    category: 'tropical',
+    rarity: 'common',
     baseColors: {
       primary: '#FF4500',
       secondary: '#FFFFFF',
@@ -95,6 +124,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Painted Butterfly',
     description: 'Delicate patterns like wings',
     bodyShape: 'compressed',
+    category: 'tropical',
+    rarity: 'uncommon',
     baseColors: {
       primary: '#FFFF00',
       secondary: '#000000',
@@ -115,6 +146,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Crystal Predator',
     description: 'Transparent apex hunter',
     bodyShape: 'streamlined',
+    category: 'predator',
+    rarity: 'rare',
     baseColors: {
       primary: '#E0FFFF',
       secondary: '#87CEEB',
@@ -134,6 +167,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Silver Torpedo',
     description: 'Lightning-fast hunter',
     bodyShape: 'elongated',
+    category: 'predator',
+    rarity: 'rare',
     baseColors: {
       primary: '#C0C0C0',
       secondary: '#708090',
@@ -153,6 +188,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Venomous Beauty',
     description: 'Deadly spines with grace',
     bodyShape: 'round',
+    category: 'predator',
+    rarity: 'rare',
     baseColors: {
       primary: '#8B0000',
       secondary: '#FFFFFF',
@@ -173,6 +210,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Abyssal Angler',
     description: 'Lure glowing in darkness',
     bodyShape: 'bulbous',
+    category: 'deepSea',
+    rarity: 'epic',
     baseColors: {
       primary: '#2F4F4F',
       secondary: '#000000',
@@ -192,6 +231,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Deep Glow',
     description: 'Tiny lights in the abyss',
     bodyShape: 'streamlined',
+    category: 'deepSea',
+    rarity: 'uncommon',
     baseColors: {
       primary: '#191970',
       secondary: '#00CED1',
@@ -212,6 +253,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Void Angel',
     description: 'Darkness incarnate',
     bodyShape: 'diamond',
+    category: 'exotic',
+    rarity: 'epic',
     baseColors: {
       primary: '#000000',
       secondary: '#330066',
@@ -231,6 +274,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Ocean Knight',
     description: 'Armored elegance',
     bodyShape: 'serpentine',
+    category: 'exotic',
+    rarity: 'uncommon',
     baseColors: {
       primary: '#FF69B4',
       secondary: '#FFB6C1',
@@ -250,6 +295,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Psychedelic Mandarin',
     description: 'Living artwork',
     bodyShape: 'oval',
+    category: 'exotic',
+    rarity: 'rare',
     baseColors: {
       primary: '#0000FF',
       secondary: '#FF4500',
@@ -270,6 +317,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Sand Mimic',
     description: 'Master of camouflage',
     bodyShape: 'flat',
+    category: 'flat',
+    rarity: 'common',
     baseColors: {
       primary: '#DEB887',
       secondary: '#D2691E',
@@ -289,6 +338,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Ocean Glider',
     description: 'Graceful carpet of the sea',
     bodyShape: 'flat',
+    category: 'flat',
+    rarity: 'epic',
     baseColors: {
       primary: '#696969',
       secondary: '#A9A9A9',
@@ -309,6 +360,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Cubic Wonder',
     description: 'Swimming dice',
     bodyShape: 'triangular',
+    category: 'unique',
+    rarity: 'uncommon',
     baseColors: {
       primary: '#FFFF00',
       secondary: '#000000',
@@ -328,6 +381,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Spiky Balloon',
     description: 'Inflatable defense',
     bodyShape: 'round',
+    category: 'unique',
+    rarity: 'epic',
     baseColors: {
       primary: '#F0E68C',
       secondary: '#8B4513',
@@ -348,6 +403,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Cosmic Leviathan',
     description: 'Born from stardust',
     bodyShape: 'massive',
+    category: 'legendary',
+    rarity: 'legendary',
     baseColors: {
       primary: '#191970',
       secondary: '#4B0082',
@@ -368,6 +425,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Dragon Koi',
     description: 'Mythical Eastern dragon',
     bodyShape: 'serpentine',
+    category: 'legendary',
+    rarity: 'legendary',
     baseColors: {
       primary: '#FF0000',
       secondary: '#FFD700',
@@ -387,6 +446,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Phoenix of the Seas',
     description: 'Reborn from coral ashes',
     bodyShape: 'crescent',
+    category: 'legendary',
+    rarity: 'mythic',
     baseColors: {
       primary: '#FF4500',
       secondary: '#FFD700',
@@ -406,6 +467,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Prismatic Jellyfish',
     description: 'Light-bending ethereal beauty',
     bodyShape: 'bulbous',
+    category: 'legendary',
+    rarity: 'mythic',
     baseColors: {
       primary: '#FFFFFF',
       secondary: '#00FFFF',
@@ -426,6 +489,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Cyber Pike X-99',
     description: 'Augmented predator',
     bodyShape: 'streamlined',
+    category: 'special',
+    rarity: 'legendary',
     baseColors: {
       primary: '#1C1C1C',
       secondary: '#00FF00',
@@ -446,6 +511,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Fortune Fish',
     description: 'Brings prosperity',
     bodyShape: 'round',
+    category: 'special',
+    rarity: 'cosmic',
     baseColors: {
       primary: '#FFD700',
       secondary: '#FFA500',
@@ -465,6 +532,8 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
     displayName: 'Arctic Titan',
     description: 'Frozen depths ruler',
     bodyShape: 'massive',
+    category: 'special',
+    rarity: 'mythic',
     baseColors: {
       primary: '#87CEEB',
       secondary: '#4682B4',
@@ -477,32 +546,106 @@ export const FISH_SPECIES_CATALOG: Record<string, FishTemplate> = {
       finStyle: 'icy',
       special: ['frost_armor', 'ice_breath', 'freeze_aura', 'crystal_spikes']
     }
+  },
+  
+  // === ARTISTIC FISH ===
+  architecturalFlow: {
+    name: 'architecturalFlow',
+    displayName: 'Architectural Flow α-01',
+    description: 'Parametric design meets aquatic form',
+    bodyShape: 'architectural',
+    category: 'artistic',
+    rarity: 'rare',
+    baseColors: {
+      primary: '#2a2a2a',
+      secondary: '#ffffff',
+      accent: '#00ffff',
+      glow: '#00ffff'
+    },
+    features: {
+      bodyRatio: { w: 2.5, h: 1.2 },
+      headCurve: 'parametric',
+      tailType: 'geometric',
+      finStyle: 'minimal',
+      special: ['parametric_surface', 'flow_lines']
+    }
+  },
+  
+  deconstructedEntity: {
+    name: 'deconstructedEntity',
+    displayName: 'Deconstructed Entity δ-77',
+    description: 'Form fragmented across dimensions',
+    bodyShape: 'deconstructed',
+    category: 'artistic',
+    rarity: 'rare',
+    baseColors: {
+      primary: '#ff0066',
+      secondary: '#0066ff',
+      accent: '#66ff00'
+    },
+    features: {
+      bodyRatio: { w: 2.0, h: 1.5 },
+      headCurve: 'fragmented',
+      tailType: 'dispersed',
+      finStyle: 'floating',
+      special: ['phase_shift', 'fragment_orbit']
+    }
+  },
+  
+  tessellatedCrystal: {
+    name: 'tessellatedCrystal',
+    displayName: 'Tessellated Crystal τ-∞',
+    description: 'Infinite patterns within finite form',
+    bodyShape: 'tessellated',
+    category: 'artistic',
+    rarity: 'rare',
+    baseColors: {
+      primary: '#9900ff',
+      secondary: '#00ff99',
+      accent: '#ff9900'
+    },
+    features: {
+      bodyRatio: { w: 1.8, h: 1.8 },
+      headCurve: 'crystalline',
+      tailType: 'fractal',
+      finStyle: 'tessellated',
+      special: ['recursive_pattern', 'light_refraction']
+    }
+  },
+  
+  calligraphicEssence: {
+    name: 'calligraphicEssence',
+    displayName: 'Calligraphic Essence 書-001',
+    description: 'Single stroke of digital ink',
+    bodyShape: 'calligraphic',
+    category: 'artistic',
+    rarity: 'rare',
+    baseColors: {
+      primary: '#000000',
+      secondary: '#ff0000',
+      accent: '#ffffff'
+    },
+    features: {
+      bodyRatio: { w: 3.0, h: 0.8 },
+      headCurve: 'brushstroke',
+      tailType: 'ink_trail',
+      finStyle: 'flowing_ink',
+      special: ['ink_dynamics', 'brush_texture']
+    }
   }
 };
 
 /**
  * Get fish species by category
  */
-export function getFishByCategory(category: string): FishTemplate[] {
-  const categories: Record<string, string[]> = {
-    tropical: ['goldfish', 'neonTetra', 'angelfish', 'clownfish', 'butterflyfish'],
-    predator: ['crystalShark', 'barracuda', 'lionfish'],
-    deepSea: ['anglerfish', 'lanternfish'],
-    exotic: ['voidAngel', 'seahorse', 'mandarinfish'],
-    flat: ['flounder', 'stingray'],
-    unique: ['boxfish', 'pufferfish'],
-    legendary: ['cosmicWhale', 'ancientDragon', 'phoenixfish', 'prismaticJelly'],
-    special: ['cyberPike', 'goldenLuck', 'icebergTitan']
-  };
-  
-  const speciesNames = categories[category] || [];
-  return speciesNames.map(name => FISH_SPECIES_CATALOG[name]).filter(Boolean);
+export function getFishByCategory(category: string): SpeciesDefinition[] {
+  return Object.values(FISH_SPECIES_CATALOG).filter(species => species.category === category);
 }
 
 /**
  * Get random fish from catalog
  */
-export function getRandomFishSpecies(): FishTemplate {
+export function getRandomFishSpecies(): SpeciesDefinition {
   const allSpecies = Object.values(FISH_SPECIES_CATALOG);
   return allSpecies[Math.floor(Math.random() * allSpecies.length)];
 }
@@ -510,16 +653,8 @@ export function getRandomFishSpecies(): FishTemplate {
 /**
  * Get fish by rarity tier
  */
-export function getFishByRarity(minRarity: string): string[] {
-  const rarityTiers: Record<string, string[]> = {
-    common: ['goldfish', 'neonTetra', 'clownfish', 'flounder'],
-    uncommon: ['angelfish', 'butterflyfish', 'seahorse', 'boxfish'],
-    rare: ['crystalShark', 'barracuda', 'lionfish', 'mandarinfish'],
-    epic: ['voidAngel', 'anglerfish', 'stingray', 'pufferfish'],
-    legendary: ['cosmicWhale', 'ancientDragon', 'cyberPike'],
-    mythic: ['phoenixfish', 'prismaticJelly', 'icebergTitan'],
-    cosmic: ['goldenLuck'] // Ultra rare event fish
-  };
-  
-  return rarityTiers[minRarity] || [];
+export function getFishByRarity(rarity: string): string[] {
+  return Object.values(FISH_SPECIES_CATALOG)
+    .filter(species => species.rarity === rarity)
+    .map(species => species.name);
 }
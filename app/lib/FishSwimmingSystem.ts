@@ -9,39 +9,17 @@
  */
 
 import * as PIXI from 'pixi.js';
+import { GameClock } from './GameClock';
 
-/**
- * Path types supported by the system
- */
-export enum PathType {
-  LINEAR = 'linear',
-  BEZIER = 'bezier',
-  COMPLEX = 'complex',
-  CIRCULAR = 'circular',
-  PATROL = 'patrol'
-}
+import {
+  PathType,
+  SwimStyle,
+  FormationType,
+  getPathPosition,
+  getFormationOffsets
+} from './SwimPaths';
 
-/**
- * Swimming styles for natural movement
- */
-export enum SwimStyle {
-  STRAIGHT = 'straight',
-  WAVY = 'wavy',
-  ERRATIC = 'erratic',
-  GLIDING = 'gliding'
-}
-
-/**
- * Formation types for fish groups
- */
-export enum FormationType {
-  NONE = 'none',
-  SNAKE = 'snake',
-  V_SHAPE = 'v_shape',
-  CIRCULAR = 'circular',
-  DIAMOND = 'diamond',
-  GRID = 'grid'
-}
+export { PathType, SwimStyle, FormationType };
 
 /**
  * Fish configuration interface
@@ -240,131 +218,8 @@ class SwimmingFish extends PIXI.Container {
    * Gets position along the path based on progress
    */
   private getPathPosition(progress: number): PIXI.Point | null {
-    switch (this.currentPath.type) {
-      case PathType.LINEAR:
-        return this.getLinearPosition(progress);
-      
-      case PathType.BEZIER:
-        return this.getBezierPosition(progress);
-      
-      case PathType.CIRCULAR:
-        return this.getCircularPosition(progress);
-      
-      case PathType.PATROL:
-        return this.getPatrolPosition(progress);
-      
-      case PathType.COMPLEX:
-        return this.getComplexPosition(progress);
-      
-      default:
-        return null;
-    }
-  }
-  
-  /**
-   * Linear path calculation
-   */
-  private getLinearPosition(progress: number): PIXI.Point | null {
-    if (progress > 1) return null;
-    
-    const start = this.currentPath.points[0];
-    const end = this.currentPath.points[1];
-    
-    return new PIXI.Point(
-      start.x + (end.x - start.x) * progress,
-      start.y + (end.y - start.y) * progress
-    );
-  }
-  
-  /**
-   * Bezier curve path calculation
-   */
-  private getBezierPosition(progress: number): PIXI.Point | null {
-    if (progress > 1) return null;
-    
-    const points = this.currentPath.points;
-    const controls = this.currentPath.controlPoints || [];
-    
-    if (points.length < 2) return null;
-    
-    const t = progress;
-    const t2 = t * t;
-    const t3 = t2 * t;
-    const mt = 1 - t;
-    const mt2 = mt * mt;
-    const mt3 = mt2 * mt;
-    
-    if (controls.length >= 2) {
-      // Cubic bezier
-      const p0 = points[0];
-      const p1 = controls[0];
-      const p2 = controls[1];
-      const p3 = points[1];
-      
-      return new PIXI.Point(
-        mt3 * p0.x + 3 * mt2 * t * p1.x + 3 * mt * t2 * p2.x + t3 * p3.x,
-        mt3 * p0.y + 3 * mt2 * t * p1.y + 3 * mt * t2 * p2.y + t3 * p3.y
-      );
-    } else if (controls.length === 1) {
-      // Quadratic bezier
-      const p0 = points[0];
-      const p1 = controls[0];
-      const p2 = points[1];
-      
-      return new PIXI.Point(
-        mt2 * p0.x + 2 * mt * t * p1.x + t2 * p2.x,
-        mt2 * p0.y + 2 * mt * t * p1.y + t2 * p2.y
-      );
-    }
-    
-    return this.getLinearPosition(progress);
-  }
-  
-  /**
-   * Circular path calculation
-   */
-  private getCircularPosition(progress: number): PIXI.Point | null {
-    const center = this.currentPath.points[0];
-    const radius = this.currentPath.points[1].x; // Use x as radius
-    const angle = progress * Math.PI * 2;
-    
-    return new PIXI.Point(
-      center.x + Math.cos(angle) * radius,
-      center.y + Math.sin(angle) * radius
-    );
-  }
-  
-  /**
-   * Patrol path (back and forth)
-   */
-  private getPatrolPosition(progress: number): PIXI.Point | null {
-    const pingPong = progress % 2;
-    const adjustedProgress = pingPong < 1 ? pingPong : 2 - pingPong;
-    
-    return this.getLinearPosition(adjustedProgress);
-  }
-  
-  /**
-   * Complex path with multiple segments
-   */
-  private getComplexPosition(progress: number): PIXI.Point | null {
-    const points = this.currentPath.points;
-    if (points.length < 2) return null;
-    
-    const segments = points.length - 1;
-    const segmentProgress = progress * segments;
-    const currentSegment = Math.floor(segmentProgress);
-    const localProgress = segmentProgress - currentSegment;
-    
-    if (currentSegment >= segments) return null;
-    
-    const start = points[currentSegment];
-    const end = points[currentSegment + 1];
-    
-    return new PIXI.Point(
-      start.x + (end.x - start.x) * localProgress,
-      start.y + (end.y - start.y) * localProgress
-    );
+    const position = getPathPosition(this.currentPath, progress);
+    return position ? new PIXI.Point(position.x, position.y) : null;
   }
   
   /**
@@ -512,66 +367,9 @@ class FishFormation extends PIXI.Container {
    * Gets relative positions for formation type
    */
   private getFormationPositions(): PIXI.Point[] {
-    const positions: PIXI.Point[] = [];
     const { type, fishCount, spacing } = this.config;
-    
-    switch (type) {
-      case FormationType.SNAKE:
-        for (let i = 0; i < fishCount; i++) {
-          positions.push(new PIXI.Point(-i * spacing, 0));
-        }
-        break;
-      
-      case FormationType.V_SHAPE:
-        const halfCount = Math.floor(fishCount / 2);
-        for (let i = 0; i < fishCount; i++) {
-          const side = i < halfCount ? -1 : 1;
-          const index = i < halfCount ? i : i - halfCount;
-          positions.push(new PIXI.Point(
-            -index * spacing * 0.7,
-            side * index * spacing * 0.5
-          ));
-        }
-        break;
-      
-      case FormationType.CIRCULAR:
-        const angleStep = (Math.PI * 2) / fishCount;
-        const radius = spacing * 2;
-        for (let i = 0; i < fishCount; i++) {
-          const angle = i * angleStep;
-          positions.push(new PIXI.Point(
-            Math.cos(angle) * radius,
-            Math.sin(angle) * radius
-          ));
-        }
-        break;
-      
-      case FormationType.DIAMOND:
-        const diamondPositions = [
-          new PIXI.Point(0, -spacing),
-          new PIXI.Point(spacing, 0),
-          new PIXI.Point(0, spacing),
-          new PIXI.Point(-spacing, 0)
-        ];
-        for (let i = 0; i < fishCount; i++) {
-          positions.push(diamondPositions[i % 4]);
-        }
-        break;
-      
-      case FormationType.GRID:
-        const cols = Math.ceil(Math.sqrt(fishCount));
-        for (let i = 0; i < fishCount; i++) {
-          const row = Math.floor(i / cols);
-          const col = i % cols;
-          positions.push(new PIXI.Point(
-            col * spacing - (cols - 1) * spacing / 2,
-            row * spacing
-          ));
-        }
-        break;
-    }
-    
-    return positions;
+    return getFormationOffsets(type, fishCount, spacing)
+      .map(offset => new PIXI.Point(offset.x, offset.y));
   }
   
   /**
@@ -680,6 +478,7 @@ class BubbleEmitter {
  */
 export class FishSwimmingSystem {
   private app: PIXI.Application;
+  private clock: GameClock;
   private container: PIXI.Container;
   private fishes: SwimmingFish[] = [];
   private formations: FishFormation[] = [];
@@ -694,8 +493,9 @@ export class FishSwimmingSystem {
   private debugMode: boolean = false; // Visual debug mode
   private pathDebugContainer: PIXI.Container;
   
-  constructor(app: PIXI.Application, container: PIXI.Container) {
+  constructor(app: PIXI.Application, container: PIXI.Container, clock: GameClock) {
     this.app = app;
+    this.clock = clock;
     this.container = container;
     this.screenBounds = new PIXI.Rectangle(
       0, 0,
@@ -723,11 +523,11 @@ export class FishSwimmingSystem {
     // Spawn a few fish immediately with variety
     this.spawnSingleFish(); // Single fish
     
-    setTimeout(() => {
+    this.clock.setTimeout(() => {
       this.spawnFormation(); // Formation
     }, 1000);
     
-    setTimeout(() => {
+    this.clock.setTimeout(() => {
       this.spawnSingleFish(); // Another single
     }, 2000);
   }
@@ -868,7 +668,7 @@ export class FishSwimmingSystem {
     this.pathDebugContainer.addChild(graphics);
     
     // Remove after 10 seconds
-    setTimeout(() => {
+    this.clock.setTimeout(() => {
       this.pathDebugContainer.removeChild(graphics);
       graphics.destroy();
     }, 10000);
@@ -973,8 +773,8 @@ export class FishSwimmingSystem {
     const shakeDuration = 500;
     let shakeTime = 0;
     
-    const ticker = (delta: PIXI.Ticker) => {
-      shakeTime += delta.deltaTime;
+    const ticker = (clock: GameClock) => {
+      shakeTime += clock.deltaMS;
       
       if (shakeTime < shakeDuration) {
         this.container.x = originalX + (Math.random() - 0.5) * shakeIntensity;
@@ -982,11 +782,11 @@ export class FishSwimmingSystem {
       } else {
         this.container.x = originalX;
         this.container.y = originalY;
-        this.app.ticker.remove(ticker);
+        this.clock.remove(ticker);
       }
     };
     
-    this.app.ticker.add(ticker);
+    this.clock.add(ticker);
   }
   
   /**
@@ -999,9 +799,9 @@ export class FishSwimmingSystem {
     let scale = 0;
     let alpha = 1;
     
-    const ticker = (delta: PIXI.Ticker) => {
-      scale += 0.1;
-      alpha -= 0.02;
+    const ticker = (clock: GameClock) => {
+      scale += 0.1 * clock.deltaTime;
+      alpha -= 0.02 * clock.deltaTime;
       
       ripple.clear();
       ripple.circle(0, 0, 50 * scale);
@@ -1009,12 +809,12 @@ export class FishSwimmingSystem {
       
       if (alpha <= 0) {
         this.container.removeChild(ripple);
-        this.app.ticker.remove(ticker);
+        this.clock.remove(ticker);
       }
     };
     
     this.container.addChild(ripple);
-    this.app.ticker.add(ticker);
+    this.clock.add(ticker);
   }
   
   /**
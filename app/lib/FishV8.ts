@@ -1,9 +1,14 @@
 import * as PIXI from 'pixi.js';
+import { RarityType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { GameClock } from './GameClock';
+import { HitShape } from './CollisionSystem';
+import { EffectPools } from './EffectPools';
 
 export interface FishConfig {
   id: string;
   name: string;
-  rarity: 'common' | 'rare' | 'epic' | 'legendary' | 'mythic';
+  rarity: RarityType;
   baseReward: number;
   health: number;
   maxHealth: number;
@@ -14,6 +19,9 @@ export interface FishConfig {
 export class FishV8 extends PIXI.Container {
   public config: FishConfig;
   public currentHealth: number;
+  public hitShape: HitShape;
+  private clock: GameClock;
+  private effectPools: EffectPools;
   private fishSprite: PIXI.Sprite;
   private nameLabel!: PIXI.Text;
   private healthBar?: PIXI.Graphics;
@@ -22,10 +30,12 @@ export class FishV8 extends PIXI.Container {
   public velocity: { x: number; y: number };
   private _direction: number;
   
-  constructor(config: FishConfig, texture: PIXI.Texture) {
+  constructor(config: FishConfig, texture: PIXI.Texture, clock: GameClock, effects: EffectPools) {
     super();
     
     this.config = config;
+    this.clock = clock;
+    this.effectPools = effects;
     this.currentHealth = config.health;
     
     // Create fish sprite
@@ -37,6 +47,9 @@ export class FishV8 extends PIXI.Container {
     // Scale based on size
     this.fishSprite.scale.set(config.size);
     
+    // Matches the default texture's body; species-specific shapes can replace it
+    this.hitShape = { type: 'ellipse', rx: 40 * config.size, ry: 20 * config.size };
+    
     // Apply rarity tint
     this.applyRarityTint();
     
@@ -72,15 +85,7 @@ export class FishV8 extends PIXI.Container {
   }
   
   private applyRarityTint(): void {
-    const tints: Record<string, number> = {
-      common: 0xffffff,
-      rare: 0x4da6ff,
-      epic: 0xcc66ff,
-      legendary: 0xffcc00,
-      mythic: 0xff66ff
-    };
-    
-    this.fishSprite.tint = tints[this.config.rarity];
+    this.fishSprite.tint = RarityRegistry.get(this.config.rarity).tint;
   }
   
   private createNameLabel(): void {
@@ -148,17 +153,10 @@ export class FishV8 extends PIXI.Container {
   private createGlowEffect(): void {
     // For now, we'll add the glow effect directly to the fish sprite
     if (this.config.rarity !== 'common') {
-      const glowStrength: Record<string, number> = {
-        rare: 5,
-        epic: 8,
-        legendary: 12,
-        mythic: 15
-      };
-      
       // Apply glow filter directly to the fish sprite
       this.fishSprite.filters = [
         new PIXI.BlurFilter({
-          strength: glowStrength[this.config.rarity] || 5,
+          strength: RarityRegistry.get(this.config.rarity).glowStrength || 5,
           quality: 4
         })
       ];
@@ -170,71 +168,79 @@ export class FishV8 extends PIXI.Container {
     this.x += this.velocity.x * deltaTime * 0.06;
     this.y += this.velocity.y * deltaTime * 0.06;
     
-    // Update rotation to face movement direction
-    this.fishSprite.rotation = Math.atan2(this.velocity.y, this.velocity.x);
+    // Update rotation to face movement direction (spawner-steered fish have no velocity)
+    if (this.velocity.x !== 0 || this.velocity.y !== 0) {
+      this.fishSprite.rotation = Math.atan2(this.velocity.y, this.velocity.x);
+    }
     
     // The water displacement filter will create the swimming effect
     // So we just need simple movement here
   }
   
+  /**
+   * Turns the fish art only, so the name label and health bar stay upright
+   */
+  public setHeading(angle: number): void {
+    this.fishSprite.rotation = angle;
+  }
+  
+  public get heading(): number {
+    return this.fishSprite.rotation;
+  }
+  
   public takeDamage(damage: number): boolean {
-    this.currentHealth -= damage;
-    this.updateHealthBar();
-    
-    // Flash effect
-    const originalTint = this.fishSprite.tint;
-    this.fishSprite.tint = 0xff0000;
-    
-    setTimeout(() => {
-      this.fishSprite.tint = originalTint;
-    }, 100);
-    
-    // Show damage number
-    this.showDamageNumber(damage);
+    this.showDamage(damage, this.currentHealth - damage);
     
     if (this.currentHealth <= 0) {
-      this.emit('death', {
-        reward: this.config.baseReward,
-        position: this.position.clone()
-      });
+      this.capture();
       return true;
     }
     
     return false;
   }
   
-  private showDamageNumber(damage: number): void {
-    const damageText = new PIXI.Text({
-      text: `-${damage}`,
-      style: {
-        fontFamily: 'Arial',
-        fontSize: 20,
-        fontWeight: 'bold',
-        fill: 0xff0000,
-        stroke: { color: 0xffffff, width: 2 }
-      }
-    });
+  /**
+   * Plays a hit whose damage was decided elsewhere (e.g. by GameSimulation)
+   */
+  public showDamage(damage: number, remainingHealth: number): void {
+    this.currentHealth = remainingHealth;
+    this.updateHealthBar();
     
-    damageText.anchor.set(0.5);
-    damageText.position.set(0, -20);
-    this.addChild(damageText);
-    
-    // Simple animation
-    let time = 0;
-    const ticker = PIXI.Ticker.shared;
-    
-    const animate = (t: PIXI.Ticker) => {
-      time += t.deltaTime;
-      damageText.position.y -= 1;
-      damageText.alpha -= 0.02;
-      
-      if (damageText.alpha <= 0) {
-        this.removeChild(damageText);
-        ticker.remove(animate);
-      }
-    };
+    this.flashHit();
     
-    ticker.add(animate);
+    // Show damage number
+    this.showDamageNumber(damage);
+  }
+  
+  /**
+   * Red hit flash without any damage (probabilistic catch mode)
+   */
+  public flashHit(): void {
+    const originalTint = this.fishSprite.tint;
+    this.fishSprite.tint = 0xff0000;
+    
+    this.clock.setTimeout(() => {
+      if (!this.destroyed) {
+        this.fishSprite.tint = originalTint;
+      }
+    }, 100);
+  }
+  
+  /**
+   * Catches the fish regardless of its health
+   */
+  public capture(reward: number = this.config.baseReward): void {
+    this.currentHealth = 0;
+    this.updateHealthBar();
+    this.emit('death', {
+      reward,
+      position: this.position.clone()
+    });
+  }
+  
+  private showDamageNumber(damage: number): void {
+    // Pooled label in world space, so it keeps floating if the fish is caught
+    this.effectPools.label(`-${damage}`, { x: this.x, y: this.y - 20 }, { color: 0xff0000, size: 20, vy: -1 });
   }
   
   // Check if point is over fish (for click detection)
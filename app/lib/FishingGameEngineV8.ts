@@ -1,8 +1,67 @@
 import * as PIXI from 'pixi.js';
-import { FishV8, FishConfig } from './FishV8';
+import { FishV8 } from './FishV8';
+import { GameClock } from './GameClock';
+import { ShotRenderer } from './ShotRenderer';
+import { EffectPools } from './EffectPools';
+import { DebugOverlay } from './DebugOverlay';
+import { WeaponRegistry } from './WeaponRegistry';
+import { CatchMode, CatchResolver, CatchStats } from './CatchEconomy';
+import { getShotCost } from './GameRules';
+import { TableClient } from './TableClient';
+import { ReplayRecorder, Replay, encodeReplay } from './ReplayRecorder';
+import { ReplayPlayer } from './ReplayPlayer';
+import { ReplayTimeline } from './ReplayTimeline';
+import { BossView, BossHealthBar } from './BossView';
+import { ComboMeter, RoundSummary } from './ScoreView';
+import { AchievementTracker } from './AchievementTracker';
+import { PlayerProfile } from './PlayerProfile';
+import { Targeting } from './Targeting';
+import { Reticle, TargetingPanel } from './TargetingView';
+import { AchievementToasts, QuestPanel } from './AchievementView';
+import { BossSnapshot } from './BossFight';
+import { CatchScore } from './ScoreKeeper';
+import {
+  GameSimulation,
+  GameSimulationOptions,
+  GameTable,
+  GameSnapshot,
+  FishSnapshot,
+  PlayerSnapshot,
+  FishHitEvent,
+  FishCaughtEvent,
+  ImpactEvent,
+  ShotFiredEvent,
+  BossHitEvent,
+  BossDefeatedEvent,
+  FormationClearedEvent,
+  RoundEndEvent
+} from './GameSimulation';
 
+export interface FishingGameOptions extends GameSimulationOptions {
+  // Join a shared table on a table server instead of playing locally
+  multiplayer?: { url: string; name?: string };
+  // Play back a recorded session instead of playing
+  replay?: Replay;
+  // Record local play for exportReplay() (default true)
+  record?: boolean;
+  // Saved wallet, stats and settings (default: the one in local storage);
+  // pass one with a sync adapter to sync it, or null to play unsaved
+  profile?: PlayerProfile | null;
+}
+
+interface CannonView {
+  container: PIXI.Container;
+  glow: PIXI.Graphics;
+}
+
+/**
+ * PIXI view of a GameSimulation (or, at a shared table, of a TableClient)
+ * Turns input into simulation commands, draws each snapshot and plays effects
+ * for simulation events; also records, replays and keeps the player profile.
+ */
 export class FishingGameEngineV8 {
   private app!: PIXI.Application;
+  private clock!: GameClock;
   private gameContainer!: PIXI.Container;
   private fishContainer!: PIXI.Container;
   private effectsContainer!: PIXI.Container;
@@ -13,44 +72,154 @@ export class FishingGameEngineV8 {
   private displacementSprite!: PIXI.Sprite;
   private displacementFilter!: PIXI.DisplacementFilter;
   
-  // Game objects
-  private fishes: FishV8[] = [];
-  private bullets: PIXI.Graphics[] = [];
-  
-  // Game state
-  private coins = 1000;
-  private score = 0;
-  private cannonPower = 1;
+  // Game model and the views drawn from its snapshots
+  private area: { x: number; y: number; width: number; height: number };
+  private simulationOptions: GameSimulationOptions;
+  private record: boolean;
+  private table: GameTable;
+  private sim: GameSimulation | null = null;
+  private fixedSize: boolean;
+  private recorder: ReplayRecorder | null = null;
+  private player: ReplayPlayer | null = null;
+  private timeline: ReplayTimeline | null = null;
+  private fishViews: Map<string, FishV8> = new Map();
+  private fishTexture!: PIXI.Texture;
+  private shotRenderer!: ShotRenderer;
+  private effects!: EffectPools;
+  private bossView: BossView | null = null;
+  private bossBar!: BossHealthBar;
+  private targeting: Targeting;
+  private reticle: Reticle | null = null;
+  private achievements: AchievementTracker | null = null;
+  private lastCannonPower: number = 0;
+  private profile: PlayerProfile | null = null;
+  private unsavedPlayMS: number = 0;
   
   // UI elements
   private scoreText!: PIXI.Text;
   private coinsText!: PIXI.Text;
   private powerText!: PIXI.Text;
+  private weaponText!: PIXI.Text;
+  private comboMeter!: ComboMeter;
+  private roundSummary!: RoundSummary;
+  private debugOverlay!: DebugOverlay;
+  private achievementToasts: AchievementToasts | null = null;
+  private questPanel: QuestPanel | null = null;
+  private targetingPanel: TargetingPanel | null = null;
+  private targetingStatus: string = '';
   
   // Interaction
   private cannon!: PIXI.Container;
+  private cannonGlow!: PIXI.Graphics;
+  private otherCannons: Map<string, CannonView> = new Map();
+  private onKeyDown = (event: KeyboardEvent) => this.handleWeaponKey(event);
+  private onPageHide = () => this.saveProfile();
   private mousePosition = new PIXI.Point();
   
-  constructor(private canvas: HTMLCanvasElement) {}
+  constructor(private canvas: HTMLCanvasElement, options: FishingGameOptions = {}) {
+    const { multiplayer, replay, record = true, profile, ...simulationOptions } = options;
+    this.fixedSize = Boolean(multiplayer || replay);
+    this.simulationOptions = simulationOptions;
+    this.record = record;
+    
+    // Watching a replay doesn't earn anything or touch the save
+    if (!replay) {
+      this.achievements = new AchievementTracker();
+      this.profile = profile === undefined ? new PlayerProfile() : profile;
+    }
+
+    if (multiplayer) {
+      const client = new TableClient(multiplayer.url, { name: multiplayer.name ?? this.profile?.settings.name });
+      this.area = client.area;
+      this.table = client;
+    } else if (replay) {
+      this.player = new ReplayPlayer(replay);
+      this.area = { x: 0, y: 0, width: replay.width, height: replay.height };
+      this.sim = this.player.simulation;
+      this.table = this.sim;
+    } else {
+      this.area = { x: 0, y: 0, width: window.innerWidth, height: window.innerHeight };
+      this.sim = this.startLocalSession();
+      this.table = this.sim;
+    }
+    
+    this.targeting = new Targeting(this.area);
+  }
+  
+  /**
+   * A simulation (and recorder) starting from the profile's wallet, catch
+   * mode and weapon; explicit options win over the profile
+   */
+  private startLocalSession(): GameSimulation {
+    const saved = this.profile?.data;
+    const sim = new GameSimulation(this.area, {
+      catchMode: saved?.settings.catchMode,
+      ...this.simulationOptions,
+      localPlayer: {
+        id: 'local',
+        name: saved?.settings.name,
+        state: saved?.wallet,
+        ...this.simulationOptions.localPlayer
+      }
+    });
+    
+    this.recorder = this.record
+      ? new ReplayRecorder({
+        seed: sim.seed,
+        catchMode: sim.state.catchMode,
+        start: saved ? { ...saved.wallet } : undefined,
+        width: this.area.width,
+        height: this.area.height
+      })
+      : null;
+    
+    if (saved) {
+      sim.selectWeapon(saved.settings.weapon);
+      this.recorder?.weapon(saved.settings.weapon);
+    }
+    return sim;
+  }
   
   async init(): Promise<void> {
+    // A newer profile from another device replaces the one the session started from
+    if (this.profile && (await this.profile.sync()) === 'pulled' && this.sim && !this.player) {
+      this.sim.destroy();
+      this.sim = this.startLocalSession();
+      this.table = this.sim;
+    }
+    this.profile?.recordStats({ sessions: 1 });
+    this.lastCannonPower = this.table.state.cannonPower;
+    window.addEventListener('pagehide', this.onPageHide);
+    
     // Initialize PIXI v8 Application
     this.app = new PIXI.Application();
     
     await this.app.init({
       canvas: this.canvas,
-      width: window.innerWidth,
-      height: window.innerHeight,
+      width: this.area.width,
+      height: this.area.height,
       backgroundColor: 0x001a33,
       antialias: true,
       resolution: window.devicePixelRatio || 1,
-      autoDensity: true,
+      // Shared tables and replays keep their size; CSS stretches the canvas to the window
+      autoDensity: !this.fixedSize,
       preference: 'webgl',
     });
     
+    // Game time: pause (P), slow-motion (-), fast-forward (=), auto-pause when hidden
+    this.clock = new GameClock(this.app.ticker);
+    this.clock.bindVisibility();
+    this.clock.bindKeyboard();
+    
     // Setup containers
     this.setupContainers();
     
+    // Shots and pooled effects are drawn into the effects layer; simulation events drive the effects
+    this.shotRenderer = new ShotRenderer(this.effectsContainer);
+    this.effects = new EffectPools(this.app.renderer, this.effectsContainer, this.uiLayer);
+    this.fishTexture = this.createFishTexture();
+    this.bindTable();
+    
     // Create ocean background with gradient
     await this.createOceanBackground();
     
@@ -66,11 +235,125 @@ export class FishingGameEngineV8 {
     // Setup interactions
     this.setupInteractions();
     
+    if (this.player) {
+      this.createTimeline(this.player);
+    }
+    
+    if (this.achievements) {
+      this.bindAchievements(this.achievements);
+    }
+    
+    // A replay fires where the recording did
+    if (!this.player) {
+      this.createTargeting();
+    }
+    
     // Start game loop
-    this.app.ticker.add(this.gameLoop, this);
+    this.clock.add(this.gameLoop, this);
+  }
+  
+  private bindTable(): void {
+    this.table.on('fire', this.onShotFired, this);
+    this.table.on('hit', this.onFishHit, this);
+    this.table.on('impact', this.onImpact, this);
+    this.table.on('caught', this.onFishCaught, this);
+    this.table.on('state', (_, playerId) => this.onPlayerChange(playerId));
+    this.table.on('weapon', (_, playerId) => this.onPlayerChange(playerId));
+    this.table.on('bossSpawn', this.onBossSpawn, this);
+    this.table.on('bossPhase', this.onBossPhase, this);
+    this.table.on('bossEnrage', boss => this.showBanner(`${boss.name} is enraged!`, 0xff3333));
+    this.table.on('bossEscape', boss => this.showBanner(`${boss.name} escaped`, 0xaaaaaa));
+    this.table.on('bossHit', this.onBossHit, this);
+    this.table.on('bossDefeated', this.onBossDefeated, this);
+    this.table.on('formation', this.onFormationCleared, this);
+    this.table.on('roundEnd', this.onRoundEnd, this);
+  }
+  
+  /**
+   * Toasts and the quest panel (J); claims are paid in as they happen
+   */
+  private bindAchievements(tracker: AchievementTracker): void {
+    this.achievementToasts = new AchievementToasts(this.app.screen.width, id => tracker.claim(id));
+    this.uiLayer.addChild(this.achievementToasts);
+    this.questPanel = new QuestPanel(this.app.screen.width, this.app.screen.height, tracker);
+    this.uiLayer.addChild(this.questPanel);
+    
+    tracker.on('unlock', achievement => this.achievementToasts?.show('Achievement unlocked', achievement.definition));
+    tracker.on('questComplete', quest => this.achievementToasts?.show('Quest complete', quest.definition));
+    tracker.on('claim', () => this.depositAchievementCoins());
+    
+    // Rewards claimed in the gallery since the last game
+    this.depositAchievementCoins();
+  }
+  
+  /**
+   * Moves banked rewards into the wallet; at a shared table the server owns
+   * the wallet, so they stay banked
+   */
+  private depositAchievementCoins(): void {
+    if (!this.achievements || !this.sim) return;
+    
+    const amount = this.achievements.withdraw();
+    if (amount <= 0) return;
+    
+    this.recorder?.grant(amount);
+    this.sim.grantCoins(amount);
+    this.showFloatingText(`+${amount}💰`, this.coinsText.getGlobalPosition(), 0xffd700);
+  }
+  
+  /**
+   * Lock-on / auto-fire controls and the reticle over the target
+   */
+  private createTargeting(): void {
+    this.reticle = new Reticle();
+    this.gameContainer.addChild(this.reticle);
+    this.targetingPanel = new TargetingPanel(this.targeting);
+    this.uiLayer.addChild(this.targetingPanel);
+  }
+  
+  /**
+   * Aims at the target and fires when a shot is due; runs before the step,
+   * like pointer input
+   */
+  private updateTargeting(deltaMS: number): void {
+    const state = this.table.state;
+    const affordable = state.coins >= getShotCost(state, this.table.weapon);
+    const command = this.targeting.update(deltaMS, this.table.snapshot(), this.cannon.position, affordable);
+    
+    this.reticle?.update(command?.target ?? null, this.targeting.mode, deltaMS);
+    const status = command && !affordable ? 'Not enough coins to fire' : '';
+    if (status !== this.targetingStatus || this.targeting.mode !== 'manual') {
+      this.targetingStatus = status;
+      this.targetingPanel?.refresh(status);
+    }
+    if (!command) return;
     
-    // Start spawning fish
-    this.startFishSpawning();
+    const aim = new PIXI.Point(command.target.x, command.target.y);
+    this.recorder?.aim(aim);
+    this.aimCannon(aim);
+    if (command.fire && this.shoot(aim)) {
+      this.targeting.fired();
+    }
+  }
+  
+  private createTimeline(player: ReplayPlayer): void {
+    this.timeline = new ReplayTimeline(this.app.screen.width, this.app.screen.height, progress => {
+      player.seekProgress(progress);
+    });
+    this.uiLayer.addChild(this.timeline);
+    
+    // Seeking re-runs the session on a new simulation; redraw from it
+    player.on('reset', simulation => {
+      this.fishViews.forEach((_, id) => this.removeFishView(id));
+      this.removeBossView();
+      this.shotRenderer.clear();
+      this.effects.clear();
+      this.roundSummary.visible = false;
+      this.sim = simulation;
+      this.table = simulation;
+      this.bindTable();
+      this.updateUI();
+    });
   }
   
   private setupContainers(): void {
@@ -157,8 +440,8 @@ export class FishingGameEngineV8 {
       const speed = 0.5 + Math.random() * 1.5;
       const wobble = Math.random() * 2 - 1;
       
-      this.app.ticker.add((t: PIXI.Ticker) => {
-        bubble.y -= speed;
+      this.clock.add((clock: GameClock) => {
+        bubble.y -= speed * clock.deltaTime;
         bubble.x += Math.sin(bubble.y * 0.01) * wobble;
         
         if (bubble.y < -50) {
@@ -265,7 +548,7 @@ export class FishingGameEngineV8 {
     // UI Background
     const uiBg = new PIXI.Graphics();
     uiBg
-      .roundRect(20, 20, 300, 150, 15)
+      .roundRect(20, 20, 300, 190, 15)
       .fill({ color: 0x000000, alpha: 0.7 })
       .stroke({ color: 0x00ccff, width: 2 });
     
@@ -273,7 +556,7 @@ export class FishingGameEngineV8 {
     
     // Score text
     this.scoreText = new PIXI.Text({
-      text: `Score: ${this.score}`,
+      text: `Score: ${this.table.state.score}`,
       style: {
         fontFamily: 'Arial',
         fontSize: 28,
@@ -287,7 +570,7 @@ export class FishingGameEngineV8 {
     
     // Coins text
     this.coinsText = new PIXI.Text({
-      text: `💰 ${this.coins}`,
+      text: `💰 ${this.table.state.coins}`,
       style: {
         fontFamily: 'Arial',
         fontSize: 24,
@@ -301,7 +584,7 @@ export class FishingGameEngineV8 {
     
     // Power text
     this.powerText = new PIXI.Text({
-      text: `⚡ Power: ${this.cannonPower}`,
+      text: `⚡ Power: ${this.table.state.cannonPower}`,
       style: {
         fontFamily: 'Arial',
         fontSize: 20,
@@ -312,8 +595,129 @@ export class FishingGameEngineV8 {
     this.powerText.position.set(40, 115);
     this.uiLayer.addChild(this.powerText);
     
-    // Create upgrade button
+    // Weapon text
+    this.weaponText = new PIXI.Text({
+      text: this.getWeaponLabel(),
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 18,
+        fill: 0xffffff,
+        stroke: { color: 0x000000, width: 3 }
+      }
+    });
+    this.weaponText.position.set(40, 160);
+    this.uiLayer.addChild(this.weaponText);
+    
+    // Create upgrade and weapon buttons
     this.createUpgradeButton();
+    this.createWeaponButton();
+    
+    this.bossBar = new BossHealthBar(this.app.screen.width);
+    this.uiLayer.addChild(this.bossBar);
+    
+    this.comboMeter = new ComboMeter();
+    this.uiLayer.addChild(this.comboMeter);
+    this.roundSummary = new RoundSummary(this.app.screen.width, this.app.screen.height);
+    this.uiLayer.addChild(this.roundSummary);
+    
+    // Hidden until toggled with `
+    this.debugOverlay = new DebugOverlay(this.app.screen.width);
+    this.uiLayer.addChild(this.debugOverlay);
+  }
+  
+  private getWeaponLabel(): string {
+    const weapon = this.table.weapon;
+    return `${weapon.icon} ${weapon.name} (${getShotCost(this.table.state, weapon)}💰)`;
+  }
+  
+  /**
+   * Cycles weapons on click (1-6 select directly, Q/E cycle)
+   */
+  private createWeaponButton(): void {
+    const button = new PIXI.Container();
+    
+    const bg = new PIXI.Graphics();
+    bg
+      .roundRect(0, 0, 40, 40, 20)
+      .fill({ color: 0x0066cc })
+      .stroke({ color: 0x00ccff, width: 2 });
+    
+    const text = new PIXI.Text({
+      text: '⇄',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 22,
+        fontWeight: 'bold',
+        fill: 0xffffff
+      }
+    });
+    text.anchor.set(0.5);
+    text.position.set(20, 20);
+    
+    button.addChild(bg);
+    button.addChild(text);
+    button.position.set(270, 155);
+    
+    button.eventMode = 'static';
+    button.cursor = 'pointer';
+    
+    button.on('pointerdown', (event: PIXI.FederatedPointerEvent) => {
+      // Don't fire the newly selected weapon
+      event.stopPropagation();
+      this.cycleWeapon(1);
+    });
+    
+    button.on('pointerover', () => {
+      bg.tint = 0xcccccc;
+    });
+    
+    button.on('pointerout', () => {
+      bg.tint = 0xffffff;
+    });
+    
+    this.uiLayer.addChild(button);
+  }
+  
+  private handleWeaponKey(event: KeyboardEvent): void {
+    const index = Number(event.key) - 1;
+    const ids = WeaponRegistry.ids();
+    
+    // Pool and frame stats, also while watching a replay
+    if (event.key === '`') {
+      this.debugOverlay.toggle();
+      return;
+    }
+    
+    if (this.player) return;
+    
+    if (event.key === 'j' || event.key === 'J') {
+      this.questPanel?.toggle();
+    } else if (event.key === 't' || event.key === 'T') {
+      this.targeting.cycleMode();
+      this.targetingPanel?.refresh();
+    } else if (event.key === 'y' || event.key === 'Y') {
+      this.targeting.cyclePriority();
+      this.targetingPanel?.refresh();
+    } else if (event.key === '[' || event.key === ']') {
+      this.targeting.cycleFireRate(event.key === ']' ? 1 : -1);
+      this.targetingPanel?.refresh();
+    } else if (event.key === 'Escape') {
+      this.targeting.release();
+      this.targetingPanel?.refresh();
+    } else if (Number.isInteger(index) && index >= 0 && index < ids.length) {
+      this.table.selectWeapon(ids[index]);
+      this.recorder?.weapon(ids[index]);
+    } else if (event.key === 'q' || event.key === 'Q') {
+      this.cycleWeapon(-1);
+    } else if (event.key === 'e' || event.key === 'E') {
+      this.cycleWeapon(1);
+    }
+  }
+  
+  private cycleWeapon(step: number): void {
+    if (this.player) return;
+    this.table.cycleWeapon(step);
+    this.recorder?.weapon(this.table.weapon.id);
   }
   
   private createUpgradeButton(): void {
@@ -346,12 +750,9 @@ export class FishingGameEngineV8 {
     button.cursor = 'pointer';
     
     button.on('pointerdown', () => {
-      const cost = this.cannonPower * 100;
-      if (this.coins >= cost) {
-        this.coins -= cost;
-        this.cannonPower++;
-        this.updateUI();
-      }
+      if (this.player) return;
+      this.recorder?.upgrade();
+      this.table.upgrade();
     });
     
     button.on('pointerover', () => {
@@ -366,7 +767,17 @@ export class FishingGameEngineV8 {
   }
   
   private createCannon(): void {
-    this.cannon = new PIXI.Container();
+    const { container, glow } = this.buildCannon(this.getShotColor());
+    this.cannon = container;
+    this.cannonGlow = glow;
+    
+    // Seat 0 until the first snapshot places it
+    this.cannon.position.set(this.app.screen.width / 2, this.app.screen.height - 80);
+    this.uiLayer.addChild(this.cannon);
+  }
+  
+  private buildCannon(color: number): CannonView {
+    const container = new PIXI.Container();
     
     // Base
     const base = new PIXI.Graphics();
@@ -382,28 +793,63 @@ export class FishingGameEngineV8 {
       .fill({ color: 0x666666 })
       .stroke({ color: 0x888888, width: 2 });
     
-    // Power indicator
-    const powerGlow = new PIXI.Graphics();
-    const glowColor = this.getPowerColor();
-    powerGlow
+    // Power / weapon indicator (white so its tint shows the shot color)
+    const glow = new PIXI.Graphics();
+    glow
       .circle(0, -60, 15)
-      .fill({ color: glowColor, alpha: 0.6 });
+      .fill({ color: 0xffffff, alpha: 0.6 });
     
-    powerGlow.filters = [new PIXI.BlurFilter({ strength: 10 })];
+    glow.tint = color;
+    glow.filters = [new PIXI.BlurFilter({ strength: 10 })];
     
-    this.cannon.addChild(base);
-    this.cannon.addChild(barrel);
-    this.cannon.addChild(powerGlow);
+    container.addChild(base);
+    container.addChild(barrel);
+    container.addChild(glow);
+    return { container, glow };
+  }
+  
+  /**
+   * Places every player's cannon; other players' cannons follow their last shot
+   */
+  private syncCannons(players: PlayerSnapshot[]): void {
+    const seen = new Set<string>();
+    
+    players.forEach(player => {
+      if (player.id === this.table.localPlayerId) {
+        this.cannon.position.copyFrom(player.origin);
+        return;
+      }
+      
+      seen.add(player.id);
+      let view = this.otherCannons.get(player.id);
+      if (!view) {
+        view = this.buildCannon(this.getPlayerColor(player));
+        view.container.alpha = 0.8;
+        view.container.position.copyFrom(player.origin);
+        this.uiLayer.addChild(view.container);
+        this.otherCannons.set(player.id, view);
+      }
+      view.container.rotation = player.rotation + Math.PI / 2;
+      view.glow.tint = this.getPlayerColor(player);
+    });
     
-    this.cannon.position.set(this.app.screen.width / 2, this.app.screen.height - 80);
-    this.uiLayer.addChild(this.cannon);
+    // Left the table
+    this.otherCannons.forEach((view, id) => {
+      if (!seen.has(id)) {
+        this.uiLayer.removeChild(view.container);
+        view.container.destroy({ children: true });
+        this.otherCannons.delete(id);
+      }
+    });
   }
   
-  private getPowerColor(): number {
-    if (this.cannonPower < 3) return 0x00ccff;
-    if (this.cannonPower < 5) return 0x00ff00;
-    if (this.cannonPower < 7) return 0xffff00;
-    return 0xff0000;
+  private getShotColor(): number {
+    return this.table.getShotColor();
+  }
+  
+  private getPlayerColor(player: PlayerSnapshot): number {
+    const weapon = WeaponRegistry.get(player.weapon);
+    return weapon.behavior === 'straight' ? WeaponRegistry.powerColor(player.state.cannonPower) : weapon.color;
   }
   
   private setupInteractions(): void {
@@ -411,75 +857,63 @@ export class FishingGameEngineV8 {
     this.app.stage.eventMode = 'static';
     
     this.app.stage.on('pointermove', (event: PIXI.FederatedPointerEvent) => {
-      this.mousePosition = event.global;
+      // A replay aims where the recording did
+      if (this.player) return;
       
-      // Update cannon rotation
-      const dx = this.mousePosition.x - this.cannon.x;
-      const dy = this.mousePosition.y - this.cannon.y;
-      this.cannon.rotation = Math.atan2(dy, dx) + Math.PI / 2;
+      this.mousePosition = event.global;
+      this.recorder?.aim(this.mousePosition);
+      this.aimCannon(this.mousePosition);
     });
     
-    // Shoot on click
-    this.app.stage.on('pointerdown', () => {
+    // Shoot on click; in lock-on mode a click on a fish locks it instead
+    this.app.stage.on('pointerdown', (event: PIXI.FederatedPointerEvent) => {
+      if (!this.player && this.targeting.mode === 'lockOn') {
+        const target = this.targeting.pick(this.table.snapshot(), event.global);
+        if (target) {
+          this.targeting.lock(target.id);
+          return;
+        }
+      }
       this.shoot();
     });
+    
+    // Weapon selection
+    window.addEventListener('keydown', this.onKeyDown);
   }
   
-  private shoot(): void {
-    if (this.coins < 1) return;
-    
-    this.coins -= 1;
-    this.updateUI();
-    
-    // Create bullet
-    const bullet = new PIXI.Graphics();
-    bullet
-      .circle(0, 0, 5 + this.cannonPower)
-      .fill({ color: this.getPowerColor() });
-    
-    bullet.position.copyFrom(this.cannon.position);
-    
-    // Calculate velocity
-    const dx = this.mousePosition.x - this.cannon.x;
-    const dy = this.mousePosition.y - this.cannon.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-    
-    (bullet as any).velocity = {
-      x: (dx / distance) * 10,
-      y: (dy / distance) * 10
-    };
-    
-    this.effectsContainer.addChild(bullet);
-    this.bullets.push(bullet);
+  private aimCannon(point: PIXI.PointData): void {
+    const dx = point.x - this.cannon.x;
+    const dy = point.y - this.cannon.y;
+    this.cannon.rotation = Math.atan2(dy, dx) + Math.PI / 2;
+  }
+  
+  /**
+   * Fires the selected weapon from the local cannon; the simulation pays for
+   * it and moves the shots
+   * @returns false when the table refused the shot (coins or cooldown)
+   */
+  private shoot(aim: PIXI.PointData = this.mousePosition): boolean {
+    if (this.player) return false;
+    
+    if (!this.table.fire(aim)) return false;
+    // A refused shot changes nothing, so only accepted ones are recorded
+    // (auto-fire retries every frame until the weapon is ready)
+    this.recorder?.fire(aim);
+    this.profile?.recordStats({ shotsFired: 1 });
     
     // Muzzle flash
-    this.createMuzzleFlash();
+    this.createMuzzleFlash(this.cannon.position, this.cannon.rotation, this.getShotColor());
+    return true;
   }
   
-  private createMuzzleFlash(): void {
-    const flash = new PIXI.Graphics();
-    flash
-      .circle(0, 0, 20)
-      .fill({ color: this.getPowerColor(), alpha: 0.8 });
-    
-    flash.position.copyFrom(this.cannon.position);
-    flash.position.y -= 60;
-    
-    this.effectsContainer.addChild(flash);
-    
-    // Fade out
-    const fadeOut = (t: PIXI.Ticker) => {
-      flash.alpha -= 0.1;
-      flash.scale.x += 0.1;
-      flash.scale.y += 0.1;
-      
-      if (flash.alpha <= 0) {
-        this.effectsContainer.removeChild(flash);
-        PIXI.Ticker.shared.remove(fadeOut);
-      }
-    };
-    
-    PIXI.Ticker.shared.add(fadeOut);
+  /**
+   * Flash at the barrel tip of a cannon at origin with the given rotation
+   */
+  private createMuzzleFlash(origin: PIXI.PointData, rotation: number, color: number): void {
+    this.effects.flash(
+      { x: origin.x + Math.sin(rotation) * 60, y: origin.y - Math.cos(rotation) * 60 },
+      color
+    );
   }
   
   private createFishTexture(): PIXI.Texture {
@@ -516,163 +950,129 @@ export class FishingGameEngineV8 {
     return PIXI.Texture.from(canvas);
   }
   
-  private async startFishSpawning(): Promise<void> {
-    const fishTexture = this.createFishTexture();
-    
-    // Spawn fish periodically
-    setInterval(() => {
-      const rarities: Array<'common' | 'rare' | 'epic' | 'legendary' | 'mythic'> = 
-        ['common', 'common', 'common', 'rare', 'rare', 'epic', 'legendary'];
-      
-      const rarity = rarities[Math.floor(Math.random() * rarities.length)];
-      
-      const config: FishConfig = {
-        id: `fish-${Date.now()}`,
-        name: this.getRandomFishName(),
-        rarity: rarity,
-        baseReward: this.getRewardByRarity(rarity),
-        health: this.getHealthByRarity(rarity),
-        maxHealth: this.getHealthByRarity(rarity),
-        speed: 1 + Math.random() * 2,
-        size: this.getSizeByRarity(rarity)
-      };
-      
-      const fish = new FishV8(config, fishTexture);
-      
-      // Random spawn position
-      fish.position.set(
-        Math.random() > 0.5 ? -50 : this.app.screen.width + 50,
-        100 + Math.random() * (this.app.screen.height - 200)
-      );
-      
-      // Set direction towards center
-      if (fish.x < 0) {
-        fish.velocity.x = Math.abs(fish.velocity.x);
-      } else {
-        fish.velocity.x = -Math.abs(fish.velocity.x);
-      }
-      
-      // Listen for death
-      fish.on('death', (data: any) => {
-        this.score += data.reward;
-        this.coins += data.reward;
-        this.updateUI();
-        this.showReward(data.reward, data.position);
-        this.createDeathEffect(data.position);
-      });
-      
-      this.fishContainer.addChild(fish);
-      this.fishes.push(fish);
-    }, 2000);
+  /**
+   * Builds the sprite for a fish the simulation spawned
+   */
+  private createFishView(fish: FishSnapshot): FishV8 {
+    const view = new FishV8({
+      id: fish.id,
+      name: fish.name,
+      rarity: fish.rarity,
+      baseReward: fish.reward,
+      health: fish.health,
+      maxHealth: fish.maxHealth,
+      speed: fish.speed,
+      size: fish.size
+    }, this.fishTexture, this.clock, this.effects);
+    
+    // The simulation moves the fish
+    view.velocity.x = 0;
+    view.velocity.y = 0;
+    
+    this.fishContainer.addChild(view);
+    this.fishViews.set(fish.id, view);
+    return view;
   }
   
-  private getRandomFishName(): string {
-    const names = ['Nemo', 'Dory', 'Bubbles', 'Splash', 'Finley', 'Coral', 'Wave', 'Storm'];
-    return names[Math.floor(Math.random() * names.length)];
+  private removeFishView(id: string): void {
+    const view = this.fishViews.get(id);
+    if (!view) return;
+    
+    this.fishContainer.removeChild(view);
+    view.destroy();
+    this.fishViews.delete(id);
   }
   
-  private getRewardByRarity(rarity: string): number {
-    const rewards: Record<string, number> = {
-      common: 10,
-      rare: 50,
-      epic: 200,
-      legendary: 500,
-      mythic: 1000
-    };
-    return rewards[rarity] || 10;
+  /**
+   * Matches the fish sprites and shots on screen to a simulation snapshot
+   */
+  private render(snapshot: GameSnapshot): void {
+    const seen = new Set<string>();
+    
+    snapshot.fish.forEach(fish => {
+      seen.add(fish.id);
+      const view = this.fishViews.get(fish.id) ?? this.createFishView(fish);
+      view.position.set(fish.x, fish.y);
+      view.setHeading(fish.heading);
+    });
+    
+    // Swam off or caught
+    this.fishViews.forEach((_, id) => {
+      if (!seen.has(id)) {
+        this.removeFishView(id);
+      }
+    });
+    
+    this.shotRenderer.sync(snapshot.shots);
+    this.syncCannons(snapshot.players);
+    this.syncBoss(snapshot.boss);
+    
+    const local = snapshot.players.find(player => player.id === this.table.localPlayerId);
+    if (local) {
+      this.comboMeter.update(local.combo, snapshot.round);
+    }
   }
   
-  private getHealthByRarity(rarity: string): number {
-    const health: Record<string, number> = {
-      common: 10,
-      rare: 25,
-      epic: 50,
-      legendary: 100,
-      mythic: 200
-    };
-    return health[rarity] || 10;
+  private syncBoss(boss: BossSnapshot | null): void {
+    if (this.bossView && this.bossView.bossId !== boss?.id) {
+      this.removeBossView();
+    }
+    if (boss) {
+      if (!this.bossView) {
+        this.bossView = new BossView(boss);
+        this.fishContainer.addChild(this.bossView);
+      }
+      this.bossView.sync(boss);
+    }
+    this.bossBar.update(boss);
   }
   
-  private getSizeByRarity(rarity: string): number {
-    const sizes: Record<string, number> = {
-      common: 0.8,
-      rare: 1,
-      epic: 1.2,
-      legendary: 1.5,
-      mythic: 2
-    };
-    return sizes[rarity] || 1;
+  private removeBossView(): void {
+    if (!this.bossView) return;
+    this.fishContainer.removeChild(this.bossView);
+    this.bossView.destroy({ children: true });
+    this.bossView = null;
   }
   
   private showReward(amount: number, position: PIXI.PointData): void {
-    const text = new PIXI.Text({
-      text: `+${amount} 💰`,
-      style: {
-        fontFamily: 'Arial',
-        fontSize: 24,
-        fontWeight: 'bold',
-        fill: 0xffd700,
-        stroke: { color: 0x000000, width: 3 }
-      }
-    });
-    
-    text.anchor.set(0.5);
-    text.position.copyFrom(position);
-    this.uiLayer.addChild(text);
-    
-    // Animate
-    const animate = (t: PIXI.Ticker) => {
-      text.y -= 2;
-      text.alpha -= 0.02;
-      
-      if (text.alpha <= 0) {
-        this.uiLayer.removeChild(text);
-        PIXI.Ticker.shared.remove(animate);
-      }
-    };
+    this.effects.label(`+${amount} 💰`, position, { color: 0xffd700 });
+  }
+  
+  /**
+   * Points under the coin reward, with the combo multiplier or an overkill warning
+   */
+  private showCatchScore(score: CatchScore, position: PIXI.PointData): void {
+    let text = `${score.points} pts`;
+    if (score.comboMultiplier > 1) {
+      text += ` x${score.comboMultiplier}`;
+    }
+    if (score.overkillPenalty > 0) {
+      text += ' overkill';
+    }
     
-    PIXI.Ticker.shared.add(animate);
+    this.effects.label(text, { x: position.x, y: position.y + 28 }, {
+      color: score.overkillPenalty > 0 ? 0xff6666 : 0x66ddff,
+      size: 18,
+      vy: -1.5
+    });
   }
   
   private createDeathEffect(position: PIXI.PointData): void {
-    // Create particle burst
-    for (let i = 0; i < 10; i++) {
-      const particle = new PIXI.Graphics();
-      particle
-        .circle(0, 0, 3 + Math.random() * 5)
-        .fill({ color: 0x4da6ff, alpha: 0.8 });
-      
-      particle.position.copyFrom(position);
-      this.effectsContainer.addChild(particle);
-      
-      const angle = (i / 10) * Math.PI * 2;
-      const speed = 2 + Math.random() * 3;
-      const vx = Math.cos(angle) * speed;
-      const vy = Math.sin(angle) * speed;
-      
-      const animate = (t: PIXI.Ticker) => {
-        particle.x += vx;
-        particle.y += vy;
-        particle.alpha -= 0.02;
-        
-        if (particle.alpha <= 0) {
-          this.effectsContainer.removeChild(particle);
-          PIXI.Ticker.shared.remove(animate);
-        }
-      };
-      
-      PIXI.Ticker.shared.add(animate);
-    }
+    // Particle burst
+    this.effects.burst(position, 0x4da6ff);
   }
   
   private updateUI(): void {
-    this.scoreText.text = `Score: ${this.score}`;
-    this.coinsText.text = `💰 ${this.coins}`;
-    this.powerText.text = `⚡ Power: ${this.cannonPower}`;
+    const { score, coins, cannonPower } = this.table.state;
+    this.scoreText.text = `Score: ${score}`;
+    this.coinsText.text = `💰 ${coins}`;
+    this.powerText.text = `⚡ Power: ${cannonPower}`;
+    this.weaponText.text = this.getWeaponLabel();
+    this.cannonGlow.tint = this.getShotColor();
   }
   
-  private gameLoop(ticker: PIXI.Ticker): void {
-    const deltaTime = ticker.deltaTime;
+  private gameLoop(clock: GameClock): void {
+    const deltaTime = clock.deltaTime;
     
     // Animate water displacement
     this.displacementSprite.x += 0.5 * deltaTime;
@@ -682,87 +1082,320 @@ export class FishingGameEngineV8 {
     this.waterOverlay.tilePosition.x += 0.3 * deltaTime;
     this.waterOverlay.tilePosition.y += 0.3 * deltaTime;
     
-    // Update fish
-    for (let i = this.fishes.length - 1; i >= 0; i--) {
-      const fish = this.fishes[i];
-      fish.update(deltaTime);
-      
-      // Remove fish that are off screen
-      if (fish.x < -200 || fish.x > this.app.screen.width + 200 ||
-          fish.y < -200 || fish.y > this.app.screen.height + 200) {
-        this.fishContainer.removeChild(fish);
-        this.fishes.splice(i, 1);
+    // Advance the game model, then draw it
+    if (this.player) {
+      this.player.advance(clock.deltaMS);
+      this.aimCannon(this.player.aim);
+      this.timeline?.update(this.player.elapsedMS, this.player.durationMS, this.player.finished);
+    } else {
+      this.updateTargeting(clock.deltaMS);
+      this.table.step(this.recorder ? this.recorder.step(clock.deltaMS) : clock.deltaMS);
+    }
+    this.bossView?.tick(clock.deltaMS);
+    this.roundSummary.tick(clock.deltaMS);
+    this.achievementToasts?.tick(clock.deltaMS);
+    this.effects.update(deltaTime, clock.deltaMS);
+    if (this.profile && !this.player) {
+      this.unsavedPlayMS += clock.deltaMS;
+    }
+    this.render(this.table.snapshot());
+    
+    this.debugOverlay.update(clock.deltaMS, () => {
+      const snapshot = this.table.snapshot();
+      return {
+        fps: this.app.ticker.FPS,
+        fish: snapshot.fish.length,
+        shots: snapshot.shots.length,
+        boss: snapshot.boss ? `${snapshot.boss.name} ${snapshot.boss.health}/${snapshot.boss.maxHealth}` : null,
+        pools: [this.shotRenderer.stats, ...this.effects.stats]
+      };
+    });
+  }
+  
+  private onPlayerChange(playerId: string): void {
+    if (playerId !== this.table.localPlayerId) return;
+    
+    this.updateUI();
+    
+    // Power only goes up through bought upgrades
+    const power = this.table.state.cannonPower;
+    if (power > this.lastCannonPower) {
+      for (let level = this.lastCannonPower; level < power; level++) {
+        this.achievements?.record({ type: 'upgrade' });
       }
+      this.profile?.recordStats({ upgradesBought: power - this.lastCannonPower });
     }
+    this.lastCannonPower = power;
     
-    // Update bullets
-    for (let i = this.bullets.length - 1; i >= 0; i--) {
-      const bullet = this.bullets[i];
-      const velocity = (bullet as any).velocity;
-      
-      bullet.x += velocity.x * deltaTime;
-      bullet.y += velocity.y * deltaTime;
-      
-      // Check collision with fish
-      for (let j = this.fishes.length - 1; j >= 0; j--) {
-        const fish = this.fishes[j];
-        
-        const dx = bullet.x - fish.x;
-        const dy = bullet.y - fish.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        
-        if (distance < 50 * fish.config.size) {
-          // Hit!
-          const isDead = fish.takeDamage(this.cannonPower * 10);
-          
-          if (isDead) {
-            this.fishContainer.removeChild(fish);
-            this.fishes.splice(j, 1);
-          }
-          
-          // Remove bullet
-          this.effectsContainer.removeChild(bullet);
-          this.bullets.splice(i, 1);
-          
-          // Create hit effect
-          this.createHitEffect(bullet.position);
-          break;
-        }
+    // The wallet at a shared table belongs to the server
+    if (this.sim) {
+      this.profile?.saveWallet(this.table.state);
+    }
+    this.profile?.updateSettings({ weapon: this.table.weapon.id });
+  }
+  
+  /**
+   * The local player's flash plays on click; other players' when their shot arrives
+   */
+  private onShotFired(event: ShotFiredEvent): void {
+    if (event.playerId === this.table.localPlayerId) return;
+    
+    const rotation = Math.atan2(event.aim.y - event.origin.y, event.aim.x - event.origin.x) + Math.PI / 2;
+    const color = event.weapon.behavior === 'straight' ? WeaponRegistry.powerColor(event.level) : event.weapon.color;
+    this.createMuzzleFlash(event.origin, rotation, color);
+  }
+  
+  private onFishHit(event: FishHitEvent): void {
+    const view = this.fishViews.get(event.fish.id);
+    if (view) {
+      if (event.damage > 0) {
+        view.showDamage(event.damage, event.fish.health);
+      } else {
+        view.flashHit();
       }
-      
-      // Remove bullets that are off screen
-      if (bullet.x < -50 || bullet.x > this.app.screen.width + 50 ||
-          bullet.y < -50 || bullet.y > this.app.screen.height + 50) {
-        this.effectsContainer.removeChild(bullet);
-        this.bullets.splice(i, 1);
+    }
+    
+    // Blasts and nets get one ring for the whole impact
+    if (event.source === 'shot') {
+      this.createHitEffect(event.point);
+    }
+  }
+  
+  private onImpact(event: ImpactEvent): void {
+    this.createHitEffect(event.point, event.radius);
+  }
+  
+  private onFishCaught(event: FishCaughtEvent): void {
+    this.showReward(event.reward, event.point);
+    if (event.playerId === this.table.localPlayerId) {
+      if (event.score) {
+        this.showCatchScore(event.score, event.point);
       }
+      this.achievements?.record({ type: 'catch', species: event.fish.species, rarity: event.fish.rarity });
+      this.profile?.recordStats({ fishCaught: 1, coinsEarned: event.reward });
+    }
+    this.createDeathEffect(event.point);
+    this.removeFishView(event.fish.id);
+  }
+  
+  private onBossSpawn(boss: BossSnapshot): void {
+    this.createScreenShake();
+    this.createWaterRipple(boss);
+    this.showBanner(`⚠️ ${boss.name} approaches!`, 0xff3333);
+  }
+  
+  private onBossPhase(boss: BossSnapshot): void {
+    this.createScreenShake();
+    this.createWaterRipple(boss);
+    this.showBanner(`${boss.name} · phase ${boss.phase + 1}/${boss.phaseCount}`, 0xffcc00);
+  }
+  
+  private onBossHit(event: BossHitEvent): void {
+    this.bossView?.flashHit();
+    if (event.weakPoint) {
+      this.showFloatingText(`CRIT ${event.damage}`, event.point, 0xffff00);
+    }
+    if (event.source === 'shot') {
+      this.createHitEffect(event.point);
     }
   }
   
-  private createHitEffect(position: PIXI.PointData): void {
-    const ring = new PIXI.Graphics();
-    ring
-      .circle(0, 0, 20)
-      .stroke({ color: 0xffffff, width: 3, alpha: 0.8 });
+  /**
+   * Everyone sees the boss go down; each contributor sees their own share
+   */
+  private onBossDefeated(event: BossDefeatedEvent): void {
+    this.createScreenShake();
+    this.createDeathEffect(event.point);
+    this.createWaterRipple(event.point);
+    this.removeBossView();
+    
+    const share = event.payouts[this.table.localPlayerId];
+    if (share) {
+      this.showReward(share, event.point);
+      this.achievements?.record({ type: 'bossDefeated', boss: event.boss.bossId });
+      this.profile?.recordStats({ bossesDefeated: 1, coinsEarned: share });
+    }
+    const jackpot = Object.values(event.payouts).reduce((sum, amount) => sum + amount, 0);
+    this.showBanner(`${event.boss.name} defeated! Jackpot ${jackpot}💰`, 0xffd700);
+  }
+  
+  private onFormationCleared(event: FormationClearedEvent): void {
+    if (event.playerId !== this.table.localPlayerId) return;
+    this.showFloatingText(`Formation x${event.size} +${event.bonus}`, event.point, 0x00ff88);
+  }
+  
+  /**
+   * The local player's breakdown, with everyone's totals at a shared table
+   */
+  private onRoundEnd(event: RoundEndEvent): void {
+    const breakdown = event.breakdowns[this.table.localPlayerId];
+    if (!breakdown) return;
+    
+    this.profile?.recordRound(breakdown.total);
+    this.saveProfile();
+    
+    const standings = this.table.snapshot().players
+      .filter(player => event.breakdowns[player.id])
+      .map(player => ({
+        name: player.name,
+        total: event.breakdowns[player.id].total,
+        local: player.id === this.table.localPlayerId
+      }));
+    this.roundSummary.show(breakdown, standings);
+  }
+  
+  private createScreenShake(): void {
+    const shakeIntensity = 8;
+    const shakeDuration = 500;
+    let shakeTime = 0;
     
-    ring.position.copyFrom(position);
-    this.effectsContainer.addChild(ring);
+    const shake = (clock: GameClock) => {
+      shakeTime += clock.deltaMS;
+      
+      if (shakeTime < shakeDuration) {
+        this.gameContainer.x = (Math.random() - 0.5) * shakeIntensity;
+        this.gameContainer.y = (Math.random() - 0.5) * shakeIntensity;
+      } else {
+        this.gameContainer.position.set(0, 0);
+        this.clock.remove(shake);
+      }
+    };
     
-    const expand = (t: PIXI.Ticker) => {
-      ring.scale.x += 0.1;
-      ring.scale.y += 0.1;
-      ring.alpha -= 0.05;
+    this.clock.add(shake);
+  }
+  
+  private createWaterRipple(position: PIXI.PointData): void {
+    this.effects.ring(position, 50, 0xffffff, { growth: 0.1, fade: 0.02 });
+  }
+  
+  private showFloatingText(message: string, position: PIXI.PointData, color: number): void {
+    this.effects.label(message, position, { color, size: 22, vy: -1.5, fade: 0.03 });
+  }
+  
+  /**
+   * Large centered message that fades out
+   */
+  private showBanner(message: string, color: number): void {
+    const text = new PIXI.Text({
+      text: message,
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 40,
+        fontWeight: 'bold',
+        fill: color,
+        stroke: { color: 0x000000, width: 5 }
+      }
+    });
+    
+    text.anchor.set(0.5);
+    text.position.set(this.app.screen.width / 2, this.app.screen.height / 3);
+    this.uiLayer.addChild(text);
+    
+    let shownMS = 0;
+    const fade = (clock: GameClock) => {
+      shownMS += clock.deltaMS;
+      // Hold for a second, then fade
+      if (shownMS > 1000) {
+        text.alpha -= 0.02 * clock.deltaTime;
+      }
       
-      if (ring.alpha <= 0) {
-        this.effectsContainer.removeChild(ring);
-        PIXI.Ticker.shared.remove(expand);
+      if (text.alpha <= 0) {
+        this.uiLayer.removeChild(text);
+        text.destroy();
+        this.clock.remove(fade);
       }
     };
     
-    PIXI.Ticker.shared.add(expand);
+    this.clock.add(fade);
+  }
+  
+  private createHitEffect(position: PIXI.PointData, radius: number = 20): void {
+    this.effects.ring(position, radius);
+  }
+  
+  public setCatchMode(mode: CatchMode): void {
+    this.requireSimulation().setCatchMode(mode);
+    this.recorder?.catchMode(mode);
+    this.profile?.updateSettings({ catchMode: mode });
+  }
+  
+  /**
+   * Saved wallet, lifetime stats and settings; null while watching a replay
+   * or when playing unsaved
+   */
+  public get playerProfile(): PlayerProfile | null {
+    return this.profile;
+  }
+  
+  /**
+   * Writes the profile now and syncs it (when the page is hidden, a round
+   * ends or the game is torn down)
+   */
+  private saveProfile(): void {
+    if (!this.profile) return;
+    
+    if (this.unsavedPlayMS > 0) {
+      this.profile.recordStats({ playTimeMS: Math.round(this.unsavedPlayMS) });
+      this.unsavedPlayMS = 0;
+    }
+    this.profile.flush();
+    this.profile.sync();
+  }
+  
+  /**
+   * Routes probability-mode catches through a server (null for local rolls)
+   */
+  public setCatchResolver(resolver: CatchResolver | null): void {
+    this.requireSimulation().setCatchResolver(resolver);
+  }
+  
+  public getCatchStats(): CatchStats {
+    return this.requireSimulation().getCatchStats();
+  }
+  
+  /**
+   * The session so far as compact replay JSON, for bug reports; null when
+   * not recording (shared tables, replays, or record: false)
+   */
+  public exportReplay(): string | null {
+    return this.recorder ? encodeReplay(this.recorder.getReplay()) : null;
+  }
+  
+  /**
+   * Playback controls when showing a replay
+   */
+  public get replayPlayer(): ReplayPlayer | null {
+    return this.player;
+  }
+  
+  /**
+   * The game model this engine renders; null at a shared table, where it
+   * runs on the server
+   */
+  public get simulation(): GameSimulation | null {
+    return this.sim;
+  }
+  
+  private requireSimulation(): GameSimulation {
+    if (!this.sim) {
+      throw new Error('Catch settings belong to the table server in multiplayer');
+    }
+    return this.sim;
   }
   
   public destroy(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('pagehide', this.onPageHide);
+    this.saveProfile();
+    this.clock?.destroy();
+    this.table.destroy();
+    this.player?.destroy();
+    this.achievements?.removeAllListeners();
+    this.otherCannons.clear();
+    this.shotRenderer?.destroy();
+    this.effects?.destroy();
+    this.fishViews.clear();
+    this.bossView = null;
     this.app.destroy(true);
   }
 }
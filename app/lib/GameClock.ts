@@ -0,0 +1,241 @@
+/**
+ * GameClock.ts
+ *
+ * Central game time on top of a PIXI ticker
+ * Systems and effects subscribe here instead of to the ticker (or setTimeout),
+ * so pause, slow-motion and fast-forward apply to all of them at once.
+ * Game time stops while the page is hidden once bindVisibility() is called.
+ *
+ * @version 1.0.0
+ * @path app/lib/GameClock.ts
+ */
+
+import * as PIXI from 'pixi.js';
+
+/**
+ * Clock subscriber; reads the scaled deltaTime / deltaMS off the clock,
+ * mirroring PIXI's ticker callbacks
+ */
+export type ClockListener = (clock: GameClock) => void;
+
+export type PauseReason = 'user' | 'hidden';
+
+interface ClockTimer {
+  id: number;
+  remaining: number;  // Game-time ms
+  callback: () => void;
+}
+
+export class GameClock {
+  // Speeds stepped through by slower() / faster()
+  public static readonly TIME_SCALES = [0.25, 0.5, 1, 2, 4];
+
+  /** Scaled frame delta (1 = one 60 fps frame at normal speed) */
+  public deltaTime: number = 0;
+  /** Scaled milliseconds since the previous tick */
+  public deltaMS: number = 0;
+  /** Game-time milliseconds since the clock started (excludes paused time) */
+  public elapsedMS: number = 0;
+
+  private ticker: PIXI.Ticker;
+  private listeners: { fn: ClockListener; context?: unknown }[] = [];
+  private timers: ClockTimer[] = [];
+  private nextTimerId: number = 1;
+  private scale: number = 1;
+  private pauseReasons: Set<PauseReason> = new Set();
+  private changeListeners: Set<(clock: GameClock) => void> = new Set();
+  private unbinders: (() => void)[] = [];
+
+  constructor(ticker: PIXI.Ticker) {
+    this.ticker = ticker;
+    this.ticker.add(this.tick, this);
+  }
+
+  public get paused(): boolean {
+    return this.pauseReasons.size > 0;
+  }
+
+  public get timeScale(): number {
+    return this.scale;
+  }
+
+  /**
+   * Subscribes to game ticks; not called while paused
+   */
+  public add(fn: ClockListener, context?: unknown): this {
+    this.listeners.push({ fn, context });
+    return this;
+  }
+
+  public remove(fn: ClockListener, context?: unknown): this {
+    this.listeners = this.listeners.filter(listener => listener.fn !== fn || listener.context !== context);
+    return this;
+  }
+
+  /**
+   * Runs a callback after `ms` of game time (paused time doesn't count)
+   */
+  public setTimeout(callback: () => void, ms: number): number {
+    const id = this.nextTimerId++;
+    this.timers.push({ id, remaining: ms, callback });
+    return id;
+  }
+
+  public clearTimeout(id: number): void {
+    this.timers = this.timers.filter(timer => timer.id !== id);
+  }
+
+  /**
+   * Pauses game time; it only runs again once every reason has been resumed
+   */
+  public pause(reason: PauseReason = 'user'): void {
+    if (this.pauseReasons.has(reason)) return;
+    this.pauseReasons.add(reason);
+    this.notifyChange();
+  }
+
+  public resume(reason: PauseReason = 'user'): void {
+    if (!this.pauseReasons.delete(reason)) return;
+    this.notifyChange();
+  }
+
+  public togglePause(): void {
+    if (this.pauseReasons.has('user')) {
+      this.resume('user');
+    } else {
+      this.pause('user');
+    }
+  }
+
+  /**
+   * Sets the speed multiplier (clamped to the TIME_SCALES range)
+   */
+  public setTimeScale(scale: number): void {
+    const scales = GameClock.TIME_SCALES;
+    const clamped = Math.min(scales[scales.length - 1], Math.max(scales[0], scale));
+    if (clamped === this.scale) return;
+    this.scale = clamped;
+    this.notifyChange();
+  }
+
+  /**
+   * Steps down to the next slower TIME_SCALES entry
+   */
+  public slower(): void {
+    const lower = GameClock.TIME_SCALES.filter(scale => scale < this.scale);
+    if (lower.length > 0) {
+      this.setTimeScale(lower[lower.length - 1]);
+    }
+  }
+
+  /**
+   * Steps up to the next faster TIME_SCALES entry
+   */
+  public faster(): void {
+    const higher = GameClock.TIME_SCALES.find(scale => scale > this.scale);
+    if (higher !== undefined) {
+      this.setTimeScale(higher);
+    }
+  }
+
+  public resetTimeScale(): void {
+    this.setTimeScale(1);
+  }
+
+  /**
+   * Notified on pause/resume and time scale changes (e.g. to update a HUD)
+   */
+  public onChange(listener: (clock: GameClock) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Pauses while the page is hidden and resumes when it is shown again
+   * (a user pause stays in place)
+   */
+  public bindVisibility(doc: Document = document): void {
+    const onVisibilityChange = () => {
+      if (doc.hidden) {
+        this.pause('hidden');
+      } else {
+        this.resume('hidden');
+      }
+    };
+
+    doc.addEventListener('visibilitychange', onVisibilityChange);
+    this.unbinders.push(() => doc.removeEventListener('visibilitychange', onVisibilityChange));
+    onVisibilityChange();
+  }
+
+  /**
+   * Keyboard controls: P pauses, - slows down, = speeds up, 0 resets speed
+   */
+  public bindKeyboard(target: Window = window): void {
+    const onKeyDown = (event: KeyboardEvent) => {
+      switch (event.key) {
+        case 'p':
+        case 'P':
+          this.togglePause();
+          break;
+        case '-':
+          this.slower();
+          break;
+        case '=':
+        case '+':
+          this.faster();
+          break;
+        case '0':
+          this.resetTimeScale();
+          break;
+      }
+    };
+
+    target.addEventListener('keydown', onKeyDown);
+    this.unbinders.push(() => target.removeEventListener('keydown', onKeyDown));
+  }
+
+  /**
+   * Detaches from the ticker and the DOM and drops all listeners and timers
+   */
+  public destroy(): void {
+    this.ticker.remove(this.tick, this);
+    this.unbinders.forEach(unbind => unbind());
+    this.unbinders = [];
+    this.listeners = [];
+    this.timers = [];
+    this.changeListeners.clear();
+  }
+
+  private tick(ticker: PIXI.Ticker): void {
+    if (this.paused) {
+      this.deltaTime = 0;
+      this.deltaMS = 0;
+      return;
+    }
+
+    this.deltaTime = ticker.deltaTime * this.scale;
+    this.deltaMS = ticker.deltaMS * this.scale;
+    this.elapsedMS += this.deltaMS;
+
+    // Copy so listeners can unsubscribe themselves mid-tick
+    [...this.listeners].forEach(({ fn, context }) => fn.call(context, this));
+
+    if (this.timers.length > 0) {
+      const due: ClockTimer[] = [];
+      this.timers = this.timers.filter(timer => {
+        timer.remaining -= this.deltaMS;
+        if (timer.remaining <= 0) {
+          due.push(timer);
+          return false;
+        }
+        return true;
+      });
+      due.forEach(timer => timer.callback());
+    }
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener(this));
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * GameRules.ts
+ *
+ * Rendering-free core of the arcade game: wallet and upgrade rules, fish
+ * stats, damage falloff and the wave schedule. GameSimulation plays the same
+ * rules for FishingGameEngineV8 and TableServer that EconomySimulator runs
+ * headless, so keep PIXI out of this module.
+ *
+ * @version 1.0.0
+ * @path app/lib/GameRules.ts
+ */
+
+import { GAME_RULES, TABLE_CONFIG, RarityType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { SpeciesRegistry } from './SpeciesRegistry';
+import { WeaponDefinition } from './WeaponRegistry';
+import { CatchMode } from './CatchEconomy';
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Spawn pattern types
+ */
+export enum SpawnPattern {
+  SINGLE = 'single',
+  LINE = 'line',
+  V_FORMATION = 'v_formation',
+  CIRCLE = 'circle',
+  WAVE = 'wave',
+  SPIRAL = 'spiral',
+  RANDOM_SCHOOL = 'random_school'
+}
+
+/**
+ * Movement pattern types
+ */
+export enum MovementPattern {
+  STRAIGHT = 'straight',
+  SINE_WAVE = 'sine_wave',
+  ZIGZAG = 'zigzag',
+  CIRCULAR = 'circular',
+  FIGURE_EIGHT = 'figure_eight',
+  RANDOM_WANDER = 'random_wander'
+}
+
+/**
+ * Spawn zone configuration
+ */
+export interface SpawnZone {
+  edge: 'top' | 'bottom' | 'left' | 'right';
+  startRatio: number; // 0-1 position along edge
+  endRatio: number;   // 0-1 position along edge
+}
+
+export type WaveSize = 'tiny' | 'small' | 'medium' | 'large' | 'boss';
+
+/**
+ * Wave configuration for spawning groups
+ */
+export interface SpawnWave {
+  pattern: SpawnPattern;
+  fishCount: number;
+  fishType: string; // species
+  rarity: RarityType;
+  size: WaveSize;
+  speed: number;
+  interval: number; // ms between fish in formation
+  movementPattern: MovementPattern;
+  targetZone?: SpawnZone; // Where they swim to
+}
+
+/**
+ * Size gene and speed multiplier per wave size class
+ */
+export const SPAWN_SIZE_MULTIPLIERS: Record<WaveSize, number> = {
+  tiny: 0.3,
+  small: 0.5,
+  medium: 1.0,
+  large: 1.5,
+  boss: 2.5
+};
+
+/**
+ * Predefined wave patterns, queued alongside random waves
+ */
+export const WAVE_TEMPLATES: readonly SpawnWave[] = [
+  // Common fish patterns
+  {
+    pattern: SpawnPattern.LINE,
+    fishCount: 8,
+    fishType: 'goldfish',
+    rarity: 'common',
+    size: 'small',
+    speed: 1,
+    interval: 300,
+    movementPattern: MovementPattern.STRAIGHT
+  },
+  {
+    pattern: SpawnPattern.V_FORMATION,
+    fishCount: 7,
+    fishType: 'neonTetra',
+    rarity: 'common',
+    size: 'tiny',
+    speed: 1.5,
+    interval: 200,
+    movementPattern: MovementPattern.SINE_WAVE
+  },
+  // Rare patterns
+  {
+    pattern: SpawnPattern.CIRCLE,
+    fishCount: 6,
+    fishType: 'crystalShark',
+    rarity: 'rare',
+    size: 'medium',
+    speed: 0.8,
+    interval: 400,
+    movementPattern: MovementPattern.CIRCULAR
+  },
+  // Boss patterns
+  {
+    pattern: SpawnPattern.SINGLE,
+    fishCount: 1,
+    fishType: 'cosmicWhale',
+    rarity: 'legendary',
+    size: 'boss',
+    speed: 0.5,
+    interval: 0,
+    movementPattern: MovementPattern.SINE_WAVE
+  }
+];
+
+/**
+ * Occasional bonus school pushed to the front of the queue
+ */
+export const BONUS_WAVE: SpawnWave = {
+  pattern: SpawnPattern.SPIRAL,
+  fishCount: 20,
+  fishType: 'goldfish',
+  rarity: 'rare',
+  size: 'small',
+  speed: 1.2,
+  interval: 100,
+  movementPattern: MovementPattern.CIRCULAR
+};
+
+/**
+ * Harder waves added once difficulty passes 2
+ */
+export const CHALLENGE_WAVES: readonly SpawnWave[] = [
+  {
+    pattern: SpawnPattern.SPIRAL,
+    fishCount: 30,
+    fishType: 'neonTetra',
+    rarity: 'epic',
+    size: 'tiny',
+    speed: 2,
+    interval: 50,
+    movementPattern: MovementPattern.FIGURE_EIGHT
+  },
+  {
+    pattern: SpawnPattern.RANDOM_SCHOOL,
+    fishCount: 3,
+    fishType: 'cosmicWhale',
+    rarity: 'legendary',
+    size: 'boss',
+    speed: 0.3,
+    interval: 1000,
+    movementPattern: MovementPattern.SINE_WAVE
+  }
+];
+
+/**
+ * Rolls a random wave's rarity from GAME_RULES.spawnRarityWeights
+ */
+export function rollSpawnRarity(random: SeededRandom): RarityType {
+  const weights = Object.entries(GAME_RULES.spawnRarityWeights) as [RarityType, number][];
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  let remaining = random.next() * total;
+
+  for (const [rarity, weight] of weights) {
+    remaining -= weight;
+    if (remaining < 0) {
+      return rarity;
+    }
+  }
+
+  return weights[0][0];
+}
+
+/**
+ * Generates a random wave configuration
+ */
+export function generateRandomWave(random: SeededRandom): SpawnWave {
+  const patterns = Object.values(SpawnPattern);
+  const movements = Object.values(MovementPattern);
+  const sizes = ['tiny', 'small', 'medium', 'large'] as const;
+  const pattern = random.pick(patterns);
+  const fishCount = random.int(3, 13);
+  const rarity = rollSpawnRarity(random);
+
+  return {
+    pattern,
+    fishCount,
+    // Any catalog species up to the wave's rarity
+    fishType: SpeciesRegistry.pick(random, { maxRarity: rarity }).name,
+    rarity,
+    size: random.pick(sizes),
+    speed: random.range(0.5, 2.0),
+    interval: random.range(200, 600),
+    movementPattern: random.pick(movements)
+  };
+}
+
+/**
+ * Swim speed of a wave's fish (px per 10ms of game time)
+ */
+export function getWaveSpeed(wave: SpawnWave): number {
+  return wave.speed * SPAWN_SIZE_MULTIPLIERS[wave.size];
+}
+
+/**
+ * Fish the scheduler wants spawned: member `index` of `wave`
+ */
+export interface WaveSpawn {
+  wave: SpawnWave;
+  index: number;
+}
+
+/**
+ * Wave queue, formation timing and difficulty ramp, without any placement
+ * FishSchool turns its spawns into positioned fish; the economy simulator
+ * turns them into plain records
+ */
+export class WaveScheduler {
+  private random: SeededRandom;
+  private spawnTimer: number = 0;
+  private nextSpawnTime: number = 0;
+  private waveQueue: SpawnWave[] = [];
+  private currentWave: SpawnWave | null = null;
+  private waveProgress: number = 0;
+  private waveSpawned: number = 0;
+  private _difficulty: number = 1;
+  private spawnRateMultiplier: number = 1;
+
+  constructor(random: SeededRandom) {
+    this.random = random;
+    this.initializeWaveQueue();
+  }
+
+  public get difficulty(): number {
+    return this._difficulty;
+  }
+
+  public addWave(wave: SpawnWave): void {
+    this.waveQueue.push(wave);
+  }
+
+  /**
+   * Advances by deltaMS and returns every fish due in that time
+   */
+  public update(deltaMS: number): WaveSpawn[] {
+    const spawns: WaveSpawn[] = [];
+    this.spawnTimer += deltaMS;
+
+    // Check if we need to start a new wave
+    if (!this.currentWave && this.spawnTimer >= this.nextSpawnTime) {
+      this.startNextWave();
+    }
+
+    if (this.currentWave) {
+      this.processCurrentWave(deltaMS, spawns);
+    }
+
+    this.updateDifficulty(deltaMS);
+    return spawns;
+  }
+
+  /**
+   * Initializes the wave queue with variety
+   */
+  private initializeWaveQueue(): void {
+    this.waveQueue = [
+      ...WAVE_TEMPLATES,
+      generateRandomWave(this.random),
+      generateRandomWave(this.random)
+    ];
+
+    // Shuffle for variety
+    this.random.shuffle(this.waveQueue);
+  }
+
+  private startNextWave(): void {
+    if (this.waveQueue.length === 0) {
+      this.initializeWaveQueue();
+    }
+
+    this.currentWave = this.waveQueue.shift()!;
+    this.waveProgress = 0;
+    this.waveSpawned = 0;
+
+    if (this.random.chance(GAME_RULES.bonusWaveChance)) {
+      this.waveQueue.unshift(BONUS_WAVE);
+    }
+  }
+
+  private processCurrentWave(deltaMS: number, spawns: WaveSpawn[]): void {
+    const wave = this.currentWave!;
+    this.waveProgress += deltaMS;
+
+    // Spawn every fish that is due, so long frames don't drop formation members
+    // (interval 0 spawns the whole formation at once)
+    const { fishCount, interval } = wave;
+    const due = interval > 0
+      ? Math.min(fishCount, Math.floor(this.waveProgress / interval) + 1)
+      : fishCount;
+
+    while (this.waveSpawned < due) {
+      spawns.push({ wave, index: this.waveSpawned++ });
+    }
+
+    if (this.waveSpawned >= fishCount) {
+      // Wave complete
+      const [minGap, maxGap] = GAME_RULES.waveGapMs;
+      this.currentWave = null;
+      this.nextSpawnTime = this.spawnTimer + this.random.range(minGap, maxGap) / this.spawnRateMultiplier;
+    }
+  }
+
+  private updateDifficulty(deltaMS: number): void {
+    this._difficulty += deltaMS * GAME_RULES.difficultyPerMs;
+    this.spawnRateMultiplier = 1 + (this._difficulty - 1) * 0.5;
+
+    // Add more challenging waves at higher difficulties
+    if (this._difficulty > 2 && this.random.chance(GAME_RULES.challengeWaveChance)) {
+      this.waveQueue.push(this.random.pick(CHALLENGE_WAVES));
+    }
+  }
+}
+
+/**
+ * Arcade stats of a spawned fish; the size gene scales bosses up
+ */
+export interface GameFishStats {
+  health: number;
+  reward: number;
+  size: number;  // Sprite scale
+}
+
+export function getFishStats(rarity: RarityType, sizeGene: number): GameFishStats {
+  const tier = RarityRegistry.get(rarity);
+  const sizeScale = Math.max(1, sizeGene);
+
+  return {
+    health: Math.round(tier.health * sizeScale),
+    reward: Math.round(tier.reward * sizeScale),
+    size: tier.size * (0.5 + sizeGene * 0.5)
+  };
+}
+
+/**
+ * Player wallet and progression
+ */
+export interface GameState {
+  coins: number;
+  score: number;
+  cannonPower: number;
+  catchMode: CatchMode;
+}
+
+export function createGameState(overrides: Partial<GameState> = {}): GameState {
+  return {
+    coins: GAME_RULES.startingCoins,
+    score: 0,
+    cannonPower: 1,
+    catchMode: 'health',
+    ...overrides
+  };
+}
+
+/**
+ * Cost of upgrading from the current power level
+ */
+export function getUpgradeCost(state: GameState): number {
+  return state.cannonPower * GAME_RULES.upgradeCostPerLevel;
+}
+
+/**
+ * Buys the next power level if affordable
+ */
+export function upgradeCannon(state: GameState): boolean {
+  const cost = getUpgradeCost(state);
+  if (state.coins < cost) return false;
+
+  state.coins -= cost;
+  state.cannonPower++;
+  return true;
+}
+
+/**
+ * Coins per shot; in probability mode cannon power is the bet multiplier
+ * instead of a damage multiplier
+ */
+export function getShotCost(state: GameState, weapon: WeaponDefinition): number {
+  return state.catchMode === 'probability' ? weapon.cost * state.cannonPower : weapon.cost;
+}
+
+/**
+ * Pays for a shot if affordable
+ */
+export function payForShot(state: GameState, weapon: WeaponDefinition): boolean {
+  const cost = getShotCost(state, weapon);
+  if (state.coins < cost) return false;
+
+  state.coins -= cost;
+  return true;
+}
+
+/**
+ * Pays a catch's reward; its score is the reward unless scoring rules say otherwise
+ */
+export function creditCatch(state: GameState, reward: number, points: number = reward): void {
+  state.score += points;
+  state.coins += reward;
+}
+
+/**
+ * Coins a hit wagers: its share of the shot's cost (probability mode)
+ */
+export function getHitBet(weapon: WeaponDefinition, level: number, share: number): number {
+  return weapon.cost * level * share;
+}
+
+/**
+ * Damage multiplier after distance, hit and bounce falloff
+ */
+export function getDamageFalloff(weapon: WeaponDefinition, travelled: number, hits: number, bounces: number): number {
+  const { falloff } = weapon;
+  const multiplier = (1 - falloff.distance * travelled / 100)
+    * Math.pow(1 - falloff.hit, hits)
+    * Math.pow(1 - falloff.bounce, bounces);
+  return Math.max(falloff.min, Math.min(1, multiplier));
+}
+
+/**
+ * Cannon pivot for a table seat, inset from its edge; seat 0 (bottom center)
+ * is also the single-player cannon
+ */
+export function getSeatOrigin(seat: number, width: number, height: number): { x: number; y: number } {
+  const spot = TABLE_CONFIG.seats[seat % TABLE_CONFIG.seats.length];
+  const inset = TABLE_CONFIG.cannonInset;
+  const offset = (ratio: number) => (ratio === 0 ? inset : ratio === 1 ? -inset : 0);
+
+  return {
+    x: spot.x * width + offset(spot.x),
+    y: spot.y * height + offset(spot.y)
+  };
+}
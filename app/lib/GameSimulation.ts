@@ -0,0 +1,917 @@
+/**
+ * GameSimulation.ts
+ *
+ * Rendering-free model of the arcade game
+ * Owns everything that decides an outcome (spawned fish, shots, collisions,
+ * wallet and catch economy) and advances it with step(deltaMS). The PIXI
+ * engine only feeds it input, draws its snapshots and plays effects for its
+ * events, so the same rules run in Node, in replays and on a server.
+ * Seats share the fish and bosses but keep their own wallet, weapon and score.
+ *
+ * @version 1.0.0
+ * @path app/lib/GameSimulation.ts
+ */
+
+import { TABLE_CONFIG, BOSS_CONFIG, SCORING_CONFIG, RarityType, WeaponType, BossType } from '../config/fishConfig';
+import { FishSchool, SchoolFish } from './FishSchool';
+import { CollisionSystem, CollisionBody, HitShape, Vec2, createHitShape } from './CollisionSystem';
+import {
+  WeaponSystem,
+  WeaponBounds,
+  WeaponHitEvent,
+  WeaponBlastEvent,
+  WeaponCatchEvent,
+  ShotSnapshot
+} from './WeaponSystem';
+import { WeaponDefinition } from './WeaponRegistry';
+import { CatchEconomy, CatchEconomyOptions, CatchMode, CatchResolver, CatchStats } from './CatchEconomy';
+import { SpeciesRegistry } from './SpeciesRegistry';
+import { TypedEmitter, EventListener } from './TypedEmitter';
+import { SeededRandom, createSeed } from './SeededRandom';
+import { BossFight, BossSnapshot, splitJackpot } from './BossFight';
+import { BossRegistry, BossMinions } from './BossRegistry';
+import { ScoreKeeper, CatchScore, ComboSnapshot, ScoreBreakdown } from './ScoreKeeper';
+import {
+  GameState,
+  GameFishStats,
+  SpawnWave,
+  SpawnPattern,
+  MovementPattern,
+  createGameState,
+  getFishStats,
+  getShotCost,
+  getHitBet,
+  payForShot,
+  upgradeCannon,
+  creditCatch,
+  getSeatOrigin
+} from './GameRules';
+
+export interface PlayerOptions {
+  id: string;
+  name?: string;
+  seat?: number;   // Defaults to the first free seat
+  // Wallet to start with (e.g. a saved profile's); GAME_RULES defaults otherwise
+  state?: Partial<Omit<GameState, 'catchMode'>>;
+}
+
+export interface GameSimulationOptions {
+  seed?: string;  // Drives waves, fish DNA and (unless catchEconomy sets one) catch rolls
+  // 'health' wears fish down with damage; 'probability' rolls a catch per hit
+  catchMode?: CatchMode;
+  catchEconomy?: CatchEconomyOptions;
+  // Player that commands without a playerId apply to; null for a table that
+  // starts empty (e.g. on a server)
+  localPlayer?: PlayerOptions | null;
+}
+
+/**
+ * Play area; fish spawn around it and ricochets bounce off its edges
+ * Pass a live object (e.g. app.screen) to follow resizes
+ */
+export type SimulationArea = WeaponBounds;
+
+/**
+ * Everything a view needs to draw one fish
+ */
+export interface FishSnapshot {
+  id: string;
+  species: string;
+  name: string;
+  rarity: RarityType;
+  x: number;
+  y: number;
+  heading: number;
+  health: number;
+  maxHealth: number;
+  reward: number;
+  size: number;   // Sprite scale
+  speed: number;
+}
+
+export interface PlayerSnapshot {
+  id: string;
+  name: string;
+  seat: number;
+  origin: Vec2;      // Cannon pivot
+  rotation: number;  // Last aim angle
+  state: GameState;
+  weapon: WeaponType;
+  combo: ComboSnapshot;
+}
+
+/**
+ * Scoring round in progress
+ */
+export interface RoundSnapshot {
+  index: number;
+  remainingMS: number;
+}
+
+export interface GameSnapshot {
+  timeMS: number;
+  seed: string;
+  difficulty: number;
+  players: PlayerSnapshot[];
+  fish: FishSnapshot[];
+  shots: ShotSnapshot[];
+  boss: BossSnapshot | null;
+  round: RoundSnapshot;
+}
+
+/**
+ * How a fish was reached: a shot directly, a blast or a net
+ */
+export type HitSource = 'shot' | 'blast' | 'net';
+
+export interface FishHitEvent {
+  playerId: string;    // Shooter
+  fish: FishSnapshot;  // After the hit
+  damage: number;      // 0 for probability-mode rolls
+  point: Vec2;
+  source: HitSource;
+}
+
+export interface FishCaughtEvent {
+  playerId: string;
+  fish: FishSnapshot;
+  reward: number;
+  score: CatchScore | null;  // null when the shooter left before the catch resolved
+  point: Vec2;
+}
+
+/**
+ * One player caught every member of a formation
+ */
+export interface FormationClearedEvent {
+  playerId: string;
+  size: number;
+  bonus: number;  // Score only
+  point: Vec2;    // Where the last member was caught
+}
+
+export interface RoundEndEvent {
+  round: number;
+  breakdowns: Record<string, ScoreBreakdown>;  // Per player seated at the end
+}
+
+/**
+ * A blast going off or a net opening
+ */
+export interface ImpactEvent {
+  playerId: string;
+  weapon: WeaponDefinition;
+  point: Vec2;
+  radius: number;
+}
+
+export interface ShotFiredEvent {
+  playerId: string;
+  weapon: WeaponDefinition;
+  level: number;
+  cost: number;
+  origin: Vec2;
+  aim: Vec2;
+}
+
+export interface BossHitEvent {
+  playerId: string;
+  boss: BossSnapshot;  // After the hit
+  damage: number;
+  weakPoint: string | null;
+  point: Vec2;
+  source: HitSource;
+}
+
+export interface BossDefeatedEvent {
+  boss: BossSnapshot;
+  payouts: Record<string, number>;  // Jackpot share per seated contributor
+  point: Vec2;
+}
+
+export interface GameSimulationEvents {
+  join: [player: PlayerSnapshot];
+  leave: [player: PlayerSnapshot];
+  spawn: [fish: FishSnapshot];
+  despawn: [fish: FishSnapshot];  // Swam away uncaught
+  fire: [event: ShotFiredEvent];
+  hit: [event: FishHitEvent];
+  impact: [event: ImpactEvent];
+  caught: [event: FishCaughtEvent];
+  state: [state: GameState, playerId: string];
+  weapon: [weapon: WeaponDefinition, playerId: string];
+  bossSpawn: [boss: BossSnapshot];
+  bossPhase: [boss: BossSnapshot];
+  bossEnrage: [boss: BossSnapshot];
+  bossEscape: [boss: BossSnapshot];  // Swam off before it was beaten
+  bossHit: [event: BossHitEvent];
+  bossDefeated: [event: BossDefeatedEvent];
+  formation: [event: FormationClearedEvent];
+  roundEnd: [event: RoundEndEvent];
+}
+
+/**
+ * What FishingGameEngineV8 drives: a local GameSimulation, or a TableClient
+ * mirroring one on a server. Commands act for the local player.
+ */
+export interface GameTable {
+  readonly localPlayerId: string;
+  readonly state: Readonly<GameState>;
+  readonly weapon: WeaponDefinition;
+  step(deltaMS: number): void;
+  snapshot(): GameSnapshot;
+  fire(aim: Vec2): boolean;
+  upgrade(): boolean;
+  selectWeapon(id: WeaponType): void;
+  cycleWeapon(step?: number): void;
+  getShotColor(): number;
+  on<K extends keyof GameSimulationEvents>(event: K, fn: EventListener<GameSimulationEvents, K>, context?: unknown): unknown;
+  destroy(): void;
+}
+
+/**
+ * One seat at the table
+ */
+interface Player {
+  id: string;
+  name: string;
+  seat: number;
+  origin: Vec2;
+  rotation: number;
+  state: GameState;
+  weapons: WeaponSystem<Target>;
+  score: ScoreKeeper;
+}
+
+/**
+ * A shootable fish: its place in the school plus arcade stats
+ */
+interface GameFish {
+  school: SchoolFish;
+  name: string;
+  stats: GameFishStats;
+  health: number;
+  hitShape: HitShape;
+}
+
+/**
+ * Progress of one spawned formation toward a clear
+ */
+interface FormationProgress {
+  size: number;
+  left: number;             // Members not yet caught or gone
+  catcher: string | null;   // Who has caught its members so far
+  rewards: number;
+  broken: boolean;          // A member escaped or another player caught one
+}
+
+/**
+ * Anything a shot can hit
+ */
+type Target = GameFish | BossFight;
+
+// Hit shapes are sized to the fish sprite's 80px body at scale 1
+const FISH_BODY_PX = 80;
+
+export class GameSimulation extends TypedEmitter<GameSimulationEvents> implements GameTable {
+  public readonly seed: string;
+  public readonly localPlayerId: string;
+  private area: SimulationArea;
+  private school: FishSchool;
+  private fish: Map<string, GameFish> = new Map();
+  private players: Map<string, Player> = new Map();
+  private collisions: CollisionSystem<Target> = new CollisionSystem<Target>();
+  private economy: CatchEconomy;
+  private catchMode: CatchMode;
+  private timeMS: number = 0;
+  private boss: BossFight | null = null;
+  private bossRandom: SeededRandom;
+  private bossCount: number = 0;
+  private nextBossMS: number = BOSS_CONFIG.firstSpawnMs;
+  private formations: Map<string, FormationProgress> = new Map();
+  private round: number = 0;
+  private roundEndsMS: number = SCORING_CONFIG.roundMs;
+
+  constructor(area: SimulationArea, options: GameSimulationOptions = {}) {
+    super();
+    this.area = area;
+    this.seed = options.seed ?? createSeed();
+    this.school = new FishSchool(area, this.seed);
+    this.economy = new CatchEconomy({ seed: `${this.seed}:catch`, ...options.catchEconomy });
+    this.catchMode = options.catchMode ?? 'health';
+    this.bossRandom = new SeededRandom(`${this.seed}:boss`);
+
+    const localPlayer = options.localPlayer === undefined
+      ? { id: 'local', name: 'Player' }
+      : options.localPlayer;
+    this.localPlayerId = localPlayer?.id ?? '';
+    if (localPlayer) {
+      this.addPlayer(localPlayer);
+    }
+  }
+
+  /**
+   * The local player's wallet
+   */
+  public get state(): Readonly<GameState> {
+    return this.requirePlayer(this.localPlayerId).state;
+  }
+
+  public get weapon(): WeaponDefinition {
+    return this.requirePlayer(this.localPlayerId).weapons.weapon;
+  }
+
+  public get playerCount(): number {
+    return this.players.size;
+  }
+
+  /**
+   * Seats a player at the requested (or first free) seat
+   * @returns null when the table is full or the seat is taken
+   */
+  public addPlayer(options: PlayerOptions): PlayerSnapshot | null {
+    if (this.players.has(options.id) || this.players.size >= TABLE_CONFIG.maxPlayers) return null;
+
+    const taken = new Set(Array.from(this.players.values(), player => player.seat));
+    const seat = options.seat ?? Array.from({ length: TABLE_CONFIG.maxPlayers }, (_, i) => i).find(i => !taken.has(i))!;
+    if (taken.has(seat) || seat < 0 || seat >= TABLE_CONFIG.maxPlayers) return null;
+
+    const origin = getSeatOrigin(seat, this.area.width, this.area.height);
+    const player: Player = {
+      id: options.id,
+      name: options.name ?? `Player ${seat + 1}`,
+      seat,
+      origin,
+      // Face the middle of the table
+      rotation: Math.atan2(this.area.height / 2 - origin.y, this.area.width / 2 - origin.x),
+      state: createGameState({ ...options.state, catchMode: this.catchMode }),
+      weapons: new WeaponSystem<Target>(this.collisions, this.area, `${options.id}:`),
+      score: new ScoreKeeper(this.round)
+    };
+
+    player.weapons.on('hit', event => this.onWeaponHit(player, event));
+    player.weapons.on('blast', event => this.onWeaponBlast(player, event));
+    player.weapons.on('catch', event => this.onWeaponCatch(player, event));
+    player.weapons.on('change', weapon => this.emit('weapon', weapon, player.id));
+
+    this.players.set(player.id, player);
+    const snapshot = this.describePlayer(player);
+    this.emit('join', snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Removes a player and their shots in flight
+   */
+  public removePlayer(id: string): void {
+    const player = this.players.get(id);
+    if (!player) return;
+
+    player.weapons.destroy();
+    this.players.delete(id);
+    this.emit('leave', this.describePlayer(player));
+  }
+
+  public getPlayer(id: string): PlayerSnapshot | undefined {
+    const player = this.players.get(id);
+    return player ? this.describePlayer(player) : undefined;
+  }
+
+  public get elapsedMS(): number {
+    return this.timeMS;
+  }
+
+  public get difficulty(): number {
+    return this.school.difficulty;
+  }
+
+  /**
+   * Advances the game by deltaMS of game time: spawns and moves fish, then
+   * moves shots and applies their hits
+   */
+  public step(deltaMS: number): void {
+    this.timeMS += deltaMS;
+
+    const { spawned, despawned } = this.school.update(deltaMS);
+    spawned.forEach(school => this.addFish(school));
+    despawned.forEach(school => {
+      const fish = this.fish.get(school.id);
+      if (!fish) return;
+      this.fish.delete(school.id);
+      this.leaveFormation(fish, null);
+      this.emit('despawn', this.describe(fish));
+    });
+    this.updateBoss(deltaMS);
+
+    // Broadphase for this step's fish and boss positions
+    const bodies: CollisionBody<Target>[] = Array.from(this.fish.values(), fish => ({
+      id: fish.school.id,
+      owner: fish,
+      shape: fish.hitShape,
+      x: fish.school.x,
+      y: fish.school.y,
+      rotation: fish.school.heading
+    }));
+    if (this.boss) {
+      const { boss } = this;
+      bodies.push({ id: boss.id, owner: boss, shape: boss.hitShape, x: boss.x, y: boss.y, rotation: boss.heading });
+    }
+    this.collisions.rebuild(bodies);
+
+    // Move shots; hits come back as weapon events
+    this.players.forEach(player => player.weapons.update(deltaMS));
+
+    if (this.timeMS >= this.roundEndsMS) {
+      this.endRound();
+    }
+  }
+
+  /**
+   * Fires a player's weapon from their cannon toward aim, if it is affordable
+   * and cooled down; cannon power scales its damage (or its bet in
+   * probability mode)
+   */
+  public fire(aim: Vec2, playerId: string = this.localPlayerId): boolean {
+    const player = this.players.get(playerId);
+    if (!player) return false;
+
+    const { state, weapons, origin } = player;
+    const weapon = weapons.weapon;
+    const cost = getShotCost(state, weapon);
+    if (state.coins < cost) return false;
+    if (!weapons.fire(origin, aim, state.cannonPower)) return false;
+
+    payForShot(state, weapon);
+    player.rotation = Math.atan2(aim.y - origin.y, aim.x - origin.x);
+    this.emit('fire', {
+      playerId,
+      weapon,
+      level: state.cannonPower,
+      cost,
+      origin: { ...origin },
+      aim: { x: aim.x, y: aim.y }
+    });
+    this.emitState(player);
+    return true;
+  }
+
+  /**
+   * Buys the player's next cannon power level if affordable
+   */
+  public upgrade(playerId: string = this.localPlayerId): boolean {
+    const player = this.players.get(playerId);
+    if (!player || !upgradeCannon(player.state)) return false;
+    this.emitState(player);
+    return true;
+  }
+
+  /**
+   * Adds coins from outside the table's catches (e.g. a claimed quest
+   * reward); they do not count toward the score
+   */
+  public grantCoins(amount: number, playerId: string = this.localPlayerId): void {
+    if (amount <= 0) return;
+
+    const player = this.requirePlayer(playerId);
+    player.state.coins += amount;
+    this.emitState(player);
+  }
+
+  public selectWeapon(id: WeaponType, playerId: string = this.localPlayerId): void {
+    this.players.get(playerId)?.weapons.select(id);
+  }
+
+  /**
+   * Selects the next (or previous, with step -1) weapon
+   */
+  public cycleWeapon(step: number = 1, playerId: string = this.localPlayerId): void {
+    this.players.get(playerId)?.weapons.cycle(step);
+  }
+
+  /**
+   * Color of a player's shots at their current power
+   */
+  public getShotColor(playerId: string = this.localPlayerId): number {
+    const player = this.requirePlayer(playerId);
+    return player.weapons.getColor(player.state.cannonPower);
+  }
+
+  /**
+   * Switches every player's catch mode
+   */
+  public setCatchMode(mode: CatchMode): void {
+    this.catchMode = mode;
+    this.players.forEach(player => {
+      player.state.catchMode = mode;
+      this.emitState(player);
+    });
+
+    // A jackpot would pay out beside the catch economy's RTP
+    const { boss } = this;
+    if (mode === 'probability' && boss) {
+      this.endBoss(boss);
+      this.emit('bossEscape', boss.snapshot());
+    }
+  }
+
+  /**
+   * Routes probability-mode catches through a server (null for local rolls)
+   */
+  public setCatchResolver(resolver: CatchResolver | null): void {
+    this.economy.setResolver(resolver);
+  }
+
+  public getCatchStats(): CatchStats {
+    return this.economy.stats;
+  }
+
+  public addWave(wave: SpawnWave): void {
+    this.school.addWave(wave);
+  }
+
+  /**
+   * Starts a boss fight now (a random boss unless one is named)
+   * @returns null while another boss is still on the table, or in probability mode
+   */
+  public spawnBoss(id?: BossType): BossSnapshot | null {
+    if (this.boss || this.catchMode === 'probability') return null;
+
+    const definition = BossRegistry.get(id ?? this.bossRandom.pick(BossRegistry.ids()));
+    const boss = new BossFight(definition, this.area, this.bossRandom.fork(this.bossCount++));
+
+    boss.on('phase', () => this.emit('bossPhase', boss.snapshot()));
+    boss.on('enrage', () => this.emit('bossEnrage', boss.snapshot()));
+    boss.on('summon', (minions, origin, offsets) => this.summonMinions(minions, origin, offsets));
+
+    this.boss = boss;
+    const snapshot = boss.snapshot();
+    this.emit('bossSpawn', snapshot);
+    return snapshot;
+  }
+
+  public getBoss(): BossSnapshot | null {
+    return this.boss?.snapshot() ?? null;
+  }
+
+  public getFish(id: string): FishSnapshot | undefined {
+    const fish = this.fish.get(id);
+    return fish ? this.describe(fish) : undefined;
+  }
+
+  /**
+   * Plain-data copy of the whole game for rendering, recording or syncing
+   */
+  public snapshot(): GameSnapshot {
+    return {
+      timeMS: this.timeMS,
+      seed: this.seed,
+      difficulty: this.school.difficulty,
+      players: Array.from(this.players.values(), player => this.describePlayer(player)),
+      fish: Array.from(this.fish.values(), fish => this.describe(fish)),
+      shots: Array.from(this.players.values(), player => player.weapons.getShots()).flat(),
+      boss: this.getBoss(),
+      round: { index: this.round, remainingMS: this.roundEndsMS - this.timeMS }
+    };
+  }
+
+  public destroy(): void {
+    this.players.forEach(player => player.weapons.destroy());
+    this.players.clear();
+    this.boss?.removeAllListeners();
+    this.boss = null;
+    this.collisions.removeAllListeners();
+    this.collisions.clear();
+    this.school.clear();
+    this.fish.clear();
+    this.formations.clear();
+    this.removeAllListeners();
+  }
+
+  /**
+   * Gives a spawned fish its arcade stats and hit outline
+   */
+  private addFish(school: SchoolFish): void {
+    const { dna } = school;
+    const stats = getFishStats(dna.rarity, dna.genes.size);
+    const species = SpeciesRegistry.resolve(dna.species);
+
+    const fish: GameFish = {
+      school,
+      name: species.displayName,
+      stats,
+      health: stats.health,
+      // Hit outline follows the species' body shape
+      hitShape: createHitShape(dna.bodyShape, species.features.bodyRatio, FISH_BODY_PX * stats.size)
+    };
+
+    this.fish.set(school.id, fish);
+    if (!this.formations.has(school.formation)) {
+      const size = school.wave.fishCount;
+      this.formations.set(school.formation, { size, left: size, catcher: null, rewards: 0, broken: false });
+    }
+    this.emit('spawn', this.describe(fish));
+  }
+
+  private requirePlayer(id: string): Player {
+    const player = this.players.get(id);
+    if (!player) {
+      throw new Error(`No player ${id || '(local)'} at this table`);
+    }
+    return player;
+  }
+
+  private describePlayer(player: Player): PlayerSnapshot {
+    return {
+      id: player.id,
+      name: player.name,
+      seat: player.seat,
+      origin: { ...player.origin },
+      rotation: player.rotation,
+      state: { ...player.state },
+      weapon: player.weapons.weapon.id,
+      combo: player.score.getCombo(this.timeMS)
+    };
+  }
+
+  private describe(fish: GameFish): FishSnapshot {
+    const { school, stats } = fish;
+    return {
+      id: school.id,
+      species: school.dna.species,
+      name: fish.name,
+      rarity: school.dna.rarity,
+      x: school.x,
+      y: school.y,
+      heading: school.heading,
+      health: fish.health,
+      maxHealth: stats.health,
+      reward: stats.reward,
+      size: stats.size,
+      speed: school.wave.speed
+    };
+  }
+
+  private onWeaponHit(player: Player, event: WeaponHitEvent<Target>): void {
+    if (event.target instanceof BossFight) {
+      this.damageBoss(player, event.target, event.damage, event.point, 'shot', event.heading);
+    } else if (this.catchMode === 'probability') {
+      this.rollCatch(player, event.target, getHitBet(event.weapon, event.level, event.share), event.point, 'shot');
+    } else {
+      this.damageFish(player, event.target, event.damage, event.point, 'shot');
+    }
+  }
+
+  private onWeaponBlast(player: Player, event: WeaponBlastEvent<Target>): void {
+    this.emit('impact', { playerId: player.id, weapon: event.weapon, point: event.point, radius: event.radius });
+    event.targets.forEach(fish => {
+      if (fish instanceof BossFight) {
+        this.damageBoss(player, fish, event.damage, event.point, 'blast', null);
+        return;
+      }
+      const point = { x: fish.school.x, y: fish.school.y };
+      if (this.catchMode === 'probability') {
+        this.rollCatch(player, fish, getHitBet(event.weapon, event.level, event.share), point, 'blast');
+      } else {
+        this.damageFish(player, fish, event.damage, point, 'blast');
+      }
+    });
+  }
+
+  /**
+   * Nets catch every fish inside regardless of health (or roll for each in
+   * probability mode); a boss only takes BOSS_CONFIG.netDamage
+   */
+  private onWeaponCatch(player: Player, event: WeaponCatchEvent<Target>): void {
+    this.emit('impact', { playerId: player.id, weapon: event.weapon, point: event.point, radius: event.radius });
+    event.targets.forEach(fish => {
+      if (fish instanceof BossFight) {
+        this.damageBoss(player, fish, BOSS_CONFIG.netDamage * event.level, event.point, 'net', null);
+        return;
+      }
+      const point = { x: fish.school.x, y: fish.school.y };
+      if (this.catchMode === 'probability') {
+        this.rollCatch(player, fish, getHitBet(event.weapon, event.level, event.share), point, 'net');
+      } else {
+        this.damageFish(player, fish, Math.max(1, fish.health), point, 'net');
+      }
+    });
+  }
+
+  private damageFish(player: Player, fish: GameFish, damage: number, point: Vec2, source: HitSource): void {
+    // Already caught earlier this step (e.g. by the same blast)
+    if (!this.isCatchable(fish)) return;
+
+    const wastedDamage = Math.max(0, damage - fish.health);
+    fish.health -= damage;
+    this.emit('hit', { playerId: player.id, fish: this.describe(fish), damage, point, source });
+
+    if (fish.health <= 0) {
+      this.catchFish(player, fish, fish.stats.reward, wastedDamage);
+    }
+  }
+
+  /**
+   * Probability mode: rolls (or asks the server) whether this hit catches the fish
+   */
+  private rollCatch(player: Player, fish: GameFish, bet: number, point: Vec2, source: HitSource): void {
+    if (!this.isCatchable(fish)) return;
+
+    this.emit('hit', { playerId: player.id, fish: this.describe(fish), damage: 0, point, source });
+
+    // Hits past what the shot bet (e.g. the tail of a laser) have nothing to roll with
+    if (bet <= 0) return;
+
+    const request = { fishId: fish.school.id, bet, reward: fish.stats.reward };
+
+    // Local rolls settle within the step, so a replay of the same inputs
+    // catches the same fish on the same frame
+    if (!this.economy.remote) {
+      const result = this.economy.roll(request);
+      if (result.caught) {
+        this.catchFish(player, fish, result.payout);
+      }
+      return;
+    }
+
+    this.economy.resolve(request)
+      .then(result => {
+        // Another hit may have caught it while this one was being resolved
+        if (result.caught && this.isCatchable(fish)) {
+          this.catchFish(player, fish, result.payout);
+        }
+      })
+      .catch(error => console.error('Catch resolution failed:', error));
+  }
+
+  private isCatchable(fish: GameFish): boolean {
+    return this.fish.get(fish.school.id) === fish && fish.health > 0;
+  }
+
+  private catchFish(player: Player, fish: GameFish, reward: number, wastedDamage: number = 0): void {
+    const { id } = fish.school;
+    fish.health = 0;
+    this.fish.delete(id);
+    this.school.remove(id);
+    this.collisions.remove(id);
+
+    // The shooter may have left while a catch was being resolved
+    const seated = this.players.get(player.id) === player;
+    let score: CatchScore | null = null;
+    if (seated) {
+      score = player.score.score(this.timeMS, {
+        reward,
+        rarity: fish.school.dna.rarity,
+        maxHealth: fish.stats.health,
+        wastedDamage
+      });
+      creditCatch(player.state, reward, score.points);
+    }
+    this.emit('caught', {
+      playerId: player.id,
+      fish: this.describe(fish),
+      reward,
+      score,
+      point: { x: fish.school.x, y: fish.school.y }
+    });
+    this.leaveFormation(fish, seated ? player : null, reward);
+    if (seated) {
+      this.emitState(player);
+    }
+  }
+
+  /**
+   * Counts a member out of its formation (caught, or gone with a null
+   * catcher); the formation's bonus goes to a player who caught every member
+   */
+  private leaveFormation(fish: GameFish, catcher: Player | null, reward: number = 0): void {
+    const progress = this.formations.get(fish.school.formation);
+    if (!progress) return;
+
+    progress.left--;
+    progress.rewards += reward;
+    if (!catcher || (progress.catcher !== null && progress.catcher !== catcher.id)) {
+      progress.broken = true;
+    }
+    progress.catcher = catcher?.id ?? null;
+
+    if (progress.left > 0) return;
+    this.formations.delete(fish.school.formation);
+    if (!catcher || progress.broken) return;
+
+    const bonus = catcher.score.formationCleared(progress.size, progress.rewards);
+    if (bonus <= 0) return;
+
+    creditCatch(catcher.state, 0, bonus);
+    this.emit('formation', {
+      playerId: catcher.id,
+      size: progress.size,
+      bonus,
+      point: { x: fish.school.x, y: fish.school.y }
+    });
+  }
+
+  /**
+   * Sends every seated player's breakdown and starts the next round
+   */
+  private endRound(): void {
+    const breakdowns = Object.fromEntries(
+      Array.from(this.players.values(), player => [player.id, player.score.breakdown])
+    );
+    this.emit('roundEnd', { round: this.round, breakdowns });
+
+    this.round++;
+    this.roundEndsMS += SCORING_CONFIG.roundMs;
+    this.players.forEach(player => player.score.startRound(this.round));
+  }
+
+  /**
+   * Schedules the next boss and moves the current one; a boss that swims off
+   * ends the fight without a payout. Probability mode has no bosses, since
+   * every payout there goes through the catch economy.
+   */
+  private updateBoss(deltaMS: number): void {
+    if (!this.boss) {
+      if (this.timeMS >= this.nextBossMS && this.catchMode === 'health') {
+        this.spawnBoss();
+      }
+      return;
+    }
+
+    const boss = this.boss;
+    boss.update(deltaMS);
+    if (boss.gone) {
+      this.endBoss(boss);
+      this.emit('bossEscape', boss.snapshot());
+    }
+  }
+
+  /**
+   * Bosses take damage in both catch modes; there is nothing to roll for
+   */
+  private damageBoss(player: Player, boss: BossFight, damage: number, point: Vec2, source: HitSource, heading: number | null): void {
+    // Beaten earlier this step (e.g. by the same blast)
+    if (this.boss !== boss || boss.defeated) return;
+
+    const result = boss.hit(player.id, damage, point, heading);
+    this.emit('bossHit', {
+      playerId: player.id,
+      boss: boss.snapshot(),
+      damage: result.damage,
+      weakPoint: result.weakPoint,
+      point,
+      source
+    });
+
+    if (boss.defeated) {
+      this.defeatBoss(boss);
+    }
+  }
+
+  /**
+   * Splits the jackpot between the contributors still seated
+   */
+  private defeatBoss(boss: BossFight): void {
+    this.endBoss(boss);
+
+    const seated = Object.fromEntries(
+      Object.entries(boss.getContributions()).filter(([playerId]) => this.players.has(playerId))
+    );
+    const payouts = splitJackpot(boss.definition.jackpot, seated);
+    Object.entries(payouts).forEach(([playerId, amount]) => {
+      const player = this.requirePlayer(playerId);
+      creditCatch(player.state, amount);
+      player.score.jackpot(amount);
+    });
+
+    this.emit('bossDefeated', { boss: boss.snapshot(), payouts, point: { x: boss.x, y: boss.y } });
+    Object.keys(payouts).forEach(playerId => this.emitState(this.requirePlayer(playerId)));
+  }
+
+  private endBoss(boss: BossFight): void {
+    boss.removeAllListeners();
+    this.boss = null;
+    this.collisions.remove(boss.id);
+    this.nextBossMS = this.timeMS + BOSS_CONFIG.spawnIntervalMs;
+  }
+
+  /**
+   * Minions join the school as an ordinary formation around the boss
+   */
+  private summonMinions(minions: BossMinions, origin: Vec2, offsets: Vec2[]): void {
+    const wave: SpawnWave = {
+      pattern: SpawnPattern.LINE,
+      fishCount: minions.count,
+      fishType: minions.species,
+      rarity: minions.rarity,
+      size: minions.size,
+      speed: 1,
+      interval: 0,
+      movementPattern: MovementPattern.STRAIGHT
+    };
+    this.school.summon(wave, origin, offsets).forEach(school => this.addFish(school));
+  }
+
+  private emitState(player: Player): void {
+    this.emit('state', { ...player.state }, player.id);
+  }
+}
@@ -11,160 +11,30 @@
 import * as PIXI from 'pixi.js';
 import { ArtisticFishPixi, FishDNA, FishTemplate } from './ArtisticFishPixi';
 import { FishSwimmingSystem } from './FishSwimmingSystem';
+import { GameClock } from './GameClock';
 import { GeometryCache } from './GeometryCache';
+import { SeededRandom, createSeed } from './SeededRandom';
+import { decodeFishDNA, encodeFishDNA, encodeCompactDNA } from './FishDNACodec';
+import { PATTERNS, MUTATIONS, PatternType, MutationType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { shiftHue } from './colorUtils';
+import { breedFish } from './FishBreeding';
+import { SpeciesRegistry } from './SpeciesRegistry';
+import { FishRenderService, FishImageFormat } from './FishRenderService';
+import { CollectionStore, MemoryCollectionBackend } from './CollectionStore';
+import { AchievementTracker } from './AchievementTracker';
+import { AchievementToasts, QuestPanel } from './AchievementView';
+import { NFTMetadata, NFTMetadataOptions, generateNFTMetadata, formatDesignation, formatTraitName, formatMutationName } from './NFTMetadata';
 
-/**
- * Enhanced rarity configuration
- */
-const RARITY_CONFIG = {
-  common: { 
-    probability: 50, 
-    color: 0xffffff, 
-    glow: 0xcccccc,
-    particleCount: 0,
-    value: 10,
-    designation: 'Series C'
-  },
-  uncommon: { 
-    probability: 30, 
-    color: 0x00ff00, 
-    glow: 0x00ff00,
-    particleCount: 0,
-    value: 50,
-    designation: 'Series U'
-  },
-  rare: { 
-    probability: 13, 
-    color: 0x0099ff, 
-    glow: 0x0099ff,
-    particleCount: 5,
-    value: 200,
-    designation: 'Series R'
-  },
-  epic: { 
-    probability: 5, 
-    color: 0xcc00ff, 
-    glow: 0xcc00ff,
-    particleCount: 10,
-    value: 500,
-    designation: 'Series E'
-  },
-  legendary: { 
-    probability: 1.5, 
-    color: 0xffaa00, 
-    glow: 0xffaa00,
-    particleCount: 15,
-    value: 2000,
-    designation: 'Series L'
-  },
-  mythic: { 
-    probability: 0.4, 
-    color: 0xff00aa, 
-    glow: 0xff00aa,
-    particleCount: 20,
-    value: 10000,
-    designation: 'Series M'
-  },
-  cosmic: { 
-    probability: 0.1, 
-    color: 0xffffff, 
-    glow: 0xffffff,
-    particleCount: 30,
-    value: 100000,
-    designation: 'Series Ω'
-  }
-};
-
-/**
- * Enhanced fish template with artistic properties
- */
-const FISH_TEMPLATES: Record<string, FishTemplate> = {
-  // Existing templates remain the same
-  // Adding new artistic templates
-  
-  architecturalFlow: {
-    name: 'architecturalFlow',
-    displayName: 'Architectural Flow α-01',
-    description: 'Parametric design meets aquatic form',
-    bodyShape: 'architectural',
-    baseColors: {
-      primary: '#2a2a2a',
-      secondary: '#ffffff',
-      accent: '#00ffff',
-      glow: '#00ffff'
-    },
-    features: {
-      bodyRatio: { w: 2.5, h: 1.2 },
-      headCurve: 'parametric',
-      tailType: 'geometric',
-      finStyle: 'minimal',
-      special: ['parametric_surface', 'flow_lines']
-    }
-  },
-  
-  deconstructedEntity: {
-    name: 'deconstructedEntity',
-    displayName: 'Deconstructed Entity δ-77',
-    description: 'Form fragmented across dimensions',
-    bodyShape: 'deconstructed',
-    baseColors: {
-      primary: '#ff0066',
-      secondary: '#0066ff',
-      accent: '#66ff00'
-    },
-    features: {
-      bodyRatio: { w: 2.0, h: 1.5 },
-      headCurve: 'fragmented',
-      tailType: 'dispersed',
-      finStyle: 'floating',
-      special: ['phase_shift', 'fragment_orbit']
-    }
-  },
-  
-  tessellatedCrystal: {
-    name: 'tessellatedCrystal',
-    displayName: 'Tessellated Crystal τ-∞',
-    description: 'Infinite patterns within finite form',
-    bodyShape: 'tessellated',
-    baseColors: {
-      primary: '#9900ff',
-      secondary: '#00ff99',
-      accent: '#ff9900'
-    },
-    features: {
-      bodyRatio: { w: 1.8, h: 1.8 },
-      headCurve: 'crystalline',
-      tailType: 'fractal',
-      finStyle: 'tessellated',
-      special: ['recursive_pattern', 'light_refraction']
-    }
-  },
-  
-  calligraphicEssence: {
-    name: 'calligraphicEssence',
-    displayName: 'Calligraphic Essence 書-001',
-    description: 'Single stroke of digital ink',
-    bodyShape: 'calligraphic',
-    baseColors: {
-      primary: '#000000',
-      secondary: '#ff0000',
-      accent: '#ffffff'
-    },
-    features: {
-      bodyRatio: { w: 3.0, h: 0.8 },
-      headCurve: 'brushstroke',
-      tailType: 'ink_trail',
-      finStyle: 'flowing_ink',
-      special: ['ink_dynamics', 'brush_texture']
-    }
-  }
-};
+// How long a notice stays fully visible before fading
+const NOTICE_HOLD_MS = 3000;
 
 /**
  * Enhanced NFT Gallery Engine
  */
 export class NFTGalleryEngine {
   private app!: PIXI.Application;
+  private clock!: GameClock;
   private mainContainer!: PIXI.Container;
   private aquarium!: PIXI.Container;
   private uiLayer!: PIXI.Container;
@@ -173,6 +43,7 @@ export class NFTGalleryEngine {
   // Enhanced fish management
   private fishes: ArtisticFishPixi[] = [];
   private selectedFish: ArtisticFishPixi | null = null;
+  private breedingPartner: ArtisticFishPixi | null = null;  // Previously selected fish
   private fishLimit: number = 20;
   
   // Swimming system
@@ -184,6 +55,10 @@ export class NFTGalleryEngine {
   private generateButton!: PIXI.Container;
   private galleryButton!: PIXI.Container;
   private statsPanel!: PIXI.Container;
+  private achievementToasts!: AchievementToasts;
+  private noticeText!: PIXI.Text;
+  private noticeShownMS: number = 0;
+  private questPanel!: QuestPanel;
   
   // Water effects
   private waterOverlay!: PIXI.TilingSprite;
@@ -192,7 +67,15 @@ export class NFTGalleryEngine {
   
   // Gallery state
   private isGalleryMode: boolean = false;
-  private gallery: FishDNA[] = [];
+  private collection!: CollectionStore;
+  private galleryPage: number = 0;
+  private galleryPageSize: number = 12;
+
+  // Generating and collecting count toward achievements; claims are banked for the arcade
+  private achievements!: AchievementTracker;
+
+  // Artwork export (created on first download)
+  private renderService: FishRenderService | null = null;
   
   // Performance monitoring
   private performanceStats = {
@@ -224,6 +107,23 @@ export class NFTGalleryEngine {
       hello: false // Disable console message
     });
 
+    // Game time for animation and effects (pausable, scalable)
+    this.clock = new GameClock(this.app.ticker);
+    this.clock.bindVisibility();
+    this.clock.bindKeyboard();
+
+    // Load the persisted collection; if storage can't be opened the gallery
+    // still works, but nothing survives a reload
+    let collectionPersists = true;
+    try {
+      this.collection = await CollectionStore.open();
+    } catch (error) {
+      console.warn('Failed to open collection storage, keeping fish in memory:', error);
+      this.collection = await CollectionStore.open(new MemoryCollectionBackend());
+      collectionPersists = false;
+    }
+    this.achievements = new AchievementTracker();
+
     // Setup container hierarchy
     this.setupContainers();
     
@@ -234,17 +134,21 @@ export class NFTGalleryEngine {
     this.createUI();
     this.createStatsPanel();
     
+    if (!collectionPersists) {
+      this.showNotice('⚠️ Collection storage is unavailable: fish won\'t be saved after you leave', 0xffaa00);
+    }
+    
     // Setup interactions
     this.setupInteractions();
     
     // Start game loop
-    this.app.ticker.add(this.update, this);
+    this.clock.add(this.update, this);
     
     // Handle resize
     window.addEventListener('resize', this.onResize.bind(this));
     
     // Initialize swimming system
-    this.swimmingSystem = new FishSwimmingSystem(this.app, this.aquarium);
+    this.swimmingSystem = new FishSwimmingSystem(this.app, this.aquarium, this.clock);
     
     // Start in swimming mode
     setTimeout(() => {
@@ -444,9 +348,9 @@ export class NFTGalleryEngine {
     this.backgroundLayer.addChild(particleContainer);
     
     // Animate particles
-    this.app.ticker.add((t: PIXI.Ticker) => {
+    this.clock.add((clock: GameClock) => {
       particles.forEach((particle: any) => {
-        particle.y -= particle.speed * t.deltaTime;
+        particle.y -= particle.speed * clock.deltaTime;
         particle.x += Math.sin(particle.y * 0.01) * particle.wobble;
         
         if (particle.y < -50) {
@@ -544,16 +448,17 @@ export class NFTGalleryEngine {
 
   /**
    * Enhanced fish generation with new artistic properties
+   * All randomness comes from the seed, so the same seed always yields the same DNA
    */
-  private generateFishDNA(): FishDNA {
-    // Expanded template selection including new artistic ones
-    const allTemplates = { ...FISH_TEMPLATES };
-    const templateKeys = Object.keys(allTemplates);
-    const templateKey = templateKeys[Math.floor(Math.random() * templateKeys.length)];
-    const template = allTemplates[templateKey];
+  public generateFishDNA(seed: string = createSeed()): FishDNA {
+    const rng = new SeededRandom(seed);
+    
+    // Any catalog species can become an artefact
+    const template = SpeciesRegistry.pick(rng);
+    const templateKey = template.name;
     
     // Calculate rarity
-    const rarity = this.calculateRarity();
+    const rarity = this.calculateRarity(rng);
     
     // Generate colors with mutations
     const colors: FishDNA['colors'] = { 
@@ -564,47 +469,42 @@ export class NFTGalleryEngine {
     
     // Enhanced color generation
     if (rarity !== 'common') {
-      const hueShift = Math.random() * 360;
-      colors.primary = this.shiftHue(colors.primary, hueShift);
-      colors.secondary = this.shiftHue(colors.secondary, hueShift);
-      colors.accent = this.shiftHue(colors.accent, hueShift);
+      const hueShift = rng.range(0, 360);
+      colors.primary = shiftHue(colors.primary, hueShift);
+      colors.secondary = shiftHue(colors.secondary, hueShift);
+      colors.accent = shiftHue(colors.accent, hueShift);
       
-      if (['legendary', 'mythic', 'cosmic'].includes(rarity)) {
-        colors.glow = '#' + RARITY_CONFIG[rarity].glow.toString(16).padStart(6, '0');
+      if (RarityRegistry.isAtLeast(rarity, 'legendary')) {
+        colors.glow = '#' + RarityRegistry.get(rarity).glow.toString(16).padStart(6, '0');
       }
     }
     
     // Enhanced pattern selection
-    const patterns = [
-      'stripes', 'dots', 'scales', 'waves', 'spirals',
-      'fractals', 'circuits', 'crystals', 'stars', 'void',
-      'gradient', 'noise', 'geometric', 'organic', 'mystic',
-      'chevron', 'hexagonal', 'spiral', 'digital', 'glitch'
-    ];
-    const pattern = patterns[Math.floor(Math.random() * patterns.length)];
+    const patterns = Object.keys(PATTERNS) as PatternType[];
+    const pattern = rng.pick(patterns);
     
     // Surface type for artistic fish
     let surfaceType: FishDNA['surfaceType'] | undefined;
     if (['architectural', 'deconstructed', 'tessellated', 'calligraphic'].includes(template.bodyShape)) {
       const surfaces: FishDNA['surfaceType'][] = ['matte', 'procedural_noise', 'glitch_sort', 'liquid_metal'];
-      surfaceType = surfaces[Math.floor(Math.random() * surfaces.length)];
+      surfaceType = rng.pick(surfaces);
     }
     
     // Art style
     const artStyles: Array<FishDNA['artStyle']> = ['minimalist', 'baroque', 'abstract', 'organic'];
-    const artStyle = artStyles[Math.floor(Math.random() * artStyles.length)];
+    const artStyle = rng.pick(artStyles);
     
     // Dynamic color for rare fish
-    const dynamicColor = ['legendary', 'mythic', 'cosmic'].includes(rarity) && Math.random() > 0.5;
+    const dynamicColor = RarityRegistry.isAtLeast(rarity, 'legendary') && rng.next() > 0.5;
     
     // Generate traits
-    const traits = this.generateTraits(template, rarity);
+    const traits = this.generateTraits(template, rarity, rng);
     
     // Generate mutations
-    const mutations = this.generateMutations(rarity);
+    const mutations = this.generateMutations(rarity, rng);
     
     return {
-      id: `ARTEFACT-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
+      id: `ARTEFACT-${seed}`,
       species: templateKey,
       bodyShape: template.bodyShape,
       pattern,
@@ -614,16 +514,71 @@ export class NFTGalleryEngine {
       traits: [...new Set(traits)],
       mutations,
       genes: {
-        size: 0.8 + Math.random() * 0.4,
-        speed: 0.5 + Math.random() * 0.5,
-        aggression: Math.random(),
-        intelligence: Math.random()
+        size: rng.range(0.8, 1.2),
+        speed: rng.range(0.5, 1.0),
+        aggression: rng.next(),
+        intelligence: rng.next()
       },
       artStyle,
-      dynamicColor
+      dynamicColor,
+      seed
     };
   }
 
+  /**
+   * Regenerates a fish bit-for-bit from its seed or artefact id
+   */
+  public regenerateFishDNA(seedOrId: string): FishDNA {
+    const seed = seedOrId.startsWith('ARTEFACT-') ? seedOrId.slice('ARTEFACT-'.length) : seedOrId;
+    return this.generateFishDNA(seed);
+  }
+
+  /**
+   * Serializes a fish for sharing with other tools
+   */
+  public exportFishDNA(dna: FishDNA, compact: boolean = true): string {
+    return compact ? encodeCompactDNA(dna) : encodeFishDNA(dna);
+  }
+
+  /**
+   * Token metadata for a fish, with the same naming as the info panel
+   */
+  public exportFishMetadata(dna: FishDNA, options: NFTMetadataOptions = {}): NFTMetadata {
+    return generateNFTMetadata(dna, options);
+  }
+
+  /**
+   * Decodes shared DNA, adds it to the gallery and spawns it
+   * Throws DNAValidationError with the full issue list if the DNA is malformed
+   */
+  public importFishDNA(encoded: string): FishDNA {
+    const dna = decodeFishDNA(encoded);
+
+    this.saveToCollection(dna);
+    this.spawnFromGallery(dna);
+    return dna;
+  }
+
+  /**
+   * The persisted gallery collection (favorites, tags, names, bulk import/export)
+   */
+  public getCollection(): CollectionStore {
+    return this.collection;
+  }
+
+  /**
+   * Adds a fish to the collection; persistence failures are logged, not thrown
+   */
+  private saveToCollection(dna: FishDNA): void {
+    this.collection.add(dna)
+      .then(() => {
+        this.achievements.checkCategories(this.collection.query().entries.map(entry => entry.dna.species));
+      })
+      .catch(error => {
+        console.error('Failed to save fish to collection:', error);
+      });
+  }
+
   /**
    * Enhanced info panel with new naming conventions
    */
@@ -633,12 +588,12 @@ export class NFTGalleryEngine {
       this.infoPanel.removeChildAt(1);
     }
     
-    const template = FISH_TEMPLATES[fish.dna.species] || FISH_TEMPLATES.architecturalFlow;
-    const rarityConfig = RARITY_CONFIG[fish.dna.rarity];
+    const template = SpeciesRegistry.resolve(fish.dna.species);
+    const rarityConfig = RarityRegistry.get(fish.dna.rarity);
     
     // Designation (new naming convention)
     const designation = new PIXI.Text({
-      text: `${rarityConfig.designation}-${fish.dna.id.substr(-3)}`,
+      text: formatDesignation(fish.dna),
       style: {
         fontFamily: 'monospace',
         fontSize: 20,
@@ -715,7 +670,7 @@ export class NFTGalleryEngine {
     let yPos = 150;
     fish.dna.traits.forEach(trait => {
       const traitText = new PIXI.Text({
-        text: `• ${this.formatTraitName(trait)}`,
+        text: `• ${formatTraitName(trait)}`,
         style: {
           fontFamily: 'Arial',
           fontSize: 12,
@@ -744,7 +699,7 @@ export class NFTGalleryEngine {
       
       fish.dna.mutations.forEach(mutation => {
         const mutationText = new PIXI.Text({
-          text: `✧ ${this.formatMutationName(mutation)}`,
+          text: `✧ ${formatMutationName(mutation)}`,
           style: {
             fontFamily: 'Arial',
             fontSize: 12,
@@ -771,32 +726,105 @@ export class NFTGalleryEngine {
     value.position.set(20, yPos);
     this.infoPanel.addChild(value);
     
+    // Lineage for bred fish
+    if (fish.dna.lineage) {
+      yPos += 25;
+      const parents = fish.dna.lineage.parents.map(id => `  ← ${this.describeParent(id)}`);
+      const lineage = new PIXI.Text({
+        text: [`Lineage: Gen ${fish.dna.lineage.generation}`, ...parents].join('\n'),
+        style: {
+          fontFamily: 'monospace',
+          fontSize: 12,
+          fill: 0x00ccff
+        }
+      });
+      lineage.position.set(20, yPos);
+      this.infoPanel.addChild(lineage);
+      // One parent per line; keep the buttons below them
+      yPos += lineage.height - 15;
+    }
+
+    // Artwork download
+    yPos += 30;
+    (['png', 'webp'] as FishImageFormat[]).forEach((format, index) => {
+      const download = new PIXI.Text({
+        text: `⬇ ${format.toUpperCase()}`,
+        style: {
+          fontFamily: 'Arial',
+          fontSize: 14,
+          fontWeight: 'bold',
+          fill: 0x00ff88
+        }
+      });
+      download.position.set(20 + index * 90, yPos);
+      download.eventMode = 'static';
+      download.cursor = 'pointer';
+      download.on('pointerdown', () => this.downloadFishArtwork(fish.dna, format));
+      this.infoPanel.addChild(download);
+    });
+
+    // Favorite toggle
+    const favorite = new PIXI.Text({
+      text: this.collection.get(fish.dna.id)?.favorite ? '★ Favorite' : '☆ Favorite',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 14,
+        fontWeight: 'bold',
+        fill: 0xffd700
+      }
+    });
+    favorite.position.set(200, yPos);
+    favorite.eventMode = 'static';
+    favorite.cursor = 'pointer';
+    favorite.on('pointerdown', async () => {
+      if (!this.collection.has(fish.dna.id)) {
+        await this.collection.add(fish.dna);
+      }
+      const entry = await this.collection.toggleFavorite(fish.dna.id);
+      favorite.text = entry?.favorite ? '★ Favorite' : '☆ Favorite';
+    });
+    this.infoPanel.addChild(favorite);
+    
     this.infoPanel.visible = true;
   }
 
   /**
-   * Formats trait names for display
+   * Downloads the fish artwork on an ocean background
    */
-  private formatTraitName(trait: string): string {
-    const formatted = trait.replace(/_/g, ' ');
-    return formatted.charAt(0).toUpperCase() + formatted.slice(1);
+  public async downloadFishArtwork(dna: FishDNA, format: FishImageFormat = 'png'): Promise<void> {
+    if (!this.renderService) {
+      this.renderService = new FishRenderService(this.app.renderer);
+    }
+
+    try {
+      await this.renderService.download(dna, { format, background: 'ocean' });
+    } catch (error) {
+      console.error('Failed to export fish artwork:', error);
+    }
   }
 
   /**
-   * Formats mutation names for display
+   * Names a parent for the lineage line: its collection name, or its species
+   * and the random part of its id when it has none
    */
-  private formatMutationName(mutation: string): string {
-    const formatted = mutation.replace(/-/g, ' ').replace(/_/g, ' ');
-    return formatted.split(' ').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ');
+  private describeParent(id: string): string {
+    const entry = this.collection.get(id);
+    if (entry?.name) {
+      return entry.name;
+    }
+    const dna = entry?.dna ?? this.fishes.find(fish => fish.dna.id === id)?.dna;
+    const suffix = `#${id.slice(-9)}`;
+    return dna ? `${SpeciesRegistry.resolve(dna.species).displayName} ${suffix}` : suffix;
   }
 
   /**
    * Main update loop with optimizations
    */
-  private update(ticker: PIXI.Ticker): void {
-    const deltaTime = ticker.deltaTime;
+  private update(clock: GameClock): void {
+    const deltaTime = clock.deltaTime;
+    
+    this.achievementToasts.tick(clock.deltaMS);
+    this.updateNotice(clock);
     
     // Animate water
     if (this.displacementSprite) {
@@ -838,7 +866,33 @@ export class NFTGalleryEngine {
   /**
    * Generates a new artistic fish with enhancements
    */
-  private generateNewFish(): void {
+  private generateNewFish(): FishDNA {
+    const dna = this.generateFishDNA();
+    this.addFish(dna);
+    return dna;
+  }
+
+  /**
+   * Breeds the selected fish with the previously selected one
+   */
+  private breedSelectedFish(): void {
+    const parentA = this.selectedFish;
+    const parentB = this.breedingPartner && this.fishes.includes(this.breedingPartner)
+      ? this.breedingPartner
+      : this.fishes.find(fish => fish !== parentA);
+    
+    if (!parentA || !parentB) {
+      this.showNotice('Breeding needs two fish: select one, then another', 0xffaa00);
+      return;
+    }
+    
+    this.addFish(breedFish(parentA.dna, parentB.dna));
+  }
+
+  /**
+   * Adds a fish to the aquarium and gallery, evicting the oldest if full
+   */
+  private addFish(dna: FishDNA): void {
     if (this.fishes.length >= this.fishLimit) {
       // Remove oldest fish
       const oldFish = this.fishes.shift();
@@ -848,7 +902,6 @@ export class NFTGalleryEngine {
       }
     }
     
-    const dna = this.generateFishDNA();
     const fish = new ArtisticFishPixi(dna, this.app);
     
     // Set as static for performance if in gallery mode
@@ -867,17 +920,14 @@ export class NFTGalleryEngine {
     this.fishes.push(fish);
     
     // Add to gallery
-    this.gallery.unshift(dna);
-    if (this.gallery.length > 50) {
-      this.gallery.pop();
-    }
+    this.saveToCollection(dna);
     
     // Auto-select new fish
     this.selectFish(fish);
     
     // Special effect for rare fish
-    if (['legendary', 'mythic', 'cosmic'].includes(dna.rarity)) {
-      this.createSpawnEffect(fish.position, RARITY_CONFIG[dna.rarity].color);
+    if (RarityRegistry.isAtLeast(dna.rarity, 'legendary')) {
+      this.createSpawnEffect(fish.position, RarityRegistry.get(dna.rarity).color);
     }
   }
 
@@ -898,18 +948,18 @@ export class NFTGalleryEngine {
       
       // Animate with GPU acceleration
       const delay = i * 100;
-      setTimeout(() => {
-        const startTime = Date.now();
-        const ticker = (t: PIXI.Ticker) => {
-          const elapsed = Date.now() - startTime;
-          const progress = elapsed / 1000;
+      this.clock.setTimeout(() => {
+        let elapsed = 0;
+        const ticker = (clock: GameClock) => {
+          elapsed += clock.deltaMS;
+          const progress = Math.min(1, elapsed / 1000);
           
           ring.scale.set(1 + progress * 3);
           ring.alpha = 1 - progress;
           
           if (progress >= 1) {
             effect.removeChild(ring);
-            this.app.ticker.remove(ticker);
+            this.clock.remove(ticker);
             
             if (effect.children.length === 0) {
               this.mainContainer.removeChild(effect);
@@ -917,12 +967,12 @@ export class NFTGalleryEngine {
           }
         };
         
-        this.app.ticker.add(ticker);
+        this.clock.add(ticker);
       }, delay);
     }
     
     // Add particle burst for cosmic fish
-    if (color === RARITY_CONFIG.cosmic.color) {
+    if (color === RarityRegistry.get('cosmic').color) {
       this.createCosmicBurst(position);
     }
     
@@ -951,21 +1001,21 @@ export class NFTGalleryEngine {
       this.mainContainer.addChild(particle);
       
       // Animate particle
-      const ticker = (t: PIXI.Ticker) => {
-        particle.x += vx * t.deltaTime * 0.06;
-        particle.y += vy * t.deltaTime * 0.06;
-        particle.alpha -= 0.02 * t.deltaTime * 0.06;
+      const ticker = (clock: GameClock) => {
+        particle.x += vx * clock.deltaTime * 0.06;
+        particle.y += vy * clock.deltaTime * 0.06;
+        particle.alpha -= 0.02 * clock.deltaTime * 0.06;
         particle.scale.x *= 0.98;
         particle.scale.y *= 0.98;
-        particle.rotation += 0.1 * t.deltaTime * 0.06;
+        particle.rotation += 0.1 * clock.deltaTime * 0.06;
         
         if (particle.alpha <= 0) {
           this.mainContainer.removeChild(particle);
-          this.app.ticker.remove(ticker);
+          this.clock.remove(ticker);
         }
       };
       
-      this.app.ticker.add(ticker);
+      this.clock.add(ticker);
     }
   }
 
@@ -999,12 +1049,15 @@ export class NFTGalleryEngine {
       '✨ Generate Digital Artefact',
       50,
       50,
-      () => this.generateNewFish()
+      () => {
+        // Only fish the player asked for count toward achievements
+        const dna = this.generateNewFish();
+        this.achievements.record({ type: 'generate', species: dna.species, rarity: dna.rarity });
+      }
     );
     this.uiLayer.addChild(this.generateButton);
     
-    // Gallery button (commented out to disable gallery)
-    /*
+    // Gallery button
     this.galleryButton = this.createButton(
       '🖼️ Collection Archive',
       50,
@@ -1012,13 +1065,12 @@ export class NFTGalleryEngine {
       () => this.toggleGallery()
     );
     this.uiLayer.addChild(this.galleryButton);
-    */
     
-    // Spawner mode button (moved up since gallery is disabled)
+    // Spawner mode button
     const swimmingButton = this.createButton(
       '🌊 Toggle Ecosystem',
       50,
-      120, // Was 190
+      190,
       () => this.toggleSwimmingMode()
     );
     this.uiLayer.addChild(swimmingButton);
@@ -1027,19 +1079,37 @@ export class NFTGalleryEngine {
     const perfButton = this.createButton(
       '📊 Performance Stats',
       50,
-      190, // Was 260
+      260,
       () => {
         this.statsPanel.visible = !this.statsPanel.visible;
       }
     );
     this.uiLayer.addChild(perfButton);
     
+    // Breed the selected fish with the previous selection
+    const breedButton = this.createButton(
+      '🧬 Breed',
+      50,
+      330,
+      () => this.breedSelectedFish()
+    );
+    this.uiLayer.addChild(breedButton);
+    
+    // Quests and achievements; rewards claimed here are paid out in the arcade
+    const questButton = this.createButton(
+      '🏆 Quests',
+      50,
+      400,
+      () => this.questPanel.toggle()
+    );
+    this.uiLayer.addChild(questButton);
+    
     // Debug button to test swimming
     if (process.env.NODE_ENV !== 'production') {
       const debugButton = this.createButton(
         '🐟 Debug Paths',
         50,
-        260,
+        470,
         () => {
           if (this.isSwimmingMode && this.swimmingSystem) {
             const currentDebug = (this.swimmingSystem as any).debugMode || false;
@@ -1053,6 +1123,28 @@ export class NFTGalleryEngine {
     
     // Info panel
     this.createInfoPanel();
+    
+    this.questPanel = new QuestPanel(this.app.screen.width, this.app.screen.height, this.achievements);
+    this.uiLayer.addChild(this.questPanel);
+    this.noticeText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 22,
+        fontWeight: 'bold',
+        fill: 0xffffff,
+        stroke: { color: 0x000000, width: 4 }
+      }
+    });
+    this.noticeText.anchor.set(0.5, 0);
+    this.noticeText.position.set(this.app.screen.width / 2, 30);
+    this.noticeText.visible = false;
+    this.uiLayer.addChild(this.noticeText);
+    
+    this.achievementToasts = new AchievementToasts(this.app.screen.width, id => this.achievements.claim(id));
+    this.uiLayer.addChild(this.achievementToasts);
+    this.achievements.on('unlock', achievement => this.achievementToasts.show('Achievement unlocked', achievement.definition));
+    this.achievements.on('questComplete', quest => this.achievementToasts.show('Quest complete', quest.definition));
   }
 
   /**
@@ -1118,6 +1210,33 @@ export class NFTGalleryEngine {
     return button;
   }
 
+  /**
+   * Short message across the top of the screen that fades out
+   * Replaces any notice still showing
+   */
+  private showNotice(message: string, color: number = 0xffffff): void {
+    this.noticeText.text = message;
+    this.noticeText.style.fill = color;
+    this.noticeText.alpha = 1;
+    this.noticeText.visible = true;
+    this.noticeShownMS = 0;
+  }
+
+  /**
+   * Holds the notice for a few seconds, then fades it
+   */
+  private updateNotice(clock: GameClock): void {
+    if (!this.noticeText.visible) return;
+    
+    this.noticeShownMS += clock.deltaMS;
+    if (this.noticeShownMS > NOTICE_HOLD_MS) {
+      this.noticeText.alpha -= 0.03 * clock.deltaTime;
+      if (this.noticeText.alpha <= 0) {
+        this.noticeText.visible = false;
+      }
+    }
+  }
+
   /**
    * Creates info panel
    */
@@ -1180,6 +1299,9 @@ export class NFTGalleryEngine {
       }
     }
     
+    if (this.selectedFish && this.selectedFish !== fish) {
+      this.breedingPartner = this.selectedFish;
+    }
     this.selectedFish = fish;
     
     // Scale up selected fish
@@ -1217,6 +1339,7 @@ export class NFTGalleryEngine {
       
       // Clear selection
       this.selectedFish = null;
+      this.breedingPartner = null;
       
       // Hide info panel
       this.infoPanel.visible = false;
@@ -1344,7 +1467,7 @@ export class NFTGalleryEngine {
     // Only generate static fish if not in swimming mode
     if (!this.isSwimmingMode) {
       for (let i = 0; i < 5; i++) {
-        setTimeout(() => this.generateNewFish(), i * 200);
+        this.clock.setTimeout(() => this.generateNewFish(), i * 200);
       }
     }
   }
@@ -1352,24 +1475,14 @@ export class NFTGalleryEngine {
   /**
    * Calculates rarity based on weighted probabilities
    */
-  private calculateRarity(): FishDNA['rarity'] {
-    const roll = Math.random() * 100;
-    let cumulative = 0;
-    
-    for (const [rarity, config] of Object.entries(RARITY_CONFIG)) {
-      cumulative += config.probability;
-      if (roll < cumulative) {
-        return rarity as FishDNA['rarity'];
-      }
-    }
-    
-    return 'common';
+  private calculateRarity(rng: SeededRandom): FishDNA['rarity'] {
+    return RarityRegistry.roll(rng);
   }
 
   /**
    * Generates traits with enhanced variety
    */
-  private generateTraits(template: FishTemplate, rarity: string): string[] {
+  private generateTraits(template: FishTemplate, rarity: string, rng: SeededRandom): string[] {
     const traits = [...(template.features.special || [])];
     
     // Enhanced rarity-specific traits
@@ -1390,7 +1503,7 @@ export class NFTGalleryEngine {
       );
       
       for (let i = 0; i < traitCount; i++) {
-        const trait = availableTraits[Math.floor(Math.random() * availableTraits.length)];
+        const trait = rng.pick(availableTraits);
         if (!traits.includes(trait)) {
           traits.push(trait);
         }
@@ -1403,21 +1516,15 @@ export class NFTGalleryEngine {
   /**
    * Generates mutations with enhanced variety
    */
-  private generateMutations(rarity: string): string[] {
-    const mutations: string[] = [];
-    const possibleMutations = [
-      'albino', 'melanistic', 'iridescent', 'translucent',
-      'bioluminescent', 'prismatic', 'chromatic', 'metallic',
-      'holographic', 'quantum', 'ethereal', 'celestial',
-      'void-touched', 'crystal-infused', 'plasma-charged',
-      'nano-enhanced', 'photonic', 'dark-matter', 'antimatter'
-    ];
+  private generateMutations(rarity: string, rng: SeededRandom): string[] {
+    const mutations: MutationType[] = [];
+    const possibleMutations = Object.keys(MUTATIONS) as MutationType[];
     
     const mutationCounts: Record<string, number> = {
       common: 0,
-      uncommon: Math.random() > 0.7 ? 1 : 0,
+      uncommon: rng.next() > 0.7 ? 1 : 0,
       rare: 1,
-      epic: 1 + (Math.random() > 0.5 ? 1 : 0),
+      epic: 1 + (rng.next() > 0.5 ? 1 : 0),
       legendary: 2,
       mythic: 3,
       cosmic: 4
@@ -1426,7 +1533,7 @@ export class NFTGalleryEngine {
     const count = mutationCounts[rarity] || 0;
     
     for (let i = 0; i < count; i++) {
-      const mutation = possibleMutations[Math.floor(Math.random() * possibleMutations.length)];
+      const mutation = rng.pick(possibleMutations);
       if (!mutations.includes(mutation)) {
         mutations.push(mutation);
       }
@@ -1533,11 +1640,18 @@ export class NFTGalleryEngine {
     const cellSize = 120;
     const padding = 15;
     
-    this.gallery.forEach((fishDNA, index) => {
+    const pageCount = Math.max(1, Math.ceil(this.collection.size / this.galleryPageSize));
+    this.galleryPage = Math.min(this.galleryPage, pageCount - 1);
+    const page = this.collection.query({
+      offset: this.galleryPage * this.galleryPageSize,
+      limit: this.galleryPageSize
+    });
+    
+    page.entries.forEach((entry, index) => {
       const col = index % gridCols;
       const row = Math.floor(index / gridCols);
       
-      const cell = this.createGalleryCell(fishDNA);
+      const cell = this.createGalleryCell(entry.dna, entry.favorite);
       cell.position.set(
         col * (cellSize + padding),
         row * (cellSize + padding)
@@ -1547,15 +1661,72 @@ export class NFTGalleryEngine {
     });
     
     galleryContainer.addChild(scrollContainer);
+    
+    // Pagination
+    if (pageCount > 1) {
+      const pager = this.createGalleryPager(pageCount);
+      pager.position.set(this.app.screen.width / 2, panelY + panelHeight - 30);
+      galleryContainer.addChild(pager);
+    }
+    
     this.uiLayer.addChild(galleryContainer);
   }
 
+  /**
+   * Creates the ◀ page / count ▶ control under the gallery grid
+   */
+  private createGalleryPager(pageCount: number): PIXI.Container {
+    const pager = new PIXI.Container();
+    const style = {
+      fontFamily: 'Arial',
+      fontSize: 18,
+      fontWeight: 'bold' as const,
+      fill: 0xffffff
+    };
+    
+    const label = new PIXI.Text({
+      text: `${this.galleryPage + 1} / ${pageCount}`,
+      style
+    });
+    label.anchor.set(0.5);
+    pager.addChild(label);
+    
+    const arrows: [string, number, number][] = [['◀', -80, -1], ['▶', 80, 1]];
+    arrows.forEach(([text, x, step]) => {
+      const target = this.galleryPage + step;
+      const arrow = new PIXI.Text({ text, style });
+      arrow.anchor.set(0.5);
+      arrow.position.set(x, 0);
+      
+      if (target < 0 || target >= pageCount) {
+        arrow.alpha = 0.3;
+      } else {
+        arrow.eventMode = 'static';
+        arrow.cursor = 'pointer';
+        arrow.on('pointerdown', () => this.showGalleryPage(target));
+      }
+      
+      pager.addChild(arrow);
+    });
+    
+    return pager;
+  }
+
+  /**
+   * Rebuilds the open gallery on another page
+   */
+  private showGalleryPage(page: number): void {
+    this.removeGalleryView();
+    this.galleryPage = page;
+    this.showGallery();
+  }
+
   /**
    * Creates gallery cell
    */
-  private createGalleryCell(fishDNA: FishDNA): PIXI.Container {
+  private createGalleryCell(fishDNA: FishDNA, favorite: boolean = false): PIXI.Container {
     const cell = new PIXI.Container();
-    const rarityConfig = RARITY_CONFIG[fishDNA.rarity];
+    const rarityConfig = RarityRegistry.get(fishDNA.rarity);
     
     // Smaller cell size
     const cellWidth = 110;
@@ -1583,7 +1754,7 @@ export class NFTGalleryEngine {
     
     // Designation label
     const designationLabel = new PIXI.Text({
-      text: `${rarityConfig.designation}-${fishDNA.id.substr(-3)}`,
+      text: formatDesignation(fishDNA),
       style: {
         fontFamily: 'monospace',
         fontSize: 10,
@@ -1595,6 +1766,19 @@ export class NFTGalleryEngine {
     designationLabel.position.set(cellWidth / 2, cellHeight - 15);
     cell.addChild(designationLabel);
     
+    if (favorite) {
+      const star = new PIXI.Text({
+        text: '★',
+        style: {
+          fontFamily: 'Arial',
+          fontSize: 14,
+          fill: 0xffd700
+        }
+      });
+      star.position.set(6, 4);
+      cell.addChild(star);
+    }
+    
     // Make interactive
     cell.eventMode = 'static';
     cell.cursor = 'pointer';
@@ -1621,6 +1805,16 @@ export class NFTGalleryEngine {
    * Hides gallery
    */
   private hideGallery(): void {
+    this.removeGalleryView();
+    
+    this.aquarium.visible = true;
+    this.isGalleryMode = false;
+  }
+
+  /**
+   * Removes the gallery panel from the UI layer
+   */
+  private removeGalleryView(): void {
     const gallery = this.uiLayer.children.find(child => 
       (child as any).label === 'gallery'
     );
@@ -1628,9 +1822,6 @@ export class NFTGalleryEngine {
       this.uiLayer.removeChild(gallery);
       gallery.destroy({ children: true });
     }
-    
-    this.aquarium.visible = true;
-    this.isGalleryMode = false;
   }
 
   /**
@@ -1649,8 +1840,8 @@ export class NFTGalleryEngine {
     
     this.selectFish(fish);
     
-    if (['legendary', 'mythic', 'cosmic'].includes(fishDNA.rarity)) {
-      this.createSpawnEffect(fish.position, RARITY_CONFIG[fishDNA.rarity].color);
+    if (RarityRegistry.isAtLeast(fishDNA.rarity, 'legendary')) {
+      this.createSpawnEffect(fish.position, RarityRegistry.get(fishDNA.rarity).color);
     }
   }
 
@@ -1700,82 +1891,6 @@ export class NFTGalleryEngine {
     }
   }
 
-  /**
-   * Color utility functions
-   */
-  private shiftHue(hex: string, shift: number): string {
-    const rgb = this.hexToRgb(hex);
-    const hsl = this.rgbToHsl(rgb.r, rgb.g, rgb.b);
-    hsl.h = (hsl.h + shift) % 360;
-    const newRgb = this.hslToRgb(hsl.h, hsl.s, hsl.l);
-    return `#${newRgb.r.toString(16).padStart(2, '0')}${newRgb.g.toString(16).padStart(2, '0')}${newRgb.b.toString(16).padStart(2, '0')}`;
-  }
-
-  private hexToRgb(hex: string): { r: number; g: number; b: number } {
-    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-    return result ? {
-      r: parseInt(result[1], 16),
-      g: parseInt(result[2], 16),
-      b: parseInt(result[3], 16)
-    } : { r: 255, g: 255, b: 255 };
-  }
-
-  private rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
-    r /= 255;
-    g /= 255;
-    b /= 255;
-    
-    const max = Math.max(r, g, b), min = Math.min(r, g, b);
-    let h = 0, s = 0, l = (max + min) / 2;
-    
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-      
-      switch (max) {
-        case r: h = ((g - b) / d + (g < b ? 6 : 0)) / 6; break;
-        case g: h = ((b - r) / d + 2) / 6; break;
-        case b: h = ((r - g) / d + 4) / 6; break;
-      }
-    }
-    
-    return { h: h * 360, s: s * 100, l: l * 100 };
-  }
-
-  private hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
-    h /= 360;
-    s /= 100;
-    l /= 100;
-    
-    let r, g, b;
-    
-    if (s === 0) {
-      r = g = b = l;
-    } else {
-      const hue2rgb = (p: number, q: number, t: number) => {
-        if (t < 0) t += 1;
-        if (t > 1) t -= 1;
-        if (t < 1/6) return p + (q - p) * 6 * t;
-        if (t < 1/2) return q;
-        if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-        return p;
-      };
-      
-      const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-      const p = 2 * l - q;
-      
-      r = hue2rgb(p, q, h + 1/3);
-      g = hue2rgb(p, q, h);
-      b = hue2rgb(p, q, h - 1/3);
-    }
-    
-    return {
-      r: Math.round(r * 255),
-      g: Math.round(g * 255),
-      b: Math.round(b * 255)
-    };
-  }
-
   /**
    * Cleanup
    */
@@ -1785,6 +1900,9 @@ export class NFTGalleryEngine {
     // Clear caches
     GeometryCache.clearCache();
     
+    this.clock?.destroy();
+    this.achievements?.removeAllListeners();
+    
     // Destroy app
     this.app.destroy(true);
   }
@@ -0,0 +1,279 @@
+/**
+ * NFTMetadata.ts
+ *
+ * ERC-721 / OpenSea-style token metadata for FishDNA
+ * Shares the display formatting the gallery info panel uses, and ships a JSON
+ * Schema for the output along with a validator for it
+ *
+ * @version 1.0.0
+ * @path app/lib/NFTMetadata.ts
+ */
+
+import { FishDNA } from './ArtisticFishPixi';
+import { GENE_RANGES, PATTERNS, GeneType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { SpeciesRegistry } from './SpeciesRegistry';
+
+/**
+ * One entry of the `attributes` array
+ * Numeric attributes set `display_type` so marketplaces render them as stats
+ */
+export interface NFTAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: 'number' | 'boost_number' | 'boost_percentage';
+  max_value?: number;
+}
+
+export interface NFTMetadata {
+  name: string;
+  description: string;
+  image: string;
+  external_url?: string;
+  background_color?: string;  // Hex without the leading '#'
+  attributes: NFTAttribute[];
+}
+
+export interface NFTMetadataOptions {
+  // Resolves where the rendered artwork lives (defaults to `<id>.png` next to the JSON)
+  imageUri?: (dna: FishDNA) => string;
+  externalUrl?: (dna: FishDNA) => string;
+  backgroundColor?: string;
+}
+
+const GENE_LABELS: Record<GeneType, string> = {
+  size: 'Size',
+  speed: 'Speed',
+  aggression: 'Aggression',
+  intelligence: 'Intelligence'
+};
+
+/**
+ * Formats trait names for display
+ */
+export function formatTraitName(trait: string): string {
+  const formatted = trait.replace(/_/g, ' ');
+  return formatted.charAt(0).toUpperCase() + formatted.slice(1);
+}
+
+/**
+ * Formats mutation names for display
+ */
+export function formatMutationName(mutation: string): string {
+  const formatted = mutation.replace(/-/g, ' ').replace(/_/g, ' ');
+  return formatted.split(' ').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1)
+  ).join(' ');
+}
+
+/**
+ * Series designation shown as the fish's name, e.g. `Series L-4F2`
+ */
+export function formatDesignation(dna: FishDNA): string {
+  return `${RarityRegistry.get(dna.rarity).designation}-${dna.id.slice(-3)}`;
+}
+
+/**
+ * Maps a fish to token metadata
+ */
+export function generateNFTMetadata(dna: FishDNA, options: NFTMetadataOptions = {}): NFTMetadata {
+  const species = SpeciesRegistry.resolve(dna.species);
+  const rarity = RarityRegistry.get(dna.rarity);
+  const pattern = Object.prototype.hasOwnProperty.call(PATTERNS, dna.pattern)
+    ? PATTERNS[dna.pattern as keyof typeof PATTERNS].name
+    : formatTraitName(dna.pattern);
+
+  const attributes: NFTAttribute[] = [
+    { trait_type: 'Rarity', value: formatTraitName(dna.rarity) },
+    { trait_type: 'Series', value: rarity.designation },
+    { trait_type: 'Species', value: species.displayName },
+    { trait_type: 'Body Shape', value: formatTraitName(dna.bodyShape) },
+    { trait_type: 'Pattern', value: pattern }
+  ];
+
+  if (dna.surfaceType) {
+    attributes.push({ trait_type: 'Surface Type', value: formatMutationName(dna.surfaceType) });
+  }
+  if (dna.artStyle) {
+    attributes.push({ trait_type: 'Art Style', value: formatTraitName(dna.artStyle) });
+  }
+
+  (Object.keys(GENE_RANGES) as GeneType[]).forEach(gene => {
+    attributes.push({
+      trait_type: GENE_LABELS[gene],
+      value: Math.round(dna.genes[gene] * 100) / 100,
+      display_type: 'number',
+      max_value: GENE_RANGES[gene][1]
+    });
+  });
+
+  if (dna.lineage) {
+    attributes.push({ trait_type: 'Generation', value: dna.lineage.generation, display_type: 'number' });
+  }
+
+  // Repeated trait_types are how marketplaces model multi-valued traits
+  dna.traits.forEach(trait => {
+    attributes.push({ trait_type: 'Trait', value: formatTraitName(trait) });
+  });
+  dna.mutations.forEach(mutation => {
+    attributes.push({ trait_type: 'Enhancement', value: formatMutationName(mutation) });
+  });
+
+  const metadata: NFTMetadata = {
+    name: `${formatDesignation(dna)} ${species.displayName}`,
+    description: species.description,
+    image: options.imageUri ? options.imageUri(dna) : `${dna.id}.png`,
+    attributes
+  };
+
+  if (options.externalUrl) {
+    metadata.external_url = options.externalUrl(dna);
+  }
+  if (options.backgroundColor) {
+    metadata.background_color = options.backgroundColor.replace('#', '');
+  }
+
+  return metadata;
+}
+
+/**
+ * Subset of JSON Schema (draft-07) used by NFT_METADATA_SCHEMA
+ */
+export interface JSONSchema {
+  $schema?: string;
+  title?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer';
+  required?: string[];
+  properties?: Record<string, JSONSchema>;
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: readonly (string | number)[];
+  anyOf?: JSONSchema[];
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+}
+
+/**
+ * JSON Schema for generated metadata
+ */
+export const NFT_METADATA_SCHEMA: JSONSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'FishFi NFT metadata',
+  type: 'object',
+  required: ['name', 'description', 'image', 'attributes'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    image: { type: 'string', minLength: 1 },
+    external_url: { type: 'string', minLength: 1 },
+    background_color: { type: 'string', pattern: '^[0-9a-fA-F]{6}$' },
+    attributes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['trait_type', 'value'],
+        additionalProperties: false,
+        properties: {
+          trait_type: { type: 'string', minLength: 1 },
+          value: { anyOf: [{ type: 'string', minLength: 1 }, { type: 'number' }] },
+          display_type: { type: 'string', enum: ['number', 'boost_number', 'boost_percentage'] },
+          max_value: { type: 'number' }
+        }
+      }
+    }
+  }
+};
+
+export interface MetadataValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validates a value against NFT_METADATA_SCHEMA (or another schema in the same subset)
+ */
+export function validateNFTMetadata(
+  value: unknown,
+  schema: JSONSchema = NFT_METADATA_SCHEMA
+): { valid: boolean; issues: MetadataValidationIssue[] } {
+  const issues: MetadataValidationIssue[] = [];
+  validateNode(value, schema, '', issues);
+  return { valid: issues.length === 0, issues };
+}
+
+function validateNode(value: unknown, schema: JSONSchema, path: string, issues: MetadataValidationIssue[]): void {
+  const at = (key: string | number) => (path ? `${path}.${key}` : String(key));
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => {
+      const optionIssues: MetadataValidationIssue[] = [];
+      validateNode(value, option, path, optionIssues);
+      return optionIssues.length === 0;
+    });
+    if (!matches) {
+      issues.push({ path, message: 'Does not match any allowed schema' });
+    }
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({ path, message: `Expected ${schema.type}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `Expected one of ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `Expected at least ${schema.minLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `Expected to match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `Expected >= ${schema.minimum}` });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateNode(item, schema.items!, at(index), issues));
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    (schema.required || []).forEach(key => {
+      if (record[key] === undefined) {
+        issues.push({ path: at(key), message: 'Field is required' });
+      }
+    });
+
+    Object.keys(record).forEach(key => {
+      if (properties[key]) {
+        validateNode(record[key], properties[key], at(key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: at(key), message: 'Unknown field' });
+      }
+    });
+  }
+}
+
+function matchesType(value: unknown, type: NonNullable<JSONSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    case 'string':
+      return typeof value === 'string';
+  }
+}
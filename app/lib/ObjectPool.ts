@@ -0,0 +1,98 @@
+/**
+ * ObjectPool.ts
+ *
+ * Generic free-list pool for short-lived objects
+ * acquire() hands out a released object (or creates one when the free list
+ * is empty), release() resets it and puts it back. Objects beyond maxFree
+ * are disposed on release instead of kept, so a burst cannot pin memory
+ * forever. No PIXI imports: EffectPools and ShotRenderer build the display
+ * object pools on top of it.
+ *
+ * @version 1.0.0
+ * @path app/lib/ObjectPool.ts
+ */
+
+export interface ObjectPoolOptions<T> {
+  name: string;
+  create: () => T;
+  reset?: (item: T) => void;    // Called on release, before the item is reused
+  dispose?: (item: T) => void;  // Called for items the pool lets go of
+  maxFree?: number;             // Free items kept for reuse (default 256)
+}
+
+/**
+ * Counters shown in the debug overlay
+ */
+export interface PoolStats {
+  name: string;
+  free: number;
+  inUse: number;
+  created: number;  // Total ever created; flat once the pool is warm
+}
+
+const DEFAULT_MAX_FREE = 256;
+
+export class ObjectPool<T> {
+  public readonly name: string;
+  private free: T[] = [];
+  private inUse: Set<T> = new Set();
+  private created: number = 0;
+  private options: ObjectPoolOptions<T>;
+
+  constructor(options: ObjectPoolOptions<T>) {
+    this.options = options;
+    this.name = options.name;
+  }
+
+  public acquire(): T {
+    let item = this.free.pop();
+    if (item === undefined) {
+      item = this.options.create();
+      this.created++;
+    }
+    this.inUse.add(item);
+    return item;
+  }
+
+  /**
+   * Returns an item to the pool; items the pool did not hand out are ignored
+   */
+  public release(item: T): void {
+    if (!this.inUse.delete(item)) return;
+
+    this.options.reset?.(item);
+    if (this.free.length < (this.options.maxFree ?? DEFAULT_MAX_FREE)) {
+      this.free.push(item);
+    } else {
+      this.options.dispose?.(item);
+    }
+  }
+
+  /**
+   * Creates free items up front so the first burst does not allocate
+   */
+  public prewarm(count: number): void {
+    const maxFree = this.options.maxFree ?? DEFAULT_MAX_FREE;
+    while (this.free.length < Math.min(count, maxFree)) {
+      this.free.push(this.options.create());
+      this.created++;
+    }
+  }
+
+  public get stats(): PoolStats {
+    return { name: this.name, free: this.free.length, inUse: this.inUse.size, created: this.created };
+  }
+
+  /**
+   * Disposes every item, including ones still handed out
+   */
+  public clear(): void {
+    const dispose = this.options.dispose;
+    if (dispose) {
+      this.free.forEach(item => dispose(item));
+      this.inUse.forEach(item => dispose(item));
+    }
+    this.free = [];
+    this.inUse.clear();
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * PatternRenderer.ts
+ *
+ * Pattern overlay renderers keyed by PatternType
+ * Each PATTERNS entry names its draw function via `renderFunction`; density and
+ * detail scale with the entry's `complexity`. Randomness is seeded so a given
+ * pattern/species pair always bakes the same texture
+ *
+ * @version 1.0.0
+ * @path app/lib/PatternRenderer.ts
+ */
+
+import * as PIXI from 'pixi.js';
+import { PATTERNS, PatternType } from '../config/fishConfig';
+import { SeededRandom } from './SeededRandom';
+import { drawHexagon } from './pixiUtils';
+
+/**
+ * Inputs shared by every pattern function
+ */
+export interface PatternContext {
+  size: number;        // Half-extent of the square the pattern covers
+  complexity: number;  // PATTERNS[pattern].complexity (1-4)
+  random: SeededRandom;
+  color: number;
+}
+
+export type PatternDrawer = (graphics: PIXI.Graphics, ctx: PatternContext) => void;
+
+type RenderFunctionName = (typeof PATTERNS)[PatternType]['renderFunction'];
+
+/**
+ * Pattern functions, named after PATTERNS[*].renderFunction
+ */
+const PATTERN_FUNCTIONS: Record<RenderFunctionName, PatternDrawer> = {
+  drawStripePattern(graphics, { size, complexity, color }) {
+    const stripeCount = 4 + complexity * 2;
+    const stripeWidth = size * 2 / stripeCount;
+
+    for (let i = 0; i < stripeCount; i += 2) {
+      graphics.rect(-size + i * stripeWidth, -size, stripeWidth, size * 2);
+      graphics.fill({ color, alpha: 0.3 });
+    }
+  },
+
+  drawDotPattern(graphics, { size, complexity, color }) {
+    const spacing = size * (0.25 - complexity * 0.04);
+    const dotSize = spacing * 0.33;
+
+    for (let y = -size, row = 0; y < size; y += spacing, row++) {
+      const offset = (row % 2) * spacing * 0.5;
+      for (let x = -size; x < size; x += spacing) {
+        graphics.circle(x + offset, y, dotSize);
+        graphics.fill({ color, alpha: 0.2 });
+      }
+    }
+  },
+
+  drawScalePattern(graphics, { size, complexity, color }) {
+    const scaleSize = size * (0.16 - complexity * 0.03);
+    const rows = Math.floor(size * 2 / scaleSize);
+
+    for (let row = 0; row < rows; row++) {
+      const y = -size + row * scaleSize;
+      const offset = (row % 2) * scaleSize * 0.5;
+
+      for (let x = -size; x < size; x += scaleSize) {
+        graphics.moveTo(x + offset + scaleSize * 0.5, y);
+        graphics.arc(x + offset, y, scaleSize * 0.5, 0, Math.PI);
+        graphics.stroke({ color, alpha: 0.2, width: 1 });
+      }
+    }
+  },
+
+  drawWavePattern(graphics, { size, complexity, color }) {
+    const waveCount = 3 + complexity * 2;
+    const frequency = 0.03 + complexity * 0.01;
+
+    for (let i = 0; i < waveCount; i++) {
+      const y = -size + (i / waveCount) * size * 2;
+      graphics.moveTo(-size, y);
+
+      for (let x = -size; x <= size; x += 5) {
+        graphics.lineTo(x, y + Math.sin(x * frequency + i) * size * 0.05);
+      }
+
+      graphics.stroke({ color, alpha: 0.2, width: 2 });
+    }
+  },
+
+  drawSpiralPattern(graphics, { size, complexity, random, color }) {
+    const spirals = 1 + complexity;
+
+    for (let s = 0; s < spirals; s++) {
+      const cx = random.range(-size * 0.6, size * 0.6);
+      const cy = random.range(-size * 0.5, size * 0.5);
+      const maxRadius = size * random.range(0.15, 0.3);
+      const turns = 2 + complexity * 0.5;
+      const direction = random.chance(0.5) ? 1 : -1;
+
+      graphics.moveTo(cx, cy);
+      for (let t = 0; t <= 1; t += 0.01) {
+        const angle = t * turns * Math.PI * 2 * direction;
+        graphics.lineTo(cx + Math.cos(angle) * maxRadius * t, cy + Math.sin(angle) * maxRadius * t);
+      }
+      graphics.stroke({ color, alpha: 0.25, width: 1.5 });
+    }
+  },
+
+  drawFractalPattern(graphics, { size, complexity, color }) {
+    const drawBranch = (x: number, y: number, length: number, angle: number, depth: number) => {
+      if (depth <= 0 || length < 2) return;
+
+      const endX = x + Math.cos(angle) * length;
+      const endY = y + Math.sin(angle) * length;
+
+      graphics.moveTo(x, y);
+      graphics.lineTo(endX, endY);
+      graphics.stroke({ color, alpha: 0.1 * depth, width: 1 });
+
+      drawBranch(endX, endY, length * 0.7, angle - 0.5, depth - 1);
+      drawBranch(endX, endY, length * 0.7, angle + 0.5, depth - 1);
+    };
+
+    const arms = 4 + complexity;
+    for (let i = 0; i < arms; i++) {
+      drawBranch(0, 0, size * 0.3, (i / arms) * Math.PI * 2, complexity);
+    }
+  },
+
+  drawCircuitPattern(graphics, { size, complexity, random, color }) {
+    const gridSize = size * 0.1;
+    const traces = 4 + complexity * 2;
+
+    for (let i = 0; i < traces; i++) {
+      // Snap to the grid so traces run like a PCB
+      let x = Math.round(random.range(-size, size) / gridSize) * gridSize;
+      let y = Math.round(random.range(-size, size) / gridSize) * gridSize;
+      graphics.moveTo(x, y);
+
+      for (let j = 0; j < 5; j++) {
+        switch (random.int(0, 4)) {
+          case 0: x += gridSize; break;
+          case 1: x -= gridSize; break;
+          case 2: y += gridSize; break;
+          case 3: y -= gridSize; break;
+        }
+        graphics.lineTo(x, y);
+      }
+      graphics.stroke({ color, alpha: 0.2, width: 1 });
+
+      // Solder pad at the end of each trace
+      graphics.circle(x, y, gridSize * 0.15);
+      graphics.fill({ color, alpha: 0.3 });
+    }
+  },
+
+  drawCrystalPattern(graphics, { size, complexity, random, color }) {
+    const clusters = 2 + complexity;
+
+    for (let c = 0; c < clusters; c++) {
+      const cx = random.range(-size * 0.7, size * 0.7);
+      const cy = random.range(-size * 0.5, size * 0.5);
+      const shards = 3 + random.int(0, complexity + 1);
+
+      for (let s = 0; s < shards; s++) {
+        const angle = random.range(0, Math.PI * 2);
+        const length = size * random.range(0.1, 0.25);
+        const width = length * 0.25;
+        const tipX = cx + Math.cos(angle) * length;
+        const tipY = cy + Math.sin(angle) * length;
+        const nx = -Math.sin(angle) * width;
+        const ny = Math.cos(angle) * width;
+
+        graphics.moveTo(cx + nx, cy + ny);
+        graphics.lineTo(tipX, tipY);
+        graphics.lineTo(cx - nx, cy - ny);
+        graphics.closePath();
+        graphics.fill({ color, alpha: 0.15 });
+        graphics.stroke({ color, alpha: 0.3, width: 1 });
+      }
+    }
+  },
+
+  drawStarPattern(graphics, { size, complexity, random, color }) {
+    const stars = 6 + complexity * 4;
+
+    for (let i = 0; i < stars; i++) {
+      const x = random.range(-size, size);
+      const y = random.range(-size, size);
+      const outer = size * random.range(0.02, 0.06);
+      const points: number[] = [];
+
+      for (let p = 0; p < 10; p++) {
+        const radius = p % 2 === 0 ? outer : outer * 0.4;
+        const angle = (p / 10) * Math.PI * 2 - Math.PI / 2;
+        points.push(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius);
+      }
+      graphics.poly(points);
+      graphics.fill({ color, alpha: 0.3 });
+    }
+  },
+
+  drawVoidPattern(graphics, { size, complexity, random, color }) {
+    // Dark holes with concentric falloff
+    const holes = 1 + complexity;
+
+    for (let i = 0; i < holes; i++) {
+      const x = random.range(-size * 0.6, size * 0.6);
+      const y = random.range(-size * 0.4, size * 0.4);
+      const radius = size * random.range(0.1, 0.25);
+
+      for (let ring = 5; ring > 0; ring--) {
+        graphics.circle(x, y, radius * ring / 5);
+        graphics.fill({ color, alpha: 0.08 });
+      }
+    }
+  },
+
+  drawGradientPattern(graphics, { size, complexity, color }) {
+    // Darkening bands from belly to back
+    const bands = 8 * complexity;
+    const bandHeight = size * 2 / bands;
+
+    for (let i = 0; i < bands; i++) {
+      graphics.rect(-size, -size + i * bandHeight, size * 2, bandHeight + 0.5);
+      graphics.fill({ color, alpha: 0.4 * (1 - i / bands) });
+    }
+  },
+
+  drawNoisePattern(graphics, { size, complexity, random, color }) {
+    const cell = size * (0.12 - complexity * 0.02);
+
+    for (let y = -size; y < size; y += cell) {
+      for (let x = -size; x < size; x += cell) {
+        const alpha = random.range(0, 0.25);
+        if (alpha > 0.05) {
+          graphics.rect(x, y, cell, cell);
+          graphics.fill({ color, alpha });
+        }
+      }
+    }
+  },
+
+  drawGeometricPattern(graphics, { size, complexity, random, color }) {
+    const shapeSize = size * 0.1;
+    const count = 10 + complexity * 5;
+
+    for (let i = 0; i < count; i++) {
+      const x = random.range(-size, size);
+      const y = random.range(-size, size);
+
+      switch (random.int(0, 3)) {
+        case 0:
+          graphics.moveTo(x, y - shapeSize / 2);
+          graphics.lineTo(x - shapeSize / 2, y + shapeSize / 2);
+          graphics.lineTo(x + shapeSize / 2, y + shapeSize / 2);
+          graphics.closePath();
+          break;
+        case 1:
+          graphics.rect(x - shapeSize / 2, y - shapeSize / 2, shapeSize, shapeSize);
+          break;
+        default:
+          drawHexagon(graphics, x, y, shapeSize / 2);
+      }
+
+      graphics.fill({ color, alpha: 0.1 });
+      graphics.stroke({ color, alpha: 0.2, width: 1 });
+    }
+  },
+
+  drawOrganicPattern(graphics, { size, complexity, random, color }) {
+    const strands = 2 + complexity;
+
+    for (let i = 0; i < strands; i++) {
+      const startX = random.range(-size, size);
+      const startY = random.range(-size, size);
+      const point = (t: number) => ({
+        x: startX + Math.sin(t * Math.PI * 2 + i) * size * 0.3,
+        y: startY + Math.cos(t * Math.PI * 2 + i) * size * 0.3
+      });
+
+      const first = point(0);
+      graphics.moveTo(first.x, first.y);
+
+      for (let j = 1; j < 10; j++) {
+        const prev = point((j - 1) / 10);
+        const next = point(j / 10);
+        graphics.quadraticCurveTo(
+          (prev.x + next.x) / 2 + random.range(-0.05, 0.05) * size,
+          (prev.y + next.y) / 2 + random.range(-0.05, 0.05) * size,
+          next.x,
+          next.y
+        );
+      }
+
+      graphics.stroke({ color, alpha: 0.15, width: 3 });
+    }
+  },
+
+  drawMysticPattern(graphics, { size, complexity, random, color }) {
+    const symbols = [
+      // Circle with cross
+      () => {
+        graphics.circle(0, 0, size * 0.2);
+        graphics.stroke({ color, alpha: 0.3, width: 2 });
+        graphics.moveTo(-size * 0.2, 0);
+        graphics.lineTo(size * 0.2, 0);
+        graphics.moveTo(0, -size * 0.2);
+        graphics.lineTo(0, size * 0.2);
+        graphics.stroke({ color, alpha: 0.3, width: 1 });
+      },
+      // Star
+      () => {
+        for (let i = 0; i < 5; i++) {
+          const angle = (i / 5) * Math.PI * 2 - Math.PI / 2;
+          graphics.moveTo(0, 0);
+          graphics.lineTo(Math.cos(angle) * size * 0.15, Math.sin(angle) * size * 0.15);
+        }
+        graphics.stroke({ color, alpha: 0.3, width: 2 });
+      },
+      // Spiral
+      () => {
+        graphics.moveTo(0, 0);
+        for (let i = 0; i < 50 && i * 2 < size * 0.3; i++) {
+          const angle = i * 0.2;
+          graphics.lineTo(Math.cos(angle) * i * 2, Math.sin(angle) * i * 2);
+        }
+        graphics.stroke({ color, alpha: 0.2, width: 1 });
+      }
+    ];
+
+    for (let i = 0; i < complexity; i++) {
+      graphics.save();
+      graphics.translateTransform(random.range(-size * 0.5, size * 0.5), random.range(-size * 0.5, size * 0.5));
+
+      // Use transform() with rotation matrix instead of rotateTransform()
+      const rotation = random.range(0, Math.PI * 2);
+      const cos = Math.cos(rotation);
+      const sin = Math.sin(rotation);
+      graphics.transform(cos, sin, -sin, cos, 0, 0);
+
+      random.pick(symbols)();
+      graphics.restore();
+    }
+  },
+
+  drawChevronPattern(graphics, { size, complexity, color }) {
+    const rows = 3 + complexity * 2;
+    const spacing = size * 2 / rows;
+    const depth = spacing * 0.6;
+
+    // Vs pointing toward the head (+x)
+    for (let i = 0; i < rows; i++) {
+      const x = -size + i * spacing;
+      graphics.moveTo(x, -size);
+      graphics.lineTo(x + depth, 0);
+      graphics.lineTo(x, size);
+      graphics.stroke({ color, alpha: 0.25, width: spacing * 0.25 });
+    }
+  },
+
+  drawHexagonalPattern(graphics, { size, complexity, color }) {
+    const radius = size * (0.16 - complexity * 0.025);
+    const w = radius * Math.sqrt(3);
+
+    for (let y = -size, row = 0; y < size + radius; y += radius * 1.5, row++) {
+      const offset = (row % 2) * w * 0.5;
+      for (let x = -size; x < size + w; x += w) {
+        drawHexagon(graphics, x + offset, y, radius * 0.95);
+        graphics.stroke({ color, alpha: 0.25, width: 1 });
+      }
+    }
+  },
+
+  drawDigitalPattern(graphics, { size, complexity, random, color }) {
+    const pixel = size * (0.14 - complexity * 0.02);
+
+    // Pixel blocks
+    for (let y = -size; y < size; y += pixel) {
+      for (let x = -size; x < size; x += pixel) {
+        if (random.chance(0.18)) {
+          graphics.rect(x, y, pixel * 0.9, pixel * 0.9);
+          graphics.fill({ color, alpha: 0.25 });
+        }
+      }
+    }
+
+    // Scanlines
+    for (let y = -size; y < size; y += pixel * 2) {
+      graphics.rect(-size, y, size * 2, 1);
+      graphics.fill({ color, alpha: 0.15 });
+    }
+  },
+
+  drawGlitchPattern(graphics, { size, complexity, random, color }) {
+    const slices = 4 + complexity * 3;
+
+    for (let i = 0; i < slices; i++) {
+      const y = random.range(-size, size);
+      const height = size * random.range(0.02, 0.08);
+      const shift = size * random.range(-0.3, 0.3);
+      const width = size * random.range(0.4, 1.4);
+
+      graphics.rect(-width / 2 + shift, y, width, height);
+      graphics.fill({ color, alpha: random.range(0.15, 0.4) });
+    }
+  }
+};
+
+export class PatternRenderer {
+  /**
+   * Pattern drawers keyed by PatternType, resolved through PATTERNS[*].renderFunction
+   */
+  public static readonly renderers: Record<PatternType, PatternDrawer> = Object.fromEntries(
+    (Object.keys(PATTERNS) as PatternType[]).map(pattern => [
+      pattern,
+      PATTERN_FUNCTIONS[PATTERNS[pattern].renderFunction]
+    ])
+  ) as Record<PatternType, PatternDrawer>;
+
+  public static has(pattern: string): pattern is PatternType {
+    return Object.prototype.hasOwnProperty.call(this.renderers, pattern);
+  }
+
+  /**
+   * Draws a pattern; unknown patterns draw nothing
+   * The seed keeps randomized patterns identical between bakes
+   */
+  public static draw(
+    graphics: PIXI.Graphics,
+    pattern: string,
+    options: { size: number; seed: string; color?: number }
+  ): void {
+    if (!this.has(pattern)) return;
+
+    this.renderers[pattern](graphics, {
+      size: options.size,
+      complexity: PATTERNS[pattern].complexity,
+      random: new SeededRandom(options.seed),
+      color: options.color ?? 0x000000
+    });
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * PlayerProfile.ts
+ *
+ * Saved player profile for the arcade game
+ * Keeps the wallet (coins, score, cannon level), lifetime stats and settings
+ * across page loads. Saves are versioned; older ones are upgraded on load by
+ * registered migrations, the same way FishDNACodec upgrades DNA. Writes go to
+ * local storage (memory where it is unavailable) a short delay after each
+ * change. An optional ProfileSyncAdapter keeps the profile in step with a
+ * server: whichever side changed last wins. MemoryProfileSync stands in for
+ * the server locally and in tests. No PIXI imports.
+ *
+ * @version 1.0.0
+ * @path app/lib/PlayerProfile.ts
+ */
+
+import { PROFILE_CONFIG, GAME_RULES, WeaponType } from '../config/fishConfig';
+import { CatchMode } from './CatchEconomy';
+import { WeaponRegistry } from './WeaponRegistry';
+
+export const PROFILE_FORMAT = 'fishfi/profile';
+
+const MAX_NAME_LENGTH = 24;
+
+/**
+ * Current profile schema version
+ * Bump this and register a migration whenever ProfileData changes shape
+ */
+export const PROFILE_VERSION = 1;
+
+export interface ProfileWallet {
+  coins: number;
+  score: number;
+  cannonPower: number;
+}
+
+export interface LifetimeStats {
+  sessions: number;
+  playTimeMS: number;   // Game time, so pauses don't count
+  shotsFired: number;
+  fishCaught: number;
+  coinsEarned: number;  // Catch rewards and jackpot shares
+  bossesDefeated: number;
+  upgradesBought: number;
+  bestRoundScore: number;
+}
+
+export interface ProfileSettings {
+  name: string;          // Shown at shared tables
+  catchMode: CatchMode;
+  weapon: WeaponType;    // Selected when a game starts
+}
+
+export interface ProfileData {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  updatedAt: number;  // ms since epoch; 0 for a profile never changed
+  wallet: ProfileWallet;
+  stats: LifetimeStats;
+  settings: ProfileSettings;
+}
+
+/**
+ * Upgrades a raw profile from `version` to `version + 1`
+ */
+export type ProfileMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+const migrations = new Map<number, ProfileMigration>();
+
+/**
+ * Registers a migration hook that upgrades profiles from `fromVersion` to `fromVersion + 1`
+ */
+export function registerProfileMigration(fromVersion: number, migration: ProfileMigration): void {
+  migrations.set(fromVersion, migration);
+}
+
+/**
+ * Runs registered migrations up to the current version, then fills in
+ * anything missing or malformed with defaults
+ * Throws for profiles from a newer version or with no migration path
+ */
+export function migrateProfile(raw: unknown): ProfileData {
+  if (typeof raw !== 'object' || raw === null || (raw as Record<string, unknown>).format !== PROFILE_FORMAT) {
+    throw new Error('Not a player profile');
+  }
+
+  let current = raw as Record<string, unknown>;
+  const fromVersion = typeof current.version === 'number' ? current.version : 0;
+  if (fromVersion > PROFILE_VERSION) {
+    throw new Error(`Profile version ${fromVersion} is newer than supported version ${PROFILE_VERSION}`);
+  }
+
+  for (let version = fromVersion; version < PROFILE_VERSION; version++) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new Error(`No profile migration registered from version ${version}`);
+    }
+    current = migration(current);
+  }
+
+  return normalizeProfile(current);
+}
+
+export function createProfile(): ProfileData {
+  return {
+    format: PROFILE_FORMAT,
+    version: PROFILE_VERSION,
+    updatedAt: 0,
+    wallet: { coins: GAME_RULES.startingCoins, score: 0, cannonPower: 1 },
+    stats: {
+      sessions: 0,
+      playTimeMS: 0,
+      shotsFired: 0,
+      fishCaught: 0,
+      coinsEarned: 0,
+      bossesDefeated: 0,
+      upgradesBought: 0,
+      bestRoundScore: 0
+    },
+    settings: { name: PROFILE_CONFIG.defaultName, catchMode: 'health', weapon: WeaponRegistry.ids()[0] }
+  };
+}
+
+/**
+ * Key-value storage behind a profile
+ */
+export interface ProfileStorage {
+  load(): string | null;
+  save(data: string): void;
+}
+
+/**
+ * Non-persistent storage
+ */
+export class MemoryProfileStorage implements ProfileStorage {
+  private data: string | null = null;
+
+  public load(): string | null {
+    return this.data;
+  }
+
+  public save(data: string): void {
+    this.data = data;
+  }
+}
+
+export class LocalProfileStorage implements ProfileStorage {
+  constructor(private key: string = PROFILE_CONFIG.storageKey) {}
+
+  public static isSupported(): boolean {
+    try {
+      return typeof localStorage !== 'undefined';
+    } catch (error) {
+      // Access throws when storage is blocked
+      return false;
+    }
+  }
+
+  public load(): string | null {
+    return localStorage.getItem(this.key);
+  }
+
+  public save(data: string): void {
+    try {
+      localStorage.setItem(this.key, data);
+    } catch (error) {
+      console.warn('Failed to save profile:', error);
+    }
+  }
+}
+
+/**
+ * Remote copy of the profile (e.g. a game server account)
+ * pull may return a profile saved by an older client; it is migrated like a
+ * local one.
+ */
+export interface ProfileSyncAdapter {
+  pull(): Promise<unknown | null>;
+  push(profile: ProfileData): Promise<void>;
+}
+
+/**
+ * In-memory stand-in for a sync server
+ * Profiles sharing one act like devices on the same account. Data is
+ * copied through JSON as it would be over the wire.
+ */
+export class MemoryProfileSync implements ProfileSyncAdapter {
+  private stored: string | null = null;
+
+  // Set to make every request fail, as when offline
+  public offline: boolean = false;
+
+  constructor(private latencyMS: number = 0) {}
+
+  public async pull(): Promise<unknown | null> {
+    await this.respond();
+    return this.stored === null ? null : JSON.parse(this.stored);
+  }
+
+  public async push(profile: ProfileData): Promise<void> {
+    await this.respond();
+    this.stored = JSON.stringify(profile);
+  }
+
+  private respond(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      setTimeout(() => {
+        if (this.offline) {
+          reject(new Error('Profile sync server unreachable'));
+        } else {
+          resolve();
+        }
+      }, this.latencyMS);
+    });
+  }
+}
+
+/**
+ * How a sync went: the remote copy replaced ours, ours replaced it, they
+ * already matched, or the adapter failed
+ */
+export type ProfileSyncResult = 'pulled' | 'pushed' | 'unchanged' | 'failed';
+
+export interface PlayerProfileOptions {
+  storage?: ProfileStorage;
+  sync?: ProfileSyncAdapter;
+  now?: () => number;
+}
+
+export class PlayerProfile {
+  private storage: ProfileStorage;
+  private syncAdapter: ProfileSyncAdapter | null;
+  private now: () => number;
+  private profile!: ProfileData;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Loads the saved profile, or starts a new one
+   * Uses local storage when available, memory otherwise
+   */
+  constructor(options: PlayerProfileOptions = {}) {
+    this.storage = options.storage ?? (LocalProfileStorage.isSupported()
+      ? new LocalProfileStorage()
+      : new MemoryProfileStorage());
+    this.syncAdapter = options.sync ?? null;
+    this.now = options.now ?? Date.now;
+    this.load();
+  }
+
+  public get data(): Readonly<ProfileData> {
+    return this.profile;
+  }
+
+  public get wallet(): Readonly<ProfileWallet> {
+    return this.profile.wallet;
+  }
+
+  public get stats(): Readonly<LifetimeStats> {
+    return this.profile.stats;
+  }
+
+  public get settings(): Readonly<ProfileSettings> {
+    return this.profile.settings;
+  }
+
+  public saveWallet(wallet: ProfileWallet): void {
+    const { coins, score, cannonPower } = wallet;
+    const current = this.profile.wallet;
+    if (current.coins === coins && current.score === score && current.cannonPower === cannonPower) return;
+
+    this.profile.wallet = { coins, score, cannonPower };
+    this.touch();
+  }
+
+  /**
+   * Adds to the lifetime counters
+   */
+  public recordStats(delta: Partial<Omit<LifetimeStats, 'bestRoundScore'>>): void {
+    const { stats } = this.profile;
+    (Object.keys(delta) as (keyof typeof delta)[]).forEach(key => {
+      stats[key] += Math.max(0, delta[key] ?? 0);
+    });
+    this.touch();
+  }
+
+  /**
+   * Keeps the best round total
+   */
+  public recordRound(total: number): void {
+    if (total <= this.profile.stats.bestRoundScore) return;
+
+    this.profile.stats.bestRoundScore = total;
+    this.touch();
+  }
+
+  public updateSettings(patch: Partial<ProfileSettings>): void {
+    const { settings } = this.profile;
+    const changed = (Object.keys(patch) as (keyof ProfileSettings)[])
+      .some(key => patch[key] !== undefined && patch[key] !== settings[key]);
+    if (!changed) return;
+
+    this.profile.settings = normalizeSettings({ ...settings, ...patch });
+    this.touch();
+  }
+
+  /**
+   * Writes any pending change now (e.g. when the page is hidden)
+   */
+  public flush(): void {
+    if (this.saveTimer !== null) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.storage.save(JSON.stringify(this.profile));
+  }
+
+  /**
+   * Exchanges profiles with the sync adapter; the one changed last wins
+   * Failures are logged and reported as 'failed', never thrown, so play
+   * carries on offline.
+   */
+  public async sync(): Promise<ProfileSyncResult> {
+    if (!this.syncAdapter) return 'unchanged';
+
+    try {
+      const raw = await this.syncAdapter.pull();
+      const remote = raw === null ? null : migrateProfile(raw);
+
+      if (remote && remote.updatedAt > this.profile.updatedAt) {
+        this.profile = remote;
+        this.flush();
+        return 'pulled';
+      }
+      if (!remote || remote.updatedAt < this.profile.updatedAt) {
+        await this.syncAdapter.push(this.profile);
+        return 'pushed';
+      }
+      return 'unchanged';
+    } catch (error) {
+      console.warn('Profile sync failed:', error);
+      return 'failed';
+    }
+  }
+
+  /**
+   * Starts over with a new profile (the next sync pushes it)
+   */
+  public reset(): void {
+    this.profile = createProfile();
+    this.touch();
+    this.flush();
+  }
+
+  /**
+   * Stamps a change and schedules the write
+   */
+  private touch(): void {
+    this.profile.updatedAt = this.now();
+    if (this.saveTimer === null) {
+      this.saveTimer = setTimeout(() => this.flush(), PROFILE_CONFIG.saveDelayMs);
+    }
+  }
+
+  private load(): void {
+    this.profile = createProfile();
+
+    const data = this.storage.load();
+    if (!data) return;
+
+    try {
+      this.profile = migrateProfile(JSON.parse(data));
+    } catch (error) {
+      console.warn('Ignoring unreadable profile:', error);
+    }
+  }
+}
+
+/**
+ * A current-version profile with every field valid
+ */
+function normalizeProfile(data: Record<string, unknown>): ProfileData {
+  const defaults = createProfile();
+  const wallet = asRecord(data.wallet);
+  const stats = asRecord(data.stats);
+
+  const normalizedStats = { ...defaults.stats };
+  (Object.keys(normalizedStats) as (keyof LifetimeStats)[]).forEach(key => {
+    normalizedStats[key] = count(stats[key], 0);
+  });
+
+  return {
+    format: PROFILE_FORMAT,
+    version: PROFILE_VERSION,
+    updatedAt: count(data.updatedAt, 0),
+    wallet: {
+      coins: count(wallet.coins, defaults.wallet.coins),
+      score: count(wallet.score, 0),
+      cannonPower: Math.max(1, count(wallet.cannonPower, 1))
+    },
+    stats: normalizedStats,
+    settings: normalizeSettings(asRecord(data.settings))
+  };
+}
+
+function normalizeSettings(settings: Record<string, unknown>): ProfileSettings {
+  const defaults = createProfile().settings;
+  const name = typeof settings.name === 'string' ? settings.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+  return {
+    name: name || defaults.name,
+    catchMode: settings.catchMode === 'probability' ? 'probability' : 'health',
+    weapon: typeof settings.weapon === 'string' && WeaponRegistry.has(settings.weapon) ? settings.weapon : defaults.weapon
+  };
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+}
+
+/**
+ * A whole, non-negative number, or the fallback
+ */
+function count(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+}
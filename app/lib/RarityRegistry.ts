@@ -0,0 +1,136 @@
+/**
+ * RarityRegistry.ts
+ *
+ * Typed access to the rarity tiers defined in fishConfig
+ * Every engine (gallery, spawner, arcade game, renderer) reads tiers through here
+ *
+ * @version 1.0.0
+ * @path app/lib/RarityRegistry.ts
+ */
+
+import { RARITY_CONFIG, RarityType } from '../config/fishConfig';
+import { RandomSource } from './SeededRandom';
+
+/**
+ * Resolved rarity tier with its position in the ladder
+ */
+export interface RarityDefinition {
+  id: RarityType;
+  rank: number;
+  weight: number;
+  probability: number;  // Percentage derived from weight
+  valueMultiplier: number;
+  particleCount: number;
+  glowIntensity: number;
+  designation: string;
+  color: number;
+  glow: number;
+  value: number;
+  reward: number;
+  health: number;
+  size: number;
+  tint: number;
+  glowStrength: number;
+  mutationRate: number;
+}
+
+export class RarityRegistry {
+  // Declaration order in RARITY_CONFIG is the tier order
+  private static readonly order = Object.keys(RARITY_CONFIG) as RarityType[];
+  private static readonly totalWeight = RarityRegistry.order
+    .reduce((sum, id) => sum + RARITY_CONFIG[id].weight, 0);
+  private static readonly definitions: Map<RarityType, RarityDefinition> = new Map(
+    RarityRegistry.order.map((id, rank): [RarityType, RarityDefinition] => [id, {
+      ...RARITY_CONFIG[id],
+      id,
+      rank,
+      probability: (RARITY_CONFIG[id].weight / RarityRegistry.totalWeight) * 100
+    }])
+  );
+
+  /**
+   * Returns the definition for a tier
+   */
+  public static get(id: RarityType): RarityDefinition {
+    return this.definitions.get(id)!;
+  }
+
+  /**
+   * Type guard for untrusted rarity strings
+   */
+  public static has(id: string): id is RarityType {
+    return this.definitions.has(id as RarityType);
+  }
+
+  /**
+   * Parses a rarity string, falling back when it is unknown
+   */
+  public static parse(id: string, fallback: RarityType = 'common'): RarityType {
+    return this.has(id) ? id : fallback;
+  }
+
+  /**
+   * All tier ids, lowest first
+   */
+  public static ids(): RarityType[] {
+    return [...this.order];
+  }
+
+  /**
+   * All tier definitions, lowest first
+   */
+  public static all(): RarityDefinition[] {
+    return this.order.map(id => this.get(id));
+  }
+
+  /**
+   * Position of a tier in the ladder (common = 0)
+   */
+  public static rank(id: RarityType): number {
+    return this.get(id).rank;
+  }
+
+  /**
+   * Sort comparator, lowest tier first
+   */
+  public static compare(a: RarityType, b: RarityType): number {
+    return this.rank(a) - this.rank(b);
+  }
+
+  /**
+   * True if the tier is at or above the minimum
+   */
+  public static isAtLeast(id: RarityType, minimum: RarityType): boolean {
+    return this.rank(id) >= this.rank(minimum);
+  }
+
+  /**
+   * Tiers at or above the minimum, lowest first
+   */
+  public static atLeast(minimum: RarityType): RarityType[] {
+    return this.order.filter(id => this.isAtLeast(id, minimum));
+  }
+
+  /**
+   * Highest tier in a list
+   */
+  public static highest(ids: RarityType[]): RarityType {
+    return ids.reduce((best, id) => (this.compare(id, best) > 0 ? id : best), this.order[0]);
+  }
+
+  /**
+   * Rolls a tier using the configured weights
+   */
+  public static roll(random: RandomSource): RarityType {
+    let remaining = random.next() * this.totalWeight;
+
+    for (const id of this.order) {
+      remaining -= RARITY_CONFIG[id].weight;
+      if (remaining < 0) {
+        return id;
+      }
+    }
+
+    return this.order[0];
+  }
+}
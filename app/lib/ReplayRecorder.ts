@@ -0,0 +1,290 @@
+/**
+ * ReplayRecorder.ts
+ *
+ * Input recording for deterministic session replays
+ * A GameSimulation is fully determined by its seed, the deltaMS of every
+ * step and the commands applied between steps, so that is all a replay
+ * holds: the engine reports each game-loop step and each pointer move, shot,
+ * upgrade, weapon change and coin grant, stamped with the frame it happened before.
+ * ReplayPlayer re-runs the result. Replays export as compact JSON (frame
+ * deltas run-length encoded, inputs as tuples) for attaching to bug reports.
+ *
+ * Sessions whose catches were resolved by a server replay with local rolls,
+ * so probability-mode catches may differ there.
+ *
+ * @version 1.0.0
+ * @path app/lib/ReplayRecorder.ts
+ */
+
+import { WeaponType } from '../config/fishConfig';
+import { WeaponRegistry } from './WeaponRegistry';
+import { CatchMode } from './CatchEconomy';
+import { Vec2 } from './CollisionSystem';
+
+export const REPLAY_VERSION = 1;
+
+/**
+ * Something the player did before step `frame`
+ */
+export type ReplayInput =
+  | { frame: number; type: 'aim'; x: number; y: number }
+  | { frame: number; type: 'fire'; x: number; y: number }
+  | { frame: number; type: 'upgrade' }
+  | { frame: number; type: 'weapon'; weapon: WeaponType }
+  | { frame: number; type: 'catchMode'; mode: CatchMode }
+  | { frame: number; type: 'grant'; amount: number };
+
+/**
+ * The local wallet when recording started, for sessions that began from a
+ * saved profile; absent means GAME_RULES defaults
+ */
+export interface ReplayStart {
+  coins: number;
+  score: number;
+  cannonPower: number;
+}
+
+export interface Replay {
+  version: number;
+  seed: string;
+  catchMode: CatchMode;
+  start?: ReplayStart;
+  width: number;   // Play area the session ran in
+  height: number;
+  recordedAt: string;
+  frames: number[];  // deltaMS of every step
+  inputs: ReplayInput[];
+}
+
+export interface ReplaySession {
+  seed: string;
+  catchMode: CatchMode;
+  start?: ReplayStart;
+  width: number;
+  height: number;
+}
+
+// Frame deltas are kept to 1/100 ms so they survive JSON exactly
+const DELTA_PRECISION = 100;
+
+// Six hours at 60 fps; a longer frame list is a corrupt (or hostile) file
+const MAX_FRAMES = 60 * 60 * 60 * 6;
+
+export class ReplayRecorder {
+  private replay: Replay;
+
+  constructor(session: ReplaySession) {
+    this.replay = {
+      version: REPLAY_VERSION,
+      ...session,
+      recordedAt: new Date().toISOString(),
+      frames: [],
+      inputs: []
+    };
+  }
+
+  /**
+   * Frames recorded so far; inputs are stamped with this
+   */
+  public get frame(): number {
+    return this.replay.frames.length;
+  }
+
+  public get durationMS(): number {
+    return this.replay.frames.reduce((sum, deltaMS) => sum + deltaMS, 0);
+  }
+
+  /**
+   * Records a game-loop step
+   * @returns The delta to step the simulation with, rounded the way the
+   * replay stores it so playback matches exactly
+   */
+  public step(deltaMS: number): number {
+    const rounded = Math.round(deltaMS * DELTA_PRECISION) / DELTA_PRECISION;
+    this.replay.frames.push(rounded);
+    return rounded;
+  }
+
+  /**
+   * Records where the cannon points; only the last move of a frame is kept
+   */
+  public aim(point: Vec2): void {
+    const x = Math.round(point.x);
+    const y = Math.round(point.y);
+    const last = this.replay.inputs[this.replay.inputs.length - 1];
+
+    if (last && last.type === 'aim' && last.frame === this.frame) {
+      last.x = x;
+      last.y = y;
+    } else {
+      this.replay.inputs.push({ frame: this.frame, type: 'aim', x, y });
+    }
+  }
+
+  public fire(aim: Vec2): void {
+    this.replay.inputs.push({ frame: this.frame, type: 'fire', x: aim.x, y: aim.y });
+  }
+
+  public upgrade(): void {
+    this.replay.inputs.push({ frame: this.frame, type: 'upgrade' });
+  }
+
+  public weapon(weapon: WeaponType): void {
+    this.replay.inputs.push({ frame: this.frame, type: 'weapon', weapon });
+  }
+
+  public catchMode(mode: CatchMode): void {
+    this.replay.inputs.push({ frame: this.frame, type: 'catchMode', mode });
+  }
+
+  /**
+   * Coins paid in from outside the game (claimed rewards)
+   */
+  public grant(amount: number): void {
+    this.replay.inputs.push({ frame: this.frame, type: 'grant', amount });
+  }
+
+  /**
+   * A copy of everything recorded so far; recording carries on
+   */
+  public getReplay(): Replay {
+    return {
+      ...this.replay,
+      frames: [...this.replay.frames],
+      inputs: this.replay.inputs.map(input => ({ ...input }))
+    };
+  }
+}
+
+/**
+ * Compact wire form: frames as [deltaMS, count] runs, inputs as tuples
+ */
+interface EncodedReplay {
+  v: number;
+  seed: string;
+  mode: CatchMode;
+  s?: [number, number, number];  // Start coins, score, cannon power
+  w: number;
+  h: number;
+  at: string;
+  dt: [number, number][];
+  in: (string | number)[][];
+}
+
+const INPUT_CODES = {
+  aim: 'a',
+  fire: 'f',
+  upgrade: 'u',
+  weapon: 'w',
+  catchMode: 'm',
+  grant: 'g'
+} as const;
+
+export function encodeReplay(replay: Replay): string {
+  const dt: [number, number][] = [];
+  replay.frames.forEach(deltaMS => {
+    const run = dt[dt.length - 1];
+    if (run && run[0] === deltaMS) {
+      run[1]++;
+    } else {
+      dt.push([deltaMS, 1]);
+    }
+  });
+
+  const encoded: EncodedReplay = {
+    v: replay.version,
+    seed: replay.seed,
+    mode: replay.catchMode,
+    s: replay.start ? [replay.start.coins, replay.start.score, replay.start.cannonPower] : undefined,
+    w: replay.width,
+    h: replay.height,
+    at: replay.recordedAt,
+    dt,
+    in: replay.inputs.map(input => {
+      const code = INPUT_CODES[input.type];
+      switch (input.type) {
+        case 'aim':
+        case 'fire':
+          return [input.frame, code, input.x, input.y];
+        case 'weapon':
+          return [input.frame, code, input.weapon];
+        case 'catchMode':
+          return [input.frame, code, input.mode];
+        case 'grant':
+          return [input.frame, code, input.amount];
+        default:
+          return [input.frame, code];
+      }
+    })
+  };
+
+  return JSON.stringify(encoded);
+}
+
+/**
+ * Reads an exported replay
+ * @throws Error if the JSON is not a replay this version can play
+ */
+export function decodeReplay(json: string): Replay {
+  const encoded = JSON.parse(json) as Partial<EncodedReplay>;
+  if (typeof encoded !== 'object' || encoded === null || encoded.v !== REPLAY_VERSION) {
+    throw new Error('Not a supported replay file');
+  }
+  if (typeof encoded.seed !== 'string' || !Array.isArray(encoded.dt) || !Array.isArray(encoded.in)) {
+    throw new Error('Replay is missing its seed, frames or inputs');
+  }
+
+  const frames: number[] = [];
+  encoded.dt.forEach(run => {
+    const [deltaMS, count] = Array.isArray(run) ? run : [];
+    if (typeof deltaMS !== 'number' || !Number.isFinite(deltaMS) || deltaMS < 0) {
+      throw new Error(`Replay has an invalid frame delta ${deltaMS}`);
+    }
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || frames.length + count > MAX_FRAMES) {
+      throw new Error(`Replay has an invalid frame count ${count}`);
+    }
+    for (let i = 0; i < count; i++) {
+      frames.push(deltaMS);
+    }
+  });
+
+  return {
+    version: encoded.v,
+    seed: encoded.seed,
+    catchMode: encoded.mode === 'probability' ? 'probability' : 'health',
+    start: Array.isArray(encoded.s)
+      ? { coins: Number(encoded.s[0]), score: Number(encoded.s[1]), cannonPower: Number(encoded.s[2]) }
+      : undefined,
+    width: Number(encoded.w),
+    height: Number(encoded.h),
+    recordedAt: String(encoded.at ?? ''),
+    frames,
+    inputs: encoded.in.map(decodeInput)
+  };
+}
+
+function decodeInput(tuple: (string | number)[]): ReplayInput {
+  const [frame, code, a, b] = tuple;
+  if (typeof frame !== 'number') {
+    throw new Error('Replay input without a frame');
+  }
+
+  switch (code) {
+    case INPUT_CODES.aim:
+    case INPUT_CODES.fire:
+      return { frame, type: code === INPUT_CODES.aim ? 'aim' : 'fire', x: Number(a), y: Number(b) };
+    case INPUT_CODES.upgrade:
+      return { frame, type: 'upgrade' };
+    case INPUT_CODES.weapon:
+      if (typeof a !== 'string' || !WeaponRegistry.has(a)) {
+        throw new Error(`Replay uses unknown weapon ${a}`);
+      }
+      return { frame, type: 'weapon', weapon: a };
+    case INPUT_CODES.catchMode:
+      return { frame, type: 'catchMode', mode: a === 'probability' ? 'probability' : 'health' };
+    case INPUT_CODES.grant:
+      return { frame, type: 'grant', amount: Number(a) };
+    default:
+      throw new Error(`Unknown replay input ${code}`);
+  }
+}
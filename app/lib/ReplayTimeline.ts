@@ -0,0 +1,119 @@
+/**
+ * ReplayTimeline.ts
+ *
+ * Scrubbable timeline bar shown while a replay plays
+ * Draws progress and elapsed / total time along the bottom of the screen;
+ * clicking the bar, or dragging its handle and letting go, reports the picked
+ * position (0-1) so the engine can seek the ReplayPlayer there. Seeking
+ * re-runs the session, so dragging only moves the handle until release.
+ *
+ * @version 1.0.0
+ * @path app/lib/ReplayTimeline.ts
+ */
+
+import * as PIXI from 'pixi.js';
+
+const BAR_HEIGHT = 12;
+const MARGIN = 20;
+
+export class ReplayTimeline extends PIXI.Container {
+  private track: PIXI.Graphics = new PIXI.Graphics();
+  private fill: PIXI.Graphics = new PIXI.Graphics();
+  private handle: PIXI.Graphics = new PIXI.Graphics();
+  private timeText: PIXI.Text;
+  private barWidth: number;
+  private dragging: boolean = false;
+  private dragProgress: number = 0;
+  private onSeek: (progress: number) => void;
+
+  /**
+   * @param onSeek Called with the picked position, 0-1
+   */
+  constructor(screenWidth: number, screenHeight: number, onSeek: (progress: number) => void) {
+    super();
+    this.onSeek = onSeek;
+    this.barWidth = screenWidth - MARGIN * 2;
+    this.position.set(MARGIN, screenHeight - MARGIN - BAR_HEIGHT);
+
+    this.track
+      .roundRect(0, 0, this.barWidth, BAR_HEIGHT, BAR_HEIGHT / 2)
+      .fill({ color: 0x000000, alpha: 0.6 })
+      .stroke({ color: 0x00ccff, width: 2 });
+
+    this.handle
+      .circle(0, BAR_HEIGHT / 2, BAR_HEIGHT)
+      .fill({ color: 0xffffff })
+      .stroke({ color: 0x00ccff, width: 2 });
+
+    this.timeText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 16,
+        fontWeight: 'bold',
+        fill: 0xffffff,
+        stroke: { color: 0x000000, width: 3 }
+      }
+    });
+    this.timeText.position.set(0, -26);
+
+    this.addChild(this.track);
+    this.addChild(this.fill);
+    this.addChild(this.handle);
+    this.addChild(this.timeText);
+
+    // A taller hit area than the bar makes it easier to grab
+    this.eventMode = 'static';
+    this.cursor = 'pointer';
+    this.hitArea = new PIXI.Rectangle(0, -BAR_HEIGHT, this.barWidth, BAR_HEIGHT * 3);
+
+    this.on('pointerdown', (event: PIXI.FederatedPointerEvent) => {
+      // Seeking is not a shot
+      event.stopPropagation();
+      this.dragging = true;
+      this.drag(event);
+    });
+    this.on('globalpointermove', (event: PIXI.FederatedPointerEvent) => {
+      if (this.dragging) {
+        this.drag(event);
+      }
+    });
+    this.on('pointerup', () => this.release());
+    this.on('pointerupoutside', () => this.release());
+  }
+
+  /**
+   * Redraws progress; `ended` is shown next to the time
+   */
+  public update(elapsedMS: number, durationMS: number, ended: boolean): void {
+    const progress = durationMS > 0 ? Math.min(1, elapsedMS / durationMS) : 0;
+
+    this.fill
+      .clear()
+      .roundRect(0, 0, Math.max(BAR_HEIGHT, this.barWidth * progress), BAR_HEIGHT, BAR_HEIGHT / 2)
+      .fill({ color: 0x00ccff, alpha: 0.8 });
+    if (!this.dragging) {
+      this.handle.x = this.barWidth * progress;
+    }
+
+    const status = ended ? '⏹ Replay ended' : '▶ Replay';
+    this.timeText.text = `${status}  ${formatTime(elapsedMS)} / ${formatTime(durationMS)}`;
+  }
+
+  private drag(event: PIXI.FederatedPointerEvent): void {
+    const local = this.toLocal(event.global);
+    this.dragProgress = Math.max(0, Math.min(1, local.x / this.barWidth));
+    this.handle.x = this.barWidth * this.dragProgress;
+  }
+
+  private release(): void {
+    if (!this.dragging) return;
+    this.dragging = false;
+    this.onSeek(this.dragProgress);
+  }
+}
+
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
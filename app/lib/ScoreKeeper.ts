@@ -0,0 +1,227 @@
+/**
+ * ScoreKeeper.ts
+ *
+ * Per-player score for one round of the arcade game
+ * Turns catches into points under the SCORING_CONFIG rules: rarity
+ * multiplier, kill-streak combo tiers inside a time window and an overkill
+ * penalty for damage wasted on a nearly dead fish. Formation bonuses and
+ * boss jackpots are added on top, and every part is tallied so the round
+ * can end with a breakdown. Times are simulation time, so replays score the
+ * same. No PIXI imports: GameSimulation owns one per seat.
+ *
+ * @version 1.0.0
+ * @path app/lib/ScoreKeeper.ts
+ */
+
+import { SCORING_CONFIG, RarityType } from '../config/fishConfig';
+
+export interface ComboTier {
+  combo: number;       // Streak length the tier starts at
+  multiplier: number;
+  label: string;
+}
+
+/**
+ * Tunable scoring rules; SCORING_CONFIG unless overridden
+ */
+export interface ScoringRules {
+  roundMs: number;
+  combo: { windowMs: number; tiers: readonly ComboTier[] };
+  rarityMultipliers: Readonly<Partial<Record<RarityType, number>>>;
+  formation: { minSize: number; rewardShare: number };
+  overkill: { freeShare: number; penaltyPerShare: number; maxPenalty: number };
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = SCORING_CONFIG;
+
+/**
+ * A catch as the score sees it
+ */
+export interface ScoredCatch {
+  reward: number;
+  rarity: RarityType;
+  maxHealth: number;
+  wastedDamage: number;  // Damage past the health the fish had left (0 for nets and rolls)
+}
+
+/**
+ * How one catch was scored
+ */
+export interface CatchScore {
+  base: number;             // The fish's reward
+  rarityMultiplier: number;
+  combo: number;            // Streak length including this catch
+  comboMultiplier: number;
+  overkillPenalty: number;  // Share of the score lost, 0 to maxPenalty
+  points: number;
+}
+
+/**
+ * The running streak, for the combo meter
+ */
+export interface ComboSnapshot {
+  count: number;       // 0 once the window has lapsed
+  tier: number;        // Tiers reached, 0 below the first
+  multiplier: number;
+  label: string | null;
+  remainingMS: number; // Until the streak lapses
+  windowMS: number;
+}
+
+/**
+ * End-of-round totals; total = base + every bonus - overkillPenalty
+ */
+export interface ScoreBreakdown {
+  round: number;
+  catches: number;
+  base: number;
+  rarityBonus: number;
+  comboBonus: number;
+  formationBonus: number;
+  formationsCleared: number;
+  jackpots: number;
+  overkillPenalty: number;
+  overkills: number;   // Catches that lost points to overkill
+  bestCombo: number;
+  total: number;
+}
+
+export class ScoreKeeper {
+  private rules: ScoringRules;
+  private tally!: ScoreBreakdown;
+  private combo: number = 0;
+  private lastCatchMS: number = -Infinity;
+
+  constructor(round: number = 0, rules: ScoringRules = DEFAULT_SCORING_RULES) {
+    this.rules = rules;
+    this.startRound(round);
+  }
+
+  /**
+   * Clears the tally and the streak for a new round
+   */
+  public startRound(round: number): void {
+    this.tally = {
+      round,
+      catches: 0,
+      base: 0,
+      rarityBonus: 0,
+      comboBonus: 0,
+      formationBonus: 0,
+      formationsCleared: 0,
+      jackpots: 0,
+      overkillPenalty: 0,
+      overkills: 0,
+      bestCombo: 0,
+      total: 0
+    };
+    this.combo = 0;
+    this.lastCatchMS = -Infinity;
+  }
+
+  public get breakdown(): ScoreBreakdown {
+    return { ...this.tally };
+  }
+
+  /**
+   * Scores a catch at timeMS and extends (or restarts) the streak
+   */
+  public score(timeMS: number, fish: ScoredCatch): CatchScore {
+    this.combo = this.isStreaking(timeMS) ? this.combo + 1 : 1;
+    this.lastCatchMS = timeMS;
+
+    const rarityMultiplier = this.rules.rarityMultipliers[fish.rarity] ?? 1;
+    const tier = this.getTier(this.combo);
+    const comboMultiplier = tier?.multiplier ?? 1;
+    const overkillPenalty = this.getOverkillPenalty(fish.wastedDamage, fish.maxHealth);
+
+    // Whole points at each step, so the breakdown adds up to the total
+    const withRarity = Math.round(fish.reward * rarityMultiplier);
+    const withCombo = Math.round(withRarity * comboMultiplier);
+    const penalty = Math.round(withCombo * overkillPenalty);
+    const points = withCombo - penalty;
+
+    const { tally } = this;
+    tally.catches++;
+    tally.base += fish.reward;
+    tally.rarityBonus += withRarity - fish.reward;
+    tally.comboBonus += withCombo - withRarity;
+    tally.overkillPenalty += penalty;
+    tally.overkills += penalty > 0 ? 1 : 0;
+    tally.bestCombo = Math.max(tally.bestCombo, this.combo);
+    tally.total += points;
+
+    return {
+      base: fish.reward,
+      rarityMultiplier,
+      combo: this.combo,
+      comboMultiplier,
+      overkillPenalty,
+      points
+    };
+  }
+
+  /**
+   * Bonus for catching a whole formation of `size` fish worth `rewards` together
+   * @returns 0 for formations below the minimum size
+   */
+  public formationCleared(size: number, rewards: number): number {
+    if (size < this.rules.formation.minSize) return 0;
+
+    const bonus = Math.round(rewards * this.rules.formation.rewardShare);
+    this.tally.formationBonus += bonus;
+    this.tally.formationsCleared++;
+    this.tally.total += bonus;
+    return bonus;
+  }
+
+  /**
+   * A boss jackpot share; scored as paid, outside the combo
+   */
+  public jackpot(amount: number): void {
+    this.tally.jackpots += amount;
+    this.tally.total += amount;
+  }
+
+  public getCombo(timeMS: number): ComboSnapshot {
+    const { windowMs } = this.rules.combo;
+    if (!this.isStreaking(timeMS)) {
+      return { count: 0, tier: 0, multiplier: 1, label: null, remainingMS: 0, windowMS: windowMs };
+    }
+
+    const tier = this.getTier(this.combo);
+    return {
+      count: this.combo,
+      tier: this.rules.combo.tiers.filter(({ combo }) => this.combo >= combo).length,
+      multiplier: tier?.multiplier ?? 1,
+      label: tier?.label ?? null,
+      remainingMS: windowMs - (timeMS - this.lastCatchMS),
+      windowMS: windowMs
+    };
+  }
+
+  private isStreaking(timeMS: number): boolean {
+    return timeMS - this.lastCatchMS <= this.rules.combo.windowMs;
+  }
+
+  /**
+   * Highest tier the streak has reached, if any
+   */
+  private getTier(combo: number): ComboTier | undefined {
+    let reached: ComboTier | undefined;
+    for (const tier of this.rules.combo.tiers) {
+      if (combo >= tier.combo && (!reached || tier.combo > reached.combo)) {
+        reached = tier;
+      }
+    }
+    return reached;
+  }
+
+  private getOverkillPenalty(wastedDamage: number, maxHealth: number): number {
+    if (wastedDamage <= 0 || maxHealth <= 0) return 0;
+
+    const { freeShare, penaltyPerShare, maxPenalty } = this.rules.overkill;
+    const excess = wastedDamage / maxHealth - freeShare;
+    return Math.min(maxPenalty, Math.max(0, excess * penaltyPerShare));
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * ScoreView.ts
+ *
+ * PIXI views for the scoring rounds
+ * ComboMeter sits under the score panel: the streak and its tier, a bar
+ * draining toward the end of the combo window and the round clock.
+ * RoundSummary is the end-of-round panel with the local player's
+ * ScoreBreakdown line by line and, at a shared table, everyone's totals.
+ *
+ * @version 1.0.0
+ * @path app/lib/ScoreView.ts
+ */
+
+import * as PIXI from 'pixi.js';
+import { ComboSnapshot, ScoreBreakdown } from './ScoreKeeper';
+import { RoundSnapshot } from './GameSimulation';
+
+const METER_WIDTH = 300;
+const METER_BAR_HEIGHT = 8;
+
+// Bar color per tier reached, lowest first
+const TIER_COLORS = [0x00ccff, 0x00ff88, 0xffcc00, 0xff6600, 0xff00ff];
+
+export class ComboMeter extends PIXI.Container {
+  private roundText: PIXI.Text;
+  private comboText: PIXI.Text;
+  private bar: PIXI.Graphics = new PIXI.Graphics();
+
+  constructor() {
+    super();
+    this.position.set(20, 222);
+
+    this.roundText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 14,
+        fill: 0xaaddff,
+        stroke: { color: 0x000000, width: 3 }
+      }
+    });
+
+    this.comboText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 22,
+        fontWeight: 'bold',
+        fill: 0xffffff,
+        stroke: { color: 0x000000, width: 4 }
+      }
+    });
+    this.comboText.position.set(0, 20);
+
+    this.addChild(this.roundText);
+    this.addChild(this.comboText);
+    this.addChild(this.bar);
+  }
+
+  public update(combo: ComboSnapshot, round: RoundSnapshot): void {
+    this.roundText.text = `Round ${round.index + 1} · ${formatSeconds(round.remainingMS)}`;
+
+    if (combo.count < 2) {
+      this.comboText.text = '';
+      this.bar.clear();
+      return;
+    }
+
+    const color = TIER_COLORS[Math.min(combo.tier, TIER_COLORS.length - 1)];
+    const multiplier = combo.multiplier > 1 ? `  x${combo.multiplier}` : '';
+
+    this.comboText.text = `${combo.label ?? 'Streak'} ${combo.count}${multiplier}`;
+    this.comboText.style.fill = color;
+
+    const ratio = Math.max(0, combo.remainingMS / combo.windowMS);
+    this.bar
+      .clear()
+      .roundRect(0, 50, METER_WIDTH, METER_BAR_HEIGHT, METER_BAR_HEIGHT / 2)
+      .fill({ color: 0x000000, alpha: 0.6 })
+      .roundRect(0, 50, Math.max(METER_BAR_HEIGHT, METER_WIDTH * ratio), METER_BAR_HEIGHT, METER_BAR_HEIGHT / 2)
+      .fill({ color });
+  }
+}
+
+/**
+ * A seated player's round total, for the standings
+ */
+export interface RoundStanding {
+  name: string;
+  total: number;
+  local: boolean;
+}
+
+const SUMMARY_WIDTH = 420;
+const SUMMARY_PADDING = 24;
+const SUMMARY_HOLD_MS = 6000;
+const SUMMARY_FADE_MS = 1000;
+
+export class RoundSummary extends PIXI.Container {
+  private background: PIXI.Graphics = new PIXI.Graphics();
+  private title: PIXI.Text;
+  private labels: PIXI.Text;
+  private values: PIXI.Text;
+  private shownMS: number = 0;
+
+  constructor(screenWidth: number, screenHeight: number) {
+    super();
+    this.visible = false;
+    this.position.set((screenWidth - SUMMARY_WIDTH) / 2, screenHeight / 4);
+
+    const style = {
+      fontFamily: 'Arial',
+      fontSize: 18,
+      fill: 0xffffff,
+      lineHeight: 26,
+      stroke: { color: 0x000000, width: 3 }
+    };
+
+    this.title = new PIXI.Text({
+      text: '',
+      style: { ...style, fontSize: 26, fontWeight: 'bold', fill: 0xffd700 }
+    });
+    this.title.anchor.set(0.5, 0);
+    this.title.position.set(SUMMARY_WIDTH / 2, SUMMARY_PADDING);
+
+    // Labels left-aligned, values right-aligned in a second column
+    this.labels = new PIXI.Text({ text: '', style });
+    this.labels.position.set(SUMMARY_PADDING, SUMMARY_PADDING + 48);
+    this.values = new PIXI.Text({ text: '', style: { ...style, align: 'right', fontWeight: 'bold' } });
+    this.values.anchor.set(1, 0);
+    this.values.position.set(SUMMARY_WIDTH - SUMMARY_PADDING, SUMMARY_PADDING + 48);
+
+    this.addChild(this.background);
+    this.addChild(this.title);
+    this.addChild(this.labels);
+    this.addChild(this.values);
+
+    // Click to dismiss early
+    this.eventMode = 'static';
+    this.cursor = 'pointer';
+    this.on('pointertap', () => { this.visible = false; });
+  }
+
+  /**
+   * @param standings Every seated player's total; left out when playing alone
+   */
+  public show(breakdown: ScoreBreakdown, standings: RoundStanding[] = []): void {
+    const rows: [string, string][] = [
+      ['Catches', `${breakdown.catches}`],
+      ['Base rewards', `${breakdown.base}`],
+      ['Rarity bonus', `+${breakdown.rarityBonus}`],
+      [`Combo bonus (best ${breakdown.bestCombo})`, `+${breakdown.comboBonus}`],
+      [`Formations cleared (${breakdown.formationsCleared})`, `+${breakdown.formationBonus}`],
+      ['Boss jackpots', `+${breakdown.jackpots}`],
+      [`Overkill (${breakdown.overkills})`, `-${breakdown.overkillPenalty}`],
+      ['', ''],
+      ['Total', `${breakdown.total}`]
+    ];
+
+    if (standings.length > 1) {
+      rows.push(['', '']);
+      [...standings]
+        .sort((a, b) => b.total - a.total)
+        .forEach((standing, i) => {
+          rows.push([`${i + 1}. ${standing.name}${standing.local ? ' (you)' : ''}`, `${standing.total}`]);
+        });
+    }
+
+    this.title.text = `Round ${breakdown.round + 1} complete`;
+    this.labels.text = rows.map(([label]) => label).join('\n');
+    this.values.text = rows.map(([, value]) => value).join('\n');
+
+    this.background
+      .clear()
+      .roundRect(0, 0, SUMMARY_WIDTH, this.labels.y + this.labels.height + SUMMARY_PADDING, 15)
+      .fill({ color: 0x000000, alpha: 0.85 })
+      .stroke({ color: 0xffd700, width: 2 });
+
+    this.shownMS = 0;
+    this.alpha = 1;
+    this.visible = true;
+  }
+
+  /**
+   * Holds the panel, then fades it out (deltaMS in ms)
+   */
+  public tick(deltaMS: number): void {
+    if (!this.visible) return;
+
+    this.shownMS += deltaMS;
+    if (this.shownMS > SUMMARY_HOLD_MS) {
+      this.alpha = Math.max(0, 1 - (this.shownMS - SUMMARY_HOLD_MS) / SUMMARY_FADE_MS);
+      this.visible = this.alpha > 0;
+    }
+  }
+}
+
+function formatSeconds(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
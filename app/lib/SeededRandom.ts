@@ -0,0 +1,125 @@
+/**
+ * SeededRandom.ts
+ *
+ * Deterministic pseudo-random number service shared by every DNA and spawn generator
+ * The same seed string always yields the same sequence, so fish and waves can be replayed
+ *
+ * @version 1.0.0
+ * @path app/lib/SeededRandom.ts
+ */
+
+/**
+ * Minimal random source contract so generators can accept any PRNG
+ */
+export interface RandomSource {
+  /** Returns a float in [0, 1) */
+  next(): number;
+}
+
+/**
+ * Hashes a seed string into a 32-bit state (cyrb53-style mixing)
+ */
+function hashSeed(seed: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < seed.length; i++) {
+    const ch = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (h1 ^ h2) >>> 0;
+}
+
+/**
+ * Creates a fresh seed string from the current time and entropy
+ * Format matches the legacy artefact id suffix: `<timestamp>-<9 chars>`
+ */
+export function createSeed(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+}
+
+/**
+ * Seeded PRNG (mulberry32) with helpers for the common generator operations
+ */
+export class SeededRandom implements RandomSource {
+  public readonly seed: string;
+  private state: number;
+
+  constructor(seed: string = createSeed()) {
+    this.seed = seed;
+    this.state = hashSeed(seed);
+  }
+
+  /**
+   * Returns a float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns a float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Returns an integer in [min, max)
+   */
+  public int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  /**
+   * Returns true with the given probability
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Picks a random element from a non-empty array
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Shuffles an array in place (Fisher-Yates)
+   */
+  public shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Returns a random base-36 token, used for ids that must stay reproducible
+   */
+  public token(length: number = 9): string {
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += Math.floor(this.next() * 36).toString(36);
+    }
+    return result;
+  }
+
+  /**
+   * Derives an independent child stream, e.g. one per spawned fish
+   */
+  public fork(label: string | number): SeededRandom {
+    return new SeededRandom(`${this.seed}:${label}`);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * ShotRenderer.ts
+ *
+ * Draws the shots in a WeaponSystem snapshot
+ * Keeps one Graphics per shot id, moving them to match each frame's snapshot,
+ * so it can render a live game or a replay alike. Graphics come from a pool
+ * per weapon and color, so a finished shot's drawing is reused as is by the
+ * next shot of the same look instead of being rebuilt.
+ *
+ * @version 1.0.0
+ * @path app/lib/ShotRenderer.ts
+ */
+
+import * as PIXI from 'pixi.js';
+import { WeaponRegistry, WeaponDefinition } from './WeaponRegistry';
+import { ShotSnapshot } from './WeaponSystem';
+import { ObjectPool, PoolStats } from './ObjectPool';
+
+interface DrawnShot {
+  graphics: PIXI.Graphics;
+  pool: ObjectPool<PIXI.Graphics>;
+}
+
+// Free Graphics kept per weapon and color
+const MAX_FREE_PER_STYLE = 32;
+
+export class ShotRenderer {
+  private container: PIXI.Container;
+  private shots: Map<string, DrawnShot> = new Map();
+  private pools: Map<string, ObjectPool<PIXI.Graphics>> = new Map();
+
+  constructor(container: PIXI.Container) {
+    this.container = container;
+  }
+
+  /**
+   * Matches the drawn shots to a snapshot
+   */
+  public sync(shots: ShotSnapshot[]): void {
+    const seen = new Set<string>();
+
+    shots.forEach(shot => {
+      seen.add(shot.id);
+
+      let drawn = this.shots.get(shot.id);
+      if (!drawn) {
+        const pool = this.getPool(WeaponRegistry.get(shot.weapon), shot.color);
+        drawn = { graphics: pool.acquire(), pool };
+        drawn.graphics.visible = true;
+        this.shots.set(shot.id, drawn);
+      }
+
+      drawn.graphics.position.set(shot.x, shot.y);
+      drawn.graphics.rotation = shot.rotation;
+    });
+
+    this.shots.forEach((_, id) => {
+      if (!seen.has(id)) {
+        this.remove(id);
+      }
+    });
+  }
+
+  public clear(): void {
+    Array.from(this.shots.keys()).forEach(id => this.remove(id));
+  }
+
+  /**
+   * Every style's pool summed up, for the debug overlay
+   */
+  public get stats(): PoolStats {
+    const total: PoolStats = { name: 'shots', free: 0, inUse: 0, created: 0 };
+    this.pools.forEach(pool => {
+      const { free, inUse, created } = pool.stats;
+      total.free += free;
+      total.inUse += inUse;
+      total.created += created;
+    });
+    return total;
+  }
+
+  public destroy(): void {
+    this.clear();
+    this.pools.forEach(pool => pool.clear());
+    this.pools.clear();
+  }
+
+  private remove(id: string): void {
+    const drawn = this.shots.get(id);
+    if (!drawn) return;
+
+    drawn.pool.release(drawn.graphics);
+    this.shots.delete(id);
+  }
+
+  private getPool(weapon: WeaponDefinition, color: number): ObjectPool<PIXI.Graphics> {
+    const key = `${weapon.id}:${color}`;
+    let pool = this.pools.get(key);
+    if (!pool) {
+      pool = new ObjectPool({
+        name: key,
+        create: () => this.container.addChild(this.drawShot(weapon, color)),
+        reset: graphics => {
+          graphics.visible = false;
+        },
+        dispose: graphics => graphics.destroy(),
+        maxFree: MAX_FREE_PER_STYLE
+      });
+      this.pools.set(key, pool);
+    }
+    return pool;
+  }
+
+  /**
+   * Shot visuals per behavior, drawn pointing along +x
+   */
+  private drawShot(weapon: WeaponDefinition, color: number): PIXI.Graphics {
+    const graphics = new PIXI.Graphics();
+    const r = weapon.radius;
+
+    switch (weapon.behavior) {
+      case 'beam':
+        graphics
+          .roundRect(-r * 8, -r, r * 10, r * 2, r)
+          .fill({ color, alpha: 0.5 })
+          .roundRect(-r * 7, -r * 0.4, r * 8, r * 0.8, r * 0.4)
+          .fill({ color: 0xffffff });
+        break;
+      case 'homing':
+        graphics
+          .roundRect(-r * 1.5, -r * 0.6, r * 3, r * 1.2, r * 0.6)
+          .fill({ color })
+          .poly([-r * 1.5, 0, -r * 2.2, -r, -r * 2.2, r])
+          .fill({ color: 0x666666 })
+          .circle(-r * 2.4, 0, r * 0.5)
+          .fill({ color: 0xffff66, alpha: 0.8 });
+        break;
+      case 'net':
+        graphics
+          .circle(0, 0, r)
+          .stroke({ color, width: 2 })
+          .moveTo(-r, 0).lineTo(r, 0)
+          .moveTo(0, -r).lineTo(0, r)
+          .stroke({ color, width: 1, alpha: 0.8 });
+        break;
+      case 'ricochet':
+        graphics
+          .poly([r, 0, 0, -r, -r, 0, 0, r])
+          .fill({ color })
+          .stroke({ color: 0xffffff, width: 1 });
+        break;
+      default:
+        graphics
+          .circle(0, 0, r)
+          .fill({ color });
+    }
+
+    return graphics;
+  }
+}
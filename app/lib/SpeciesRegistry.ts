@@ -0,0 +1,91 @@
+/**
+ * SpeciesRegistry.ts
+ *
+ * Typed lookup layer over FishSpeciesCatalog
+ * The gallery and the spawner resolve species (shape, colors, specials) through here
+ *
+ * @version 1.0.0
+ * @path app/lib/SpeciesRegistry.ts
+ */
+
+import { FISH_SPECIES_CATALOG, SpeciesCategory, SpeciesDefinition } from './FishSpeciesCatalog';
+import { RarityType } from '../config/fishConfig';
+import { RarityRegistry } from './RarityRegistry';
+import { RandomSource } from './SeededRandom';
+
+/**
+ * Optional constraints when listing or picking species
+ */
+export interface SpeciesFilter {
+  category?: SpeciesCategory;
+  minRarity?: RarityType;
+  maxRarity?: RarityType;
+}
+
+export class SpeciesRegistry {
+  // Fallback for DNA whose species is no longer (or never was) in the catalog
+  private static readonly DEFAULT_SPECIES = 'goldfish';
+
+  /**
+   * Returns a species, or undefined if it is not in the catalog
+   */
+  public static get(id: string): SpeciesDefinition | undefined {
+    return Object.prototype.hasOwnProperty.call(FISH_SPECIES_CATALOG, id)
+      ? FISH_SPECIES_CATALOG[id]
+      : undefined;
+  }
+
+  /**
+   * Returns a species, falling back to the default species if unknown
+   */
+  public static resolve(id: string): SpeciesDefinition {
+    return this.get(id) || FISH_SPECIES_CATALOG[this.DEFAULT_SPECIES];
+  }
+
+  public static has(id: string): boolean {
+    return this.get(id) !== undefined;
+  }
+
+  /**
+   * All species ids in catalog order
+   */
+  public static ids(filter: SpeciesFilter = {}): string[] {
+    return this.all(filter).map(species => species.name);
+  }
+
+  /**
+   * All species matching the filter, in catalog order
+   */
+  public static all(filter: SpeciesFilter = {}): SpeciesDefinition[] {
+    return Object.values(FISH_SPECIES_CATALOG).filter(species => this.matches(species, filter));
+  }
+
+  /**
+   * Categories that have at least one species
+   */
+  public static categories(): SpeciesCategory[] {
+    return [...new Set(Object.values(FISH_SPECIES_CATALOG).map(species => species.category))];
+  }
+
+  /**
+   * Picks a species matching the filter (falls back to the whole catalog if nothing matches)
+   */
+  public static pick(random: RandomSource, filter: SpeciesFilter = {}): SpeciesDefinition {
+    const candidates = this.all(filter);
+    const pool = candidates.length > 0 ? candidates : this.all();
+    return pool[Math.floor(random.next() * pool.length)];
+  }
+
+  private static matches(species: SpeciesDefinition, filter: SpeciesFilter): boolean {
+    if (filter.category && species.category !== filter.category) {
+      return false;
+    }
+    if (filter.minRarity && !RarityRegistry.isAtLeast(species.rarity, filter.minRarity)) {
+      return false;
+    }
+    if (filter.maxRarity && !RarityRegistry.isAtLeast(filter.maxRarity, species.rarity)) {
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * SwimPaths.ts
+ *
+ * Path and formation geometry shared by the aquarium and the game core
+ * FishSwimmingSystem moves sprites along these paths and arranges its
+ * formations with these offsets; BossFight builds its phase movement and
+ * minion formations from the same types without importing PIXI.
+ *
+ * @version 1.0.0
+ * @path app/lib/SwimPaths.ts
+ */
+
+import { Vec2 } from './CollisionSystem';
+
+/**
+ * Path types supported by the system
+ */
+export enum PathType {
+  LINEAR = 'linear',
+  BEZIER = 'bezier',
+  COMPLEX = 'complex',
+  CIRCULAR = 'circular',
+  PATROL = 'patrol'
+}
+
+/**
+ * Swimming styles for natural movement
+ */
+export enum SwimStyle {
+  STRAIGHT = 'straight',
+  WAVY = 'wavy',
+  ERRATIC = 'erratic',
+  GLIDING = 'gliding'
+}
+
+/**
+ * Formation types for fish groups
+ */
+export enum FormationType {
+  NONE = 'none',
+  SNAKE = 'snake',
+  V_SHAPE = 'v_shape',
+  CIRCULAR = 'circular',
+  DIAMOND = 'diamond',
+  GRID = 'grid'
+}
+
+/**
+ * Path geometry; circular paths use points[0] as the center and points[1].x
+ * as the radius
+ */
+export interface SwimPath {
+  type: PathType;
+  points: Vec2[];
+  controlPoints?: Vec2[];
+}
+
+/**
+ * Position along a path at progress (0-1 per pass; patrol and circular
+ * paths keep going past 1)
+ * @returns null once a one-way path is finished
+ */
+export function getPathPosition(path: SwimPath, progress: number): Vec2 | null {
+  switch (path.type) {
+    case PathType.LINEAR:
+      return getLinearPosition(path, progress);
+
+    case PathType.BEZIER:
+      return getBezierPosition(path, progress);
+
+    case PathType.CIRCULAR:
+      return getCircularPosition(path, progress);
+
+    case PathType.PATROL:
+      return getPatrolPosition(path, progress);
+
+    case PathType.COMPLEX:
+      return getComplexPosition(path, progress);
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Linear path calculation
+ */
+function getLinearPosition(path: SwimPath, progress: number): Vec2 | null {
+  if (progress > 1) return null;
+
+  const start = path.points[0];
+  const end = path.points[1];
+
+  return {
+    x: start.x + (end.x - start.x) * progress,
+    y: start.y + (end.y - start.y) * progress
+  };
+}
+
+/**
+ * Bezier curve path calculation
+ */
+function getBezierPosition(path: SwimPath, progress: number): Vec2 | null {
+  if (progress > 1) return null;
+
+  const points = path.points;
+  const controls = path.controlPoints || [];
+
+  if (points.length < 2) return null;
+
+  const t = progress;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const mt = 1 - t;
+  const mt2 = mt * mt;
+  const mt3 = mt2 * mt;
+
+  if (controls.length >= 2) {
+    // Cubic bezier
+    const p0 = points[0];
+    const p1 = controls[0];
+    const p2 = controls[1];
+    const p3 = points[1];
+
+    return {
+      x: mt3 * p0.x + 3 * mt2 * t * p1.x + 3 * mt * t2 * p2.x + t3 * p3.x,
+      y: mt3 * p0.y + 3 * mt2 * t * p1.y + 3 * mt * t2 * p2.y + t3 * p3.y
+    };
+  } else if (controls.length === 1) {
+    // Quadratic bezier
+    const p0 = points[0];
+    const p1 = controls[0];
+    const p2 = points[1];
+
+    return {
+      x: mt2 * p0.x + 2 * mt * t * p1.x + t2 * p2.x,
+      y: mt2 * p0.y + 2 * mt * t * p1.y + t2 * p2.y
+    };
+  }
+
+  return getLinearPosition(path, progress);
+}
+
+/**
+ * Circular path calculation
+ */
+function getCircularPosition(path: SwimPath, progress: number): Vec2 {
+  const center = path.points[0];
+  const radius = path.points[1].x; // Use x as radius
+  const angle = progress * Math.PI * 2;
+
+  return {
+    x: center.x + Math.cos(angle) * radius,
+    y: center.y + Math.sin(angle) * radius
+  };
+}
+
+/**
+ * Patrol path (back and forth)
+ */
+function getPatrolPosition(path: SwimPath, progress: number): Vec2 | null {
+  const pingPong = progress % 2;
+  const adjustedProgress = pingPong < 1 ? pingPong : 2 - pingPong;
+
+  return getLinearPosition(path, adjustedProgress);
+}
+
+/**
+ * Complex path with multiple segments
+ */
+function getComplexPosition(path: SwimPath, progress: number): Vec2 | null {
+  const points = path.points;
+  if (points.length < 2) return null;
+
+  const segments = points.length - 1;
+  const segmentProgress = progress * segments;
+  const currentSegment = Math.floor(segmentProgress);
+  const localProgress = segmentProgress - currentSegment;
+
+  if (currentSegment >= segments) return null;
+
+  const start = points[currentSegment];
+  const end = points[currentSegment + 1];
+
+  return {
+    x: start.x + (end.x - start.x) * localProgress,
+    y: start.y + (end.y - start.y) * localProgress
+  };
+}
+
+/**
+ * Offsets of each member from the formation leader
+ */
+export function getFormationOffsets(type: FormationType, fishCount: number, spacing: number): Vec2[] {
+  const positions: Vec2[] = [];
+
+  switch (type) {
+    case FormationType.SNAKE:
+      for (let i = 0; i < fishCount; i++) {
+        positions.push({ x: -i * spacing, y: 0 });
+      }
+      break;
+
+    case FormationType.V_SHAPE: {
+      const halfCount = Math.floor(fishCount / 2);
+      for (let i = 0; i < fishCount; i++) {
+        const side = i < halfCount ? -1 : 1;
+        const index = i < halfCount ? i : i - halfCount;
+        positions.push({
+          x: -index * spacing * 0.7,
+          y: side * index * spacing * 0.5
+        });
+      }
+      break;
+    }
+
+    case FormationType.CIRCULAR: {
+      const angleStep = (Math.PI * 2) / fishCount;
+      const radius = spacing * 2;
+      for (let i = 0; i < fishCount; i++) {
+        const angle = i * angleStep;
+        positions.push({
+          x: Math.cos(angle) * radius,
+          y: Math.sin(angle) * radius
+        });
+      }
+      break;
+    }
+
+    case FormationType.DIAMOND: {
+      const diamondPositions = [
+        { x: 0, y: -spacing },
+        { x: spacing, y: 0 },
+        { x: 0, y: spacing },
+        { x: -spacing, y: 0 }
+      ];
+      for (let i = 0; i < fishCount; i++) {
+        positions.push({ ...diamondPositions[i % 4] });
+      }
+      break;
+    }
+
+    case FormationType.GRID: {
+      const cols = Math.ceil(Math.sqrt(fishCount));
+      for (let i = 0; i < fishCount; i++) {
+        const row = Math.floor(i / cols);
+        const col = i % cols;
+        positions.push({
+          x: col * spacing - (cols - 1) * spacing / 2,
+          y: row * spacing
+        });
+      }
+      break;
+    }
+  }
+
+  return positions;
+}
@@ -0,0 +1,316 @@
+/**
+ * TableClient.ts
+ *
+ * Browser side of the shared-table multiplayer mode
+ * Mirrors a GameSimulation running on a table server: commands go up the
+ * WebSocket, snapshots come down at TABLE_CONFIG.snapshotRate. Fish, shots and
+ * the boss are drawn interpolationDelayMs behind the newest snapshot, blended
+ * between the two around that time, and each snapshot's events are replayed
+ * when the render time reaches it so effects line up with what is on screen.
+ *
+ * @version 1.0.0
+ * @path app/lib/TableClient.ts
+ */
+
+import { TABLE_CONFIG, WeaponType } from '../config/fishConfig';
+import { WeaponRegistry, WeaponDefinition } from './WeaponRegistry';
+import { Vec2 } from './CollisionSystem';
+import { TypedEmitter } from './TypedEmitter';
+import { lerpAngle } from './FishSchool';
+import { BossSnapshot } from './BossFight';
+import { GameState, createGameState, getShotCost } from './GameRules';
+import {
+  GameTable,
+  GameSnapshot,
+  GameSimulationEvents,
+  PlayerSnapshot
+} from './GameSimulation';
+import {
+  ClientMessage,
+  ServerMessage,
+  TableEvent,
+  encodeMessage,
+  parseServerMessage
+} from './TableProtocol';
+
+export interface TableClientOptions {
+  name?: string;
+  interpolationDelayMs?: number;
+}
+
+/**
+ * A received snapshot on the local clock, with its events until replayed
+ */
+interface BufferedSnapshot {
+  time: number;
+  snapshot: GameSnapshot;
+  events: TableEvent[];
+  dispatched: boolean;
+}
+
+// How quickly the server clock estimate follows new samples
+const CLOCK_SMOOTHING = 0.1;
+
+export class TableClient extends TypedEmitter<GameSimulationEvents> implements GameTable {
+  public readonly area = { x: 0, y: 0, width: TABLE_CONFIG.width, height: TABLE_CONFIG.height };
+  private socket: WebSocket;
+  private name?: string;
+  private interpolationDelayMs: number;
+  private playerId: string = '';
+  private buffer: BufferedSnapshot[] = [];
+  private current: GameSnapshot | null = null;
+  private localPlayer: PlayerSnapshot | null = null;
+  private clockOffset: number | null = null;  // Server time minus local time
+  private lastFired: number = -Infinity;
+
+  constructor(url: string, options: TableClientOptions = {}) {
+    super();
+    this.name = options.name;
+    this.interpolationDelayMs = options.interpolationDelayMs ?? TABLE_CONFIG.interpolationDelayMs;
+
+    this.socket = new WebSocket(url);
+    this.socket.addEventListener('open', () => this.send({ type: 'join', name: this.name }));
+    this.socket.addEventListener('message', event => this.onMessage(event));
+    this.socket.addEventListener('close', () => console.warn('Disconnected from table server'));
+  }
+
+  public get localPlayerId(): string {
+    return this.playerId;
+  }
+
+  public get connected(): boolean {
+    return this.socket.readyState === WebSocket.OPEN && this.playerId !== '';
+  }
+
+  /**
+   * The local player's wallet as of the snapshot on screen
+   */
+  public get state(): Readonly<GameState> {
+    return this.localPlayer?.state ?? createGameState();
+  }
+
+  public get weapon(): WeaponDefinition {
+    return WeaponRegistry.get(this.localPlayer?.weapon ?? WeaponRegistry.ids()[0]);
+  }
+
+  /**
+   * Moves the render time forward, replaying the events it passes
+   */
+  public step(_deltaMS: number): void {
+    if (this.clockOffset === null) return;
+
+    const renderTime = performance.now() + this.clockOffset - this.interpolationDelayMs;
+
+    this.buffer.forEach(entry => {
+      if (!entry.dispatched && entry.time <= renderTime) {
+        this.dispatch(entry);
+      }
+    });
+
+    // Keep one snapshot at or before the render time to blend from
+    while (this.buffer.length > 2 && this.buffer[1].time <= renderTime) {
+      this.buffer.shift();
+    }
+
+    this.current = this.interpolate(renderTime);
+  }
+
+  public snapshot(): GameSnapshot {
+    return this.current ?? {
+      timeMS: 0,
+      seed: '',
+      difficulty: 0,
+      players: [],
+      fish: [],
+      shots: [],
+      boss: null,
+      round: { index: 0, remainingMS: 0 }
+    };
+  }
+
+  /**
+   * Sends a shot if the local player can afford it and has cooled down; the
+   * server has the final word
+   */
+  public fire(aim: Vec2): boolean {
+    if (!this.connected) return false;
+
+    const weapon = this.weapon;
+    const now = performance.now();
+    if (this.state.coins < getShotCost(this.state, weapon)) return false;
+    if (now - this.lastFired < 1000 / weapon.fireRate) return false;
+
+    this.lastFired = now;
+    this.send({ type: 'fire', aim: { x: aim.x, y: aim.y } });
+    return true;
+  }
+
+  public upgrade(): boolean {
+    if (!this.connected) return false;
+    this.send({ type: 'upgrade' });
+    return true;
+  }
+
+  public selectWeapon(id: WeaponType): void {
+    this.send({ type: 'weapon', weapon: id });
+  }
+
+  public cycleWeapon(step: number = 1): void {
+    this.selectWeapon(WeaponRegistry.cycle(this.weapon.id, step));
+  }
+
+  /**
+   * Color of the local player's shots; the basic cannon shows the power tier
+   */
+  public getShotColor(): number {
+    const weapon = this.weapon;
+    return weapon.behavior === 'straight' ? WeaponRegistry.powerColor(this.state.cannonPower) : weapon.color;
+  }
+
+  public destroy(): void {
+    this.socket.close();
+    this.buffer = [];
+    this.removeAllListeners();
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(encodeMessage(message));
+    }
+  }
+
+  private onMessage(event: MessageEvent): void {
+    const message: ServerMessage | null = typeof event.data === 'string' ? parseServerMessage(event.data) : null;
+    if (!message) return;
+
+    switch (message.type) {
+      case 'welcome':
+        this.playerId = message.playerId;
+        break;
+      case 'full':
+        console.warn('Table is full');
+        this.socket.close();
+        break;
+      case 'snapshot':
+        this.receive(message.snapshot, message.events);
+        break;
+    }
+  }
+
+  private receive(snapshot: GameSnapshot, events: TableEvent[]): void {
+    const sample = snapshot.timeMS - performance.now();
+    this.clockOffset = this.clockOffset === null
+      ? sample
+      : this.clockOffset + (sample - this.clockOffset) * CLOCK_SMOOTHING;
+
+    this.buffer.push({ time: snapshot.timeMS, snapshot, events, dispatched: false });
+  }
+
+  /**
+   * Re-emits a snapshot's events as simulation events, then any change to
+   * the local player's wallet or weapon
+   */
+  private dispatch(entry: BufferedSnapshot): void {
+    entry.dispatched = true;
+
+    entry.events.forEach(event => {
+      switch (event.type) {
+        case 'join':
+        case 'leave':
+          this.emit(event.type, event.player);
+          break;
+        case 'fire':
+          this.emit('fire', { ...event.event, weapon: WeaponRegistry.get(event.event.weapon) });
+          break;
+        case 'impact':
+          this.emit('impact', { ...event.event, weapon: WeaponRegistry.get(event.event.weapon) });
+          break;
+        case 'hit':
+          this.emit('hit', event.event);
+          break;
+        case 'caught':
+          this.emit('caught', event.event);
+          break;
+        case 'bossSpawn':
+        case 'bossPhase':
+        case 'bossEnrage':
+        case 'bossEscape':
+          this.emit(event.type, event.boss);
+          break;
+        case 'bossHit':
+          this.emit('bossHit', event.event);
+          break;
+        case 'bossDefeated':
+          this.emit('bossDefeated', event.event);
+          break;
+        case 'formation':
+          this.emit('formation', event.event);
+          break;
+        case 'roundEnd':
+          this.emit('roundEnd', event.event);
+          break;
+      }
+    });
+
+    const previous = this.localPlayer;
+    this.localPlayer = entry.snapshot.players.find(player => player.id === this.playerId) ?? null;
+    if (!this.localPlayer) return;
+
+    const { state, weapon } = this.localPlayer;
+    if (!previous || previous.weapon !== weapon) {
+      this.emit('weapon', WeaponRegistry.get(weapon), this.playerId);
+    }
+    if (!previous || JSON.stringify(previous.state) !== JSON.stringify(state)) {
+      this.emit('state', { ...state }, this.playerId);
+    }
+  }
+
+  /**
+   * Blends fish, shots and the boss between the snapshots either side of renderTime;
+   * anything missing from the later one is already gone
+   */
+  private interpolate(renderTime: number): GameSnapshot | null {
+    const [from, to] = this.buffer;
+    if (!from) return null;
+    if (!to || renderTime <= from.time) return from.snapshot;
+
+    const alpha = Math.min(1, (renderTime - from.time) / Math.max(1, to.time - from.time));
+    const earlierFish = new Map(from.snapshot.fish.map(fish => [fish.id, fish]));
+    const earlierShots = new Map(from.snapshot.shots.map(shot => [shot.id, shot]));
+
+    return {
+      ...to.snapshot,
+      timeMS: renderTime,
+      fish: to.snapshot.fish.map(fish => {
+        const earlier = earlierFish.get(fish.id);
+        return earlier
+          ? { ...fish, ...lerpPoint(earlier, fish, alpha), heading: lerpAngle(earlier.heading, fish.heading, alpha) }
+          : fish;
+      }),
+      shots: to.snapshot.shots.map(shot => {
+        const earlier = earlierShots.get(shot.id);
+        return earlier
+          ? { ...shot, ...lerpPoint(earlier, shot, alpha), rotation: lerpAngle(earlier.rotation, shot.rotation, alpha) }
+          : shot;
+      }),
+      boss: lerpBoss(from.snapshot.boss, to.snapshot.boss, alpha)
+    };
+  }
+}
+
+function lerpBoss(from: BossSnapshot | null, to: BossSnapshot | null, alpha: number): BossSnapshot | null {
+  if (!from || !to || from.id !== to.id) return to;
+  return {
+    ...to,
+    ...lerpPoint(from, to, alpha),
+    heading: lerpAngle(from.heading, to.heading, alpha),
+    weakPoints: to.weakPoints.map((point, i) => ({ ...point, ...lerpPoint(from.weakPoints[i] ?? point, point, alpha) }))
+  };
+}
+
+function lerpPoint(from: Vec2, to: Vec2, alpha: number): Vec2 {
+  return {
+    x: from.x + (to.x - from.x) * alpha,
+    y: from.y + (to.y - from.y) * alpha
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * TableProtocol.ts
+ *
+ * Wire format of the shared-table multiplayer mode
+ * Clients send commands (join, fire, upgrade, weapon); the table server runs
+ * the only GameSimulation and answers with snapshots plus the events that
+ * happened since the previous one. Every message is one JSON text frame.
+ * Weapon definitions travel as their ids and are looked up on arrival.
+ *
+ * @version 1.0.0
+ * @path app/lib/TableProtocol.ts
+ */
+
+import { WeaponType } from '../config/fishConfig';
+import { WeaponRegistry } from './WeaponRegistry';
+import { Vec2 } from './CollisionSystem';
+import {
+  GameSnapshot,
+  PlayerSnapshot,
+  FishHitEvent,
+  FishCaughtEvent,
+  ImpactEvent,
+  ShotFiredEvent,
+  BossHitEvent,
+  BossDefeatedEvent,
+  FormationClearedEvent,
+  RoundEndEvent
+} from './GameSimulation';
+import { BossSnapshot } from './BossFight';
+
+export type ClientMessage =
+  | { type: 'join'; name?: string }
+  | { type: 'fire'; aim: Vec2 }
+  | { type: 'upgrade' }
+  | { type: 'weapon'; weapon: WeaponType };
+
+/**
+ * Simulation events as sent over the wire
+ */
+export type TableEvent =
+  | { type: 'join'; player: PlayerSnapshot }
+  | { type: 'leave'; player: PlayerSnapshot }
+  | { type: 'fire'; event: WireEvent<ShotFiredEvent> }
+  | { type: 'hit'; event: FishHitEvent }
+  | { type: 'impact'; event: WireEvent<ImpactEvent> }
+  | { type: 'caught'; event: FishCaughtEvent }
+  | { type: 'bossSpawn' | 'bossPhase' | 'bossEnrage' | 'bossEscape'; boss: BossSnapshot }
+  | { type: 'bossHit'; event: BossHitEvent }
+  | { type: 'bossDefeated'; event: BossDefeatedEvent }
+  | { type: 'formation'; event: FormationClearedEvent }
+  | { type: 'roundEnd'; event: RoundEndEvent };
+
+/**
+ * An event with its weapon definition replaced by the weapon id
+ */
+export type WireEvent<E extends { weapon: unknown }> = Omit<E, 'weapon'> & { weapon: WeaponType };
+
+export type ServerMessage =
+  | { type: 'welcome'; playerId: string; seat: number; seed: string; width: number; height: number }
+  | { type: 'full' }
+  | { type: 'snapshot'; snapshot: GameSnapshot; events: TableEvent[] };
+
+// Longest player name the server keeps
+const MAX_NAME_LENGTH = 24;
+
+export function encodeMessage(message: ClientMessage | ServerMessage): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * Validates a command from a client; anything malformed is dropped
+ */
+export function parseClientMessage(data: string): ClientMessage | null {
+  const message = parseObject(data);
+  if (!message) return null;
+
+  switch (message.type) {
+    case 'join':
+      return {
+        type: 'join',
+        name: typeof message.name === 'string' ? message.name.slice(0, MAX_NAME_LENGTH) : undefined
+      };
+    case 'fire':
+      return isVec2(message.aim) ? { type: 'fire', aim: { x: message.aim.x, y: message.aim.y } } : null;
+    case 'upgrade':
+      return { type: 'upgrade' };
+    case 'weapon':
+      return typeof message.weapon === 'string' && WeaponRegistry.has(message.weapon)
+        ? { type: 'weapon', weapon: message.weapon }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads a server message; the server is trusted, so only the type is checked
+ */
+export function parseServerMessage(data: string): ServerMessage | null {
+  const message = parseObject(data);
+  if (!message) return null;
+
+  switch (message.type) {
+    case 'welcome':
+    case 'full':
+    case 'snapshot':
+      return message as unknown as ServerMessage;
+    default:
+      return null;
+  }
+}
+
+function parseObject(data: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(data);
+    return typeof value === 'object' && value !== null ? value as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+function isVec2(value: unknown): value is Vec2 {
+  if (typeof value !== 'object' || value === null) return false;
+  const { x, y } = value as Record<string, unknown>;
+  return typeof x === 'number' && typeof y === 'number' && Number.isFinite(x) && Number.isFinite(y);
+}
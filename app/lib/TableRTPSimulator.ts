@@ -0,0 +1,205 @@
+/**
+ * TableRTPSimulator.ts
+ *
+ * Return-to-player check of the probabilistic catch model in play
+ * Seats a full probability-mode GameSimulation table, has every seat fire one
+ * weapon at its fish and compares what the catches paid with what the shots
+ * cost. Unlike EconomySimulator nothing is abstracted: travel, pierce, blasts,
+ * nets, ricochets and misses all land the way they do in a game. Backs
+ * `npm run rtp` together with simulateCatchRTP.
+ *
+ * @version 1.0.0
+ * @path app/lib/TableRTPSimulator.ts
+ */
+
+import { CATCH_ECONOMY, TABLE_CONFIG, WeaponType } from '../config/fishConfig';
+import { WeaponRegistry } from './WeaponRegistry';
+import { GameSimulation } from './GameSimulation';
+import { SeededRandom, createSeed } from './SeededRandom';
+import { createGameState, getShotCost } from './GameRules';
+
+export interface TableRTPOptions {
+  seed?: string;
+  weapons?: WeaponType[];  // Defaults to every weapon
+  power?: number;          // Cannon power level, the bet multiplier
+  targetError?: number;    // Standard error of each weapon's RTP to fire until
+  maxShots?: number;       // Per weapon, in case targetError is out of reach
+  rtp?: number;
+  maxChance?: number;
+  tolerance?: number;      // Allowed drift in standard errors
+}
+
+/**
+ * One weapon's returns; `spent` is what its shots cost and `wagered` the bets
+ * their hits carried, which never exceeds spent
+ */
+export interface WeaponRTPReport {
+  weapon: WeaponType;
+  shots: number;
+  hits: number;
+  catches: number;
+  spent: number;
+  wagered: number;
+  paid: number;
+  expectedRTP: number;    // Expected paid / spent
+  observedRTP: number;    // paid / spent
+  standardError: number;  // Of observedRTP
+  zScore: number;         // Of paid against its expectation
+  precise: boolean;       // Firing stopped once standardError reached targetError
+  withinTolerance: boolean;
+}
+
+export interface TableRTPReport {
+  seed: string;
+  targetRTP: number;
+  tolerance: number;
+  targetError: number;
+  weapons: WeaponRTPReport[];
+  withinTolerance: boolean;  // For every weapon
+}
+
+// Simulation step; shots are swept, so a 30 fps step can't tunnel past fish
+const FRAME_MS = 1000 / 30;
+
+// Time left after the last shot for it to land
+const SETTLE_MS = 3000;
+
+// Shots before the standard error is trusted to decide when to stop
+const MIN_TABLE_SHOTS = 500;
+
+/**
+ * Monte Carlo check of the catch model in play: every seat of a
+ * probability-mode GameSimulation fires one weapon at its fish until the
+ * weapon's RTP is known to `targetError`, so pierce, blasts, nets, ricochets
+ * and misses all count. Probability mode has no boss jackpots, so catches
+ * are everything the shots return. A weapon is within tolerance when it
+ * reached that precision, what it paid matches the expectation of its rolls
+ * and it does not beat the target RTP on what its shots cost, both to
+ * `tolerance` standard errors.
+ *
+ * The standard error falls with the coins spent, not the shots, so a higher
+ * power reaches it in fewer shots.
+ */
+export function simulateTableRTP(options: TableRTPOptions = {}): TableRTPReport {
+  const seed = options.seed ?? createSeed();
+  const targetRTP = options.rtp ?? CATCH_ECONOMY.rtp;
+  const tolerance = options.tolerance ?? CATCH_ECONOMY.tolerance;
+  const targetError = options.targetError ?? 0.03;
+
+  const weapons = (options.weapons ?? WeaponRegistry.ids()).map(weapon => simulateWeaponRTP(weapon, {
+    seed: `${seed}:${weapon}`,
+    power: options.power ?? 10,
+    targetError,
+    maxShots: options.maxShots ?? 100000,
+    rtp: targetRTP,
+    maxChance: options.maxChance ?? CATCH_ECONOMY.maxChance,
+    tolerance
+  }));
+
+  return {
+    seed,
+    targetRTP,
+    tolerance,
+    targetError,
+    weapons,
+    withinTolerance: weapons.every(report => report.withinTolerance)
+  };
+}
+
+function simulateWeaponRTP(
+  weapon: WeaponType,
+  options: Required<Omit<TableRTPOptions, 'weapons'>>
+): WeaponRTPReport {
+  const state = createGameState({ catchMode: 'probability', cannonPower: options.power });
+  const shotCost = getShotCost(state, WeaponRegistry.get(weapon));
+  const wallet = { coins: shotCost * options.maxShots, cannonPower: options.power };
+
+  const simulation = new GameSimulation(
+    { x: 0, y: 0, width: TABLE_CONFIG.width, height: TABLE_CONFIG.height },
+    {
+      seed: options.seed,
+      catchMode: 'probability',
+      catchEconomy: { rtp: options.rtp, maxChance: options.maxChance },
+      localPlayer: null
+    }
+  );
+
+  // Every seat fires, so the table's fish are shared out like in a full game
+  const seats: { id: string; targetId: string | null }[] = [];
+  for (let seat = 0; seat < TABLE_CONFIG.maxPlayers; seat++) {
+    const id = `sim-${seat}`;
+    simulation.addPlayer({ id, seat, state: wallet });
+    simulation.selectWeapon(weapon, id);
+    seats.push({ id, targetId: null });
+  }
+
+  // Fish on the table, tracked from events so no step needs a full snapshot
+  const fishIds: string[] = [];
+  const forget = (id: string) => {
+    const index = fishIds.indexOf(id);
+    if (index >= 0) fishIds.splice(index, 1);
+  };
+  simulation.on('spawn', fish => fishIds.push(fish.id));
+  simulation.on('despawn', fish => forget(fish.id));
+  simulation.on('caught', event => forget(event.fish.id));
+
+  let shots = 0;
+  let spent = 0;
+  simulation.on('fire', event => {
+    shots++;
+    spent += event.cost;
+  });
+
+  const isPrecise = (): boolean => {
+    const { variance } = simulation.getCatchStats();
+    return spent > 0 && Math.sqrt(variance) / spent <= options.targetError;
+  };
+
+  // Each seat aims at one fish until it is gone, like a player holding on a target
+  const aim = new SeededRandom(options.seed).fork('aim');
+
+  let reachedError = false;
+  while (shots < options.maxShots && !reachedError) {
+    simulation.step(FRAME_MS);
+
+    seats.forEach(seat => {
+      if (seat.targetId === null || !fishIds.includes(seat.targetId)) {
+        seat.targetId = fishIds.length > 0 ? aim.pick(fishIds) : null;
+      }
+      const target = seat.targetId === null ? undefined : simulation.getFish(seat.targetId);
+      if (target && shots < options.maxShots) {
+        simulation.fire(target, seat.id);
+      }
+    });
+    reachedError = shots >= MIN_TABLE_SHOTS && isPrecise();
+  }
+  for (let settled = 0; settled < SETTLE_MS; settled += FRAME_MS) {
+    simulation.step(FRAME_MS);
+  }
+
+  const { hits, catches, wagered, paid, expectedPaid, variance } = simulation.getCatchStats();
+  simulation.destroy();
+
+  const deviation = Math.sqrt(variance);
+  const standardError = spent > 0 ? deviation / spent : 0;
+  const zScore = deviation > 0 ? (paid - expectedPaid) / deviation : 0;
+  const overpaid = paid - options.rtp * spent;
+  // How far paid sits above the target RTP of what was spent, in standard errors
+  const overpayScore = deviation > 0 ? overpaid / deviation : (overpaid > 0 ? Infinity : 0);
+
+  return {
+    weapon,
+    shots,
+    hits,
+    catches,
+    spent,
+    wagered,
+    paid,
+    expectedRTP: spent > 0 ? expectedPaid / spent : 0,
+    observedRTP: spent > 0 ? paid / spent : 0,
+    standardError,
+    zScore,
+    precise: reachedError,
+    withinTolerance: reachedError && Math.abs(zScore) <= options.tolerance && overpayScore <= options.tolerance
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * Targeting.ts
+ *
+ * Auto-aim for the local cannon
+ * In lock-on mode a clicked fish (or the boss) stays targeted until it is
+ * caught, flees or leaves the play area; in auto mode targets are chosen by
+ * priority (highest reward, lowest health or nearest) and kept until they
+ * go. Either way update() says where to aim each frame and when a shot is
+ * due at the chosen fire rate, and only while the caller can afford it. The
+ * engine turns that into ordinary aim and fire commands, so recording,
+ * replays and shared tables work unchanged. Reads GameSnapshots; no PIXI.
+ *
+ * @version 1.0.0
+ * @path app/lib/Targeting.ts
+ */
+
+import { TARGETING_CONFIG } from '../config/fishConfig';
+import { BossRegistry } from './BossRegistry';
+import { Vec2 } from './CollisionSystem';
+import { GameSnapshot, SimulationArea } from './GameSimulation';
+
+export type TargetingMode = 'manual' | 'lockOn' | 'auto';
+export type TargetPriority = 'reward' | 'health' | 'nearest';
+
+export const TARGETING_MODES: TargetingMode[] = ['manual', 'lockOn', 'auto'];
+export const TARGET_PRIORITIES: TargetPriority[] = ['reward', 'health', 'nearest'];
+
+/**
+ * A fish or the boss as targeting sees it
+ */
+export interface Target {
+  id: string;
+  x: number;
+  y: number;
+  radius: number;  // Click radius in px
+  health: number;
+  reward: number;
+}
+
+/**
+ * What the cannon should do this frame
+ */
+export interface TargetingCommand {
+  target: Target;
+  fire: boolean;  // A shot is due and affordable; report it with fired()
+}
+
+export interface TargetingOptions {
+  mode?: TargetingMode;
+  priority?: TargetPriority;
+  fireRate?: number;  // Shots per second
+}
+
+export class Targeting {
+  public mode: TargetingMode;
+  public priority: TargetPriority;
+  private rate: number;
+  private area: SimulationArea;
+  private currentId: string | null = null;
+  private sinceFiredMS: number = Infinity;
+
+  constructor(area: SimulationArea, options: TargetingOptions = {}) {
+    this.area = area;
+    this.mode = options.mode ?? 'manual';
+    this.priority = options.priority ?? 'reward';
+    this.rate = options.fireRate ?? TARGETING_CONFIG.defaultFireRate;
+  }
+
+  public get fireRate(): number {
+    return this.rate;
+  }
+
+  /**
+   * The locked (lock-on) or chosen (auto) target's id
+   */
+  public get targetId(): string | null {
+    return this.currentId;
+  }
+
+  public setMode(mode: TargetingMode): void {
+    if (mode !== this.mode) {
+      this.mode = mode;
+      this.currentId = null;
+    }
+  }
+
+  public cycleMode(step: number = 1): TargetingMode {
+    this.setMode(cycle(TARGETING_MODES, this.mode, step));
+    return this.mode;
+  }
+
+  /**
+   * Auto mode picks its next target by the new priority
+   */
+  public cyclePriority(step: number = 1): TargetPriority {
+    this.priority = cycle(TARGET_PRIORITIES, this.priority, step);
+    if (this.mode === 'auto') {
+      this.currentId = null;
+    }
+    return this.priority;
+  }
+
+  /**
+   * Steps through TARGETING_CONFIG.fireRates, wrapping around
+   */
+  public cycleFireRate(step: number = 1): number {
+    this.rate = cycle(TARGETING_CONFIG.fireRates, this.rate, step);
+    return this.rate;
+  }
+
+  /**
+   * The target under a point, nearest first
+   */
+  public pick(snapshot: GameSnapshot, point: Vec2): Target | null {
+    let picked: Target | null = null;
+    let best = Infinity;
+    for (const target of this.getTargets(snapshot)) {
+      const distance = Math.hypot(target.x - point.x, target.y - point.y);
+      if (distance <= target.radius + TARGETING_CONFIG.pickPadding && distance < best) {
+        picked = target;
+        best = distance;
+      }
+    }
+    return picked;
+  }
+
+  /**
+   * Locks onto a target (switching to lock-on mode)
+   */
+  public lock(id: string): void {
+    this.setMode('lockOn');
+    this.currentId = id;
+    // The first shot goes out straight away
+    this.sinceFiredMS = Infinity;
+  }
+
+  public release(): void {
+    this.currentId = null;
+  }
+
+  /**
+   * Tracks the target and times shots
+   * @param origin The cannon, for nearest-first priority
+   * @param canFire Whether a shot is affordable now
+   * @returns null in manual mode or with nothing to aim at
+   */
+  public update(deltaMS: number, snapshot: GameSnapshot, origin: Vec2, canFire: boolean): TargetingCommand | null {
+    this.sinceFiredMS += deltaMS;
+    if (this.mode === 'manual') return null;
+
+    const targets = this.getTargets(snapshot).filter(target => this.isInPlay(target));
+    let target = targets.find(candidate => candidate.id === this.currentId) ?? null;
+
+    // Lock-on ends with its target; auto moves on to the next
+    if (!target && this.mode === 'auto') {
+      target = this.choose(targets, origin);
+    }
+    this.currentId = target?.id ?? null;
+    if (!target) return null;
+
+    return { target, fire: canFire && this.sinceFiredMS >= 1000 / this.rate };
+  }
+
+  /**
+   * Restarts the fire-rate timer after a shot the table accepted
+   */
+  public fired(): void {
+    this.sinceFiredMS = 0;
+  }
+
+  private getTargets(snapshot: GameSnapshot): Target[] {
+    const targets: Target[] = snapshot.fish.map(fish => ({
+      id: fish.id,
+      x: fish.x,
+      y: fish.y,
+      radius: fish.size * TARGETING_CONFIG.pickRadiusPerSize,
+      health: fish.health,
+      reward: fish.reward
+    }));
+
+    const { boss } = snapshot;
+    if (boss && !boss.fleeing) {
+      targets.push({
+        id: boss.id,
+        x: boss.x,
+        y: boss.y,
+        radius: boss.size / 2,
+        health: boss.health,
+        reward: BossRegistry.get(boss.bossId).jackpot
+      });
+    }
+    return targets;
+  }
+
+  private isInPlay(target: Target): boolean {
+    const margin = TARGETING_CONFIG.edgeMargin;
+    const { x, y, width, height } = this.area;
+    return target.x >= x + margin && target.x <= x + width - margin &&
+      target.y >= y + margin && target.y <= y + height - margin;
+  }
+
+  private choose(targets: Target[], origin: Vec2): Target | null {
+    const score = (target: Target): number => {
+      switch (this.priority) {
+        case 'reward':
+          return -target.reward;
+        case 'health':
+          return target.health;
+        case 'nearest':
+          return Math.hypot(target.x - origin.x, target.y - origin.y);
+      }
+    };
+
+    let chosen: Target | null = null;
+    for (const target of targets) {
+      if (!chosen || score(target) < score(chosen)) {
+        chosen = target;
+      }
+    }
+    return chosen;
+  }
+}
+
+/**
+ * The value `step` places along from current; a value not in the list
+ * counts as sitting before the first
+ */
+function cycle<T>(values: readonly T[], current: T, step: number): T {
+  const index = values.indexOf(current);
+  const from = index < 0 ? (step > 0 ? -1 : 0) : index;
+  return values[((from + step) % values.length + values.length) % values.length];
+}
@@ -0,0 +1,173 @@
+/**
+ * TargetingView.ts
+ *
+ * PIXI views for Targeting
+ * Reticle is the spinning crosshair drawn over the current target, red for a
+ * lock-on and amber for an auto-picked one. TargetingPanel sits under the
+ * combo meter with one button each for the mode, the auto priority and the
+ * fire rate; clicking cycles them, as do the T, Y and [ ] keys.
+ *
+ * @version 1.0.0
+ * @path app/lib/TargetingView.ts
+ */
+
+import * as PIXI from 'pixi.js';
+import { Target, Targeting, TargetingMode, TargetPriority } from './Targeting';
+
+const LOCK_COLOR = 0xff3344;
+const AUTO_COLOR = 0xffaa00;
+
+// Spin in radians per ms
+const SPIN_SPEED = 0.002;
+
+export class Reticle extends PIXI.Container {
+  private ring: PIXI.Graphics = new PIXI.Graphics();
+  private radius: number = 0;
+  private color: number = 0;
+
+  constructor() {
+    super();
+    this.visible = false;
+    this.addChild(this.ring);
+  }
+
+  /**
+   * Follows the target, or hides with none
+   */
+  public update(target: Target | null, mode: TargetingMode, deltaMS: number): void {
+    this.visible = target !== null;
+    if (!target) return;
+
+    const radius = Math.max(20, target.radius);
+    const color = mode === 'lockOn' ? LOCK_COLOR : AUTO_COLOR;
+    if (radius !== this.radius || color !== this.color) {
+      this.draw(radius, color);
+    }
+
+    this.position.set(target.x, target.y);
+    this.ring.rotation += SPIN_SPEED * deltaMS;
+  }
+
+  private draw(radius: number, color: number): void {
+    this.radius = radius;
+    this.color = color;
+
+    const tick = radius * 0.4;
+    this.ring
+      .clear()
+      .circle(0, 0, radius)
+      .stroke({ color, width: 2, alpha: 0.9 });
+
+    // Four ticks pointing in at the target
+    [0, Math.PI / 2, Math.PI, Math.PI * 1.5].forEach(angle => {
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      this.ring
+        .moveTo(cos * (radius + tick), sin * (radius + tick))
+        .lineTo(cos * (radius - tick), sin * (radius - tick));
+    });
+    this.ring.stroke({ color, width: 3 });
+  }
+}
+
+const MODE_LABELS: Record<TargetingMode, string> = {
+  manual: '🖱️ Manual',
+  lockOn: '🎯 Lock-on',
+  auto: '🤖 Auto'
+};
+
+const PRIORITY_LABELS: Record<TargetPriority, string> = {
+  reward: '💰 Reward',
+  health: '💔 Low HP',
+  nearest: '📍 Nearest'
+};
+
+const BUTTON_HEIGHT = 32;
+const BUTTON_GAP = 6;
+
+export class TargetingPanel extends PIXI.Container {
+  private targeting: Targeting;
+  private modeText: PIXI.Text;
+  private priorityText: PIXI.Text;
+  private rateText: PIXI.Text;
+  private statusText: PIXI.Text;
+
+  constructor(targeting: Targeting) {
+    super();
+    this.targeting = targeting;
+    this.position.set(20, 290);
+
+    let x = 0;
+    const addButton = (width: number, press: () => void): PIXI.Text => {
+      const button = new PIXI.Container();
+      const bg = new PIXI.Graphics()
+        .roundRect(0, 0, width, BUTTON_HEIGHT, BUTTON_HEIGHT / 2)
+        .fill({ color: 0x000000, alpha: 0.7 })
+        .stroke({ color: 0x00ccff, width: 2 });
+      const text = new PIXI.Text({
+        text: '',
+        style: { fontFamily: 'Arial', fontSize: 15, fontWeight: 'bold', fill: 0xffffff }
+      });
+      text.anchor.set(0.5);
+      text.position.set(width / 2, BUTTON_HEIGHT / 2);
+
+      button.addChild(bg);
+      button.addChild(text);
+      button.position.set(x, 0);
+      x += width + BUTTON_GAP;
+
+      button.eventMode = 'static';
+      button.cursor = 'pointer';
+      button.on('pointerdown', (event: PIXI.FederatedPointerEvent) => {
+        // Don't fire (or lock on) through the button
+        event.stopPropagation();
+        press();
+        this.refresh();
+      });
+      button.on('pointerover', () => { bg.tint = 0xcccccc; });
+      button.on('pointerout', () => { bg.tint = 0xffffff; });
+
+      this.addChild(button);
+      return text;
+    };
+
+    this.modeText = addButton(120, () => targeting.cycleMode());
+    this.priorityText = addButton(110, () => targeting.cyclePriority());
+    this.rateText = addButton(60, () => targeting.cycleFireRate());
+
+    this.statusText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 13,
+        fill: 0xaaddff,
+        stroke: { color: 0x000000, width: 3 }
+      }
+    });
+    this.statusText.position.set(0, BUTTON_HEIGHT + 4);
+    this.addChild(this.statusText);
+
+    this.refresh();
+  }
+
+  /**
+   * Redraws the labels from the targeting settings
+   * @param status Shown under the buttons (e.g. why it isn't firing)
+   */
+  public refresh(status: string = ''): void {
+    const { targeting } = this;
+    this.modeText.text = MODE_LABELS[targeting.mode];
+    this.priorityText.text = PRIORITY_LABELS[targeting.priority];
+    this.priorityText.alpha = targeting.mode === 'auto' ? 1 : 0.5;
+    this.rateText.text = `${targeting.fireRate}/s`;
+    this.rateText.alpha = targeting.mode === 'manual' ? 0.5 : 1;
+
+    if (status) {
+      this.statusText.text = status;
+    } else if (targeting.mode === 'lockOn' && !targeting.targetId) {
+      this.statusText.text = 'Click a fish to lock on';
+    } else {
+      this.statusText.text = '';
+    }
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * TypedEmitter.ts
+ *
+ * Small typed event emitter for the rendering-free game core
+ * Mirrors the on/once/off/emit surface of PIXI.EventEmitter (including the
+ * listener context argument) so simulation systems read the same as the
+ * PIXI ones without importing PIXI.
+ *
+ * @version 1.0.0
+ * @path app/lib/TypedEmitter.ts
+ */
+
+/**
+ * Listener arguments for an event in an `{ event: [args] }` map
+ */
+export type EventArgs<Events, K extends keyof Events> = Events[K] extends unknown[] ? Events[K] : never;
+
+export type EventListener<Events, K extends keyof Events> = (...args: EventArgs<Events, K>) => void;
+
+interface Registration<Events, K extends keyof Events> {
+  fn: EventListener<Events, K>;
+  context: unknown;
+  once: boolean;
+}
+
+type Registrations<Events> = { [K in keyof Events]?: Registration<Events, K>[] };
+
+export class TypedEmitter<Events extends object> {
+  private listeners: Registrations<Events> = {};
+
+  public on<K extends keyof Events>(event: K, fn: EventListener<Events, K>, context?: unknown): this {
+    return this.add(event, { fn, context, once: false });
+  }
+
+  public once<K extends keyof Events>(event: K, fn: EventListener<Events, K>, context?: unknown): this {
+    return this.add(event, { fn, context, once: true });
+  }
+
+  /**
+   * Removes matching listeners; without fn, every listener of the event
+   */
+  public off<K extends keyof Events>(event: K, fn?: EventListener<Events, K>, context?: unknown): this {
+    const registered = this.listeners[event];
+    if (!registered) return this;
+
+    const remaining = fn
+      ? registered.filter(entry => entry.fn !== fn || (context !== undefined && entry.context !== context))
+      : [];
+
+    if (remaining.length > 0) {
+      this.listeners[event] = remaining;
+    } else {
+      delete this.listeners[event];
+    }
+    return this;
+  }
+
+  /**
+   * Calls every listener in registration order
+   * @returns false when nothing was listening
+   */
+  public emit<K extends keyof Events>(event: K, ...args: EventArgs<Events, K>): boolean {
+    const registered = this.listeners[event];
+    if (!registered) return false;
+
+    // Listeners may subscribe or unsubscribe while we iterate
+    const snapshot = [...registered];
+    if (snapshot.some(entry => entry.once)) {
+      const kept = registered.filter(entry => !entry.once);
+      if (kept.length > 0) {
+        this.listeners[event] = kept;
+      } else {
+        delete this.listeners[event];
+      }
+    }
+
+    snapshot.forEach(entry => entry.fn.apply(entry.context, args));
+    return true;
+  }
+
+  public listenerCount(event: keyof Events): number {
+    return this.listeners[event]?.length ?? 0;
+  }
+
+  public removeAllListeners(event?: keyof Events): this {
+    if (event === undefined) {
+      this.listeners = {};
+    } else {
+      delete this.listeners[event];
+    }
+    return this;
+  }
+
+  private add<K extends keyof Events>(event: K, registration: Registration<Events, K>): this {
+    const registered = this.listeners[event];
+    if (registered) {
+      registered.push(registration);
+    } else {
+      this.listeners[event] = [registration];
+    }
+    return this;
+  }
+}
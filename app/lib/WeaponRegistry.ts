@@ -0,0 +1,128 @@
+/**
+ * WeaponRegistry.ts
+ *
+ * Typed access to the arcade weapons and power tiers defined in fishConfig
+ * Fills in the optional behavior fields so WeaponSystem never has to
+ *
+ * @version 1.0.0
+ * @path app/lib/WeaponRegistry.ts
+ */
+
+import { WEAPON_CONFIG, POWER_TIERS, WeaponType } from '../config/fishConfig';
+
+export type WeaponBehavior = 'straight' | 'spread' | 'beam' | 'homing' | 'net' | 'ricochet';
+
+/**
+ * Fractions of damage lost per 100px travelled, per fish hit and per bounce
+ */
+export interface DamageFalloff {
+  distance: number;
+  hit: number;
+  bounce: number;
+  min: number;  // Lowest damage multiplier falloff can reach
+}
+
+/**
+ * Resolved weapon with every optional field defaulted
+ */
+export interface WeaponDefinition {
+  id: WeaponType;
+  name: string;
+  icon: string;
+  description: string;
+  behavior: WeaponBehavior;
+  cost: number;
+  fireRate: number;
+  damage: number;
+  speed: number;
+  radius: number;
+  color: number;
+  projectiles: number;
+  spreadAngle: number;
+  pierce: number;
+  blastRadius: number;
+  turnRate: number;
+  bounces: number;
+  falloff: DamageFalloff;
+}
+
+// Superset of every weapon entry's optional fields
+type WeaponConfigEntry = Omit<Partial<WeaponDefinition>, 'id' | 'falloff'> & {
+  name: string;
+  falloff?: Partial<DamageFalloff>;
+};
+
+const NO_FALLOFF: DamageFalloff = { distance: 0, hit: 0, bounce: 0, min: 1 };
+
+export class WeaponRegistry {
+  // Declaration order in WEAPON_CONFIG is the selection order
+  private static readonly order = Object.keys(WEAPON_CONFIG) as WeaponType[];
+  private static readonly definitions: Map<WeaponType, WeaponDefinition> = new Map(
+    WeaponRegistry.order.map((id): [WeaponType, WeaponDefinition] => {
+      const config: WeaponConfigEntry = WEAPON_CONFIG[id];
+      return [id, {
+        id,
+        name: config.name,
+        icon: config.icon ?? '',
+        description: config.description ?? '',
+        behavior: config.behavior ?? 'straight',
+        cost: config.cost ?? 1,
+        fireRate: config.fireRate ?? 1,
+        damage: config.damage ?? 0,
+        speed: config.speed ?? 10,
+        radius: config.radius ?? 5,
+        color: config.color ?? 0xffffff,
+        projectiles: config.projectiles ?? 1,
+        spreadAngle: config.spreadAngle ?? 0,
+        pierce: config.pierce ?? 0,
+        blastRadius: config.blastRadius ?? 0,
+        turnRate: config.turnRate ?? 0,
+        bounces: config.bounces ?? 0,
+        falloff: { ...NO_FALLOFF, ...config.falloff }
+      }];
+    })
+  );
+
+  public static get(id: WeaponType): WeaponDefinition {
+    return this.definitions.get(id)!;
+  }
+
+  /**
+   * Type guard for untrusted weapon strings
+   */
+  public static has(id: string): id is WeaponType {
+    return this.definitions.has(id as WeaponType);
+  }
+
+  /**
+   * All weapon ids in selection order
+   */
+  public static ids(): WeaponType[] {
+    return [...this.order];
+  }
+
+  public static all(): WeaponDefinition[] {
+    return this.order.map(id => this.get(id));
+  }
+
+  /**
+   * The weapon after (or before, with step -1) the given one, wrapping around
+   */
+  public static cycle(id: WeaponType, step: number = 1): WeaponType {
+    const index = this.order.indexOf(id);
+    return this.order[(index + step + this.order.length) % this.order.length];
+  }
+
+  /**
+   * Glow color of the highest power tier reached at a cannon power level
+   */
+  public static powerColor(level: number): number {
+    let color: number = POWER_TIERS[0].color;
+    for (const tier of POWER_TIERS) {
+      if (level >= tier.level) {
+        color = tier.color;
+      }
+    }
+    return color;
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * WeaponSystem.ts
+ *
+ * Arcade weapons: firing, shot movement and damage
+ * Fires the selected WeaponRegistry weapon, moves its shots on game time
+ * (homing, ricochet) and tests them through CollisionSystem. Collision hits are
+ * turned into weapon events carrying the damage after falloff, so the game
+ * only has to apply them. Part of the rendering-free simulation core: shots
+ * are plain records that ShotRenderer draws from snapshots.
+ *
+ * @version 1.0.0
+ * @path app/lib/WeaponSystem.ts
+ */
+
+import { WeaponType } from '../config/fishConfig';
+import { WeaponRegistry, WeaponDefinition } from './WeaponRegistry';
+import {
+  CollisionSystem,
+  CollisionBody,
+  CollisionHitEvent,
+  CollisionExplosionEvent,
+  Projectile,
+  Vec2
+} from './CollisionSystem';
+import { getDamageFalloff } from './GameRules';
+import { TypedEmitter } from './TypedEmitter';
+
+/**
+ * `share` is the fraction of the shot's bet a hit carries (split across
+ * pellets, reduced by falloff), used by the probabilistic catch mode
+ * A shot's hits and blast never carry more than its bet between them, so
+ * piercing or ricochet hits past that carry none (they still deal damage)
+ */
+export interface WeaponHitEvent<T> {
+  weapon: WeaponDefinition;
+  level: number;
+  target: T;
+  damage: number;
+  share: number;
+  point: Vec2;
+  heading: number;  // Direction the shot was travelling
+}
+
+export interface WeaponBlastEvent<T> {
+  weapon: WeaponDefinition;
+  level: number;
+  targets: T[];
+  damage: number;  // Per target
+  share: number;   // Per target
+  point: Vec2;
+  radius: number;
+}
+
+export interface WeaponCatchEvent<T> {
+  weapon: WeaponDefinition;
+  level: number;
+  targets: T[];
+  share: number;  // Per target
+  point: Vec2;
+  radius: number;
+}
+
+export interface WeaponEvents<T> {
+  fire: [event: { weapon: WeaponDefinition; level: number; cost: number }];
+  hit: [event: WeaponHitEvent<T>];
+  blast: [event: WeaponBlastEvent<T>];
+  catch: [event: WeaponCatchEvent<T>];
+  change: [weapon: WeaponDefinition];
+}
+
+/**
+ * Rectangular play area; pass a live object (e.g. app.screen) to follow resizes
+ */
+export interface WeaponBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * What a renderer needs to draw one shot
+ */
+export interface ShotSnapshot {
+  id: string;
+  weapon: WeaponType;
+  level: number;
+  x: number;
+  y: number;
+  rotation: number;
+  color: number;
+}
+
+interface Shot<T> {
+  weapon: WeaponDefinition;
+  level: number;
+  x: number;
+  y: number;
+  rotation: number;
+  velocity: { x: number; y: number };
+  projectile: Projectile;
+  travelled: number;
+  bounces: number;
+  lastHit: CollisionBody<T> | null;
+  betLeft: number;  // Share of the weapon's bet this pellet can still carry
+}
+
+// How far past the screen edge a shot may fly before it is dropped
+const OFFSCREEN_MARGIN = 50;
+
+// Blast damage is half the shot's damage, and the blast carries half its bet
+const BLAST_DAMAGE_SCALE = 0.5;
+
+// Shot speeds and turn rates are per 60fps frame
+const FRAME_MS = 1000 / 60;
+
+export class WeaponSystem<T = unknown> extends TypedEmitter<WeaponEvents<T>> {
+  private collisions: CollisionSystem<T>;
+  private bounds: WeaponBounds;
+  private shots: Map<string, Shot<T>> = new Map();
+  private weaponId: WeaponType = WeaponRegistry.ids()[0];
+  private elapsedMS: number = 0;
+  private lastFired: number = -Infinity;
+  private nextShotId: number = 1;
+  private idPrefix: string;
+
+  /**
+   * @param bounds Play area; ricochets bounce off its edges
+   * @param idPrefix Keeps shot ids unique when several systems share one CollisionSystem
+   */
+  constructor(collisions: CollisionSystem<T>, bounds: WeaponBounds, idPrefix: string = '') {
+    super();
+    this.collisions = collisions;
+    this.idPrefix = idPrefix;
+    this.bounds = bounds;
+
+    this.collisions.on('hit', this.onHit, this);
+    this.collisions.on('explosion', this.onExplosion, this);
+  }
+
+  public get weapon(): WeaponDefinition {
+    return WeaponRegistry.get(this.weaponId);
+  }
+
+  public get activeShots(): number {
+    return this.shots.size;
+  }
+
+  public select(id: WeaponType): void {
+    if (id === this.weaponId) return;
+    this.weaponId = id;
+    this.emit('change', this.weapon);
+  }
+
+  /**
+   * Selects the next (or previous, with step -1) weapon
+   */
+  public cycle(step: number = 1): void {
+    this.select(WeaponRegistry.cycle(this.weaponId, step));
+  }
+
+  /**
+   * Color of the selected weapon's shots at a power level
+   * The basic cannon shows the power tier instead of its own color
+   */
+  public getColor(level: number, weapon: WeaponDefinition = this.weapon): number {
+    return weapon.behavior === 'straight' ? WeaponRegistry.powerColor(level) : weapon.color;
+  }
+
+  /**
+   * Whether the selected weapon has cooled down (fire rate is in game time)
+   */
+  public canFire(): boolean {
+    return this.elapsedMS - this.lastFired >= 1000 / this.weapon.fireRate;
+  }
+
+  /**
+   * Fires the selected weapon from origin toward aim; paying for the shot is
+   * up to the caller
+   * @returns false while the weapon is cooling down
+   */
+  public fire(origin: Vec2, aim: Vec2, level: number): boolean {
+    if (!this.canFire()) return false;
+    this.lastFired = this.elapsedMS;
+
+    const weapon = this.weapon;
+    const angle = Math.atan2(aim.y - origin.y, aim.x - origin.x);
+
+    for (let i = 0; i < weapon.projectiles; i++) {
+      // Spread evenly across the fan, centered on the aim
+      const offset = weapon.projectiles > 1
+        ? (i / (weapon.projectiles - 1) - 0.5) * weapon.spreadAngle
+        : 0;
+      this.spawnShot(weapon, level, origin, angle + offset);
+    }
+
+    this.emit('fire', { weapon, level, cost: weapon.cost });
+    return true;
+  }
+
+  /**
+   * Moves every shot and resolves its collisions; call after the collision
+   * system has been rebuilt for the frame (deltaMS in game-time ms)
+   */
+  public update(deltaMS: number): void {
+    this.elapsedMS += deltaMS;
+    const deltaTime = deltaMS / FRAME_MS;
+
+    this.shots.forEach((shot, id) => {
+      const { weapon, velocity, projectile } = shot;
+
+      if (weapon.behavior === 'homing') {
+        this.steer(shot, deltaTime);
+      }
+
+      shot.x += velocity.x * deltaTime;
+      shot.y += velocity.y * deltaTime;
+      shot.travelled += weapon.speed * deltaTime;
+
+      if (weapon.behavior === 'ricochet' && shot.bounces < weapon.bounces) {
+        this.bounce(shot);
+      }
+
+      shot.rotation = Math.atan2(velocity.y, velocity.x);
+
+      // Sweep from last frame's position
+      projectile.prevX = projectile.x;
+      projectile.prevY = projectile.y;
+      projectile.x = shot.x;
+      projectile.y = shot.y;
+
+      const spent = this.collisions.resolveProjectile(projectile);
+
+      if (spent || this.isOffscreen(shot)) {
+        this.shots.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Shots in flight, for rendering or recording
+   */
+  public getShots(): ShotSnapshot[] {
+    return Array.from(this.shots.entries(), ([id, shot]) => ({
+      id,
+      weapon: shot.weapon.id,
+      level: shot.level,
+      x: shot.x,
+      y: shot.y,
+      rotation: shot.rotation,
+      color: this.getColor(shot.level, shot.weapon)
+    }));
+  }
+
+  /**
+   * Removes every shot in flight
+   */
+  public clear(): void {
+    this.shots.clear();
+  }
+
+  public destroy(): void {
+    this.clear();
+    this.collisions.off('hit', this.onHit, this);
+    this.collisions.off('explosion', this.onExplosion, this);
+    this.removeAllListeners();
+  }
+
+  private spawnShot(weapon: WeaponDefinition, level: number, origin: Vec2, angle: number): void {
+    const projectile: Projectile = {
+      id: `${this.idPrefix}shot-${this.nextShotId++}`,
+      x: origin.x,
+      y: origin.y,
+      prevX: origin.x,
+      prevY: origin.y,
+      radius: weapon.radius + (weapon.behavior === 'straight' ? level : 0),
+      damage: weapon.damage * level,
+      pierce: weapon.pierce,
+      blastRadius: weapon.blastRadius || undefined,
+      hits: new Set()
+    };
+
+    this.shots.set(projectile.id, {
+      weapon,
+      level,
+      x: origin.x,
+      y: origin.y,
+      rotation: angle,
+      velocity: { x: Math.cos(angle) * weapon.speed, y: Math.sin(angle) * weapon.speed },
+      projectile,
+      travelled: 0,
+      bounces: 0,
+      lastHit: null,
+      betLeft: 1 / weapon.projectiles
+    });
+  }
+
+  /**
+   * Turns a homing shot toward the nearest fish it hasn't hit yet
+   */
+  private steer(shot: Shot<T>, deltaTime: number): void {
+    const { velocity, weapon, projectile } = shot;
+    const target = this.collisions.nearest(shot.x, shot.y);
+    if (!target || projectile.hits.has(target.id)) return;
+
+    const current = Math.atan2(velocity.y, velocity.x);
+    const desired = Math.atan2(target.y - shot.y, target.x - shot.x);
+    // Shortest signed difference, in [-PI, PI]
+    const difference = Math.atan2(Math.sin(desired - current), Math.cos(desired - current));
+    const maxTurn = weapon.turnRate * deltaTime;
+    const angle = current + Math.max(-maxTurn, Math.min(maxTurn, difference));
+
+    velocity.x = Math.cos(angle) * weapon.speed;
+    velocity.y = Math.sin(angle) * weapon.speed;
+  }
+
+  /**
+   * Reflects a ricochet shot off the play-area edges
+   */
+  private bounce(shot: Shot<T>): void {
+    const { velocity } = shot;
+    const { x, y, width, height } = this.bounds;
+    let bounced = false;
+
+    if ((shot.x < x && velocity.x < 0) || (shot.x > x + width && velocity.x > 0)) {
+      velocity.x = -velocity.x;
+      shot.x = Math.max(x, Math.min(x + width, shot.x));
+      bounced = true;
+    }
+    if ((shot.y < y && velocity.y < 0) || (shot.y > y + height && velocity.y > 0)) {
+      velocity.y = -velocity.y;
+      shot.y = Math.max(y, Math.min(y + height, shot.y));
+      bounced = true;
+    }
+
+    if (bounced) {
+      shot.bounces++;
+      // A ricochet may come back for a fish it already hit (but its bet isn't renewed)
+      shot.projectile.hits.clear();
+    }
+  }
+
+  private isOffscreen(shot: Shot<T>): boolean {
+    const { x, y, width, height } = this.bounds;
+    return shot.x < x - OFFSCREEN_MARGIN || shot.x > x + width + OFFSCREEN_MARGIN ||
+      shot.y < y - OFFSCREEN_MARGIN || shot.y > y + height + OFFSCREEN_MARGIN;
+  }
+
+  private onHit(event: CollisionHitEvent<T>): void {
+    const shot = this.shots.get(event.projectile.id);
+    if (!shot) return;
+
+    shot.lastHit = event.body;
+
+    // Nets do nothing until they open (the explosion right after this hit)
+    if (shot.weapon.behavior === 'net') return;
+
+    // This hit is already in the set; falloff counts the ones before it
+    const multiplier = getDamageFalloff(shot.weapon, shot.travelled, event.projectile.hits.size - 1, shot.bounces);
+    // A shot that will explode keeps the blast's part of the bet for it
+    const betScale = event.projectile.blastRadius ? 1 - BLAST_DAMAGE_SCALE : 1;
+
+    this.emit('hit', {
+      weapon: shot.weapon,
+      level: shot.level,
+      target: event.body.owner,
+      damage: Math.max(1, Math.round(event.projectile.damage * multiplier)),
+      share: this.spendBet(shot, (multiplier * betScale) / shot.weapon.projectiles),
+      point: event.point,
+      heading: Math.atan2(shot.velocity.y, shot.velocity.x)
+    });
+  }
+
+  private onExplosion(event: CollisionExplosionEvent<T>): void {
+    const shot = this.shots.get(event.projectile.id);
+    if (!shot) return;
+
+    const targets = event.bodies.map(body => body.owner);
+
+    if (shot.weapon.behavior === 'net') {
+      const caught = shot.lastHit ? [shot.lastHit.owner, ...targets] : targets;
+      this.emit('catch', {
+        weapon: shot.weapon,
+        level: shot.level,
+        targets: caught,
+        share: this.spendBet(shot, 1 / shot.weapon.projectiles) / Math.max(1, caught.length),
+        point: event.point,
+        radius: event.radius
+      });
+      return;
+    }
+
+    const multiplier = getDamageFalloff(shot.weapon, shot.travelled, event.projectile.hits.size, shot.bounces);
+
+    this.emit('blast', {
+      weapon: shot.weapon,
+      level: shot.level,
+      targets,
+      damage: Math.max(1, Math.round(event.projectile.damage * multiplier * BLAST_DAMAGE_SCALE)),
+      share: this.spendBet(shot, (multiplier * BLAST_DAMAGE_SCALE) / shot.weapon.projectiles) / Math.max(1, targets.length),
+      point: event.point,
+      radius: event.radius
+    });
+  }
+
+  /**
+   * Takes up to `share` from what is left of the shot's bet
+   * @returns The share actually taken
+   */
+  private spendBet(shot: Shot<T>, share: number): number {
+    const spent = Math.min(share, shot.betLeft);
+    shot.betLeft -= spent;
+    return spent;
+  }
+}
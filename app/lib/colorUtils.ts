@@ -0,0 +1,127 @@
+/**
+ * colorUtils.ts
+ *
+ * Hex / RGB / HSL conversions shared by the DNA generator and breeding
+ *
+ * @version 1.0.0
+ * @path app/lib/colorUtils.ts
+ */
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface HSL {
+  h: number;  // 0-360
+  s: number;  // 0-100
+  l: number;  // 0-100
+}
+
+/**
+ * Parses `#rrggbb` (falls back to white on malformed input)
+ */
+export function hexToRgb(hex: string): RGB {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result ? {
+    r: parseInt(result[1], 16),
+    g: parseInt(result[2], 16),
+    b: parseInt(result[3], 16)
+  } : { r: 255, g: 255, b: 255 };
+}
+
+/**
+ * Formats RGB as `#rrggbb`
+ */
+export function rgbToHex(rgb: RGB): string {
+  return `#${rgb.r.toString(16).padStart(2, '0')}${rgb.g.toString(16).padStart(2, '0')}${rgb.b.toString(16).padStart(2, '0')}`;
+}
+
+export function rgbToHsl(r: number, g: number, b: number): HSL {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  let h = 0, s = 0;
+  const l = (max + min) / 2;
+
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+    switch (max) {
+      case r: h = ((g - b) / d + (g < b ? 6 : 0)) / 6; break;
+      case g: h = ((b - r) / d + 2) / 6; break;
+      case b: h = ((r - g) / d + 4) / 6; break;
+    }
+  }
+
+  return { h: h * 360, s: s * 100, l: l * 100 };
+}
+
+export function hslToRgb(h: number, s: number, l: number): RGB {
+  h /= 360;
+  s /= 100;
+  l /= 100;
+
+  let r, g, b;
+
+  if (s === 0) {
+    r = g = b = l;
+  } else {
+    const hue2rgb = (p: number, q: number, t: number) => {
+      if (t < 0) t += 1;
+      if (t > 1) t -= 1;
+      if (t < 1/6) return p + (q - p) * 6 * t;
+      if (t < 1/2) return q;
+      if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
+      return p;
+    };
+
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+
+    r = hue2rgb(p, q, h + 1/3);
+    g = hue2rgb(p, q, h);
+    b = hue2rgb(p, q, h - 1/3);
+  }
+
+  return {
+    r: Math.round(r * 255),
+    g: Math.round(g * 255),
+    b: Math.round(b * 255)
+  };
+}
+
+/**
+ * Rotates the hue of a hex color by `shift` degrees
+ */
+export function shiftHue(hex: string, shift: number): string {
+  const rgb = hexToRgb(hex);
+  const hsl = rgbToHsl(rgb.r, rgb.g, rgb.b);
+  hsl.h = (hsl.h + shift) % 360;
+  return rgbToHex(hslToRgb(hsl.h, hsl.s, hsl.l));
+}
+
+/**
+ * Blends two hex colors in HSL space, taking the shorter way round the hue wheel
+ * `t` = 0 returns `a`, `t` = 1 returns `b`
+ */
+export function blendHsl(a: string, b: string, t: number): string {
+  const rgbA = hexToRgb(a);
+  const rgbB = hexToRgb(b);
+  const hslA = rgbToHsl(rgbA.r, rgbA.g, rgbA.b);
+  const hslB = rgbToHsl(rgbB.r, rgbB.g, rgbB.b);
+
+  let hueDelta = hslB.h - hslA.h;
+  if (hueDelta > 180) hueDelta -= 360;
+  if (hueDelta < -180) hueDelta += 360;
+
+  const h = (hslA.h + hueDelta * t + 360) % 360;
+  const s = hslA.s + (hslB.s - hslA.s) * t;
+  const l = hslA.l + (hslB.l - hslA.l) * t;
+
+  return rgbToHex(hslToRgb(h, s, l));
+}
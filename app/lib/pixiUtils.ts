@@ -37,6 +37,19 @@ export function getBoundsEdges(bounds: PIXI.Bounds) {
   };
 }
 
+/**
+ * Trace a pointy-top hexagon path centred on (x, y)
+ * Caller fills or strokes it
+ */
+export function drawHexagon(graphics: PIXI.Graphics, x: number, y: number, size: number): void {
+  graphics.moveTo(x, y - size);
+  for (let i = 1; i < 6; i++) {
+    const angle = (i / 6) * Math.PI * 2 - Math.PI / 2;
+    graphics.lineTo(x + Math.cos(angle) * size, y + Math.sin(angle) * size);
+  }
+  graphics.closePath();
+}
+
 /**
  * Create a gradient texture
  * Helper for creating gradient backgrounds
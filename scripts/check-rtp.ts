@@ -0,0 +1,98 @@
+/**
+ * check-rtp.ts
+ *
+ * Checks the probabilistic catch model's return to player:
+ * `npm run rtp -- [options]`. Exits with 1 when either check leaves tolerance.
+ * First a million catch rolls straight through CatchEconomy (under a second),
+ * then every weapon in play at a GameSimulation table until its RTP is known
+ * to the target standard error (a minute or two).
+ *
+ *   --hits <n>           Catch rolls for the first check (default: 1000000)
+ *   --error <fraction>   Target standard error per weapon (default: 0.03)
+ *   --max-shots <n>      Shots per weapon at most (default: 100000)
+ *   --power <level>      Cannon power level at the table (default: 10)
+ *   --weapons <ids>      Comma-separated weapon ids (default: all)
+ *   --seed <seed>        Seed for a reproducible run (default: random)
+ *
+ * @version 1.0.0
+ * @path scripts/check-rtp.ts
+ */
+
+import { parseArgs } from 'util';
+import { WeaponType } from '../app/config/fishConfig';
+import { simulateCatchRTP } from '../app/lib/CatchEconomy';
+import { simulateTableRTP } from '../app/lib/TableRTPSimulator';
+import { WeaponRegistry } from '../app/lib/WeaponRegistry';
+import { createSeed } from '../app/lib/SeededRandom';
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseCount(name: string, value: string | undefined): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count <= 0) fail(`Invalid ${name} "${value}"`);
+  return count;
+}
+
+const percent = (value: number): string => `${(value * 100).toFixed(2)}%`;
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      hits: { type: 'string', default: '1000000' },
+      error: { type: 'string', default: '0.03' },
+      'max-shots': { type: 'string', default: '100000' },
+      power: { type: 'string', default: '10' },
+      weapons: { type: 'string' },
+      seed: { type: 'string' }
+    }
+  });
+
+  const hits = parseCount('hit count', values.hits);
+  const maxShots = parseCount('shot count', values['max-shots']);
+  const power = parseCount('power', values.power);
+  const targetError = Number(values.error);
+  const weapons = values.weapons?.split(',').map(id => id.trim()) as WeaponType[] | undefined;
+  const seed = values.seed ?? createSeed();
+
+  if (!(targetError > 0 && targetError < 1)) fail(`Invalid target error "${values.error}"`);
+  const unknown = weapons?.filter(id => !WeaponRegistry.ids().includes(id)) ?? [];
+  if (unknown.length > 0) fail(`Unknown weapons: ${unknown.join(', ')} (expected ${WeaponRegistry.ids().join(', ')})`);
+
+  const rolls = simulateCatchRTP({ hits, seed });
+  console.log(`Seed ${seed}, target RTP ${percent(rolls.targetRTP)}`);
+  console.log(
+    `Catch rolls: ${rolls.hits} hits (${rolls.cappedHits} capped), observed ${percent(rolls.observedRTP)}, ` +
+    `expected ${percent(rolls.expectedRTP)} ± ${percent(rolls.standardError)}, z ${rolls.zScore.toFixed(2)}`
+  );
+
+  const table = simulateTableRTP({ seed, weapons, power, targetError, maxShots });
+  console.log(`Table play at power ${power}, until each weapon's RTP is within ${percent(targetError)} standard error:`);
+  console.table(table.weapons.map(weapon => ({
+    weapon: weapon.weapon,
+    shots: weapon.shots,
+    hits: weapon.hits,
+    catches: weapon.catches,
+    spent: weapon.spent,
+    wagered: Math.round(weapon.wagered),
+    paid: Math.round(weapon.paid),
+    expected: percent(weapon.expectedRTP),
+    observed: percent(weapon.observedRTP),
+    'std error': percent(weapon.standardError),
+    z: weapon.zScore.toFixed(2),
+    ok: weapon.withinTolerance ? 'yes' : weapon.precise ? 'NO' : 'imprecise'
+  })));
+
+  const failures: string[] = [];
+  if (!rolls.withinTolerance) {
+    failures.push('catch rolls');
+  }
+  table.weapons.filter(weapon => !weapon.withinTolerance).forEach(weapon => failures.push(weapon.weapon));
+  if (failures.length > 0) {
+    fail(`RTP out of tolerance (${table.tolerance} standard errors) for ${failures.join(', ')}`);
+  }
+}
+
+main();
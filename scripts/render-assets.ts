@@ -0,0 +1,145 @@
+/**
+ * render-assets.ts
+ *
+ * Renders fish artwork offline: `npm run render-assets -- <dna-file> [options]`
+ * The DNA file may be a collection export, a JSON array of DNA (envelopes,
+ * compact strings or bare objects) or one compact DNA string per line.
+ * Images are written as `<out>/<dna id>.<format>`.
+ *
+ *   --out <dir>          Output directory (default: dist/assets)
+ *   --format png|webp    Image format (default: png)
+ *   --size <px>          Width and height (default: 1024)
+ *   --background <kind>  transparent or ocean (default: transparent)
+ *
+ * PIXI renders through @napi-rs/canvas with its canvas renderer, so filter
+ * effects (glow, blur, colour mutations) are left out of the images.
+ *
+ * @version 1.0.0
+ * @path scripts/render-assets.ts
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import * as NodeCanvas from '@napi-rs/canvas';
+import type { FishDNA } from '../app/lib/ArtisticFishPixi';
+import type { FishImageBackground, FishImageFormat, HeadlessCanvasProvider } from '../app/lib/FishRenderService';
+
+const FORMATS: FishImageFormat[] = ['png', 'webp'];
+const BACKGROUNDS: FishImageBackground[] = ['transparent', 'ocean'];
+
+/**
+ * PIXI reads these browser globals while loading, before any adapter is set
+ */
+function installBrowserGlobals(): void {
+  const globals = globalThis as unknown as Record<string, unknown>;
+  if (typeof globals.navigator === 'undefined') {
+    globals.navigator = { userAgent: 'node' };
+  }
+  // Unref'd so PIXI's ticker doesn't keep the process alive
+  globals.requestAnimationFrame = (callback: (time: number) => void) =>
+    setTimeout(() => callback(performance.now()), 16).unref();
+  globals.cancelAnimationFrame = (handle: ReturnType<typeof setTimeout>) => clearTimeout(handle);
+}
+
+/**
+ * Adapts @napi-rs/canvas to what PIXI expects of a browser canvas
+ */
+function createCanvasProvider(): HeadlessCanvasProvider {
+  const createCanvas = (width: number, height: number) => {
+    const canvas = NodeCanvas.createCanvas(width, height);
+    const getContext = canvas.getContext.bind(canvas);
+    return Object.assign(canvas, {
+      // Browsers return null for unsupported context types where this throws
+      getContext: (type: string) => (type === '2d' ? getContext('2d') : null),
+      // PIXI prefers toBlob, which needs FileReader; toDataURL works without it
+      toBlob: undefined
+    });
+  };
+
+  // The context class isn't exported, only reachable through an instance
+  const context2D = NodeCanvas.createCanvas(1, 1).getContext('2d');
+
+  return {
+    createCanvas: createCanvas as unknown as HeadlessCanvasProvider['createCanvas'],
+    CanvasRenderingContext2D: { prototype: Object.getPrototypeOf(context2D) },
+    Image: NodeCanvas.Image as unknown as HeadlessCanvasProvider['Image']
+  };
+}
+
+/**
+ * The raw DNA entries in a file, in any of the supported layouts
+ */
+function readDNAInputs(path: string): (string | object)[] {
+  const text = readFileSync(path, 'utf8');
+  const trimmed = text.trim();
+
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return trimmed.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  }
+
+  const parsed: unknown = JSON.parse(trimmed);
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+
+  const record = parsed as Record<string, unknown>;
+  if (Array.isArray(record.entries)) {
+    return record.entries.map(entry => (entry as { dna: object }).dna);
+  }
+  return [record];
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'dist/assets' },
+      format: { type: 'string', default: 'png' },
+      size: { type: 'string', default: '1024' },
+      background: { type: 'string', default: 'transparent' }
+    }
+  });
+
+  const [input] = positionals;
+  const format = values.format as FishImageFormat;
+  const size = Number(values.size);
+  const background = values.background as FishImageBackground;
+
+  if (!input) fail('Usage: npm run render-assets -- <dna-file> [--out dir] [--format png|webp] [--size px] [--background transparent|ocean]');
+  if (!FORMATS.includes(format)) fail(`Unknown format "${format}" (expected ${FORMATS.join(' or ')})`);
+  if (!Number.isInteger(size) || size <= 0) fail(`Invalid size "${values.size}"`);
+  if (!BACKGROUNDS.includes(background)) fail(`Unknown background "${background}" (expected ${BACKGROUNDS.join(' or ')})`);
+
+  installBrowserGlobals();
+  // Loaded after the globals above, since PIXI reads them on import
+  const { FishRenderService, dataUrlToBytes } = await import('../app/lib/FishRenderService');
+  const { decodeFishDNA } = await import('../app/lib/FishDNACodec');
+
+  const dnas: FishDNA[] = [];
+  readDNAInputs(input).forEach((raw, index) => {
+    try {
+      dnas.push(decodeFishDNA(raw));
+    } catch (error) {
+      console.warn(`Skipping entry ${index}: ${(error as Error).message}`);
+    }
+  });
+  if (dnas.length === 0) fail(`No valid DNA in ${input}`);
+
+  const outDir = values.out as string;
+  mkdirSync(outDir, { recursive: true });
+
+  const service = await FishRenderService.createHeadless(createCanvasProvider());
+  await service.renderBatch(dnas, { width: size, height: size, format, background }, (result, index, total) => {
+    const file = join(outDir, `${result.id}.${format}`);
+    writeFileSync(file, dataUrlToBytes(result.dataUrl));
+    console.log(`[${index + 1}/${total}] ${file}`);
+  });
+}
+
+main().catch(error => fail(`Rendering failed: ${(error as Error).stack ?? error}`));
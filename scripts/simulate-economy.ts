@@ -0,0 +1,89 @@
+/**
+ * simulate-economy.ts
+ *
+ * Runs the economy simulator from the command line:
+ * `npm run simulate-economy -- [options]`. Writes the full report as JSON, or
+ * the coin flow of every run as CSV, to stdout or to --out with a summary.
+ *
+ *   --strategy <kind>    random, highestReward, weakest or bestValue (default: random)
+ *   --shots <n>          Shots per run (default: 10000)
+ *   --runs <n>           Independent runs (default: 100)
+ *   --seed <seed>        Seed for a reproducible run (default: random)
+ *   --weapon <id>        Weapon fired throughout (default: cannon)
+ *   --mode health|probability  Catch mode (default: health)
+ *   --format json|csv    Output format (default: json)
+ *   --out <file>         Output file (default: stdout)
+ *
+ * @version 1.0.0
+ * @path scripts/simulate-economy.ts
+ */
+
+import { writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { WeaponType } from '../app/config/fishConfig';
+import { CatchMode } from '../app/lib/CatchEconomy';
+import { AimStrategy, economyReportToCSV, simulateEconomy } from '../app/lib/EconomySimulator';
+import { WeaponRegistry } from '../app/lib/WeaponRegistry';
+
+const STRATEGIES: AimStrategy[] = ['random', 'highestReward', 'weakest', 'bestValue'];
+const CATCH_MODES: CatchMode[] = ['health', 'probability'];
+const FORMATS = ['json', 'csv'];
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function parseCount(name: string, value: string | undefined): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count <= 0) fail(`Invalid ${name} "${value}"`);
+  return count;
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      strategy: { type: 'string', default: 'random' },
+      shots: { type: 'string', default: '10000' },
+      runs: { type: 'string', default: '100' },
+      seed: { type: 'string' },
+      weapon: { type: 'string', default: 'cannon' },
+      mode: { type: 'string', default: 'health' },
+      format: { type: 'string', default: 'json' },
+      out: { type: 'string' }
+    }
+  });
+
+  const strategy = values.strategy as AimStrategy;
+  const weapon = values.weapon as WeaponType;
+  const catchMode = values.mode as CatchMode;
+  const format = values.format as string;
+
+  if (!STRATEGIES.includes(strategy)) fail(`Unknown strategy "${strategy}" (expected ${STRATEGIES.join(', ')})`);
+  if (!WeaponRegistry.ids().includes(weapon)) fail(`Unknown weapon "${weapon}" (expected ${WeaponRegistry.ids().join(', ')})`);
+  if (!CATCH_MODES.includes(catchMode)) fail(`Unknown mode "${catchMode}" (expected ${CATCH_MODES.join(' or ')})`);
+  if (!FORMATS.includes(format)) fail(`Unknown format "${format}" (expected ${FORMATS.join(' or ')})`);
+
+  const report = simulateEconomy({
+    strategy,
+    shotsPerRun: parseCount('shot count', values.shots),
+    runs: parseCount('run count', values.runs),
+    seed: values.seed,
+    weapon,
+    catchMode
+  });
+
+  const output = format === 'csv' ? economyReportToCSV(report) : JSON.stringify(report, null, 2);
+  if (!values.out) {
+    console.log(output);
+    return;
+  }
+
+  writeFileSync(values.out, output + '\n');
+  const { summary } = report;
+  console.log(`Seed ${report.options.seed}: ${summary.runs} runs of ${report.options.shotsPerRun} shots`);
+  console.log(`RTP ${(summary.rtp * 100).toFixed(2)}%, EV/shot ${summary.meanEVPerShot.toFixed(3)}, bankrupt ${(summary.bankruptcyRate * 100).toFixed(1)}%`);
+  console.log(`Wrote ${values.out}`);
+}
+
+main();
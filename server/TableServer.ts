@@ -0,0 +1,174 @@
+/**
+ * TableServer.ts
+ *
+ * Authoritative host of a shared fishing table
+ * Owns the only GameSimulation for the table: seats up to
+ * TABLE_CONFIG.maxPlayers WebSocket clients, applies their commands, steps
+ * the simulation at tickRate and broadcasts a snapshot plus the events since
+ * the last one at snapshotRate. Clients only render and send input.
+ *
+ * @version 1.0.0
+ * @path server/TableServer.ts
+ */
+
+import { TABLE_CONFIG } from '../app/config/fishConfig';
+import { GameSimulation, GameSimulationOptions } from '../app/lib/GameSimulation';
+import { TableEvent, encodeMessage, parseClientMessage } from '../app/lib/TableProtocol';
+import { WebSocketConnection, WebSocketServer } from './WebSocketServer';
+
+export interface TableServerOptions {
+  port?: number;
+  seed?: string;
+  catchMode?: GameSimulationOptions['catchMode'];
+}
+
+export class TableServer {
+  private sockets: WebSocketServer = new WebSocketServer();
+  private simulation: GameSimulation;
+  private clients: Map<WebSocketConnection, string> = new Map();
+  private events: TableEvent[] = [];
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private lastTick: number = 0;
+  private sinceSnapshotMS: number = 0;
+  private nextPlayerId: number = 1;
+  private listenPort: number;
+
+  constructor(options: TableServerOptions = {}) {
+    this.listenPort = options.port ?? TABLE_CONFIG.port;
+    this.simulation = new GameSimulation(
+      { x: 0, y: 0, width: TABLE_CONFIG.width, height: TABLE_CONFIG.height },
+      { seed: options.seed, catchMode: options.catchMode, localPlayer: null }
+    );
+
+    // Collected here and sent with the next snapshot
+    this.simulation.on('join', player => this.events.push({ type: 'join', player }));
+    this.simulation.on('leave', player => this.events.push({ type: 'leave', player }));
+    this.simulation.on('hit', event => this.events.push({ type: 'hit', event }));
+    this.simulation.on('caught', event => this.events.push({ type: 'caught', event }));
+    this.simulation.on('fire', event => {
+      this.events.push({ type: 'fire', event: { ...event, weapon: event.weapon.id } });
+    });
+    this.simulation.on('impact', event => {
+      this.events.push({ type: 'impact', event: { ...event, weapon: event.weapon.id } });
+    });
+    this.simulation.on('bossSpawn', boss => this.events.push({ type: 'bossSpawn', boss }));
+    this.simulation.on('bossPhase', boss => this.events.push({ type: 'bossPhase', boss }));
+    this.simulation.on('bossEnrage', boss => this.events.push({ type: 'bossEnrage', boss }));
+    this.simulation.on('bossEscape', boss => this.events.push({ type: 'bossEscape', boss }));
+    this.simulation.on('bossHit', event => this.events.push({ type: 'bossHit', event }));
+    this.simulation.on('bossDefeated', event => this.events.push({ type: 'bossDefeated', event }));
+    this.simulation.on('formation', event => this.events.push({ type: 'formation', event }));
+    this.simulation.on('roundEnd', event => this.events.push({ type: 'roundEnd', event }));
+
+    this.sockets.on('connection', (connection: WebSocketConnection) => this.onConnection(connection));
+  }
+
+  public get seed(): string {
+    return this.simulation.seed;
+  }
+
+  /**
+   * The port clients connect to; pass port 0 to have one picked once started
+   */
+  public get port(): number {
+    return this.sockets.port ?? this.listenPort;
+  }
+
+  public start(callback?: () => void): void {
+    this.sockets.listen(this.listenPort, callback);
+    this.lastTick = Date.now();
+    this.tickTimer = setInterval(() => this.tick(), 1000 / TABLE_CONFIG.tickRate);
+  }
+
+  public stop(callback?: () => void): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    this.sockets.close(callback);
+    this.simulation.destroy();
+  }
+
+  /**
+   * Steps by the real time elapsed, so the table runs at wall-clock speed
+   * even when timers are late
+   */
+  private tick(): void {
+    const now = Date.now();
+    const deltaMS = now - this.lastTick;
+    this.lastTick = now;
+
+    this.simulation.step(deltaMS);
+
+    this.sinceSnapshotMS += deltaMS;
+    if (this.sinceSnapshotMS >= 1000 / TABLE_CONFIG.snapshotRate) {
+      this.sinceSnapshotMS = 0;
+      this.broadcast();
+    }
+  }
+
+  private broadcast(): void {
+    const message = encodeMessage({ type: 'snapshot', snapshot: this.simulation.snapshot(), events: this.events });
+    this.events = [];
+    this.clients.forEach((_, connection) => connection.send(message));
+  }
+
+  private onConnection(connection: WebSocketConnection): void {
+    connection.on('message', (data: string) => this.onMessage(connection, data));
+    connection.on('close', () => {
+      const playerId = this.clients.get(connection);
+      this.clients.delete(connection);
+      if (playerId) {
+        this.simulation.removePlayer(playerId);
+      }
+    });
+  }
+
+  private onMessage(connection: WebSocketConnection, data: string): void {
+    const message = parseClientMessage(data);
+    if (!message) return;
+
+    const playerId = this.clients.get(connection);
+
+    if (message.type === 'join') {
+      if (playerId) return;
+      this.join(connection, message.name);
+      return;
+    }
+
+    // Commands before joining are ignored
+    if (!playerId) return;
+
+    switch (message.type) {
+      case 'fire':
+        this.simulation.fire(message.aim, playerId);
+        break;
+      case 'upgrade':
+        this.simulation.upgrade(playerId);
+        break;
+      case 'weapon':
+        this.simulation.selectWeapon(message.weapon, playerId);
+        break;
+    }
+  }
+
+  private join(connection: WebSocketConnection, name?: string): void {
+    const player = this.simulation.addPlayer({ id: `p${this.nextPlayerId++}`, name });
+    if (!player) {
+      connection.send(encodeMessage({ type: 'full' }));
+      connection.close();
+      return;
+    }
+
+    this.clients.set(connection, player.id);
+    connection.send(encodeMessage({
+      type: 'welcome',
+      playerId: player.id,
+      seat: player.seat,
+      seed: this.simulation.seed,
+      width: TABLE_CONFIG.width,
+      height: TABLE_CONFIG.height
+    }));
+    console.log(`${player.name} joined at seat ${player.seat} (${this.clients.size}/${TABLE_CONFIG.maxPlayers})`);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * WebSocketServer.ts
+ *
+ * Minimal RFC 6455 WebSocket server on Node's http module
+ * Enough for the table server: the opening handshake, text frames (masked
+ * from clients, any length), ping/pong and close. Binary and fragmented
+ * messages are not used by the game and close the connection.
+ *
+ * @version 1.0.0
+ * @path server/WebSocketServer.ts
+ */
+
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { IncomingMessage, Server, createServer } from 'http';
+import { Duplex } from 'stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const enum Opcode {
+  Continuation = 0x0,
+  Text = 0x1,
+  Binary = 0x2,
+  Close = 0x8,
+  Ping = 0x9,
+  Pong = 0xa
+}
+
+// Largest frame a client may send; game commands are tiny
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+
+/**
+ * One client connection
+ * Events: 'message' (text: string), 'close'
+ */
+export class WebSocketConnection extends EventEmitter {
+  private socket: Duplex;
+  private pending: Buffer = Buffer.alloc(0);
+  private closed: boolean = false;
+
+  constructor(socket: Duplex) {
+    super();
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+  }
+
+  public get open(): boolean {
+    return !this.closed;
+  }
+
+  public send(text: string): void {
+    if (this.closed) return;
+    this.socket.write(encodeFrame(Opcode.Text, Buffer.from(text, 'utf8')));
+  }
+
+  public close(code: number = 1000): void {
+    if (this.closed) return;
+
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.socket.end(encodeFrame(Opcode.Close, payload));
+    this.finish();
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close');
+  }
+
+  private onData(chunk: Buffer): void {
+    this.pending = Buffer.concat([this.pending, chunk]);
+
+    // A chunk may hold several frames, or only part of one
+    let frame = decodeFrame(this.pending);
+    while (frame && !this.closed) {
+      this.pending = this.pending.subarray(frame.length);
+      this.onFrame(frame.fin, frame.opcode, frame.payload);
+      frame = decodeFrame(this.pending);
+    }
+
+    if (frame === null && this.pending.length > MAX_PAYLOAD_BYTES + 14) {
+      this.close(1009);
+    }
+  }
+
+  private onFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case Opcode.Text:
+        if (!fin) {
+          this.close(1003);
+          return;
+        }
+        this.emit('message', payload.toString('utf8'));
+        break;
+      case Opcode.Ping:
+        this.socket.write(encodeFrame(Opcode.Pong, payload));
+        break;
+      case Opcode.Pong:
+        break;
+      case Opcode.Close:
+        this.close();
+        break;
+      case Opcode.Binary:
+      case Opcode.Continuation:
+      default:
+        this.close(1003);
+    }
+  }
+}
+
+/**
+ * HTTP server that upgrades every request to a WebSocket
+ * Events: 'connection' (connection: WebSocketConnection, request: IncomingMessage)
+ */
+export class WebSocketServer extends EventEmitter {
+  private server: Server;
+  private connections: Set<WebSocketConnection> = new Set();
+
+  constructor() {
+    super();
+    this.server = createServer((_request, response) => {
+      response.writeHead(426, { 'Content-Type': 'text/plain' });
+      response.end('WebSocket connections only\n');
+    });
+    this.server.on('upgrade', (request: IncomingMessage, socket: Duplex) => this.onUpgrade(request, socket));
+  }
+
+  public listen(port: number, callback?: () => void): void {
+    this.server.listen(port, callback);
+  }
+
+  /**
+   * The port being listened on (the one picked for port 0); null before listen
+   */
+  public get port(): number | null {
+    const address = this.server.address();
+    return address !== null && typeof address === 'object' ? address.port : null;
+  }
+
+  public close(callback?: () => void): void {
+    this.connections.forEach(connection => connection.close(1001));
+    this.server.close(() => callback?.());
+  }
+
+  private onUpgrade(request: IncomingMessage, socket: Duplex): void {
+    const key = request.headers['sec-websocket-key'];
+    if (typeof key !== 'string' || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '\r\n'
+    ].join('\r\n'));
+
+    const connection = new WebSocketConnection(socket);
+    this.connections.add(connection);
+    connection.on('close', () => this.connections.delete(connection));
+    this.emit('connection', connection, request);
+  }
+}
+
+interface DecodedFrame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  length: number;  // Bytes the frame took in the buffer
+}
+
+/**
+ * Reads one frame from the start of buffer
+ * @returns null until the whole frame has arrived
+ */
+function decodeFrame(buffer: Buffer): DecodedFrame | null {
+  if (buffer.length < 2) return null;
+
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let payloadLength = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (payloadLength === 126) {
+    if (buffer.length < 4) return null;
+    payloadLength = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) return null;
+    payloadLength = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  if (payloadLength > MAX_PAYLOAD_BYTES) return null;
+
+  const maskLength = masked ? 4 : 0;
+  if (buffer.length < offset + maskLength + payloadLength) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset + maskLength, offset + maskLength + payloadLength));
+  if (masked) {
+    const mask = buffer.subarray(offset, offset + 4);
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i % 4];
+    }
+  }
+
+  return { fin, opcode, payload, length: offset + maskLength + payloadLength };
+}
+
+/**
+ * Builds an unmasked server frame
+ */
+function encodeFrame(opcode: Opcode, payload: Buffer): Buffer {
+  let header: Buffer;
+
+  if (payload.length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = payload.length;
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
@@ -0,0 +1,24 @@
+/**
+ * index.ts
+ *
+ * Starts a shared-table server: `npm run table-server -- [port] [seed]`
+ * Open the game with `?table=ws://localhost:<port>` in up to four tabs.
+ *
+ * @version 1.0.0
+ * @path server/index.ts
+ */
+
+import { TABLE_CONFIG } from '../app/config/fishConfig';
+import { TableServer } from './TableServer';
+
+const [portArg, seed] = process.argv.slice(2);
+const port = portArg ? Number(portArg) : TABLE_CONFIG.port;
+
+const server = new TableServer({ port, seed });
+server.start(() => {
+  console.log(`Fish table listening on ws://localhost:${server.port} (seed ${server.seed})`);
+});
+
+const shutdown = () => server.stop(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
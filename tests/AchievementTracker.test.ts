@@ -0,0 +1,206 @@
+/**
+ * AchievementTracker.test.ts
+ *
+ * Achievements and quests on a stub storage and a fixed clock: goals unlock
+ * and bank their reward once, quests reset with their day or week, completed
+ * catalog categories are reported once, and progress survives a reload
+ *
+ * @version 1.0.0
+ * @path tests/AchievementTracker.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ACHIEVEMENT_FORMAT,
+  ACHIEVEMENT_VERSION,
+  AchievementEvent,
+  AchievementGoal,
+  AchievementStorage,
+  AchievementTracker,
+  QuestStatus
+} from '../app/lib/AchievementTracker';
+import { getFishByCategory } from '../app/lib/FishSpeciesCatalog';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Wednesday noon UTC; that ISO week started on Monday the 12th
+const WEDNESDAY = Date.UTC(2026, 0, 14, 12);
+
+/**
+ * Storage that keeps every write, so tests can see what was saved
+ */
+class StubStorage implements AchievementStorage {
+  public writes: string[] = [];
+
+  constructor(private data: string | null = null) {}
+
+  public load(): string | null {
+    return this.data;
+  }
+
+  public save(data: string): void {
+    this.data = data;
+    this.writes.push(data);
+  }
+}
+
+/**
+ * A tracker whose clock the test moves
+ */
+function createTracker(storage: AchievementStorage = new StubStorage(), start: number = WEDNESDAY) {
+  const clock = { now: start };
+  const tracker = new AchievementTracker(storage, () => clock.now);
+  return { tracker, clock, storage };
+}
+
+/**
+ * An event that counts toward a goal
+ */
+function eventFor(goal: AchievementGoal): AchievementEvent {
+  switch (goal.event) {
+    case 'catch':
+    case 'generate':
+      return { type: goal.event, species: goal.species ?? 'goldfish', rarity: goal.rarity ?? goal.minRarity ?? 'common' };
+    case 'bossDefeated':
+      return { type: 'bossDefeated', boss: goal.boss ?? 'krakenLord' };
+    case 'categoryComplete':
+      return { type: 'categoryComplete', category: goal.category ?? 'tropical' };
+    case 'upgrade':
+      return { type: 'upgrade' };
+  }
+}
+
+function complete(tracker: AchievementTracker, quest: QuestStatus): void {
+  for (let i = 0; i < quest.definition.goal.count; i++) {
+    tracker.record(eventFor(quest.definition.goal));
+  }
+}
+
+function findQuest(tracker: AchievementTracker, id: string): QuestStatus | undefined {
+  return tracker.getQuests().find(quest => quest.definition.id === id);
+}
+
+describe('AchievementTracker', () => {
+  it('unlocks an achievement once its goal is met and banks the reward once', () => {
+    const { tracker } = createTracker();
+    const unlocked: string[] = [];
+    tracker.on('unlock', achievement => unlocked.push(achievement.definition.id));
+
+    tracker.record({ type: 'catch', species: 'goldfish', rarity: 'common' });
+    assert.ok(unlocked.includes('firstCatch'));
+    assert.ok(!unlocked.includes('rareHunter'));
+
+    const firstCatch = tracker.getAchievements().find(entry => entry.definition.id === 'firstCatch')!;
+    assert.equal(firstCatch.unlockedAt, WEDNESDAY);
+    assert.equal(tracker.claim('firstCatch'), firstCatch.definition.reward);
+    assert.equal(tracker.claim('firstCatch'), 0);
+    assert.equal(tracker.claim('angler'), 0);
+    assert.equal(tracker.claim('noSuchGoal'), 0);
+
+    assert.equal(tracker.bank, firstCatch.definition.reward);
+    assert.equal(tracker.withdraw(), firstCatch.definition.reward);
+    assert.equal(tracker.bank, 0);
+  });
+
+  it('draws the same quests for a period and completes and claims them', () => {
+    const { tracker } = createTracker();
+    const quests = tracker.getQuests();
+    assert.deepEqual(quests, createTracker().tracker.getQuests());
+    assert.equal(quests.filter(quest => quest.period === 'daily').length, 3);
+    assert.equal(quests.filter(quest => quest.period === 'weekly').length, 2);
+    assert.equal(quests[0].endsAt, Date.UTC(2026, 0, 15));
+    assert.equal(quests[quests.length - 1].endsAt, Date.UTC(2026, 0, 19));
+
+    const [daily] = quests;
+    assert.equal(tracker.claim(daily.definition.id), 0);
+
+    const completed: string[] = [];
+    tracker.on('questComplete', quest => completed.push(quest.definition.id));
+    complete(tracker, daily);
+    assert.ok(completed.includes(daily.definition.id));
+    assert.equal(findQuest(tracker, daily.definition.id)!.completed, true);
+
+    assert.equal(tracker.claim(daily.definition.id), daily.definition.reward);
+    assert.equal(tracker.claim(daily.definition.id), 0);
+    assert.equal(findQuest(tracker, daily.definition.id)!.claimed, true);
+  });
+
+  it('resets daily quests each UTC day and weekly quests each ISO week', () => {
+    const { tracker, clock } = createTracker();
+    const quests = tracker.getQuests();
+    const weekly = quests.find(quest => quest.period === 'weekly')!;
+    quests.forEach(quest => tracker.record(eventFor(quest.definition.goal)));
+
+    // Thursday: a new day in the same week
+    clock.now += DAY_MS;
+    const thursday = tracker.getQuests();
+    thursday.filter(quest => quest.period === 'daily').forEach(quest => assert.equal(quest.progress, 0));
+    assert.ok(findQuest(tracker, weekly.definition.id)!.progress > 0);
+
+    // Sunday night is still the same week, Monday is not
+    clock.now = Date.UTC(2026, 0, 18, 23, 59);
+    assert.ok(findQuest(tracker, weekly.definition.id)!.progress > 0);
+    clock.now = Date.UTC(2026, 0, 19);
+    tracker.getQuests()
+      .filter(quest => quest.period === 'weekly')
+      .forEach(quest => assert.equal(quest.progress, 0));
+  });
+
+  it('reports each catalog category once, when the last of its species is owned', () => {
+    const { tracker } = createTracker();
+    const recorded: string[] = [];
+    tracker.on('unlock', achievement => recorded.push(achievement.definition.id));
+
+    const artistic = getFishByCategory('artistic').map(species => species.name);
+    tracker.checkCategories(artistic.slice(1));
+    assert.equal(recorded.length, 0);
+
+    tracker.checkCategories(artistic);
+    assert.deepEqual(recorded, ['artCollector']);
+    const curator = tracker.getAchievements().find(entry => entry.definition.id === 'curator')!;
+    assert.equal(curator.progress, 1);
+
+    // Owning the same species again is not a new completion
+    tracker.checkCategories(artistic);
+    assert.equal(tracker.getAchievements().find(entry => entry.definition.id === 'curator')!.progress, 1);
+
+    // Each further category counts toward the curator goal
+    tracker.checkCategories([...artistic, ...getFishByCategory('flat').map(species => species.name)]);
+    assert.equal(tracker.getAchievements().find(entry => entry.definition.id === 'curator')!.progress, 2);
+  });
+
+  it('picks up saved progress, claims and bank from storage', () => {
+    const storage = new StubStorage();
+    const first = createTracker(storage).tracker;
+    first.record({ type: 'catch', species: 'goldfish', rarity: 'rare' });
+    first.claim('firstCatch');
+    const daily = first.getQuests()[0];
+    first.record(eventFor(daily.definition.goal));
+    first.checkCategories(getFishByCategory('flat').map(species => species.name));
+    assert.ok(storage.writes.length > 0);
+
+    const reloaded = createTracker(storage).tracker;
+    assert.deepEqual(reloaded.getAchievements(), first.getAchievements());
+    assert.deepEqual(reloaded.getQuests(), first.getQuests());
+    assert.equal(reloaded.bank, first.bank);
+    assert.equal(reloaded.claim('firstCatch'), 0);
+
+    // A category already completed before the reload is not reported again
+    const writes = storage.writes.length;
+    reloaded.checkCategories(getFishByCategory('flat').map(species => species.name));
+    assert.equal(storage.writes.length, writes);
+  });
+
+  it('starts over from saves it cannot read', (t) => {
+    const warn = t.mock.method(console, 'warn', () => {});
+    const newer = JSON.stringify({ format: ACHIEVEMENT_FORMAT, version: ACHIEVEMENT_VERSION + 1, bank: 500 });
+
+    for (const data of ['not json', JSON.stringify({ format: 'other', version: 1 }), newer]) {
+      const { tracker } = createTracker(new StubStorage(data));
+      assert.equal(tracker.bank, 0);
+      assert.ok(tracker.getAchievements().every(entry => entry.progress === 0));
+    }
+    assert.equal(warn.mock.callCount(), 3);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * BossFight.test.ts
+ *
+ * Boss encounters against BOSS_CONFIG: phases start at their health
+ * thresholds, the timers enrage and then chase the boss off, weak points
+ * multiply the damage of shots that cross them, and the jackpot splits by
+ * damage dealt
+ *
+ * @version 1.0.0
+ * @path tests/BossFight.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BOSS_CONFIG, TABLE_CONFIG } from '../app/config/fishConfig';
+import { BossFight, splitJackpot } from '../app/lib/BossFight';
+import { BossRegistry } from '../app/lib/BossRegistry';
+import { SeededRandom } from '../app/lib/SeededRandom';
+
+const KRAKEN = BOSS_CONFIG.bosses.krakenLord;
+
+function createBoss(): BossFight {
+  return new BossFight(
+    BossRegistry.get('krakenLord'),
+    { width: TABLE_CONFIG.width, height: TABLE_CONFIG.height },
+    new SeededRandom('boss-test')
+  );
+}
+
+/**
+ * Health at which a phase starts
+ */
+function phaseHealth(phase: number): number {
+  return KRAKEN.health * KRAKEN.phases[phase].threshold;
+}
+
+describe('BossFight', () => {
+  it('starts each phase as health reaches its threshold', () => {
+    const boss = createBoss();
+    const phases: number[] = [];
+    boss.on('phase', phase => phases.push(phase));
+
+    boss.hit('a', KRAKEN.health - phaseHealth(1) - 1, { x: 0, y: 0 }, null);
+    assert.equal(boss.snapshot().phase, 0);
+    boss.hit('a', 1, { x: 0, y: 0 }, null);
+    assert.equal(boss.snapshot().phase, 1);
+    assert.equal(boss.phase.movement, KRAKEN.phases[1].movement);
+    assert.deepEqual(phases, [1]);
+  });
+
+  it('steps through every phase a single big hit skips', () => {
+    const boss = createBoss();
+    const phases: number[] = [];
+    boss.on('phase', phase => phases.push(phase));
+
+    boss.hit('a', KRAKEN.health - phaseHealth(2) + 1, { x: 0, y: 0 }, null);
+    assert.deepEqual(phases, [1, 2]);
+    assert.equal(boss.snapshot().phaseCount, KRAKEN.phases.length);
+  });
+
+  it('caps damage at the health left and credits each player', () => {
+    const boss = createBoss();
+    assert.deepEqual(boss.hit('a', 1000, { x: 0, y: 0 }, null), { damage: 1000, weakPoint: null });
+    assert.equal(boss.hit('b', KRAKEN.health, { x: 0, y: 0 }, null).damage, KRAKEN.health - 1000);
+
+    assert.ok(boss.defeated);
+    assert.deepEqual(boss.getContributions(), { a: 1000, b: KRAKEN.health - 1000 });
+    assert.deepEqual(boss.hit('a', 50, { x: 0, y: 0 }, null), { damage: 0, weakPoint: null });
+  });
+
+  it('multiplies the damage of a shot heading through a weak point', () => {
+    const boss = createBoss();
+    boss.update(1000);
+    const heading = Math.PI / 2;
+    const eye = boss.snapshot().weakPoints.find(point => point.id === 'eye')!;
+    const eyeConfig = KRAKEN.weakPoints.find(point => point.id === 'eye')!;
+
+    // Contact short of the eye, travelling straight at it
+    const contact = { x: eye.x, y: eye.y - eye.radius * 2 };
+    assert.deepEqual(boss.hit('a', 10, contact, heading), { damage: 10 * eyeConfig.multiplier, weakPoint: 'eye' });
+
+    // The same contact moving away, and a blast there, hit the body
+    assert.deepEqual(boss.hit('a', 10, contact, -heading), { damage: 10, weakPoint: null });
+    assert.deepEqual(boss.hit('a', 10, { x: eye.x, y: eye.y }, null), { damage: 10, weakPoint: null });
+  });
+
+  it('enrages, then flees and leaves on its timers', () => {
+    const boss = createBoss();
+    const events: string[] = [];
+    boss.on('enrage', () => events.push('enrage'));
+    boss.on('flee', () => events.push('flee'));
+
+    boss.update(KRAKEN.enrageMs - 1);
+    assert.equal(boss.snapshot().enraged, false);
+    boss.update(1);
+    assert.equal(boss.snapshot().enraged, true);
+    assert.equal(boss.snapshot().enrageInMS, 0);
+
+    boss.update(KRAKEN.escapeMs - KRAKEN.enrageMs);
+    assert.deepEqual(events, ['enrage', 'flee']);
+    assert.equal(boss.snapshot().fleeing, true);
+
+    for (let i = 0; i < 600 && !boss.gone; i++) {
+      boss.update(100);
+    }
+    assert.ok(boss.gone);
+    assert.deepEqual(events, ['enrage', 'flee']);
+  });
+});
+
+describe('splitJackpot', () => {
+  it('splits in proportion to damage dealt', () => {
+    assert.deepEqual(splitJackpot(1000, { a: 300, b: 100 }), { a: 750, b: 250 });
+  });
+
+  it('gives the rounding remainder to the top contributor', () => {
+    assert.deepEqual(splitJackpot(10, { a: 1, b: 2 }), { a: 3, b: 7 });
+
+    // Ties go to the first of them
+    const leftover = splitJackpot(10, { a: 1, b: 1, c: 1 });
+    assert.deepEqual(leftover, { a: 4, b: 3, c: 3 });
+    assert.equal(Object.values(leftover).reduce((sum, amount) => sum + amount, 0), 10);
+  });
+
+  it('leaves out players who dealt no damage', () => {
+    assert.deepEqual(splitJackpot(500, { a: 0, b: 7 }), { b: 500 });
+    assert.deepEqual(splitJackpot(500, {}), {});
+    assert.deepEqual(splitJackpot(500, { a: 0 }), {});
+  });
+});
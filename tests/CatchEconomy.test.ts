@@ -0,0 +1,185 @@
+/**
+ * CatchEconomy.test.ts
+ *
+ * Checks the probabilistic catch model: per-hit chance and payout, rolls a
+ * server can re-derive from seed and sequence, routing through a resolver,
+ * and that a long run of rolls returns the configured RTP
+ *
+ * @version 1.0.0
+ * @path tests/CatchEconomy.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CATCH_ECONOMY } from '../app/config/fishConfig';
+import { CatchEconomy, CatchRequest, CatchResult, simulateCatchRTP } from '../app/lib/CatchEconomy';
+
+const request = (bet: number, reward: number, fishId: string = 'fish-1'): CatchRequest => ({ fishId, bet, reward });
+
+describe('CatchEconomy.chance', () => {
+  const economy = new CatchEconomy({ seed: 'chance' });
+
+  it('is rtp * bet / reward below the cap', () => {
+    assert.equal(economy.rtp, CATCH_ECONOMY.rtp);
+    assert.equal(economy.chance(1, 100), CATCH_ECONOMY.rtp / 100);
+    assert.equal(economy.chance(5, 200), (CATCH_ECONOMY.rtp * 5) / 200);
+  });
+
+  it('stops at maxChance', () => {
+    assert.equal(economy.chance(50, 10), CATCH_ECONOMY.maxChance);
+    assert.equal(new CatchEconomy({ maxChance: 0.5 }).chance(10, 10), 0.5);
+  });
+
+  it('is zero without a bet or a reward', () => {
+    assert.equal(economy.chance(0, 100), 0);
+    assert.equal(economy.chance(1, 0), 0);
+  });
+});
+
+describe('CatchEconomy.payout', () => {
+  const economy = new CatchEconomy({ seed: 'payout' });
+
+  it('is the reward for uncapped hits', () => {
+    assert.equal(economy.payout(1, 100), 100);
+  });
+
+  it('is raised for capped hits so each still returns rtp * bet', () => {
+    const bet = 50;
+    const reward = 10;
+    const payout = economy.payout(bet, reward);
+    assert.ok(payout > reward);
+    assert.ok(Math.abs(economy.chance(bet, reward) * payout - CATCH_ECONOMY.rtp * bet) < 1e-9);
+  });
+
+  it('is zero when there is nothing to win', () => {
+    assert.equal(economy.payout(0, 100), 0);
+  });
+});
+
+describe('CatchEconomy.roll', () => {
+  it('numbers rolls and records them', () => {
+    const economy = new CatchEconomy({ seed: 'roll' });
+    const results = [request(1, 10), request(2, 10), request(50, 10)].map(hit => economy.roll(hit));
+
+    assert.deepEqual(results.map(result => result.sequence), [0, 1, 2]);
+    results.forEach(result => {
+      assert.equal(result.caught, result.roll < result.chance);
+      assert.equal(result.payout, result.caught ? economy.payout(result.bet, result.reward) : 0);
+    });
+
+    const stats = economy.stats;
+    assert.equal(stats.hits, 3);
+    assert.equal(stats.wagered, 53);
+    assert.equal(stats.catches, results.filter(result => result.caught).length);
+    assert.equal(stats.paid, results.reduce((sum, result) => sum + result.payout, 0));
+    assert.ok(Math.abs(stats.expectedPaid - CATCH_ECONOMY.rtp * 53) < 1e-9);
+
+    economy.resetStats();
+    assert.equal(economy.stats.hits, 0);
+  });
+
+  it('rolls the same for the same seed', () => {
+    const first = new CatchEconomy({ seed: 'same' });
+    const second = new CatchEconomy({ seed: 'same' });
+    for (let i = 0; i < 20; i++) {
+      assert.deepEqual(first.roll(request(3, 20)), second.roll(request(3, 20)));
+    }
+  });
+});
+
+describe('CatchEconomy.verify', () => {
+  const economy = new CatchEconomy({ seed: 'verify' });
+  const results = Array.from({ length: 50 }, (_, i) => economy.roll(request(5, 20, `fish-${i}`)));
+  const caught = results.find(result => result.caught)!;
+  const missed = results.find(result => !result.caught)!;
+
+  it('re-derives rolls from the seed and sequence alone', () => {
+    const server = new CatchEconomy({ seed: 'verify' });
+    results.forEach(result => assert.ok(server.verify(result), `sequence ${result.sequence} failed`));
+    // Order doesn't matter, only the sequence number
+    assert.ok(server.verify(results[results.length - 1]));
+  });
+
+  it('rejects tampered results', () => {
+    assert.ok(caught && missed, 'the fixture needs a catch and a miss');
+    const forged: CatchResult[] = [
+      { ...missed, caught: true, payout: 20 },
+      { ...caught, payout: caught.payout * 2 },
+      { ...caught, roll: caught.roll / 2 },
+      { ...caught, sequence: missed.sequence }
+    ];
+    forged.forEach(result => assert.equal(economy.verify(result), false, JSON.stringify(result)));
+  });
+
+  it('rejects rolls from another seed', () => {
+    const other = new CatchEconomy({ seed: 'other' });
+    assert.equal(results.every(result => other.verify(result)), false);
+  });
+});
+
+describe('CatchEconomy.resolve', () => {
+  it('rolls locally without a resolver', async () => {
+    const economy = new CatchEconomy({ seed: 'resolve' });
+    assert.equal(economy.remote, false);
+    const result = await economy.resolve(request(1, 10));
+    assert.ok(new CatchEconomy({ seed: 'resolve' }).verify(result));
+    assert.equal(economy.stats.hits, 1);
+  });
+
+  it('routes hits through the resolver with their sequence numbers', async () => {
+    const server = new CatchEconomy({ seed: 'authority' });
+    const received: (CatchRequest & { sequence: number })[] = [];
+    const client = new CatchEconomy({
+      seed: 'client',
+      resolver: async hit => {
+        received.push(hit);
+        return server.roll(hit);
+      }
+    });
+    assert.equal(client.remote, true);
+
+    client.roll(request(1, 10, 'local'));
+    const results = [await client.resolve(request(2, 10, 'a')), await client.resolve(request(3, 10, 'b'))];
+
+    assert.deepEqual(received, [
+      { fishId: 'a', bet: 2, reward: 10, sequence: 1 },
+      { fishId: 'b', bet: 3, reward: 10, sequence: 2 }
+    ]);
+    results.forEach(result => assert.ok(server.verify(result)));
+    assert.equal(client.stats.hits, 3);
+    assert.equal(client.stats.wagered, 6);
+  });
+
+  it('goes back to local rolls when the resolver is cleared', async () => {
+    const server = new CatchEconomy({ seed: 'authority' });
+    let calls = 0;
+    const economy = new CatchEconomy({
+      seed: 'clear',
+      resolver: hit => {
+        calls++;
+        return server.roll(hit);
+      }
+    });
+    economy.setResolver(null);
+    assert.equal(economy.remote, false);
+    await economy.resolve(request(1, 10));
+    assert.equal(calls, 0);
+  });
+});
+
+describe('simulateCatchRTP', () => {
+  it('returns the target RTP over many rolls', () => {
+    const report = simulateCatchRTP({ hits: 300000, seed: 'rtp' });
+    assert.ok(report.withinTolerance, JSON.stringify(report));
+    assert.ok(report.cappedHits > 0, 'no hit reached the cap');
+    assert.ok(Math.abs(report.expectedRTP - CATCH_ECONOMY.rtp) < 1e-9);
+    assert.ok(Math.abs(report.observedRTP - CATCH_ECONOMY.rtp) < 0.02, `observed ${report.observedRTP}`);
+    assert.ok(report.standardError < 0.005);
+  });
+
+  it('holds for another target RTP and cap', () => {
+    const report = simulateCatchRTP({ hits: 100000, seed: 'rtp', rtp: 0.9, maxChance: 0.5 });
+    assert.ok(report.withinTolerance, JSON.stringify(report));
+    assert.equal(report.targetRTP, 0.9);
+  });
+});
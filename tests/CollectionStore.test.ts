@@ -0,0 +1,211 @@
+/**
+ * CollectionStore.test.ts
+ *
+ * The collection on the in-memory backend: queries filter, sort and page
+ * entries, and export files round-trip through import, which skips or
+ * overwrites existing fish, reports bad entries and takes a repeated id once
+ *
+ * @version 1.0.0
+ * @path tests/CollectionStore.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FishDNA } from '../app/lib/ArtisticFishPixi';
+import {
+  COLLECTION_FORMAT,
+  COLLECTION_VERSION,
+  CollectionExport,
+  CollectionStore,
+  MemoryCollectionBackend
+} from '../app/lib/CollectionStore';
+import { SpeciesRegistry } from '../app/lib/SpeciesRegistry';
+
+function createDNA(overrides: Partial<FishDNA> = {}): FishDNA {
+  const species = SpeciesRegistry.resolve(overrides.species ?? 'goldfish');
+  return {
+    id: 'ARTEFACT-test01',
+    species: species.name,
+    bodyShape: species.bodyShape,
+    pattern: 'stripes',
+    colors: { primary: '#ff8800', secondary: '#ffcc00', accent: '#ffffff' },
+    rarity: 'rare',
+    traits: [],
+    mutations: [],
+    genes: { size: 1, speed: 0.75, aggression: 0.5, intelligence: 0.25 },
+    ...overrides
+  };
+}
+
+// Added in this order, one second apart
+const FISH = [
+  { dna: createDNA({ id: 'ARTEFACT-a', species: 'goldfish', rarity: 'common' }), meta: { name: 'Bubbles', tags: ['pond'] } },
+  { dna: createDNA({ id: 'ARTEFACT-b', species: 'neonTetra', rarity: 'legendary' }), meta: { favorite: true } },
+  { dna: createDNA({ id: 'ARTEFACT-c', species: 'angelfish', rarity: 'rare' }), meta: { name: 'Angel', tags: ['pond', 'reef'] } },
+  { dna: createDNA({ id: 'ARTEFACT-d', species: 'goldfish', rarity: 'epic' }), meta: { favorite: true, tags: ['reef'] } },
+  { dna: createDNA({ id: 'ARTEFACT-e', species: 'clownfish', rarity: 'uncommon' }), meta: {} }
+];
+
+async function createStore(): Promise<{ store: CollectionStore; backend: MemoryCollectionBackend }> {
+  const backend = new MemoryCollectionBackend();
+  return { store: await CollectionStore.open(backend), backend };
+}
+
+async function createFilledStore(): Promise<CollectionStore> {
+  const { store } = await createStore();
+  const realNow = Date.now;
+  let clock = Date.UTC(2026, 0, 1);
+  Date.now = () => clock;
+  try {
+    for (const { dna, meta } of FISH) {
+      await store.add(dna, meta);
+      clock += 1000;
+    }
+  } finally {
+    Date.now = realNow;
+  }
+  return store;
+}
+
+function ids(entries: { dna: FishDNA }[]): string[] {
+  return entries.map(entry => entry.dna.id.slice(-1));
+}
+
+describe('CollectionStore.query', () => {
+  it('lists newest first by default', async () => {
+    const store = await createFilledStore();
+    const page = store.query();
+    assert.deepEqual(ids(page.entries), ['e', 'd', 'c', 'b', 'a']);
+    assert.deepEqual({ total: page.total, offset: page.offset, limit: page.limit }, { total: 5, offset: 0, limit: 5 });
+  });
+
+  it('filters by rarity, minimum rarity, species, favorite and tag', async () => {
+    const store = await createFilledStore();
+    assert.deepEqual(ids(store.query({ rarity: 'rare' }).entries), ['c']);
+    assert.deepEqual(ids(store.query({ minRarity: 'rare' }).entries), ['d', 'c', 'b']);
+    assert.deepEqual(ids(store.query({ species: 'goldfish' }).entries), ['d', 'a']);
+    assert.deepEqual(ids(store.query({ favorite: true }).entries), ['d', 'b']);
+    assert.deepEqual(ids(store.query({ favorite: false }).entries), ['e', 'c', 'a']);
+    assert.deepEqual(ids(store.query({ tag: 'reef' }).entries), ['d', 'c']);
+    assert.deepEqual(ids(store.query({ tag: 'pond', minRarity: 'rare' }).entries), ['c']);
+    assert.equal(store.query({ species: 'crystalShark' }).total, 0);
+  });
+
+  it('sorts by rarity, species and name in either order', async () => {
+    const store = await createFilledStore();
+    assert.deepEqual(ids(store.query({ sortBy: 'rarity' }).entries), ['b', 'd', 'c', 'e', 'a']);
+    assert.deepEqual(ids(store.query({ sortBy: 'rarity', order: 'asc' }).entries), ['a', 'e', 'c', 'd', 'b']);
+    assert.deepEqual(ids(store.query({ sortBy: 'addedAt', order: 'asc' }).entries), ['a', 'b', 'c', 'd', 'e']);
+
+    // By display name: Coral Jester, Golden Koi (x2, newest first), Neon Spirit, Royal Angel
+    assert.deepEqual(ids(store.query({ sortBy: 'species' }).entries), ['e', 'd', 'a', 'b', 'c']);
+
+    // Unnamed fish sort by id
+    assert.deepEqual(ids(store.query({ sortBy: 'name' }).entries), ['c', 'b', 'd', 'e', 'a']);
+    assert.deepEqual(ids(store.query({ sortBy: 'name', order: 'desc' }).entries), ['a', 'e', 'd', 'b', 'c']);
+  });
+
+  it('pages through the matches, counting them all', async () => {
+    const store = await createFilledStore();
+    const first = store.query({ limit: 2 });
+    const second = store.query({ offset: 2, limit: 2 });
+    const last = store.query({ offset: 4, limit: 2 });
+
+    assert.deepEqual(ids(first.entries), ['e', 'd']);
+    assert.deepEqual(ids(second.entries), ['c', 'b']);
+    assert.deepEqual(ids(last.entries), ['a']);
+    [first, second, last].forEach(page => assert.equal(page.total, 5));
+
+    assert.deepEqual(store.query({ offset: 10, limit: 2 }).entries, []);
+    assert.equal(store.query({ offset: -3, limit: 1 }).offset, 0);
+    assert.deepEqual(ids(store.query({ favorite: true, offset: 1 }).entries), ['b']);
+    assert.equal(store.query({ favorite: true, offset: 1 }).total, 2);
+  });
+});
+
+describe('CollectionStore export and import', () => {
+  it('round-trips the collection through an export file', async () => {
+    const source = await createFilledStore();
+    const json = source.exportJSON();
+    const file: CollectionExport = JSON.parse(json);
+    assert.equal(file.format, COLLECTION_FORMAT);
+    assert.equal(file.version, COLLECTION_VERSION);
+    assert.equal(file.entries.length, 5);
+
+    const { store, backend } = await createStore();
+    assert.deepEqual(await store.importJSON(json), { imported: 5, skipped: 0, errors: [] });
+    assert.deepEqual(store.query(), source.query());
+    assert.equal((await backend.loadAll()).length, 5);
+
+    // The backend keeps what a reopened store needs
+    const reopened = await CollectionStore.open(backend);
+    assert.deepEqual(reopened.query(), source.query());
+  });
+
+  it('exports only what the query matches', async () => {
+    const source = await createFilledStore();
+    const file: CollectionExport = JSON.parse(source.exportJSON({ favorite: true }));
+    assert.deepEqual(file.entries.map(record => record.id), ['ARTEFACT-d', 'ARTEFACT-b']);
+  });
+
+  it('skips fish already collected unless told to overwrite', async () => {
+    const source = await createFilledStore();
+    await source.setName('ARTEFACT-a', 'Renamed');
+    const json = source.exportJSON();
+
+    const store = await createFilledStore();
+    assert.deepEqual(await store.importJSON(json), { imported: 0, skipped: 5, errors: [] });
+    assert.equal(store.get('ARTEFACT-a')?.name, 'Bubbles');
+
+    assert.deepEqual(await store.importJSON(json, { overwrite: true }), { imported: 5, skipped: 0, errors: [] });
+    assert.equal(store.get('ARTEFACT-a')?.name, 'Renamed');
+    assert.equal(store.size, 5);
+  });
+
+  it('imports an id repeated in the file once, from its first entry', async () => {
+    const source = await createFilledStore();
+    const file: CollectionExport = JSON.parse(source.exportJSON({ species: 'goldfish' }));
+    const [first] = file.entries;
+    file.entries.push({ ...first, name: 'Duplicate' }, { ...first, favorite: !first.favorite });
+
+    const { store, backend } = await createStore();
+    assert.deepEqual(await store.importJSON(JSON.stringify(file)), { imported: 2, skipped: 2, errors: [] });
+    assert.equal(store.get(first.id)?.name, first.name);
+    assert.equal(store.get(first.id)?.favorite, first.favorite);
+    assert.equal((await backend.loadAll()).length, 2);
+
+    // Overwriting does not let a later repeat win either
+    assert.deepEqual(await store.importJSON(JSON.stringify(file), { overwrite: true }), { imported: 2, skipped: 2, errors: [] });
+    assert.equal(store.get(first.id)?.name, first.name);
+  });
+
+  it('reports invalid entries by index and imports the rest', async () => {
+    const source = await createFilledStore();
+    const file: CollectionExport = JSON.parse(source.exportJSON());
+    const entries = [
+      file.entries[0],
+      null,
+      { ...file.entries[1], dna: { ...file.entries[1].dna, dna: { ...file.entries[1].dna.dna, rarity: 'priceless' } } },
+      file.entries[2]
+    ];
+
+    const { store } = await createStore();
+    const result = await store.importJSON(JSON.stringify({ ...file, entries }));
+    assert.equal(result.imported, 2);
+    assert.equal(result.skipped, 0);
+    assert.deepEqual(result.errors.map(error => error.index), [1, 2]);
+    assert.ok(result.errors.every(error => error.message.length > 0));
+    assert.equal(store.size, 2);
+  });
+
+  it('rejects files that are not collection exports', async () => {
+    const { store } = await createStore();
+    await assert.rejects(store.importJSON('{'), /not valid JSON/);
+    await assert.rejects(store.importJSON(JSON.stringify({ format: 'other', version: 1, entries: [] })), /Not a collection export/);
+    await assert.rejects(
+      store.importJSON(JSON.stringify({ format: COLLECTION_FORMAT, version: COLLECTION_VERSION + 1, entries: [] })),
+      /Unsupported collection version/
+    );
+    assert.equal(store.size, 0);
+  });
+});
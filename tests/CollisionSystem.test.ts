@@ -0,0 +1,118 @@
+/**
+ * CollisionSystem.test.ts
+ *
+ * Swept shots against hand-placed bodies: fast shots cannot tunnel, piercing
+ * stops at its limit and never hits a body twice, blasts skip direct hits,
+ * bodies removed mid-frame are not hit, and polygon outlines collide by
+ * containment and by distance to their edges
+ *
+ * @version 1.0.0
+ * @path tests/CollisionSystem.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CollisionBody,
+  CollisionExplosionEvent,
+  CollisionHitEvent,
+  CollisionSystem,
+  HitShape,
+  Projectile,
+  overlapsCircle
+} from '../app/lib/CollisionSystem';
+
+function body(id: string, x: number, y: number, shape: HitShape = { type: 'circle', radius: 20 }): CollisionBody<string> {
+  return { id, owner: id, shape, x, y, rotation: 0 };
+}
+
+/**
+ * A shot moving from (prevX, prevY) to (x, y) this frame
+ */
+function shot(prevX: number, prevY: number, x: number, y: number, options: Partial<Projectile> = {}): Projectile {
+  return { id: 'shot', prevX, prevY, x, y, radius: 4, damage: 1, pierce: 0, hits: new Set(), ...options };
+}
+
+function track(system: CollisionSystem<string>) {
+  const hits: CollisionHitEvent<string>[] = [];
+  const explosions: CollisionExplosionEvent<string>[] = [];
+  system.on('hit', event => hits.push(event));
+  system.on('explosion', event => explosions.push(event));
+  return { hits, explosions };
+}
+
+describe('CollisionSystem', () => {
+  it('hits a fish a fast shot passes straight over in one frame', () => {
+    const system = new CollisionSystem<string>();
+    system.rebuild([body('fish', 500, 100, { type: 'circle', radius: 10 })]);
+    const { hits } = track(system);
+
+    // Both ends of the move are far outside the fish
+    assert.equal(system.resolveProjectile(shot(0, 100, 1000, 100)), true);
+    assert.equal(hits.length, 1);
+    assert.equal(hits[0].body.id, 'fish');
+    assert.ok(Math.abs(hits[0].point.x - 486) <= 4);
+  });
+
+  it('pierces up to its limit, nearest first, and never hits a body twice', () => {
+    const system = new CollisionSystem<string>();
+    system.rebuild([body('c', 300, 0), body('a', 100, 0), body('b', 200, 0), body('d', 400, 0)]);
+    const { hits } = track(system);
+
+    const projectile = shot(0, 0, 250, 0, { pierce: 2 });
+    assert.equal(system.resolveProjectile(projectile), false);
+    assert.deepEqual(hits.map(hit => hit.body.id), ['a', 'b']);
+
+    // Still overlapping b at the start of the next frame
+    assert.equal(system.resolveProjectile({ ...projectile, prevX: 210, x: 500 }), true);
+    assert.deepEqual(hits.map(hit => hit.body.id), ['a', 'b', 'c']);
+  });
+
+  it('blasts the bodies around its last hit, leaving out the ones it hit directly', () => {
+    const system = new CollisionSystem<string>();
+    system.rebuild([body('direct', 100, 0), body('near', 100, 60), body('far', 100, 400)]);
+    const { hits, explosions } = track(system);
+
+    assert.equal(system.resolveProjectile(shot(0, 0, 200, 0, { blastRadius: 80 })), true);
+    assert.deepEqual(hits.map(hit => hit.body.id), ['direct']);
+    assert.equal(explosions.length, 1);
+    assert.deepEqual(explosions[0].bodies.map(entry => entry.id), ['near']);
+    assert.equal(explosions[0].radius, 80);
+  });
+
+  it('skips a body a hit listener removed earlier in the same frame', () => {
+    const system = new CollisionSystem<string>();
+    system.rebuild([body('first', 100, 0), body('second', 200, 0)]);
+    const { hits } = track(system);
+
+    // As when a catch on the first fish also takes the second
+    system.once('hit', () => system.remove('second'));
+    assert.equal(system.resolveProjectile(shot(0, 0, 300, 0, { pierce: 5 })), false);
+    assert.deepEqual(hits.map(hit => hit.body.id), ['first']);
+    assert.equal(system.size, 1);
+    assert.deepEqual(system.queryPoint(200, 0), []);
+  });
+
+  it('collides with a polygon inside it and within a radius of its edges', () => {
+    const diamond = body('diamond', 0, 0, { type: 'polygon', points: [40, 0, 0, -20, -40, 0, 0, 20] });
+
+    assert.equal(overlapsCircle(diamond, 0, 0, 0), true);
+    assert.equal(overlapsCircle(diamond, 30, 4, 0), true);
+    // Inside the bounding box but outside the outline
+    assert.equal(overlapsCircle(diamond, 30, 15, 0), false);
+    // 5 px from the edge between (40, 0) and (0, -20)
+    const offEdge = { x: 20 + 5 / Math.sqrt(5), y: -10 - 10 / Math.sqrt(5) };
+    assert.equal(overlapsCircle(diamond, offEdge.x, offEdge.y, 6), true);
+    assert.equal(overlapsCircle(diamond, offEdge.x, offEdge.y, 4), false);
+    // Past the tip, measured to the nearest vertex
+    assert.equal(overlapsCircle(diamond, 45, 0, 6), true);
+    assert.equal(overlapsCircle(diamond, 45, 0, 4), false);
+  });
+
+  it('turns polygons with the body', () => {
+    const arrow = body('arrow', 0, 0, { type: 'polygon', points: [40, 0, -40, -10, -40, 10] });
+    assert.equal(overlapsCircle(arrow, 35, 0, 0), true);
+    assert.equal(overlapsCircle({ ...arrow, rotation: Math.PI / 2 }, 35, 0, 0), false);
+    assert.equal(overlapsCircle({ ...arrow, rotation: Math.PI / 2 }, 0, 35, 0), true);
+  });
+});
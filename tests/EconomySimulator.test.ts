@@ -0,0 +1,99 @@
+/**
+ * EconomySimulator.test.ts
+ *
+ * Headless economy runs: a seed reproduces its report, a player who never
+ * hits goes broke on the expected shot, and upgrades are timed per power
+ * tier and summarised across runs
+ *
+ * @version 1.0.0
+ * @path tests/EconomySimulator.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GAME_RULES, POWER_TIERS, WEAPON_CONFIG } from '../app/config/fishConfig';
+import { economyReportToCSV, simulateEconomy } from '../app/lib/EconomySimulator';
+
+describe('simulateEconomy', () => {
+  it('gives the same report for the same seed', () => {
+    const options = { runs: 3, shotsPerRun: 500, seed: 'economy-test', strategy: 'bestValue' as const };
+    const report = simulateEconomy(options);
+
+    assert.deepEqual(simulateEconomy(options), report);
+    assert.notDeepEqual(simulateEconomy({ ...options, seed: 'other' }).results, report.results);
+    assert.equal(report.results.length, 3);
+    assert.equal(report.summary.shots, report.results.reduce((sum, result) => sum + result.shots, 0));
+    assert.equal(report.options.catchMode, 'health');
+  });
+
+  it('records when a player who never hits goes broke', () => {
+    const { results, summary } = simulateEconomy({
+      runs: 2,
+      shotsPerRun: 1000,
+      seed: 'broke',
+      weapon: 'net',
+      accuracy: 0,
+      upgradeReserve: null
+    });
+    const shotsAffordable = Math.floor(GAME_RULES.startingCoins / WEAPON_CONFIG.net.cost);
+
+    results.forEach(result => {
+      assert.equal(result.bankrupt, true);
+      assert.equal(result.bankruptAtShot, shotsAffordable);
+      assert.equal(result.shots, shotsAffordable);
+      assert.equal(result.earned, 0);
+      assert.equal(result.spent, shotsAffordable * WEAPON_CONFIG.net.cost);
+      assert.equal(result.finalCoins, GAME_RULES.startingCoins - result.spent);
+    });
+    assert.equal(summary.bankruptcyRate, 1);
+    assert.equal(summary.rtp, 0);
+  });
+
+  it('times each power tier reached and summarises the tiers', () => {
+    const maxPower = 5;
+    const { results, summary } = simulateEconomy({
+      runs: 3,
+      shotsPerRun: 3000,
+      seed: 'tiers',
+      accuracy: 1,
+      strategy: 'weakest',
+      upgradeReserve: 500,
+      maxPower
+    });
+    const reachable = POWER_TIERS.filter(tier => tier.level <= maxPower).map(tier => tier.level);
+    const beyond = POWER_TIERS.filter(tier => tier.level > maxPower).map(tier => tier.level);
+
+    results.forEach(result => {
+      assert.equal(result.bankrupt, false);
+      assert.equal(result.finalPower, maxPower);
+      assert.equal(result.tierTimesMS[1], 0);
+
+      // Reached in order, after the start, and never past maxPower
+      const times = reachable.slice(1).map(level => result.tierTimesMS[level]);
+      times.forEach(time => assert.ok(time !== null && time > 0 && time <= result.timeMS));
+      assert.deepEqual([...times].sort((a, b) => a! - b!), times);
+      beyond.forEach(level => assert.equal(result.tierTimesMS[level], null));
+    });
+
+    assert.deepEqual(summary.tiers.map(tier => tier.level), POWER_TIERS.map(tier => tier.level));
+    summary.tiers.forEach(tier => {
+      if (tier.level > maxPower) {
+        assert.deepEqual(tier, { level: tier.level, reachRate: 0, meanTimeMS: null });
+        return;
+      }
+      const mean = results.reduce((sum, result) => sum + result.tierTimesMS[tier.level]!, 0) / results.length;
+      assert.equal(tier.reachRate, 1);
+      assert.ok(Math.abs(tier.meanTimeMS! - mean) < 1e-9);
+    });
+  });
+
+  it('exports every coin-flow sample as a CSV row', () => {
+    const report = simulateEconomy({ runs: 2, shotsPerRun: 250, seed: 'csv', sampleEvery: 100 });
+    const rows = economyReportToCSV(report).split('\n');
+
+    assert.equal(rows[0], 'run,shot,timeMS,coins,power,bankrupt');
+    assert.equal(rows.length - 1, report.results.reduce((sum, result) => sum + result.samples.length, 0));
+    // Every 100 shots, plus the start and the end of the run
+    assert.deepEqual(report.results[0].samples.map(entry => entry.shot), [0, 100, 200, 250]);
+  });
+});
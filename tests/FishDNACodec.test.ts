@@ -0,0 +1,174 @@
+/**
+ * FishDNACodec.test.ts
+ *
+ * DNA round-trips through the JSON envelope and the compact string, older
+ * versions run through their migrations on decode, and malformed, newer
+ * or invalid input is rejected with the issues that explain why
+ *
+ * @version 1.0.0
+ * @path tests/FishDNACodec.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FishDNA } from '../app/lib/ArtisticFishPixi';
+import {
+  DNAValidationError,
+  FISH_DNA_FORMAT,
+  FISH_DNA_VERSION,
+  FishDNAEnvelope,
+  decodeFishDNA,
+  encodeCompactDNA,
+  encodeFishDNA,
+  registerDNAMigration,
+  validateFishDNA
+} from '../app/lib/FishDNACodec';
+import { SpeciesRegistry } from '../app/lib/SpeciesRegistry';
+
+function createDNA(overrides: Partial<FishDNA> = {}): FishDNA {
+  const species = SpeciesRegistry.resolve(overrides.species ?? 'goldfish');
+  return {
+    id: 'ARTEFACT-test01',
+    species: species.name,
+    bodyShape: species.bodyShape,
+    pattern: 'stripes',
+    colors: { primary: '#ff8800', secondary: '#ffcc00', accent: '#ffffff' },
+    rarity: 'rare',
+    traits: [],
+    mutations: [],
+    genes: { size: 1, speed: 0.75, aggression: 0.5, intelligence: 0.25 },
+    ...overrides
+  };
+}
+
+// Every optional field set, and an id outside ASCII
+const BRED = createDNA({
+  id: 'ARTEFACT-été-🐟',
+  species: 'angelfish',
+  bodyShape: SpeciesRegistry.resolve('angelfish').bodyShape,
+  pattern: 'spirals',
+  surfaceType: 'liquid_metal',
+  colors: { primary: '#112233', secondary: '#445566', accent: '#778899', glow: '#aabbcc', shimmer: '#ddeeff' },
+  rarity: 'legendary',
+  traits: ['glowing_eyes'],
+  mutations: ['albino', 'iridescent'],
+  artStyle: 'baroque',
+  dynamicColor: true,
+  seed: 'seed-42',
+  lineage: { parents: ['ARTEFACT-mother', 'ARTEFACT-father'], generation: 3 }
+});
+
+/**
+ * Compact string for a raw object at any version, as an older build wrote it
+ */
+function compact(version: number, dna: object): string {
+  return `FDNA${version}.${Buffer.from(JSON.stringify(dna)).toString('base64url')}`;
+}
+
+function issueCodes(run: () => unknown): string[] {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof DNAValidationError);
+    return error.issues.map(entry => `${entry.path}:${entry.code}`);
+  }
+  assert.fail('expected a DNAValidationError');
+}
+
+describe('FishDNA encoding', () => {
+  it('round-trips through the versioned JSON envelope', () => {
+    [createDNA(), BRED].forEach(dna => {
+      const encoded = encodeFishDNA(dna);
+      const envelope: FishDNAEnvelope = JSON.parse(encoded);
+      assert.equal(envelope.format, FISH_DNA_FORMAT);
+      assert.equal(envelope.version, FISH_DNA_VERSION);
+      assert.deepEqual(envelope.dna, dna);
+
+      assert.deepEqual(decodeFishDNA(encoded), dna);
+      assert.deepEqual(decodeFishDNA(envelope), dna);
+      assert.deepEqual(decodeFishDNA(`\n  ${encoded}  \n`), dna);
+    });
+  });
+
+  it('round-trips through the compact string', () => {
+    [createDNA(), BRED].forEach(dna => {
+      const encoded = encodeCompactDNA(dna);
+      assert.match(encoded, new RegExp(`^FDNA${FISH_DNA_VERSION}\\.[A-Za-z0-9_-]+$`));
+      assert.equal(encoded, compact(FISH_DNA_VERSION, dna));
+      assert.deepEqual(decodeFishDNA(encoded), dna);
+    });
+  });
+
+  it('refuses to encode invalid DNA', () => {
+    const dna = createDNA({ rarity: 'priceless' as FishDNA['rarity'], genes: { size: 99, speed: 1, aggression: 1, intelligence: 1 } });
+    assert.deepEqual(issueCodes(() => encodeFishDNA(dna)), ['rarity:unknown_value', 'genes.size:out_of_range']);
+    assert.throws(() => encodeCompactDNA(dna), DNAValidationError);
+
+    // Warnings only fail in strict mode
+    const extra = { ...createDNA(), nickname: 'Bubbles' } as FishDNA;
+    assert.deepEqual(decodeFishDNA(encodeFishDNA(extra)), extra);
+    assert.deepEqual(issueCodes(() => encodeFishDNA(extra, { strict: true })), ['nickname:unknown_field']);
+  });
+});
+
+describe('decodeFishDNA', () => {
+  it('migrates bare objects saved before the envelope existed', () => {
+    const legacy = { ...createDNA(), pattern: 'spiral', traits: ['glowing_eyes', 'glowing_eyes'], seed: null, mutations: undefined };
+    const expected = createDNA({ pattern: 'spirals', traits: ['glowing_eyes'] });
+
+    assert.deepEqual(decodeFishDNA(legacy), expected);
+    assert.deepEqual(decodeFishDNA(JSON.stringify(legacy)), expected);
+    assert.deepEqual(decodeFishDNA(compact(0, legacy)), expected);
+  });
+
+  it('runs a registered migration when decoding the version it upgrades from', () => {
+    // An older build named the species by its display name
+    const byDisplayName = (dna: Record<string, unknown>): Record<string, unknown> => {
+      const species = SpeciesRegistry.all().find(entry => entry.displayName === dna.species);
+      return species ? { ...dna, species: species.name } : dna;
+    };
+    const builtIn = registerDNAMigration(0, byDisplayName);
+    assert.ok(builtIn);
+
+    try {
+      const old = { ...createDNA(), species: 'Golden Koi' };
+      assert.deepEqual(decodeFishDNA(compact(0, old)), createDNA());
+      assert.deepEqual(decodeFishDNA(old), createDNA());
+
+      // Current-version DNA does not go through it
+      assert.equal(decodeFishDNA(compact(FISH_DNA_VERSION, old)).species, 'Golden Koi');
+
+      // The replaced hook is what it handed back
+      assert.equal(registerDNAMigration(0, builtIn), byDisplayName);
+    } finally {
+      registerDNAMigration(0, builtIn);
+    }
+    assert.equal(decodeFishDNA({ ...createDNA(), pattern: 'star' }).pattern, 'stars');
+  });
+
+  it('rejects newer versions and malformed input', () => {
+    const newer: FishDNAEnvelope = { format: FISH_DNA_FORMAT, version: FISH_DNA_VERSION + 1, dna: createDNA() };
+    assert.deepEqual(issueCodes(() => decodeFishDNA(newer)), ['version:unsupported_version']);
+    assert.deepEqual(issueCodes(() => decodeFishDNA(compact(FISH_DNA_VERSION + 1, createDNA()))), ['version:unsupported_version']);
+
+    [
+      'not json',
+      '[1, 2]',
+      'FDNA1.!!!',
+      `FDNA1.${Buffer.from('{').toString('base64url')}`,
+      JSON.stringify({ format: FISH_DNA_FORMAT, dna: createDNA() })
+    ].forEach(input => assert.deepEqual(issueCodes(() => decodeFishDNA(input)), [':malformed_input'], input));
+  });
+
+  it('validates what it decodes', () => {
+    const { colors, ...missingColors } = createDNA();
+    assert.ok(colors);
+    const encoded = JSON.stringify({ format: FISH_DNA_FORMAT, version: FISH_DNA_VERSION, dna: missingColors });
+    assert.deepEqual(issueCodes(() => decodeFishDNA(encoded)), ['colors:missing_field']);
+
+    const unknownTrait = createDNA({ traits: ['laser_fins'] });
+    assert.deepEqual(decodeFishDNA(compact(FISH_DNA_VERSION, unknownTrait)), unknownTrait);
+    assert.equal(validateFishDNA(unknownTrait).issues[0].severity, 'warning');
+    assert.throws(() => decodeFishDNA(compact(FISH_DNA_VERSION, unknownTrait), { strict: true }), DNAValidationError);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * GameRules.test.ts
+ *
+ * Checks the arcade rules shared by the engine, the simulation and the
+ * economy simulator: wallet and upgrades, shot costs and bets per catch
+ * mode, damage falloff and the seeded wave schedule
+ *
+ * @version 1.0.0
+ * @path tests/GameRules.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GAME_RULES } from '../app/config/fishConfig';
+import {
+  WaveScheduler,
+  WaveSpawn,
+  createGameState,
+  creditCatch,
+  getDamageFalloff,
+  getFishStats,
+  getHitBet,
+  getShotCost,
+  getUpgradeCost,
+  payForShot,
+  rollSpawnRarity,
+  upgradeCannon
+} from '../app/lib/GameRules';
+import { RarityRegistry } from '../app/lib/RarityRegistry';
+import { SeededRandom } from '../app/lib/SeededRandom';
+import { WeaponRegistry } from '../app/lib/WeaponRegistry';
+
+const cannon = WeaponRegistry.get('cannon');
+const laser = WeaponRegistry.get('laser');
+
+/**
+ * Every spawn a scheduler asks for over `durationMS`, in frames of `frameMS`
+ */
+function collectSpawns(seed: string, durationMS: number, frameMS: number): WaveSpawn[] {
+  const scheduler = new WaveScheduler(new SeededRandom(seed));
+  const spawns: WaveSpawn[] = [];
+  for (let time = 0; time < durationMS; time += frameMS) {
+    spawns.push(...scheduler.update(frameMS));
+  }
+  return spawns;
+}
+
+describe('wallet', () => {
+  it('starts from the configured coins', () => {
+    const state = createGameState();
+    assert.equal(state.coins, GAME_RULES.startingCoins);
+    assert.equal(state.cannonPower, 1);
+    assert.equal(state.catchMode, 'health');
+  });
+
+  it('charges more for each power level', () => {
+    const state = createGameState({ coins: 300 });
+    assert.equal(getUpgradeCost(state), GAME_RULES.upgradeCostPerLevel);
+
+    assert.ok(upgradeCannon(state));
+    assert.equal(state.cannonPower, 2);
+    assert.equal(state.coins, 300 - GAME_RULES.upgradeCostPerLevel);
+    assert.equal(getUpgradeCost(state), 2 * GAME_RULES.upgradeCostPerLevel);
+  });
+
+  it('refuses upgrades and shots it cannot afford', () => {
+    const state = createGameState({ coins: GAME_RULES.upgradeCostPerLevel - 1 });
+    assert.equal(upgradeCannon(state), false);
+    assert.equal(state.cannonPower, 1);
+
+    state.coins = laser.cost - 1;
+    assert.equal(payForShot(state, laser), false);
+    assert.equal(state.coins, laser.cost - 1);
+    assert.ok(payForShot(state, cannon));
+    assert.equal(state.coins, laser.cost - 1 - cannon.cost);
+  });
+
+  it('credits a catch to both coins and score', () => {
+    const state = createGameState({ coins: 0 });
+    creditCatch(state, 50);
+    creditCatch(state, 20, 40);
+    assert.equal(state.coins, 70);
+    assert.equal(state.score, 90);
+  });
+});
+
+describe('shot costs', () => {
+  it('ignores power in health mode', () => {
+    const state = createGameState({ cannonPower: 5 });
+    assert.equal(getShotCost(state, laser), laser.cost);
+  });
+
+  it('multiplies the bet by power in probability mode', () => {
+    const state = createGameState({ cannonPower: 5, catchMode: 'probability' });
+    assert.equal(getShotCost(state, laser), laser.cost * 5);
+    assert.ok(payForShot(state, laser));
+    assert.equal(state.coins, GAME_RULES.startingCoins - laser.cost * 5);
+  });
+
+  it('bets a hit its share of the shot', () => {
+    assert.equal(getHitBet(laser, 3, 1), laser.cost * 3);
+    assert.equal(getHitBet(laser, 3, 0.2), laser.cost * 3 * 0.2);
+  });
+});
+
+describe('getDamageFalloff', () => {
+  it('is full damage before any falloff applies', () => {
+    assert.equal(getDamageFalloff(laser, 0, 0, 0), 1);
+  });
+
+  it('drops with each pierced hit, down to the floor', () => {
+    assert.equal(getDamageFalloff(laser, 0, 1, 0), 1 - laser.falloff.hit);
+    assert.ok(getDamageFalloff(laser, 0, 2, 0) < getDamageFalloff(laser, 0, 1, 0));
+    assert.equal(getDamageFalloff(laser, 0, 50, 0), laser.falloff.min);
+  });
+});
+
+describe('getFishStats', () => {
+  it('scales health and reward up, never down, with the size gene', () => {
+    RarityRegistry.ids().forEach(rarity => {
+      const tier = RarityRegistry.get(rarity);
+      const small = getFishStats(rarity, 0.5);
+      assert.equal(small.health, Math.round(tier.health));
+      assert.equal(small.reward, Math.round(tier.reward));
+      assert.ok(small.size < getFishStats(rarity, 1).size);
+
+      const large = getFishStats(rarity, 2);
+      assert.equal(large.health, Math.round(tier.health * 2));
+      assert.equal(large.reward, Math.round(tier.reward * 2));
+    });
+  });
+});
+
+describe('WaveScheduler', () => {
+  it('schedules the same waves for the same seed', () => {
+    const spawns = collectSpawns('rules', 60000, 16);
+    assert.ok(spawns.length > 0);
+    assert.deepEqual(collectSpawns('rules', 60000, 16), spawns);
+    assert.notDeepEqual(collectSpawns('other', 60000, 16), spawns);
+  });
+
+  it('spawns every member of a formation even with long frames', () => {
+    const spawns = collectSpawns('rules', 60000, 1000);
+    let expected = 0;
+    spawns.forEach(spawn => {
+      // Members come in order, each wave from index 0 to its fishCount
+      assert.equal(spawn.index, expected);
+      expected = spawn.index + 1 === spawn.wave.fishCount ? 0 : spawn.index + 1;
+    });
+  });
+
+  it('ramps difficulty with game time', () => {
+    const scheduler = new WaveScheduler(new SeededRandom('rules'));
+    assert.equal(scheduler.difficulty, 1);
+    scheduler.update(30000);
+    assert.equal(scheduler.difficulty, 1 + 30000 * GAME_RULES.difficultyPerMs);
+  });
+});
+
+describe('rollSpawnRarity', () => {
+  it('only rolls weighted rarities', () => {
+    const random = new SeededRandom('rarity');
+    const weighted = Object.keys(GAME_RULES.spawnRarityWeights);
+    for (let roll = 0; roll < 1000; roll++) {
+      assert.ok(weighted.includes(rollSpawnRarity(random)));
+    }
+  });
+});
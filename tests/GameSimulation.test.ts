@@ -0,0 +1,169 @@
+/**
+ * GameSimulation.test.ts
+ *
+ * Plays seeded games headless: the same seed and inputs give the same game,
+ * and a shot fired at a fish pays, hits, catches and credits the shooter in
+ * both catch modes
+ *
+ * @version 1.0.0
+ * @path tests/GameSimulation.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GAME_RULES, TABLE_CONFIG } from '../app/config/fishConfig';
+import { FishCaughtEvent, FishHitEvent, GameSimulation, GameSimulationOptions, ShotFiredEvent } from '../app/lib/GameSimulation';
+import { Vec2 } from '../app/lib/CollisionSystem';
+
+const FRAME_MS = 1000 / 60;
+
+function createSimulation(options: GameSimulationOptions = {}): GameSimulation {
+  return new GameSimulation(
+    { x: 0, y: 0, width: TABLE_CONFIG.width, height: TABLE_CONFIG.height },
+    { seed: 'simulation-test', ...options }
+  );
+}
+
+/**
+ * Steps until a fish is on the table and returns its id
+ */
+function waitForFish(simulation: GameSimulation): string {
+  for (let frame = 0; frame < 60 * 30; frame++) {
+    simulation.step(FRAME_MS);
+    const [fish] = simulation.snapshot().fish;
+    if (fish) return fish.id;
+  }
+  throw new Error('No fish spawned in 30 seconds');
+}
+
+/**
+ * Fires at one fish every frame until it is caught or gone
+ * @returns Every event the chase raised, in order
+ */
+function chase(simulation: GameSimulation, fishId: string) {
+  const fired: ShotFiredEvent[] = [];
+  const hits: FishHitEvent[] = [];
+  const caught: FishCaughtEvent[] = [];
+  simulation.on('fire', event => fired.push(event));
+  simulation.on('hit', event => {
+    if (event.fish.id === fishId) hits.push(event);
+  });
+  simulation.on('caught', event => {
+    if (event.fish.id === fishId) caught.push(event);
+  });
+
+  for (let frame = 0; frame < 60 * 60 && caught.length === 0; frame++) {
+    const fish = simulation.getFish(fishId);
+    if (!fish) break;
+    simulation.fire(fish);
+    simulation.step(FRAME_MS);
+  }
+  return { fired, hits, caught };
+}
+
+/**
+ * Steps a fresh game, firing at `aim` every `fireEvery` frames
+ */
+function play(seed: string, frames: number, aim: Vec2, fireEvery: number = 10): GameSimulation {
+  const simulation = createSimulation({ seed });
+  for (let frame = 0; frame < frames; frame++) {
+    if (frame % fireEvery === 0) simulation.fire(aim);
+    simulation.step(FRAME_MS);
+  }
+  return simulation;
+}
+
+describe('GameSimulation', () => {
+  it('plays the same game for the same seed and inputs', () => {
+    const aim = { x: TABLE_CONFIG.width / 2, y: TABLE_CONFIG.height / 3 };
+    const first = play('replay', 60 * 20, aim).snapshot();
+
+    assert.ok(first.fish.length > 0);
+    assert.deepEqual(play('replay', 60 * 20, aim).snapshot(), first);
+    assert.notDeepEqual(play('other', 60 * 20, aim).snapshot().fish, first.fish);
+  });
+
+  it('snapshots plain data the game no longer touches', () => {
+    const simulation = play('snapshot', 60 * 10, { x: 640, y: 200 }, 5);
+    const snapshot = simulation.snapshot();
+    assert.deepEqual(JSON.parse(JSON.stringify(snapshot)), snapshot);
+    assert.ok(snapshot.shots.length > 0);
+
+    const coins = simulation.state.coins;
+    snapshot.players[0].state.coins = -1;
+    snapshot.fish[0].health = -1;
+    assert.equal(simulation.state.coins, coins);
+    assert.notEqual(simulation.getFish(snapshot.fish[0].id)?.health, -1);
+  });
+
+  it('pays for a shot and refuses one it cannot afford', () => {
+    const simulation = createSimulation({ localPlayer: { id: 'player', state: { coins: 1 } } });
+    const fired: ShotFiredEvent[] = [];
+    simulation.on('fire', event => fired.push(event));
+
+    assert.ok(simulation.fire({ x: 640, y: 100 }));
+    assert.equal(simulation.state.coins, 0);
+    assert.equal(fired.length, 1);
+    assert.equal(fired[0].playerId, 'player');
+    assert.equal(fired[0].cost, 1);
+    assert.equal(simulation.snapshot().shots.length, 1);
+
+    simulation.step(1000);
+    assert.equal(simulation.fire({ x: 640, y: 100 }), false);
+    assert.equal(fired.length, 1);
+  });
+
+  it('wears a fish down with hits and credits its catch (health mode)', () => {
+    const simulation = createSimulation();
+    const fishId = waitForFish(simulation);
+    const { health, reward } = simulation.getFish(fishId)!;
+    const { fired, hits, caught } = chase(simulation, fishId);
+
+    assert.equal(caught.length, 1, 'the fish escaped');
+    assert.ok(hits.length > 0);
+    assert.ok(hits.every(hit => hit.damage > 0 && hit.source === 'shot'));
+    assert.ok(hits[0].fish.health < health);
+    assert.equal(caught[0].reward, reward);
+    assert.equal(simulation.getFish(fishId), undefined);
+
+    const spent = fired.reduce((sum, event) => sum + event.cost, 0);
+    assert.equal(simulation.state.coins, GAME_RULES.startingCoins - spent + reward);
+    assert.equal(simulation.state.score, caught[0].score!.points);
+  });
+
+  it('rolls a catch per hit and pays its payout (probability mode)', () => {
+    // A hit's chance is rtp * bet / reward, so this makes every hit catch
+    const simulation = createSimulation({
+      catchMode: 'probability',
+      catchEconomy: { rtp: 1e6, maxChance: 1 }
+    });
+    const fishId = waitForFish(simulation);
+    const { fired, hits, caught } = chase(simulation, fishId);
+
+    assert.equal(caught.length, 1, 'the fish escaped');
+    assert.equal(hits.length, 1);
+    assert.equal(hits[0].damage, 0);
+
+    const stats = simulation.getCatchStats();
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.catches, 1);
+    assert.equal(stats.paid, caught[0].reward);
+
+    const spent = fired.reduce((sum, event) => sum + event.cost, 0);
+    assert.equal(simulation.state.coins, GAME_RULES.startingCoins - spent + caught[0].reward);
+  });
+
+  it('keeps bosses out of probability mode, whose payouts all go through the catch economy', () => {
+    const simulation = createSimulation({ catchMode: 'probability' });
+    assert.equal(simulation.spawnBoss(), null);
+
+    simulation.setCatchMode('health');
+    assert.ok(simulation.spawnBoss());
+
+    const escaped: string[] = [];
+    simulation.on('bossEscape', boss => escaped.push(boss.id));
+    simulation.setCatchMode('probability');
+    assert.equal(simulation.getBoss(), null);
+    assert.equal(escaped.length, 1);
+  });
+});
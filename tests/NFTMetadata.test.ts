@@ -0,0 +1,176 @@
+/**
+ * NFTMetadata.test.ts
+ *
+ * Checks generated metadata against NFT_METADATA_SCHEMA for every species,
+ * pattern, trait and mutation, with Ajv as an independent draft-07
+ * validator, and that validateNFTMetadata rejects what the schema forbids
+ *
+ * @version 1.0.0
+ * @path tests/NFTMetadata.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Ajv from 'ajv';
+import { FishDNA } from '../app/lib/ArtisticFishPixi';
+import { validateFishDNA } from '../app/lib/FishDNACodec';
+import { NFT_METADATA_SCHEMA, NFTMetadata, formatMutationName, formatTraitName, generateNFTMetadata, validateNFTMetadata } from '../app/lib/NFTMetadata';
+import { RarityRegistry } from '../app/lib/RarityRegistry';
+import { SpeciesRegistry } from '../app/lib/SpeciesRegistry';
+import { BODY_SHAPES, MUTATIONS, PATTERNS, SPECIAL_TRAITS } from '../app/config/fishConfig';
+
+const validateWithAjv = new Ajv({ allErrors: true }).compile(NFT_METADATA_SCHEMA);
+
+function createDNA(overrides: Partial<FishDNA> = {}): FishDNA {
+  const species = SpeciesRegistry.resolve(overrides.species ?? 'goldfish');
+  return {
+    id: 'ARTEFACT-test01',
+    species: species.name,
+    bodyShape: species.bodyShape,
+    pattern: 'stripes',
+    colors: { primary: '#ff8800', secondary: '#ffcc00', accent: '#ffffff' },
+    rarity: 'rare',
+    traits: [],
+    mutations: [],
+    genes: { size: 1, speed: 0.75, aggression: 0.5, intelligence: 0.25 },
+    ...overrides
+  };
+}
+
+/**
+ * Asserts the fixture is real DNA and its metadata passes both validators
+ */
+function assertValidMetadata(dna: FishDNA): NFTMetadata {
+  assert.ok(validateFishDNA(dna, { strict: true }).valid, `fixture ${JSON.stringify(dna)} is not valid DNA`);
+
+  const metadata = generateNFTMetadata(dna);
+  const result = validateNFTMetadata(metadata);
+  assert.deepEqual(result.issues, []);
+  assert.ok(validateWithAjv(metadata), JSON.stringify(validateWithAjv.errors));
+  return metadata;
+}
+
+function attributeValues(metadata: NFTMetadata, traitType: string): (string | number)[] {
+  return metadata.attributes.filter(attribute => attribute.trait_type === traitType).map(attribute => attribute.value);
+}
+
+describe('generateNFTMetadata', () => {
+  it('matches the schema for every species', () => {
+    SpeciesRegistry.ids().forEach(id => {
+      const metadata = assertValidMetadata(createDNA({ species: id }));
+      assert.deepEqual(attributeValues(metadata, 'Species'), [SpeciesRegistry.resolve(id).displayName]);
+    });
+  });
+
+  it('matches the schema for every pattern', () => {
+    (Object.keys(PATTERNS) as (keyof typeof PATTERNS)[]).forEach(pattern => {
+      const metadata = assertValidMetadata(createDNA({ pattern }));
+      assert.deepEqual(attributeValues(metadata, 'Pattern'), [PATTERNS[pattern].name]);
+    });
+  });
+
+  it('matches the schema for every trait', () => {
+    Object.keys(SPECIAL_TRAITS).forEach(trait => {
+      const metadata = assertValidMetadata(createDNA({ traits: [trait] }));
+      assert.deepEqual(attributeValues(metadata, 'Trait'), [formatTraitName(trait)]);
+    });
+  });
+
+  it('matches the schema for every mutation', () => {
+    Object.keys(MUTATIONS).forEach(mutation => {
+      const metadata = assertValidMetadata(createDNA({ mutations: [mutation] }));
+      assert.deepEqual(attributeValues(metadata, 'Enhancement'), [formatMutationName(mutation)]);
+    });
+  });
+
+  it('matches the schema for every rarity and body shape', () => {
+    RarityRegistry.ids().forEach(rarity => {
+      const metadata = assertValidMetadata(createDNA({ rarity }));
+      assert.deepEqual(attributeValues(metadata, 'Series'), [RarityRegistry.get(rarity).designation]);
+    });
+    BODY_SHAPES.forEach(bodyShape => assertValidMetadata(createDNA({ bodyShape })));
+  });
+
+  it('matches the schema with every optional field set', () => {
+    const dna = createDNA({
+      surfaceType: 'liquid_metal',
+      artStyle: 'baroque',
+      dynamicColor: true,
+      traits: Object.keys(SPECIAL_TRAITS),
+      mutations: Object.keys(MUTATIONS),
+      lineage: { parents: ['ARTEFACT-a', 'ARTEFACT-b'], generation: 3 }
+    });
+    assertValidMetadata(dna);
+
+    const metadata = generateNFTMetadata(dna, {
+      imageUri: fish => `ipfs://artwork/${fish.id}.webp`,
+      externalUrl: fish => `https://example.com/fish/${fish.id}`,
+      backgroundColor: '#001a33'
+    });
+    assert.deepEqual(validateNFTMetadata(metadata).issues, []);
+    assert.ok(validateWithAjv(metadata), JSON.stringify(validateWithAjv.errors));
+    assert.equal(metadata.background_color, '001a33');
+    assert.deepEqual(attributeValues(metadata, 'Generation'), [3]);
+    assert.deepEqual(attributeValues(metadata, 'Surface Type'), ['Liquid Metal']);
+  });
+});
+
+describe('validateNFTMetadata', () => {
+  const valid = (): Record<string, unknown> => JSON.parse(JSON.stringify(generateNFTMetadata(createDNA())));
+
+  /**
+   * Asserts both validators reject the value and ours reports the path
+   */
+  function assertInvalid(value: unknown, path: string): void {
+    const result = validateNFTMetadata(value);
+    assert.equal(result.valid, false);
+    assert.ok(
+      result.issues.some(issue => issue.path === path),
+      `expected an issue at "${path}", got ${JSON.stringify(result.issues)}`
+    );
+    assert.equal(validateWithAjv(value), false, 'Ajv accepted what validateNFTMetadata rejected');
+  }
+
+  it('rejects values that are not objects', () => {
+    assertInvalid(null, '');
+    assertInvalid([], '');
+    assertInvalid('metadata', '');
+  });
+
+  it('rejects missing required fields', () => {
+    (['name', 'description', 'image', 'attributes'] as const).forEach(key => {
+      const metadata = valid();
+      delete metadata[key];
+      assertInvalid(metadata, key);
+    });
+  });
+
+  it('rejects unknown fields', () => {
+    assertInvalid({ ...valid(), animation_url: 'fish.mp4' }, 'animation_url');
+
+    const metadata = valid();
+    (metadata.attributes as Record<string, unknown>[])[0].rarity_rank = 1;
+    assertInvalid(metadata, 'attributes.0.rarity_rank');
+  });
+
+  it('rejects empty strings and wrong types', () => {
+    assertInvalid({ ...valid(), name: '' }, 'name');
+    assertInvalid({ ...valid(), image: 42 }, 'image');
+    assertInvalid({ ...valid(), attributes: {} }, 'attributes');
+  });
+
+  it('rejects malformed attributes', () => {
+    assertInvalid({ ...valid(), attributes: [{ value: 'Rare' }] }, 'attributes.0.trait_type');
+    assertInvalid({ ...valid(), attributes: [{ trait_type: 'Rarity', value: '' }] }, 'attributes.0.value');
+    assertInvalid({ ...valid(), attributes: [{ trait_type: 'Rarity', value: true }] }, 'attributes.0.value');
+    assertInvalid(
+      { ...valid(), attributes: [{ trait_type: 'Size', value: 1, display_type: 'percentage' }] },
+      'attributes.0.display_type'
+    );
+  });
+
+  it('rejects a background colour that is not six hex digits', () => {
+    assertInvalid({ ...valid(), background_color: '#001a33' }, 'background_color');
+    assertInvalid({ ...valid(), background_color: 'navy' }, 'background_color');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * PlayerProfile.test.ts
+ *
+ * Checks saved-profile upgrades (migrations from older versions, refusing
+ * newer ones and gaps in the migration path) and syncing through
+ * MemoryProfileSync: pulling a newer remote copy, pushing a newer local one
+ * and failing softly while offline
+ *
+ * @version 1.0.0
+ * @path tests/PlayerProfile.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GAME_RULES, PROFILE_CONFIG } from '../app/config/fishConfig';
+import {
+  MemoryProfileStorage,
+  MemoryProfileSync,
+  PROFILE_FORMAT,
+  PROFILE_VERSION,
+  PlayerProfile,
+  createProfile,
+  migrateProfile,
+  registerProfileMigration
+} from '../app/lib/PlayerProfile';
+
+/**
+ * A version 0 save: the wallet fields sat at the top level
+ */
+const LEGACY_PROFILE = {
+  format: PROFILE_FORMAT,
+  version: 0,
+  updatedAt: 1234,
+  coins: 250,
+  score: 900,
+  cannonPower: 3,
+  settings: { name: 'Old Timer', catchMode: 'probability', weapon: 'laser' }
+};
+
+/**
+ * A profile on its own device's storage, changed at the given time
+ */
+function createDevice(sync: MemoryProfileSync, changedAt: number): PlayerProfile {
+  return new PlayerProfile({ storage: new MemoryProfileStorage(), sync, now: () => changedAt });
+}
+
+// Migrations are registered for the whole module, so these run in order:
+// the gap is checked before version 0's migration exists
+describe('migrateProfile', () => {
+  it('rejects data that is not a profile', () => {
+    assert.throws(() => migrateProfile(null), /Not a player profile/);
+    assert.throws(() => migrateProfile({ ...LEGACY_PROFILE, format: 'fishfi/dna' }), /Not a player profile/);
+  });
+
+  it('rejects a profile from a newer version', () => {
+    const newer = { ...LEGACY_PROFILE, version: PROFILE_VERSION + 1 };
+    assert.throws(() => migrateProfile(newer), new RegExp(`version ${PROFILE_VERSION + 1} is newer`));
+  });
+
+  it('rejects an older profile with no migration registered', () => {
+    assert.throws(() => migrateProfile(LEGACY_PROFILE), /No profile migration registered from version 0/);
+  });
+
+  it('upgrades an older profile through its migrations', () => {
+    registerProfileMigration(0, ({ coins, score, cannonPower, ...rest }) => ({
+      ...rest,
+      version: 1,
+      wallet: { coins, score, cannonPower }
+    }));
+
+    const profile = migrateProfile(LEGACY_PROFILE);
+    assert.equal(profile.version, PROFILE_VERSION);
+    assert.equal(profile.updatedAt, 1234);
+    assert.deepEqual(profile.wallet, { coins: 250, score: 900, cannonPower: 3 });
+    assert.deepEqual(profile.settings, { name: 'Old Timer', catchMode: 'probability', weapon: 'laser' });
+    // Missing from version 0 entirely, so filled in
+    assert.equal(profile.stats.sessions, 0);
+  });
+
+  it('fills in malformed fields of a current profile', () => {
+    const profile = migrateProfile({
+      format: PROFILE_FORMAT,
+      version: PROFILE_VERSION,
+      wallet: { coins: -5, score: 'lots', cannonPower: 0 },
+      settings: { name: '   ', weapon: 'trident' }
+    });
+    assert.deepEqual(profile.wallet, { coins: GAME_RULES.startingCoins, score: 0, cannonPower: 1 });
+    assert.equal(profile.settings.name, PROFILE_CONFIG.defaultName);
+    assert.equal(profile.settings.weapon, createProfile().settings.weapon);
+  });
+});
+
+describe('PlayerProfile.sync', () => {
+  it('pushes a local profile changed after the remote one', async () => {
+    const sync = new MemoryProfileSync();
+    const device = createDevice(sync, 1000);
+    device.saveWallet({ coins: 500, score: 40, cannonPower: 2 });
+    device.flush();
+
+    assert.equal(await device.sync(), 'pushed');
+    const remote = migrateProfile(await sync.pull());
+    assert.deepEqual(remote.wallet, { coins: 500, score: 40, cannonPower: 2 });
+    assert.equal(remote.updatedAt, 1000);
+
+    assert.equal(await device.sync(), 'unchanged');
+  });
+
+  it('pulls a remote profile changed after the local one', async () => {
+    const sync = new MemoryProfileSync();
+    const laptop = createDevice(sync, 2000);
+    laptop.saveWallet({ coins: 777, score: 10, cannonPower: 4 });
+    laptop.flush();
+    assert.equal(await laptop.sync(), 'pushed');
+
+    const storage = new MemoryProfileStorage();
+    const phone = new PlayerProfile({ storage, sync, now: () => 1000 });
+    phone.updateSettings({ name: 'Phone' });
+    phone.flush();
+
+    assert.equal(await phone.sync(), 'pulled');
+    assert.deepEqual(phone.wallet, { coins: 777, score: 10, cannonPower: 4 });
+    assert.equal(phone.settings.name, PROFILE_CONFIG.defaultName);
+    // Saved straight away, so a reload keeps the pulled copy
+    assert.deepEqual(JSON.parse(storage.load()!).wallet, phone.wallet);
+  });
+
+  it('reports a failure while offline and keeps the local profile', async t => {
+    const warn = t.mock.method(console, 'warn', () => {});
+    const sync = new MemoryProfileSync();
+    sync.offline = true;
+
+    const device = createDevice(sync, 1000);
+    device.saveWallet({ coins: 42, score: 0, cannonPower: 1 });
+    device.flush();
+
+    assert.equal(await device.sync(), 'failed');
+    assert.equal(warn.mock.callCount(), 1);
+    assert.equal(device.wallet.coins, 42);
+
+    sync.offline = false;
+    assert.equal(await sync.pull(), null, 'nothing reached the server');
+    assert.equal(await device.sync(), 'pushed');
+  });
+
+  it('has nothing to do without an adapter', async () => {
+    const profile = new PlayerProfile({ storage: new MemoryProfileStorage() });
+    assert.equal(await profile.sync(), 'unchanged');
+  });
+});
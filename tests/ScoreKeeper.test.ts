@@ -0,0 +1,122 @@
+/**
+ * ScoreKeeper.test.ts
+ *
+ * Scores catches under SCORING_CONFIG: combo tiers inside the window, rarity
+ * multipliers, the overkill penalty and formation bonuses, checked against
+ * the config values so tuning them keeps the tests meaningful
+ *
+ * @version 1.0.0
+ * @path tests/ScoreKeeper.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RarityType, SCORING_CONFIG } from '../app/config/fishConfig';
+import { ScoreKeeper, ScoredCatch, ScoringRules } from '../app/lib/ScoreKeeper';
+
+const { combo, rarityMultipliers, formation, overkill } = SCORING_CONFIG;
+
+function fish(overrides: Partial<ScoredCatch> = {}): ScoredCatch {
+  return { reward: 100, rarity: 'common', maxHealth: 50, wastedDamage: 0, ...overrides };
+}
+
+describe('ScoreKeeper', () => {
+  it('multiplies the reward by the rarity multiplier', () => {
+    (Object.keys(rarityMultipliers) as RarityType[]).forEach(rarity => {
+      // A fresh keeper per catch keeps the combo out of it
+      const score = new ScoreKeeper().score(0, fish({ rarity }));
+      assert.equal(score.rarityMultiplier, rarityMultipliers[rarity]);
+      assert.equal(score.points, Math.round(100 * rarityMultipliers[rarity]));
+    });
+  });
+
+  it('extends the streak within the combo window and reaches each tier on time', () => {
+    const keeper = new ScoreKeeper();
+    const lastTier = combo.tiers[combo.tiers.length - 1];
+
+    for (let count = 1; count <= lastTier.combo; count++) {
+      const score = keeper.score(count * combo.windowMs, fish());
+      const tier = [...combo.tiers].reverse().find(entry => count >= entry.combo);
+      assert.equal(score.combo, count);
+      assert.equal(score.comboMultiplier, tier?.multiplier ?? 1);
+      assert.equal(score.points, Math.round(100 * (tier?.multiplier ?? 1)));
+    }
+
+    const meter = keeper.getCombo(lastTier.combo * combo.windowMs + 500);
+    assert.equal(meter.count, lastTier.combo);
+    assert.equal(meter.tier, combo.tiers.length);
+    assert.equal(meter.label, lastTier.label);
+    assert.equal(meter.remainingMS, combo.windowMs - 500);
+    assert.equal(keeper.breakdown.bestCombo, lastTier.combo);
+  });
+
+  it('restarts the streak once the window lapses', () => {
+    const keeper = new ScoreKeeper();
+    keeper.score(0, fish());
+    keeper.score(1, fish());
+    assert.equal(keeper.getCombo(1 + combo.windowMs).count, 2);
+    assert.equal(keeper.getCombo(2 + combo.windowMs).count, 0);
+    assert.equal(keeper.score(2 + combo.windowMs, fish()).combo, 1);
+  });
+
+  it('lets overkill through up to the free share, then takes a capped penalty', () => {
+    const score = (wastedShare: number) =>
+      new ScoreKeeper().score(0, fish({ maxHealth: 50, wastedDamage: 50 * wastedShare }));
+
+    assert.equal(score(overkill.freeShare).overkillPenalty, 0);
+    assert.equal(score(overkill.freeShare).points, 100);
+
+    const penalized = score(overkill.freeShare + 2);
+    assert.ok(Math.abs(penalized.overkillPenalty - 2 * overkill.penaltyPerShare) < 1e-9);
+    assert.equal(penalized.points, 100 - Math.round(100 * 2 * overkill.penaltyPerShare));
+
+    const capped = score(overkill.freeShare + 100);
+    assert.equal(capped.overkillPenalty, overkill.maxPenalty);
+    assert.equal(capped.points, 100 - Math.round(100 * overkill.maxPenalty));
+  });
+
+  it('pays a formation bonus from the minimum size up', () => {
+    const keeper = new ScoreKeeper();
+    assert.equal(keeper.formationCleared(formation.minSize - 1, 300), 0);
+    assert.equal(keeper.formationCleared(formation.minSize, 300), Math.round(300 * formation.rewardShare));
+    assert.equal(keeper.breakdown.formationsCleared, 1);
+    assert.equal(keeper.breakdown.formationBonus, Math.round(300 * formation.rewardShare));
+  });
+
+  it('breaks the round down into parts that add up to the total', () => {
+    const keeper = new ScoreKeeper(4);
+    keeper.score(0, fish({ rarity: 'rare' }));
+    keeper.score(100, fish({ rarity: 'epic', reward: 37 }));
+    keeper.score(200, fish({ wastedDamage: 500 }));
+    keeper.formationCleared(formation.minSize, 237);
+    keeper.jackpot(1000);
+
+    const breakdown = keeper.breakdown;
+    assert.equal(breakdown.round, 4);
+    assert.equal(breakdown.catches, 3);
+    assert.equal(breakdown.base, 237);
+    assert.equal(breakdown.overkills, 1);
+    assert.equal(breakdown.jackpots, 1000);
+    assert.equal(
+      breakdown.total,
+      breakdown.base + breakdown.rarityBonus + breakdown.comboBonus + breakdown.formationBonus +
+        breakdown.jackpots - breakdown.overkillPenalty
+    );
+
+    keeper.startRound(5);
+    assert.equal(keeper.breakdown.total, 0);
+    assert.equal(keeper.getCombo(200).count, 0);
+  });
+
+  it('scores by rules passed in instead of the config', () => {
+    const rules: ScoringRules = {
+      ...SCORING_CONFIG,
+      combo: { windowMs: 10, tiers: [{ combo: 2, multiplier: 10, label: 'Test' }] },
+      rarityMultipliers: {}
+    };
+    const keeper = new ScoreKeeper(0, rules);
+    assert.equal(keeper.score(0, fish({ rarity: 'cosmic' })).points, 100);
+    assert.equal(keeper.score(10, fish()).points, 1000);
+    assert.equal(keeper.score(100, fish()).points, 100);
+  });
+});
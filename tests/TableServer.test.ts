@@ -0,0 +1,204 @@
+/**
+ * TableServer.test.ts
+ *
+ * Runs a table server on an ephemeral localhost port and plays it over a
+ * real WebSocket: a client joins, gets its seat, fires and sees the shot
+ * and its cost in the snapshots the table broadcasts
+ *
+ * @version 1.0.0
+ * @path tests/TableServer.test.ts
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { request } from 'http';
+import { Socket } from 'net';
+import { GAME_RULES, TABLE_CONFIG } from '../app/config/fishConfig';
+import { ClientMessage, ServerMessage, encodeMessage, parseServerMessage } from '../app/lib/TableProtocol';
+import { TableServer } from '../server/TableServer';
+
+// Long enough for several snapshots at TABLE_CONFIG.snapshotRate
+const WAIT_MS = 5000;
+
+/**
+ * Just enough of a WebSocket client to speak the table protocol: text
+ * frames, masked as clients must send them
+ */
+class TestClient {
+  private socket: Socket;
+  private pending: Buffer = Buffer.alloc(0);
+  private messages: ServerMessage[] = [];
+  private waiting: (() => void)[] = [];
+
+  private constructor(socket: Socket) {
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+  }
+
+  public static connect(port: number): Promise<TestClient> {
+    return new Promise((resolve, reject) => {
+      const upgrade = request({
+        host: '127.0.0.1',
+        port,
+        headers: {
+          Connection: 'Upgrade',
+          Upgrade: 'websocket',
+          'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+          'Sec-WebSocket-Version': '13'
+        }
+      });
+      upgrade.on('upgrade', (_response, socket: Socket) => resolve(new TestClient(socket)));
+      upgrade.on('response', response => reject(new Error(`Expected an upgrade, got HTTP ${response.statusCode}`)));
+      upgrade.on('error', reject);
+      upgrade.end();
+    });
+  }
+
+  public send(message: ClientMessage): void {
+    const payload = Buffer.from(encodeMessage(message), 'utf8');
+    assert.ok(payload.length < 126, 'test messages fit a short frame');
+
+    const mask = randomBytes(4);
+    const masked = payload.map((byte, i) => byte ^ mask[i % 4]);
+    this.socket.write(Buffer.concat([Buffer.from([0x81, 0x80 | payload.length]), mask, masked]));
+  }
+
+  /**
+   * Resolves with the first message (already received or still to come)
+   * that matches
+   */
+  public async next<T extends ServerMessage>(matches: (message: ServerMessage) => message is T): Promise<T> {
+    const deadline = Date.now() + WAIT_MS;
+    for (;;) {
+      const index = this.messages.findIndex(matches);
+      if (index >= 0) {
+        return this.messages.splice(0, index + 1)[index] as T;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error('Timed out waiting for a server message');
+      }
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, deadline - Date.now());
+        this.waiting.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  public close(): void {
+    this.socket.destroy();
+  }
+
+  private onData(chunk: Buffer): void {
+    this.pending = Buffer.concat([this.pending, chunk]);
+
+    // Server frames are unmasked and unfragmented
+    for (;;) {
+      if (this.pending.length < 2) break;
+      let length = this.pending[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.pending.length < 4) break;
+        length = this.pending.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.pending.length < 10) break;
+        length = Number(this.pending.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (this.pending.length < offset + length) break;
+
+      const opcode = this.pending[0] & 0x0f;
+      const payload = this.pending.subarray(offset, offset + length).toString('utf8');
+      this.pending = this.pending.subarray(offset + length);
+
+      const message = opcode === 0x1 ? parseServerMessage(payload) : null;
+      if (message) {
+        this.messages.push(message);
+      }
+    }
+
+    this.waiting.splice(0).forEach(wake => wake());
+  }
+}
+
+type WelcomeMessage = Extract<ServerMessage, { type: 'welcome' }>;
+type SnapshotMessage = Extract<ServerMessage, { type: 'snapshot' }>;
+
+const isWelcome = (message: ServerMessage): message is WelcomeMessage => message.type === 'welcome';
+const isSnapshot = (message: ServerMessage): message is SnapshotMessage => message.type === 'snapshot';
+
+describe('TableServer', () => {
+  const server = new TableServer({ port: 0, seed: 'table-test' });
+  const clients: TestClient[] = [];
+
+  const connect = async (): Promise<TestClient> => {
+    const client = await TestClient.connect(server.port);
+    clients.push(client);
+    return client;
+  };
+
+  before(() => new Promise<void>(resolve => server.start(resolve)));
+
+  after(() => {
+    clients.forEach(client => client.close());
+    return new Promise<void>(resolve => server.stop(resolve));
+  });
+
+  it('listens on a port picked for it', () => {
+    assert.notEqual(server.port, 0);
+  });
+
+  it('seats a client that joins', async () => {
+    const client = await connect();
+    client.send({ type: 'join', name: 'Tester' });
+
+    const welcome = await client.next(isWelcome);
+    assert.equal(welcome.seed, 'table-test');
+    assert.equal(welcome.width, TABLE_CONFIG.width);
+    assert.equal(welcome.height, TABLE_CONFIG.height);
+
+    const { snapshot } = await client.next(isSnapshot);
+    const player = snapshot.players.find(candidate => candidate.id === welcome.playerId);
+    assert.ok(player, 'the joined player is not in the snapshot');
+    assert.equal(player.name, 'Tester');
+    assert.equal(player.seat, welcome.seat);
+    assert.equal(player.state.coins, GAME_RULES.startingCoins);
+  });
+
+  it('fires for a seated client and charges the shot', async () => {
+    const client = await connect();
+    client.send({ type: 'join' });
+    const { playerId } = await client.next(isWelcome);
+
+    const aim = { x: TABLE_CONFIG.width / 2, y: TABLE_CONFIG.height / 3 };
+    client.send({ type: 'fire', aim });
+
+    const isOwnShot = (message: ServerMessage): message is SnapshotMessage =>
+      isSnapshot(message) && message.events.some(event => event.type === 'fire' && event.event.playerId === playerId);
+    const { snapshot, events } = await client.next(isOwnShot);
+
+    const fired = events.find(event => event.type === 'fire' && event.event.playerId === playerId);
+    assert.ok(fired && fired.type === 'fire');
+    assert.deepEqual(fired.event.aim, aim);
+    assert.equal(fired.event.weapon, 'cannon');
+
+    const player = snapshot.players.find(candidate => candidate.id === playerId);
+    assert.equal(player?.state.coins, GAME_RULES.startingCoins - fired.event.cost);
+  });
+
+  it('ignores commands from a client that has not joined', async () => {
+    const client = await connect();
+    client.send({ type: 'fire', aim: { x: 100, y: 100 } });
+    client.send({ type: 'join' });
+    const { playerId } = await client.next(isWelcome);
+
+    const { snapshot, events } = await client.next(isSnapshot);
+    assert.ok(!events.some(event => event.type === 'fire' && event.event.playerId === playerId));
+    const player = snapshot.players.find(candidate => candidate.id === playerId);
+    assert.equal(player?.state.coins, GAME_RULES.startingCoins);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Targeting.test.ts
+ *
+ * Lock-on and auto-aim on plain snapshots: auto picks by reward, health or
+ * distance, targets are let go when they die or leave the play area, shots
+ * come at the chosen fire rate and only when the caller can pay for them
+ *
+ * @version 1.0.0
+ * @path tests/Targeting.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BOSS_CONFIG, TARGETING_CONFIG } from '../app/config/fishConfig';
+import { FishSnapshot, GameSnapshot } from '../app/lib/GameSimulation';
+import { BossSnapshot } from '../app/lib/BossFight';
+import { Targeting, TargetingOptions } from '../app/lib/Targeting';
+import { WeaponRegistry } from '../app/lib/WeaponRegistry';
+import { createGameState, getShotCost } from '../app/lib/GameRules';
+
+const AREA = { x: 0, y: 0, width: 1000, height: 600 };
+const ORIGIN = { x: 500, y: 560 };
+
+function fish(id: string, x: number, y: number, stats: Partial<FishSnapshot> = {}): FishSnapshot {
+  return {
+    id,
+    species: 'goldfish',
+    name: 'Golden Koi',
+    rarity: 'common',
+    x,
+    y,
+    heading: 0,
+    health: 50,
+    maxHealth: 50,
+    reward: 10,
+    size: 1,
+    speed: 1,
+    ...stats
+  };
+}
+
+function snapshot(school: FishSnapshot[], boss: BossSnapshot | null = null): GameSnapshot {
+  return {
+    timeMS: 0,
+    seed: 'targeting-test',
+    difficulty: 1,
+    players: [],
+    fish: school,
+    shots: [],
+    boss,
+    round: { index: 0, remainingMS: 0 }
+  };
+}
+
+// One fish leads each priority: the richest, the weakest and the nearest the cannon
+const SCHOOL = [
+  fish('rich', 100, 100, { reward: 500, health: 400 }),
+  fish('weak', 800, 150, { reward: 25, health: 5 }),
+  fish('close', 520, 480, { reward: 10, health: 50 })
+];
+
+function createTargeting(options: TargetingOptions = {}): Targeting {
+  return new Targeting(AREA, { mode: 'auto', ...options });
+}
+
+describe('Targeting', () => {
+  it('picks auto targets by reward, health or distance', () => {
+    const expected = { reward: 'rich', health: 'weak', nearest: 'close' } as const;
+    (Object.keys(expected) as (keyof typeof expected)[]).forEach(priority => {
+      const command = createTargeting({ priority }).update(16, snapshot(SCHOOL), ORIGIN, true);
+      assert.equal(command?.target.id, expected[priority]);
+    });
+  });
+
+  it('keeps an auto target until it goes, then picks the next', () => {
+    const targeting = createTargeting({ priority: 'reward' });
+    assert.equal(targeting.update(16, snapshot(SCHOOL), ORIGIN, true)?.target.id, 'rich');
+
+    // A richer fish arriving does not steal the target
+    const richer = fish('richer', 300, 300, { reward: 1000 });
+    assert.equal(targeting.update(16, snapshot([...SCHOOL, richer]), ORIGIN, true)?.target.id, 'rich');
+
+    // Caught: gone from the snapshot
+    assert.equal(targeting.update(16, snapshot([SCHOOL[1], SCHOOL[2], richer]), ORIGIN, true)?.target.id, 'richer');
+    // Cycling the priority lets go too
+    targeting.cyclePriority();
+    assert.equal(targeting.priority, 'health');
+    assert.equal(targeting.update(16, snapshot([SCHOOL[1], SCHOOL[2], richer]), ORIGIN, true)?.target.id, 'weak');
+  });
+
+  it('releases a lock when its fish is caught or leaves the play area', () => {
+    const targeting = createTargeting({ mode: 'manual' });
+    assert.equal(targeting.update(16, snapshot(SCHOOL), ORIGIN, true), null);
+
+    const picked = targeting.pick(snapshot(SCHOOL), { x: 805, y: 150 });
+    assert.equal(picked?.id, 'weak');
+    targeting.lock(picked!.id);
+    assert.equal(targeting.mode, 'lockOn');
+    assert.equal(targeting.update(16, snapshot(SCHOOL), ORIGIN, true)?.target.id, 'weak');
+
+    // Swimming inside the edge margin counts as leaving
+    const leaving = fish('weak', AREA.width - TARGETING_CONFIG.edgeMargin / 2, 150);
+    assert.equal(targeting.update(16, snapshot([SCHOOL[0], leaving, SCHOOL[2]]), ORIGIN, true), null);
+    assert.equal(targeting.targetId, null);
+    // Coming back does not relock; lock-on never picks for itself
+    assert.equal(targeting.update(16, snapshot(SCHOOL), ORIGIN, true), null);
+
+    targeting.lock('close');
+    assert.equal(targeting.update(16, snapshot([SCHOOL[0], SCHOOL[1]]), ORIGIN, true), null);
+    assert.equal(targeting.targetId, null);
+  });
+
+  it('leaves a fleeing boss alone and values a boss by its jackpot', () => {
+    const boss = {
+      id: 'boss-1',
+      bossId: 'krakenLord',
+      x: 500,
+      y: 300,
+      size: 240,
+      health: 4000,
+      fleeing: false
+    } as BossSnapshot;
+    const targeting = createTargeting({ priority: 'reward' });
+    const command = targeting.update(16, snapshot(SCHOOL, boss), ORIGIN, true);
+    assert.equal(command?.target.id, 'boss-1');
+    assert.equal(command?.target.reward, BOSS_CONFIG.bosses.krakenLord.jackpot);
+
+    assert.equal(targeting.update(16, snapshot(SCHOOL, { ...boss, fleeing: true }), ORIGIN, true)?.target.id, 'rich');
+  });
+
+  it('fires at the chosen rate, counting from the last shot taken', () => {
+    const targeting = createTargeting({ fireRate: 4 });
+    const interval = 1000 / 4;
+
+    // Nothing fired yet, so the first shot is due at once
+    assert.equal(targeting.update(16, snapshot(SCHOOL), ORIGIN, true)?.fire, true);
+    targeting.fired();
+    assert.equal(targeting.update(interval - 1, snapshot(SCHOOL), ORIGIN, true)?.fire, false);
+    assert.equal(targeting.update(1, snapshot(SCHOOL), ORIGIN, true)?.fire, true);
+
+    // Still due until a shot is actually taken
+    assert.equal(targeting.update(16, snapshot(SCHOOL), ORIGIN, true)?.fire, true);
+    targeting.fired();
+    assert.equal(targeting.update(16, snapshot(SCHOOL), ORIGIN, true)?.fire, false);
+
+    assert.equal(targeting.cycleFireRate(), TARGETING_CONFIG.fireRates[TARGETING_CONFIG.fireRates.indexOf(4) + 1]);
+  });
+
+  it('keeps aiming but holds fire while a shot is unaffordable', () => {
+    const targeting = createTargeting();
+    const weapon = WeaponRegistry.get('laser');
+    // The engine's check: the wallet against the selected weapon's cost
+    const state = createGameState({ coins: weapon.cost - 1 });
+    const affordable = () => state.coins >= getShotCost(state, weapon);
+
+    const broke = targeting.update(1000, snapshot(SCHOOL), ORIGIN, affordable());
+    assert.equal(broke?.target.id, 'rich');
+    assert.equal(broke?.fire, false);
+
+    // The shot goes out as soon as the coins are there
+    state.coins++;
+    assert.equal(targeting.update(16, snapshot(SCHOOL), ORIGIN, affordable())?.fire, true);
+  });
+});
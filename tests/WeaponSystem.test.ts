@@ -0,0 +1,223 @@
+/**
+ * WeaponSystem.test.ts
+ *
+ * Fires each weapon into a seeded game: spread fans out, the laser pierces
+ * without hitting a fish twice, torpedoes turn toward fish and explode, nets
+ * take what is inside their radius and ricochets bounce off the table edges.
+ * In probability mode a shot's hits never carry more than its bet.
+ *
+ * @version 1.0.0
+ * @path tests/WeaponSystem.test.ts
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TABLE_CONFIG, WEAPON_CONFIG, WeaponType } from '../app/config/fishConfig';
+import {
+  FishCaughtEvent,
+  FishHitEvent,
+  FishSnapshot,
+  GameSimulation,
+  GameSimulationOptions,
+  ImpactEvent
+} from '../app/lib/GameSimulation';
+import { Vec2 } from '../app/lib/CollisionSystem';
+
+const FRAME_MS = 1000 / 60;
+
+// Every hit rolls, but practically never catches, so fish stay put
+const NEVER_CATCH: GameSimulationOptions = { catchMode: 'probability', catchEconomy: { rtp: 1e-9 } };
+
+function createSimulation(options: GameSimulationOptions = {}): GameSimulation {
+  return new GameSimulation(
+    { x: 0, y: 0, width: TABLE_CONFIG.width, height: TABLE_CONFIG.height },
+    { seed: 'weapon-test', localPlayer: { id: 'local', state: { coins: 100000 } }, ...options }
+  );
+}
+
+/**
+ * Steps until at least `count` fish are on the table
+ */
+function waitForFish(simulation: GameSimulation, count: number = 1): FishSnapshot[] {
+  for (let frame = 0; frame < 60 * 60; frame++) {
+    simulation.step(FRAME_MS);
+    const { fish } = simulation.snapshot();
+    if (fish.length >= count) return fish;
+  }
+  throw new Error(`Fewer than ${count} fish in a minute`);
+}
+
+interface Volley {
+  hits: FishHitEvent[];
+  caught: FishCaughtEvent[];
+  impacts: ImpactEvent[];
+  rotations: number[];  // Of the first shot, every frame it flew
+}
+
+/**
+ * Fires one shot of a weapon (waiting out its cooldown) and steps until
+ * every shot has landed or left the table
+ */
+function fireVolley(simulation: GameSimulation, weapon: WeaponType, aim: Vec2): Volley {
+  simulation.selectWeapon(weapon);
+  let frames = 0;
+  while (!simulation.fire(aim)) {
+    simulation.step(FRAME_MS);
+    assert.ok(++frames < 600, 'the weapon never cooled down');
+  }
+
+  const volley: Volley = { hits: [], caught: [], impacts: [], rotations: [] };
+  const onHit = (event: FishHitEvent) => volley.hits.push(event);
+  const onCaught = (event: FishCaughtEvent) => volley.caught.push(event);
+  const onImpact = (event: ImpactEvent) => volley.impacts.push(event);
+  simulation.on('hit', onHit);
+  simulation.on('caught', onCaught);
+  simulation.on('impact', onImpact);
+
+  const [first] = simulation.snapshot().shots;
+  for (let frame = 0; frame < 60 * 10 && simulation.snapshot().shots.length > 0; frame++) {
+    const shot = simulation.snapshot().shots.find(entry => entry.id === first.id);
+    if (shot) volley.rotations.push(shot.rotation);
+    simulation.step(FRAME_MS);
+  }
+
+  simulation.off('hit', onHit);
+  simulation.off('caught', onCaught);
+  simulation.off('impact', onImpact);
+  return volley;
+}
+
+/**
+ * Signed difference between two angles, in [-PI, PI]
+ */
+function turn(from: number, to: number): number {
+  return Math.atan2(Math.sin(to - from), Math.cos(to - from));
+}
+
+describe('WeaponSystem', () => {
+  it('fans spread pellets evenly around the aim, sharing one bet', () => {
+    const simulation = createSimulation(NEVER_CATCH);
+    const origin = simulation.getPlayer('local')!.origin;
+    const aim = { x: 900, y: 200 };
+    const { projectiles, spreadAngle } = WEAPON_CONFIG.spread;
+
+    simulation.selectWeapon('spread');
+    assert.ok(simulation.fire(aim));
+    const rotations = simulation.snapshot().shots.map(shot => shot.rotation).sort((a, b) => a - b);
+    assert.equal(rotations.length, projectiles);
+
+    const angle = Math.atan2(aim.y - origin.y, aim.x - origin.x);
+    assert.ok(Math.abs(rotations[(projectiles - 1) / 2] - angle) < 1e-9);
+    assert.ok(Math.abs(rotations[projectiles - 1] - rotations[0] - spreadAngle) < 1e-9);
+    rotations.slice(1).forEach((rotation, i) => {
+      assert.ok(Math.abs(rotation - rotations[i] - spreadAngle / (projectiles - 1)) < 1e-9);
+    });
+
+    // However many pellets land, together they wager at most the shot's cost
+    const [fish] = waitForFish(simulation);
+    const before = simulation.getCatchStats().wagered;
+    const { hits } = fireVolley(simulation, 'spread', fish);
+    const wagered = simulation.getCatchStats().wagered - before;
+    assert.ok(hits.length > 0);
+    assert.ok(wagered > 0 && wagered <= WEAPON_CONFIG.spread.cost + 1e-9);
+  });
+
+  it('pierces a laser through several fish, hitting each once, with the bet on the first', () => {
+    const simulation = createSimulation(NEVER_CATCH);
+    waitForFish(simulation, 6);
+
+    let pierced: FishHitEvent[] | null = null;
+    for (let attempt = 0; attempt < 40 && !pierced; attempt++) {
+      const fish = simulation.snapshot().fish;
+      if (fish.length === 0) {
+        simulation.step(FRAME_MS);
+        continue;
+      }
+      const before = simulation.getCatchStats();
+      const { hits } = fireVolley(simulation, 'laser', fish[attempt % fish.length]);
+      const after = simulation.getCatchStats();
+
+      const ids = hits.map(hit => hit.fish.id);
+      assert.equal(new Set(ids).size, ids.length, 'a fish was hit twice by one beam');
+      if (hits.length > 0) {
+        // Only the first hit has any bet left to roll with
+        assert.equal(after.hits - before.hits, 1);
+        assert.ok(Math.abs(after.wagered - before.wagered - WEAPON_CONFIG.laser.cost) < 1e-9);
+      }
+      if (hits.length > 1) pierced = hits;
+    }
+
+    assert.ok(pierced, 'no beam went through two fish');
+  });
+
+  it('turns a torpedo toward the nearest fish at its turn rate and explodes it', () => {
+    const simulation = createSimulation();
+    const [fish] = waitForFish(simulation);
+    const origin = simulation.getPlayer('local')!.origin;
+
+    // Aim well away from the fish so the torpedo has to turn
+    const toFish = Math.atan2(fish.y - origin.y, fish.x - origin.x);
+    const away = toFish + (fish.x < origin.x ? 0.8 : -0.8);
+    const aim = { x: origin.x + Math.cos(away) * 100, y: origin.y + Math.sin(away) * 100 };
+    const { rotations, impacts } = fireVolley(simulation, 'torpedo', aim);
+
+    assert.ok(rotations.length > 1);
+    rotations.slice(1).forEach((rotation, i) => {
+      assert.ok(Math.abs(turn(rotations[i], rotation)) <= WEAPON_CONFIG.torpedo.turnRate + 1e-9);
+    });
+    assert.ok(Math.abs(turn(away, rotations[rotations.length - 1])) > 0.1, 'the torpedo never turned');
+    assert.equal(impacts.length, 1);
+    assert.equal(impacts[0].radius, WEAPON_CONFIG.torpedo.blastRadius);
+  });
+
+  it('opens a net on a fish and catches only what is inside its radius', () => {
+    const simulation = createSimulation();
+    waitForFish(simulation, 4);
+    const origin = simulation.getPlayer('local')!.origin;
+
+    // Nets are slow, so aim at the closest fish and try again on a miss
+    let volley: Volley | null = null;
+    let inNet: FishSnapshot[] = [];
+    for (let attempt = 0; attempt < 20 && !volley; attempt++) {
+      const [target] = simulation.snapshot().fish
+        .filter(entry => entry.x > 0 && entry.x < TABLE_CONFIG.width && entry.y > 0 && entry.y < TABLE_CONFIG.height)
+        .sort((a, b) => Math.hypot(a.x - origin.x, a.y - origin.y) - Math.hypot(b.x - origin.x, b.y - origin.y));
+      if (!target) {
+        waitForFish(simulation);
+        continue;
+      }
+
+      simulation.once('impact', () => {
+        inNet = simulation.snapshot().fish;
+      });
+      const result = fireVolley(simulation, 'net', target);
+      if (result.impacts.length > 0) volley = result;
+      simulation.removeAllListeners('impact');
+    }
+
+    assert.ok(volley, 'no net opened');
+    assert.equal(volley.impacts.length, 1);
+    const [{ point, radius }] = volley.impacts;
+    assert.equal(radius, WEAPON_CONFIG.net.blastRadius);
+    assert.ok(volley.caught.length > 0);
+    assert.ok(volley.hits.every(hit => hit.source === 'net'));
+
+    // A fish's outline reaches at most its 80px body length past its center
+    const reach = (entry: FishSnapshot) => radius + 80 * entry.size;
+    const distance = (entry: FishSnapshot) => Math.hypot(entry.x - point.x, entry.y - point.y);
+    volley.caught.forEach(event => assert.ok(distance(event.fish) <= reach(event.fish)));
+    const caughtIds = new Set(volley.caught.map(event => event.fish.id));
+    inNet.filter(entry => distance(entry) > reach(entry)).forEach(entry => assert.ok(!caughtIds.has(entry.id)));
+  });
+
+  it('bounces a ricochet off the table edges up to its limit, then lets it leave', () => {
+    // Before the first fish arrives, so nothing stops the shot
+    const simulation = createSimulation();
+    const origin = simulation.getPlayer('local')!.origin;
+    const { rotations, hits } = fireVolley(simulation, 'ricochet', { x: origin.x + 400, y: origin.y - 100 });
+
+    assert.equal(hits.length, 0);
+    const bounces = rotations.slice(1).filter((rotation, i) => Math.abs(turn(rotations[i], rotation)) > 1e-9);
+    assert.equal(bounces.length, WEAPON_CONFIG.ricochet.bounces);
+  });
+});